@@ -0,0 +1,123 @@
+/**
+ * Abort site analysis - resolves `abort`, `assert!` and bytecode `Abort`
+ * instructions to their error constants, per function and through the
+ * package functions it calls
+ */
+
+import type { CallGraph, FunctionAbort } from '../types/index.js';
+import { decompileBytecode, isDisassembly } from '../decompiler/bytecode-decompiler.js';
+import {
+  parseMoveFile,
+  parseIntegerLiteral,
+  isTestOnly,
+  type ConstantDecl,
+  type ModuleDecl,
+} from '../parser/index.js';
+import { packageCallees, reachableFunctions } from './call-graph.js';
+
+/** Move 2024 clever abort codes have the top bit set */
+const CLEVER_ERROR_TAG = 1n << 63n;
+
+/**
+ * Find the aborts each package function can hit.
+ * Returns `module::function` -> aborts; aborts of called package functions
+ * are included with `via` when `callGraph` is given.
+ */
+export function findFunctionAborts(
+  sources: Record<string, string>,
+  callGraph?: CallGraph
+): Record<string, FunctionAbort[]> {
+  const direct = new Map<string, FunctionAbort[]>();
+  const parsed: ModuleDecl[] = [];
+
+  for (const source of Object.values(sources)) {
+    if (isDisassembly(source)) {
+      const module = decompileBytecode(source);
+      for (const func of module.functions) {
+        const aborts = func.aborts.map((abort) => ({
+          ...fromAbortCode(abort.code),
+          condition: abort.condition,
+        }));
+        if (aborts.length > 0) direct.set(`${module.moduleName}::${func.name}`, aborts);
+      }
+      continue;
+    }
+    parsed.push(...parseMoveFile(source).modules.filter((module) => !isTestOnly(module)));
+  }
+
+  // Constants by module, so `errors::ENotOwner` resolves across the package
+  const constants = new Map(
+    parsed.map((module) => [module.name, new Map(module.constants.map((c) => [c.name, c]))])
+  );
+  for (const module of parsed) {
+    for (const func of module.functions) {
+      if (isTestOnly(func) || !func.body) continue;
+      const aborts = func.body.aborts.map((abort) => ({
+        ...resolveCode(abort.code, module.name, constants),
+        condition: abort.condition,
+      }));
+      if (aborts.length > 0) direct.set(`${module.name}::${func.name}`, aborts);
+    }
+  }
+
+  const callees = packageCallees(callGraph);
+  const functions = new Set([...direct.keys(), ...callees.keys()]);
+  const result: Record<string, FunctionAbort[]> = {};
+  for (const func of functions) {
+    const seen = new Set<string>();
+    const aborts: FunctionAbort[] = [];
+    const add = (abort: FunctionAbort) => {
+      const key = JSON.stringify(abort);
+      if (!seen.has(key)) {
+        seen.add(key);
+        aborts.push(abort);
+      }
+    };
+
+    for (const abort of direct.get(func) ?? []) add(abort);
+    for (const callee of reachableFunctions(callees, func)) {
+      for (const abort of direct.get(callee) ?? []) add({ ...abort, via: callee });
+    }
+    if (aborts.length > 0) {
+      result[func] = aborts;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolve a source abort code expression: a constant (possibly `module::NAME`) or a literal
+ */
+function resolveCode(
+  expression: string | undefined,
+  moduleName: string,
+  constants: Map<string, Map<string, ConstantDecl>>
+): Pick<FunctionAbort, 'constant' | 'code'> {
+  if (!expression) return {};
+
+  const literal = parseIntegerLiteral(expression);
+  if (literal !== undefined) return { code: Number(literal) };
+
+  const path = expression.split('::');
+  const name = path[path.length - 1];
+  const owner = path.length > 1 ? path[path.length - 2] : moduleName;
+  const constant = constants.get(owner)?.get(name);
+
+  // `#[error]` constants get their abort code from the compiler
+  const isClever = constant?.attributes.some((attr) => attr.name === 'error');
+  if (!constant || isClever || constant.numericValue === undefined) return { constant: name };
+  return { constant: name, code: Number(constant.numericValue) };
+}
+
+/**
+ * Interpret an abort code loaded in bytecode; clever codes carry the source line
+ */
+function fromAbortCode(value: string | undefined): Pick<FunctionAbort, 'code' | 'line'> {
+  const code = value ? parseIntegerLiteral(value) : undefined;
+  if (code === undefined) return {};
+  if (code >= CLEVER_ERROR_TAG) {
+    return { line: Number((code >> 32n) & 0xffffn) };
+  }
+  return { code: Number(code) };
+}
@@ -0,0 +1,350 @@
+/**
+ * Access control analyzer - identifies capability objects and the functions they gate
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type {
+  SuiNormalizedModule,
+  SuiNormalizedFunction,
+  SuiMoveNormalizedType,
+  SuiMoveNormalizedStructType,
+  SuiMoveAbility,
+  AccessControlMap,
+  CapabilityInfo,
+  FunctionAccess,
+  TransitiveCapabilityGate,
+} from '../types/index.js';
+import { decompileBytecode, isDisassembly } from '../decompiler/bytecode-decompiler.js';
+import { parseMoveFile, isTestOnly, type FunctionDecl } from '../parser/index.js';
+
+const FRAMEWORK_ADDRESSES = new Set(['0x1', '0x2', '0x3', '0xb'].map((a) => normalizeSuiAddress(a)));
+
+/**
+ * Capabilities defined by the Sui framework, keyed by `module::Name`
+ */
+const FRAMEWORK_CAPABILITIES: Record<string, string> = {
+  'coin::TreasuryCap': 'Mints and burns a currency',
+  'coin::DenyCap': 'Manages a regulated currency deny list',
+  'coin::DenyCapV2': 'Manages a regulated currency deny list',
+  'package::Publisher': 'Proves the publisher of a package',
+  'package::UpgradeCap': 'Authorizes package upgrades',
+  'transfer_policy::TransferPolicyCap': 'Manages a transfer policy',
+  'kiosk::KioskOwnerCap': 'Owns a kiosk',
+  'token::TokenPolicyCap': 'Manages a token policy',
+};
+
+const CAPABILITY_NAME_PATTERN = /Cap$|Capability$|AdminCap|OwnerCap|Auth$/;
+
+const ABILITY_NAMES: Record<string, SuiMoveAbility> = {
+  copy: 'Copy',
+  drop: 'Drop',
+  store: 'Store',
+  key: 'Key',
+};
+
+interface StructFacts {
+  module: string;
+  name: string;
+  abilities: SuiMoveAbility[];
+  fieldNames: string[];
+}
+
+interface InitFacts {
+  /** Structs packed in `init` */
+  minted: Set<string>;
+  /** Structs shared or frozen in `init` */
+  published: Set<string>;
+}
+
+interface SourceFacts {
+  structs: Map<string, StructFacts>;
+  inits: Map<string, InitFacts>;
+}
+
+/**
+ * Analyze which capabilities gate the public and entry functions of a module.
+ * `sources` (module name -> source or disassembly) tell how objects are created in `init`;
+ * without them capabilities are recognized from abilities, shape and naming alone.
+ */
+export function analyzeAccessControl(
+  module: SuiNormalizedModule,
+  sources: Record<string, string> = {}
+): AccessControlMap {
+  const facts = collectSourceFacts(sources);
+
+  // The ABI is authoritative for the module itself
+  for (const [name, struct] of Object.entries(module.structs)) {
+    facts.structs.set(`${module.name}::${name}`, {
+      module: module.name,
+      name,
+      abilities: struct.abilities.abilities,
+      fieldNames: struct.fields.map((field) => field.name),
+    });
+  }
+
+  const exposed = Object.entries(module.exposedFunctions)
+    .filter(([, func]) => func.visibility === 'Public' || func.isEntry)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const capabilities = new Map<string, CapabilityInfo>();
+  const resolveCapability = (struct: SuiMoveNormalizedStructType): CapabilityInfo | undefined => {
+    const type = `${struct.module}::${struct.name}`;
+    if (!capabilities.has(type)) {
+      const info = FRAMEWORK_ADDRESSES.has(normalizeSuiAddress(struct.address))
+        ? frameworkCapability(struct)
+        : packageCapability(facts, type, module);
+      if (info) capabilities.set(type, info);
+    }
+    return capabilities.get(type);
+  };
+
+  const functions: FunctionAccess[] = exposed.map(([name, func]) => ({
+    function: name,
+    visibility: toVisibility(func),
+    isEntry: func.isEntry,
+    direct: unique(
+      func.parameters
+        .map((param) => asStruct(param))
+        .filter((struct): struct is SuiMoveNormalizedStructType => struct !== undefined)
+        .map((struct) => resolveCapability(struct)?.type)
+        .filter((type): type is string => type !== undefined)
+    ),
+    transitive: [],
+  }));
+
+  propagateGates(module, facts, functions, new Set(capabilities.keys()));
+
+  return {
+    capabilities: [...capabilities.values()].sort((a, b) => a.type.localeCompare(b.type)),
+    functions,
+  };
+}
+
+/**
+ * Values without `key` that only capability-gated functions return act as
+ * permission tokens: functions taking them are gated by the same capability.
+ * Repeats until no new token is found so chains of tokens are followed.
+ */
+function propagateGates(
+  module: SuiNormalizedModule,
+  facts: SourceFacts,
+  functions: FunctionAccess[],
+  capabilityTypes: Set<string>
+): void {
+  const byName = new Map(functions.map((access) => [access.function, access]));
+  const tokens = new Map<string, TransitiveCapabilityGate>();
+
+  const gatesOf = (access: FunctionAccess): string[] => [
+    ...access.direct,
+    ...access.transitive.map((gate) => gate.capability),
+  ];
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [name, struct] of Object.entries(module.structs)) {
+      const type = `${module.name}::${name}`;
+      if (tokens.has(type) || capabilityTypes.has(type) || struct.abilities.abilities.includes('Key')) continue;
+      if (facts.inits.get(module.name)?.minted.has(name)) continue;
+
+      // Producers that already need the value to make it don't count
+      const producers = Object.entries(module.exposedFunctions).filter(([, func]) =>
+        func.visibility === 'Public' &&
+        func.return.some((ret) => isType(ret, module.name, name)) &&
+        !func.parameters.some((param) => isType(param, module.name, name))
+      );
+      if (producers.length === 0) continue;
+
+      const gated = producers.map(([producer]) => ({ producer, gates: gatesOf(byName.get(producer)!) }));
+      if (gated.every((entry) => entry.gates.length > 0)) {
+        tokens.set(type, { capability: gated[0].gates[0], via: type, producer: gated[0].producer });
+        changed = true;
+      }
+    }
+
+    for (const access of functions) {
+      const func = module.exposedFunctions[access.function];
+      for (const param of func.parameters) {
+        const struct = asStruct(param);
+        const token = struct ? tokens.get(`${struct.module}::${struct.name}`) : undefined;
+        if (token && !access.transitive.some((gate) => gate.via === token.via)) {
+          access.transitive.push(token);
+        }
+      }
+    }
+  }
+}
+
+function frameworkCapability(struct: SuiMoveNormalizedStructType): CapabilityInfo | undefined {
+  const type = `${struct.module}::${struct.name}`;
+  const purpose = FRAMEWORK_CAPABILITIES[type];
+  if (!purpose) return undefined;
+
+  return {
+    type,
+    module: struct.module,
+    name: struct.name,
+    abilities: ['Key', 'Store'],
+    isFramework: true,
+    mintedInInit: false,
+    transferable: true,
+    evidence: [`Sui framework capability: ${purpose}`],
+  };
+}
+
+/**
+ * Decide whether a package struct is a capability: a `key` object without
+ * `copy` that is not shared, and is either minted in `init`, named like a
+ * capability, or only carries an id and is never mutated
+ */
+function packageCapability(
+  facts: SourceFacts,
+  type: string,
+  module: SuiNormalizedModule
+): CapabilityInfo | undefined {
+  const struct = facts.structs.get(type);
+  if (!struct) return undefined;
+  if (!struct.abilities.includes('Key') || struct.abilities.includes('Copy')) return undefined;
+
+  const init = facts.inits.get(struct.module);
+  if (init?.published.has(struct.name)) return undefined;
+
+  const evidence: string[] = ['Has key without copy'];
+  const mintedInInit = init?.minted.has(struct.name) ?? false;
+  if (mintedInInit) {
+    evidence.push('Created in init');
+  }
+  if (CAPABILITY_NAME_PATTERN.test(struct.name)) {
+    evidence.push('Named like a capability');
+  }
+  const idOnly = struct.fieldNames.length === 1 && struct.fieldNames[0] === 'id';
+  if (idOnly && isOnlyBorrowed(module, struct)) {
+    evidence.push('Carries only an id and is only taken by immutable reference');
+  }
+
+  if (evidence.length === 1) return undefined;
+
+  return {
+    type,
+    module: struct.module,
+    name: struct.name,
+    abilities: struct.abilities,
+    isFramework: false,
+    mintedInInit,
+    transferable: struct.abilities.includes('Store'),
+    evidence,
+  };
+}
+
+/**
+ * Whether every function parameter of the struct's type is an immutable reference
+ */
+function isOnlyBorrowed(module: SuiNormalizedModule, struct: StructFacts): boolean {
+  const params = Object.values(module.exposedFunctions).flatMap((func) => func.parameters);
+  const uses = params.filter((param) => isType(param, struct.module, struct.name));
+  return uses.length > 0 && uses.every((param) => typeof param === 'object' && 'Reference' in param);
+}
+
+/**
+ * Gather struct shapes and `init` behavior from package sources
+ */
+function collectSourceFacts(sources: Record<string, string>): SourceFacts {
+  const facts: SourceFacts = { structs: new Map(), inits: new Map() };
+
+  for (const source of Object.values(sources)) {
+    if (isDisassembly(source)) {
+      const module = decompileBytecode(source);
+      for (const struct of module.structs) {
+        facts.structs.set(`${module.moduleName}::${struct.name}`, {
+          module: module.moduleName,
+          name: struct.name,
+          abilities: struct.abilities.map((a) => ABILITY_NAMES[a]).filter(Boolean),
+          fieldNames: struct.fields.map((field) => field.name),
+        });
+      }
+      const init = module.functions.find((func) => func.name === 'init');
+      if (init) {
+        facts.inits.set(module.moduleName, initFactsFromBytecode(init.originalBytecode));
+      }
+      continue;
+    }
+
+    for (const module of parseMoveFile(source).modules) {
+      if (isTestOnly(module)) continue;
+      for (const struct of module.structs) {
+        facts.structs.set(`${module.name}::${struct.name}`, {
+          module: module.name,
+          name: struct.name,
+          abilities: struct.abilities.map((a) => ABILITY_NAMES[a]),
+          fieldNames: struct.fields.map((field) => field.name),
+        });
+      }
+      const init = module.functions.find((func) => func.name === 'init');
+      if (init) {
+        facts.inits.set(module.name, initFactsFromSource(init, module.structs.map((s) => s.name)));
+      }
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * `Pack[0](AdminCap)` creates a struct; `Call transfer::share_object<Pool>(Pool)` publishes it
+ */
+function initFactsFromBytecode(bytecode: string): InitFacts {
+  const minted = [...bytecode.matchAll(/\bPack(?:Generic)?(?:\[\d+\])?[(\s]+(\w+)/g)].map((m) => m[1]);
+  const published = [...bytecode.matchAll(/(?:share|freeze)_object<(\w+)/g)].map((m) => m[1]);
+  return { minted: new Set(minted), published: new Set(published) };
+}
+
+/**
+ * Find struct literals in `init` and which of them reach `share_object`/`freeze_object`,
+ * either directly or through a `let` binding
+ */
+function initFactsFromSource(init: FunctionDecl, structNames: string[]): InitFacts {
+  const text = init.body?.text ?? '';
+  const minted = structNames.filter((name) => new RegExp(`\\b${name}\\s*(?:<[^>{}]*>)?\\s*\\{`).test(text));
+
+  const published = new Set<string>();
+  for (const match of text.matchAll(/(?:share|freeze)_object\s*(?:<[^>]*>)?\s*\(\s*(\w+)/g)) {
+    const arg = match[1];
+    if (minted.includes(arg)) {
+      published.add(arg);
+      continue;
+    }
+    const binding = text.match(new RegExp(`let\\s+(?:mut\\s+)?${arg}\\b[^=]*=\\s*(\\w+)\\s*(?:<[^>{}]*>)?\\s*\\{`));
+    if (binding && minted.includes(binding[1])) {
+      published.add(binding[1]);
+    }
+  }
+
+  return { minted: new Set(minted), published };
+}
+
+/**
+ * Struct behind a value or reference parameter
+ */
+function asStruct(type: SuiMoveNormalizedType): SuiMoveNormalizedStructType | undefined {
+  if (typeof type !== 'object') return undefined;
+  if ('Reference' in type) return asStruct(type.Reference);
+  if ('MutableReference' in type) return asStruct(type.MutableReference);
+  if ('Struct' in type) return type.Struct;
+  return undefined;
+}
+
+function isType(type: SuiMoveNormalizedType, module: string, name: string): boolean {
+  const struct = asStruct(type);
+  return struct !== undefined && struct.module === module && struct.name === name;
+}
+
+function toVisibility(func: SuiNormalizedFunction): FunctionAccess['visibility'] {
+  if (func.visibility === 'Public') return 'public';
+  if (func.visibility === 'Friend') return 'friend';
+  return 'private';
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -1,11 +1,12 @@
 /**
  * AI Contract Analyzer
- * Combines Claude analysis with fallback regex patterns for contract understanding
+ * Combines LLM analysis with a parser-based static fallback for contract understanding
  */
 
 import type {
   ContractAnalysis,
   GenericSemantics,
+  GenericMeaning,
   ErrorCodeEntry,
   AIAnalyzedFunction,
   AIAnalyzedType,
@@ -13,10 +14,16 @@ import type {
   ModuleCategory,
   RiskLevel,
 } from '../types/index.js';
-import { extractErrorCodes } from './error-extractor.js';
+import { extractErrorCodes, linkRaisedBy } from './error-extractor.js';
+import { findFunctionAborts } from './abort-sites.js';
+import { buildCallGraph } from './call-graph.js';
+import { parseMoveFile, isTestOnly, typeToString, type MoveFile } from '../parser/index.js';
 import { inferGenericSemantics } from './generic-inference.js';
 import { buildAnalysisPrompt, parseAnalysisResponse, validateAnalysisResponse } from './prompts/analysis.js';
-import { executeCommand, commandExists } from '../server/terminal.js';
+import { createAnalysisCache, hashSource, type AnalysisCache } from './analysis-cache.js';
+import { collectDeclaredFacts, reconcileAnalysis, fact } from './reconcile.js';
+import { getLLMProvider, type LLMProvider } from '../llm/index.js';
+import { resolveCoinSymbols } from '../fetcher/coin-registry.js';
 
 export interface ModuleInfo {
   packageId: string;
@@ -25,12 +32,16 @@ export interface ModuleInfo {
 }
 
 export interface AnalyzerOptions {
-  /** Use Claude for analysis (if available) */
+  /** Use an LLM for analysis (if available) */
   useClaude?: boolean;
-  /** Working directory for Claude CLI */
-  cwd?: string;
-  /** Timeout for Claude in ms */
+  /** LLM provider to use (defaults to the configured provider) */
+  provider?: LLMProvider;
+  /** Timeout for the LLM request in ms */
   timeout?: number;
+  /** Cache for LLM analyses (defaults to the shared disk cache; null disables caching) */
+  cache?: AnalysisCache | null;
+  /** Skip cached analyses and re-run the LLM (the fresh result is still cached) */
+  fresh?: boolean;
 }
 
 /**
@@ -81,43 +92,48 @@ function inferCategoryFromSource(sourceCode: string): ModuleCategory {
 }
 
 /**
- * Extract functions from source code using regex
+ * Extract functions from parsed source
  */
-function extractFunctionsFromSource(sourceCode: string): AIAnalyzedFunction[] {
+function extractFunctionsFromSource(file: MoveFile): AIAnalyzedFunction[] {
   const functions: AIAnalyzedFunction[] = [];
 
-  // Match function declarations: public fun name(...) or public entry fun name(...)
-  const funcPattern = /(public\s+)?(entry\s+)?fun\s+(\w+)/g;
-  let match;
+  for (const fn of file.modules.flatMap((module) => module.functions)) {
+    const name = fn.name;
 
-  while ((match = funcPattern.exec(sourceCode)) !== null) {
-    const isPublic = !!match[1];
-    const isEntry = !!match[2];
-    const name = match[3];
-
-    // Skip internal functions
-    if (!isPublic && !isEntry) continue;
+    // Skip internal functions, macros and test helpers
+    if ((fn.visibility === 'private' && !fn.isEntry) || fn.isMacro || isTestOnly(fn)) continue;
 
     // Infer category from name
     let category: 'admin' | 'user' | 'query' | 'internal' = 'user';
     let risk: RiskLevel = 'low';
+    let evidence = 'no name pattern matched';
 
     if (/^(get|view|is_|has_|check|query)/i.test(name)) {
       category = 'query';
       risk = 'low';
+      evidence = 'query-like name';
     } else if (/^(admin|set_|update_|pause|unpause|withdraw|upgrade)/i.test(name)) {
       category = 'admin';
       risk = 'high';
+      evidence = 'admin-like name';
     } else if (/^(init|new|create)/i.test(name)) {
       category = 'internal';
       risk = 'medium';
+      evidence = 'constructor-like name';
     }
 
+    const kind = fn.isEntry ? 'Entry function' : fn.visibility === 'public' ? 'Public function' : 'Package function';
     functions.push({
       name,
-      purpose: `${isEntry ? 'Entry function' : 'Public function'}: ${name.replace(/_/g, ' ')}`,
+      // Prefer the author's doc comment over a name-derived description
+      purpose: fn.doc ? fn.doc.split('\n')[0] : `${kind}: ${name.replace(/_/g, ' ')}`,
       category,
       risk,
+      provenance: {
+        purpose: fn.doc ? fact('source', ['doc comment']) : fact('regex', ['function name'], 0.3),
+        category: fact('regex', [evidence]),
+        risk: fact('regex', [evidence]),
+      },
     });
   }
 
@@ -125,27 +141,33 @@ function extractFunctionsFromSource(sourceCode: string): AIAnalyzedFunction[] {
 }
 
 /**
- * Extract types/structs from source code using regex
+ * Extract types/structs from parsed source
  */
-function extractTypesFromSource(sourceCode: string): AIAnalyzedType[] {
+function extractTypesFromSource(file: MoveFile): AIAnalyzedType[] {
   const types: AIAnalyzedType[] = [];
 
-  // Match struct declarations
-  const structPattern = /struct\s+(\w+)/g;
-  let match;
-
-  while ((match = structPattern.exec(sourceCode)) !== null) {
-    const name = match[1];
+  for (const struct of file.modules.flatMap((module) => module.structs)) {
+    if (isTestOnly(struct)) continue;
+    const name = struct.name;
 
-    const isCapability = /Cap$|Capability$|Admin|Owner/.test(name);
-    const isSharedObject = /Pool|Registry|Config|State|Store/.test(name);
+    // Only objects (`key`) can be capabilities or shared
+    const isObject = struct.abilities.includes('key');
+    const isCapability = isObject && /Cap$|Capability$|Admin|Owner/.test(name);
+    const isSharedObject = isObject && /Pool|Registry|Config|State|Store/.test(name);
 
     types.push({
       name,
-      purpose: `${isCapability ? 'Capability: ' : isSharedObject ? 'Shared object: ' : 'Type: '}${name}`,
+      purpose: struct.doc
+        ? struct.doc.split('\n')[0]
+        : `${isCapability ? 'Capability: ' : isSharedObject ? 'Shared object: ' : 'Type: '}${name}`,
       isCapability,
       isSharedObject,
-      fields: [],
+      fields: struct.fields.map((field) => ({ name: field.name, purpose: typeToString(field.type) })),
+      provenance: {
+        purpose: struct.doc ? fact('source', ['doc comment']) : fact('regex', ['type name'], 0.3),
+        isCapability: fact('regex', [isObject ? 'key struct named like a capability' : 'not a key struct']),
+        isSharedObject: fact('regex', [isObject ? 'key struct named like shared state' : 'not a key struct']),
+      },
     });
   }
 
@@ -153,14 +175,18 @@ function extractTypesFromSource(sourceCode: string): AIAnalyzedType[] {
 }
 
 /**
- * Analyze contract using regex patterns (fallback)
+ * Analyze contract from its parsed source (fallback)
  */
 function analyzeWithRegex(sourceCode: string, moduleInfo: ModuleInfo): ContractAnalysis {
   const category = inferCategoryFromSource(sourceCode);
-  const functions = extractFunctionsFromSource(sourceCode);
-  const types = extractTypesFromSource(sourceCode);
-  const errorCodes = extractErrorCodes(sourceCode);
-  const generics = inferGenericSemantics(sourceCode, category);
+  const file = parseMoveFile(sourceCode);
+  const functions = extractFunctionsFromSource(file);
+  const types = extractTypesFromSource(file);
+  const errorCodes = linkErrorSites(extractErrorCodes(file), sourceCode, moduleInfo);
+  const generics = inferGenericSemantics(sourceCode, category, moduleInfo.network);
+  generics.provenance = Object.fromEntries(
+    Object.keys(generics.mapping).map((name) => [name, fact('regex', generics.inferredFrom, generics.confidence)])
+  );
 
   // Find admin functions
   const adminFunctions = functions
@@ -199,19 +225,25 @@ function analyzeWithRegex(sourceCode: string, moduleInfo: ModuleInfo): ContractA
 }
 
 /**
- * Analyze contract using Claude CLI
+ * Attach the functions raising each error, found from the module's abort sites
  */
-async function analyzeWithClaude(
+function linkErrorSites(errorCodes: ErrorCodeEntry[], sourceCode: string, moduleInfo: ModuleInfo): ErrorCodeEntry[] {
+  const sources = { [moduleInfo.moduleName]: sourceCode };
+  const aborts = findFunctionAborts(sources, buildCallGraph(moduleInfo.packageId, sources));
+  return linkRaisedBy(errorCodes, aborts, moduleInfo.moduleName);
+}
+
+/**
+ * Analyze contract using the configured LLM provider
+ */
+async function analyzeWithLLM(
   sourceCode: string,
   moduleInfo: ModuleInfo,
-  options: AnalyzerOptions
+  provider: LLMProvider,
+  timeout: number
 ): Promise<ContractAnalysis | null> {
-  const { cwd = process.cwd(), timeout = 120000 } = options;
-
-  // Check if Claude CLI is available
-  const hasClaude = await commandExists('claude');
-  if (!hasClaude) {
-    console.log('[AI Analyzer] Claude CLI not available, using fallback');
+  if (!(await provider.isAvailable())) {
+    console.log(`[AI Analyzer] LLM provider "${provider.name}" not available, using fallback`);
     return null;
   }
 
@@ -223,43 +255,45 @@ async function analyzeWithClaude(
     network: moduleInfo.network,
   });
 
-  // Execute Claude CLI
-  const escapedPrompt = prompt.replace(/'/g, "'\\''");
-  const command = `claude --print '${escapedPrompt}'`;
-
   try {
-    const result = await executeCommand(command, { cwd, timeout });
-
-    if (!result.success) {
-      console.error('[AI Analyzer] Claude execution failed:', result.stderr);
-      return null;
-    }
+    const result = await provider.complete({
+      messages: [{ role: 'user', content: prompt }],
+      timeoutMs: timeout,
+    });
 
     // Parse response
-    const parsed = parseAnalysisResponse(result.stdout);
+    const parsed = parseAnalysisResponse(result.text);
 
     if (!validateAnalysisResponse(parsed)) {
-      console.error('[AI Analyzer] Invalid response format from Claude');
+      console.error(`[AI Analyzer] Invalid response format from ${provider.name}`);
       return null;
     }
 
     const response = parsed as Record<string, unknown>;
 
     // Map response to ContractAnalysis
-    return mapClaudeResponseToAnalysis(response, moduleInfo);
+    const analysis = mapClaudeResponseToAnalysis(response, moduleInfo, `${result.provider}/${result.model}`);
+    analysis.errorCodes = linkErrorSites(analysis.errorCodes, sourceCode, moduleInfo);
+    analysis.analysisProvider = `${result.provider}/${result.model}`;
+    analysis.tokenUsage = result.usage;
+    return analysis;
   } catch (error) {
-    console.error('[AI Analyzer] Error calling Claude:', error);
+    console.error(`[AI Analyzer] Error calling ${provider.name}:`, error instanceof Error ? error.message : error);
     return null;
   }
 }
 
 /**
- * Map Claude response to ContractAnalysis type
+ * Map the LLM response to ContractAnalysis type
  */
 function mapClaudeResponseToAnalysis(
   response: Record<string, unknown>,
-  moduleInfo: ModuleInfo
+  moduleInfo: ModuleInfo,
+  model: string
 ): ContractAnalysis {
+  const llmFact = (...fields: string[]) =>
+    Object.fromEntries(fields.map((field) => [field, fact('llm', [model])]));
+
   const purpose = response.purpose as Record<string, unknown> || {};
   const rawFunctions = (response.functions as unknown[]) || [];
   const rawTypes = (response.types as unknown[]) || [];
@@ -277,6 +311,7 @@ function mapClaudeResponseToAnalysis(
       risk: (func.risk as RiskLevel) || 'low',
       genericUsage: func.genericUsage as Record<string, 'input' | 'output' | 'both'> | undefined,
       example: func.example as string | undefined,
+      provenance: llmFact('purpose', 'category', 'risk'),
     };
   });
 
@@ -295,17 +330,21 @@ function mapClaudeResponseToAnalysis(
           purpose: String(field.purpose || ''),
         };
       }),
+      provenance: llmFact('purpose', 'isCapability', 'isSharedObject'),
     };
   });
 
   // Map generics
-  const genericMapping: Record<string, { name: string; description: string; commonTypes: string[] }> = {};
+  const genericMapping: Record<string, GenericMeaning> = {};
   for (const [key, value] of Object.entries(rawGenerics)) {
     const g = value as Record<string, unknown>;
+    const commonTypes = Array.isArray(g.commonTypes) ? g.commonTypes.map(String) : [];
+    const coinTypes = resolveCoinSymbols(commonTypes, moduleInfo.network);
     genericMapping[key] = {
       name: String(g.name || key),
       description: String(g.description || ''),
-      commonTypes: Array.isArray(g.commonTypes) ? g.commonTypes.map(String) : [],
+      commonTypes,
+      ...(coinTypes.length > 0 ? { coinTypes } : {}),
     };
   }
 
@@ -313,6 +352,7 @@ function mapClaudeResponseToAnalysis(
     mapping: genericMapping,
     confidence: 0.9,
     inferredFrom: ['claude-analysis'],
+    provenance: llmFact(...Object.keys(genericMapping)),
   };
 
   // Map error codes
@@ -325,6 +365,7 @@ function mapClaudeResponseToAnalysis(
       possibleCauses: Array.isArray(error.possibleCauses) ? error.possibleCauses.map(String) : [],
       solutions: Array.isArray(error.solutions) ? error.solutions.map(String) : [],
       category: (error.category as ErrorCodeEntry['category']) || 'other',
+      provenance: llmFact('code', 'description', 'category'),
     };
   });
 
@@ -368,34 +409,68 @@ export class AIContractAnalyzer {
   }
 
   /**
-   * Analyze contract with Claude, fallback to regex
+   * Analyze contract with the LLM provider, fallback to regex
    */
   async analyzeContract(sourceCode: string, moduleInfo: ModuleInfo): Promise<ContractAnalysis> {
     if (!sourceCode || sourceCode.trim().length === 0) {
       return createEmptyAnalysis(moduleInfo);
     }
 
-    // Try Claude first if enabled
+    const regexResult = analyzeWithRegex(sourceCode, moduleInfo);
+    const facts = collectDeclaredFacts(sourceCode);
+
+    // Try the LLM first if enabled, checking it against the declarations and regex analysis
     if (this.options.useClaude) {
-      const claudeResult = await analyzeWithClaude(sourceCode, moduleInfo, this.options);
-      if (claudeResult) {
-        return claudeResult;
+      const llmResult = await this.analyzeWithCache(sourceCode, moduleInfo);
+      if (llmResult) {
+        return reconcileAnalysis(llmResult, regexResult, facts);
       }
     }
 
     // Fallback to regex analysis
     console.log('[AI Analyzer] Using regex fallback analysis');
-    return analyzeWithRegex(sourceCode, moduleInfo);
+    return reconcileAnalysis(null, regexResult, facts);
+  }
+
+  /**
+   * Serve the LLM analysis from the cache, or run it and cache the result
+   */
+  private async analyzeWithCache(sourceCode: string, moduleInfo: ModuleInfo): Promise<ContractAnalysis | null> {
+    const { provider = getLLMProvider(), timeout = 120000, fresh = false } = this.options;
+    const cache = this.options.cache === undefined ? createAnalysisCache() : this.options.cache;
+    const key = {
+      ...moduleInfo,
+      sourceHash: hashSource(sourceCode),
+      provider: provider.name,
+      model: provider.model,
+    };
+
+    if (cache && !fresh) {
+      const cached = await cache.get(key);
+      if (cached) {
+        console.log(`[AI Analyzer] Using cached analysis from ${cached.cachedAt}`);
+        return cached;
+      }
+    }
+
+    const analysis = await analyzeWithLLM(sourceCode, moduleInfo, provider, timeout);
+    if (analysis) {
+      analysis.sourceHash = key.sourceHash;
+      if (cache) {
+        await cache.set(key, analysis);
+      }
+    }
+    return analysis;
   }
 
   /**
-   * Quick analysis using only regex (no Claude)
+   * Quick analysis using only regex (no LLM)
    */
   analyzeWithPattern(sourceCode: string, moduleInfo: ModuleInfo): ContractAnalysis {
     if (!sourceCode || sourceCode.trim().length === 0) {
       return createEmptyAnalysis(moduleInfo);
     }
-    return analyzeWithRegex(sourceCode, moduleInfo);
+    return reconcileAnalysis(null, analyzeWithRegex(sourceCode, moduleInfo), collectDeclaredFacts(sourceCode));
   }
 }
 
@@ -0,0 +1,120 @@
+/**
+ * Persistent cache for LLM contract analyses
+ *
+ * Entries are keyed by (source hash, prompt version, provider, model) only, so
+ * identical source is analyzed once per model whatever package or network it is
+ * published under, and bumping ANALYSIS_PROMPT_VERSION makes every older entry
+ * miss. A per-module index records the entries a module used, for `invalidate`;
+ * stale-version entries of a module are dropped on write.
+ */
+
+import { createHash } from 'crypto';
+import type { ContractAnalysis } from '../types/index.js';
+import { getDiskCache, type DiskCache, type DiskCacheKey } from '../fetcher/disk-cache.js';
+import { ANALYSIS_PROMPT_VERSION } from './prompts/analysis.js';
+
+export interface AnalysisCacheKey {
+  packageId: string;
+  moduleName: string;
+  network?: string;
+  /** SHA-256 of the analyzed source */
+  sourceHash: string;
+  /** LLM provider that produced the analysis */
+  provider: string;
+  /** Model of the provider */
+  model: string;
+}
+
+type ModuleRef = Pick<AnalysisCacheKey, 'packageId' | 'moduleName' | 'network'>;
+
+// Analyses are shared across packages and networks, so they live outside any package
+const SHARED_SCOPE = { network: 'any', packageId: 'analyses' };
+
+export class AnalysisCache {
+  private cache: DiskCache;
+
+  constructor(cache: DiskCache) {
+    this.cache = cache;
+  }
+
+  /**
+   * Get a cached analysis for this source and model under the current prompt version
+   */
+  async get(key: AnalysisCacheKey): Promise<ContractAnalysis | undefined> {
+    const entry = await this.cache.get<ContractAnalysis & { promptVersion?: number }>(this.toDiskKey(key));
+    if (!entry || entry.promptVersion !== ANALYSIS_PROMPT_VERSION || entry.sourceHash !== key.sourceHash) {
+      return undefined;
+    }
+    const { promptVersion: _promptVersion, ...analysis } = entry;
+    return analysis;
+  }
+
+  /**
+   * Store an analysis, record it in the module's index and drop the module's
+   * entries from older prompt versions
+   */
+  async set(key: AnalysisCacheKey, analysis: ContractAnalysis): Promise<void> {
+    const diskKey = this.toDiskKey(key);
+    await this.cache.set(diskKey, {
+      ...analysis,
+      cachedAt: new Date().toISOString(),
+      promptVersion: ANALYSIS_PROMPT_VERSION,
+    });
+
+    const current = `p${ANALYSIS_PROMPT_VERSION}.`;
+    const names = await this.readIndex(key);
+    for (const name of names.filter((n) => !n.startsWith(current))) {
+      await this.cache.delete({ ...SHARED_SCOPE, kind: 'analysis', name });
+    }
+    const kept = names.filter((n) => n.startsWith(current) && n !== diskKey.name);
+    await this.cache.set(this.toIndexKey(key), [...kept, diskKey.name]);
+  }
+
+  /**
+   * Remove every cached analysis a module used (all models and prompt versions)
+   */
+  async invalidate(key: ModuleRef): Promise<number> {
+    const names = await this.readIndex(key);
+    for (const name of names) {
+      await this.cache.delete({ ...SHARED_SCOPE, kind: 'analysis', name });
+    }
+    await this.cache.delete(this.toIndexKey(key));
+    return names.length;
+  }
+
+  private async readIndex(key: ModuleRef): Promise<string[]> {
+    return (await this.cache.get<string[]>(this.toIndexKey(key))) ?? [];
+  }
+
+  private toIndexKey(key: ModuleRef): DiskCacheKey {
+    return {
+      network: key.network ?? 'mainnet',
+      packageId: key.packageId,
+      kind: 'analysis',
+      name: key.moduleName,
+    };
+  }
+
+  private toDiskKey(key: AnalysisCacheKey): DiskCacheKey {
+    const model = `${key.provider}.${key.model}`.replace(/[^\w.-]/g, '_');
+    return {
+      ...SHARED_SCOPE,
+      kind: 'analysis',
+      name: `p${ANALYSIS_PROMPT_VERSION}.${model}.${key.sourceHash.slice(0, 32)}`,
+    };
+  }
+}
+
+/**
+ * SHA-256 of source code, ignoring line-ending differences
+ */
+export function hashSource(sourceCode: string): string {
+  return createHash('sha256').update(sourceCode.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Create an analysis cache over the shared disk cache, or null when caching is disabled
+ */
+export function createAnalysisCache(cache: DiskCache | null = getDiskCache()): AnalysisCache | null {
+  return cache ? new AnalysisCache(cache) : null;
+}
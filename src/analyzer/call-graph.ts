@@ -0,0 +1,554 @@
+/**
+ * Call graph builder - links package functions to their callees
+ * Works from disassembled bytecode (`Call` instructions) or from Move source.
+ */
+
+import type {
+  CallGraph,
+  CallGraphNode,
+  CallGraphEdge,
+  CallEdgeKind,
+  EntryReachability,
+} from '../types/index.js';
+import { decompileBytecode, isDisassembly } from '../decompiler/bytecode-decompiler.js';
+import { parseMoveFile, isTestOnly, type FunctionDecl, type ModuleDecl, type StructDecl, type TypeNode } from '../parser/index.js';
+import { argumentType } from './source-scan.js';
+
+/** Framework packages and the named addresses they are known by */
+const FRAMEWORK_ADDRESSES: Record<string, string> = {
+  '0x1': 'std',
+  '0x2': 'sui',
+  '0x3': 'sui_system',
+  '0xb': 'bridge',
+};
+
+/** Modules every Sui Move module can call without a `use` */
+const IMPLICIT_MODULES: Record<string, string> = {
+  vector: '0x1',
+  option: '0x1',
+  object: '0x2',
+  transfer: '0x2',
+  tx_context: '0x2',
+};
+
+/** Types every Sui Move module can name without a `use`, and their modules */
+const IMPLICIT_TYPES: Record<string, { address: string; module: string }> = {
+  vector: { address: '0x1', module: 'vector' },
+  Option: { address: '0x1', module: 'option' },
+  UID: { address: '0x2', module: 'object' },
+  ID: { address: '0x2', module: 'object' },
+  TxContext: { address: '0x2', module: 'tx_context' },
+};
+
+/**
+ * Framework functions that move funds, hand out objects or change package state
+ */
+const SENSITIVE_FUNCTIONS: Record<string, string> = {
+  'transfer::transfer': 'Transfers an object',
+  'transfer::public_transfer': 'Transfers an object',
+  'transfer::share_object': 'Shares an object',
+  'transfer::public_share_object': 'Shares an object',
+  'transfer::freeze_object': 'Freezes an object',
+  'transfer::public_freeze_object': 'Freezes an object',
+  'coin::mint': 'Mints coins',
+  'coin::mint_and_transfer': 'Mints coins',
+  'coin::mint_balance': 'Mints coins',
+  'coin::burn': 'Burns coins',
+  'coin::take': 'Withdraws from a balance',
+  'coin::from_balance': 'Withdraws from a balance',
+  'balance::split': 'Withdraws from a balance',
+  'balance::withdraw_all': 'Withdraws from a balance',
+  'balance::increase_supply': 'Mints balance',
+  'balance::decrease_supply': 'Burns balance',
+  'dynamic_field::remove': 'Removes stored data',
+  'dynamic_object_field::remove': 'Removes a stored object',
+  'object::delete': 'Deletes an object',
+  'package::authorize_upgrade': 'Authorizes a package upgrade',
+  'package::make_immutable': 'Makes the package immutable',
+};
+
+export interface CallGraphRenderOptions {
+  /** Only render calls made by this module's functions */
+  module?: string;
+  /** Render calls into other packages and the framework (default: true) */
+  includeExternal?: boolean;
+}
+
+interface FunctionRef {
+  address: string;
+  module: string;
+  function: string;
+}
+
+type ModuleRef = Omit<FunctionRef, 'function'>;
+
+/**
+ * Collects nodes and de-duplicated edges while sources are walked
+ */
+class CallGraphBuilder {
+  private nodes = new Map<string, CallGraphNode>();
+  private edges = new Map<string, CallGraphEdge>();
+
+  constructor(private packageId: string) {}
+
+  /**
+   * Register a function declared in the package
+   */
+  declare(ref: FunctionRef, visibility: CallGraphNode['visibility'], isEntry: boolean): string {
+    const node = this.node(ref);
+    node.isPackageFunction = true;
+    node.visibility = visibility;
+    node.isEntry = isEntry;
+    return node.id;
+  }
+
+  /**
+   * Record a call from a package function
+   */
+  call(from: string, target: FunctionRef): void {
+    const to = this.node(target).id;
+    const key = `${from}->${to}`;
+    const existing = this.edges.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    this.edges.set(key, { from, to, kind: this.edgeKind(target.address), count: 1 });
+  }
+
+  /**
+   * Finish the graph and compute entry point reachability
+   */
+  build(): CallGraph {
+    const nodes = [...this.nodes.values()].sort((a, b) => a.id.localeCompare(b.id));
+    const edges = [...this.edges.values()];
+    return {
+      packageId: this.packageId,
+      nodes,
+      edges,
+      reachability: computeReachability(nodes, edges),
+    };
+  }
+
+  private node(ref: FunctionRef): CallGraphNode {
+    const id = `${ref.address}::${ref.module}::${ref.function}`;
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = {
+        id,
+        address: ref.address,
+        module: ref.module,
+        function: ref.function,
+        isPackageFunction: false,
+        isEntry: false,
+      };
+      if (FRAMEWORK_ADDRESSES[ref.address]) {
+        node.sensitive = SENSITIVE_FUNCTIONS[`${ref.module}::${ref.function}`];
+      }
+      this.nodes.set(id, node);
+    }
+    return node;
+  }
+
+  private edgeKind(address: string): CallEdgeKind {
+    if (address === this.packageId) return 'intra-package';
+    if (FRAMEWORK_ADDRESSES[address]) return 'framework';
+    return 'cross-package';
+  }
+}
+
+/**
+ * Build the call graph of a package from its module sources (module name -> source).
+ * Sources may be disassembled bytecode or Move source; both can be mixed.
+ */
+export function buildCallGraph(packageId: string, sources: Record<string, string>): CallGraph {
+  const normalizedId = shortAddress(packageId);
+  const builder = new CallGraphBuilder(normalizedId);
+
+  const disassembled: string[] = [];
+  const parsed: ModuleDecl[] = [];
+  for (const source of Object.values(sources)) {
+    if (isDisassembly(source)) {
+      disassembled.push(source);
+    } else {
+      parsed.push(...parseMoveFile(source).modules.filter((module) => !isTestOnly(module)));
+    }
+  }
+
+  addDisassembledModules(builder, normalizedId, disassembled);
+  addSourceModules(builder, normalizedId, parsed);
+
+  return builder.build();
+}
+
+function addDisassembledModules(builder: CallGraphBuilder, packageId: string, sources: string[]): void {
+  const modules = sources.map((source) => decompileBytecode(source));
+
+  // Modules address themselves by the original package ID, which differs from
+  // the package ID after an upgrade
+  const ownAddresses = new Set(modules.map((module) => shortAddress(module.address)));
+  const resolve = (address: string) => {
+    const short = shortAddress(address);
+    return ownAddresses.has(short) ? packageId : short;
+  };
+
+  for (const module of modules) {
+    for (const func of module.functions) {
+      const from = builder.declare(
+        { address: packageId, module: module.moduleName, function: func.name },
+        toVisibility(func.visibility.split(' ')),
+        func.isEntry
+      );
+      for (const call of func.calls) {
+        builder.call(from, { address: resolve(call.address), module: call.module, function: call.function });
+      }
+    }
+  }
+}
+
+function addSourceModules(builder: CallGraphBuilder, packageId: string, modules: ModuleDecl[]): void {
+  // Named addresses the package declares its own modules under
+  const ownAddresses = new Set(modules.map((module) => module.address));
+  const packageModules = new Set(modules.map((module) => module.name));
+  const packageStructs = new Map<string, StructDecl>();
+  for (const module of modules) {
+    for (const struct of module.structs) {
+      packageStructs.set(`${module.name}::${struct.name}`, struct);
+    }
+  }
+  const resolve = (address: string) => {
+    if (ownAddresses.has(address)) return packageId;
+    const known = Object.entries(FRAMEWORK_ADDRESSES).find(([, name]) => name === address);
+    if (known) return known[0];
+    return /^0x[0-9a-fA-F]+$/.test(address) ? shortAddress(address) : address;
+  };
+
+  for (const module of modules) {
+    const moduleAliases = new Map<string, ModuleRef>();
+    const functionAliases = new Map<string, FunctionRef>();
+
+    for (const [alias, address] of Object.entries(IMPLICIT_MODULES)) {
+      moduleAliases.set(alias, { address, module: alias });
+    }
+    for (const use of module.uses) {
+      for (const member of use.members) {
+        const address = resolve(use.address);
+        if (member.member) {
+          functionAliases.set(member.alias, { address, module: member.module, function: member.member });
+        } else {
+          moduleAliases.set(member.alias, { address, module: member.module });
+        }
+      }
+    }
+
+    const declared = new Set(module.functions.map((func) => func.name));
+    const self = (name: string): FunctionRef => ({ address: packageId, module: module.name, function: name });
+
+    // `use fun path as Type.method` aliases, keyed by `Type.method`
+    const methodAliases = new Map<string, string[]>();
+    for (const useFun of module.useFuns) {
+      methodAliases.set(`${useFun.type.split('::').pop()}.${useFun.method}`, useFun.path);
+    }
+    const methodAlias = (type: string | undefined, method: string) =>
+      type
+        ? methodAliases.get(`${type}.${method}`)
+        : [...methodAliases].find(([key]) => key.endsWith(`.${method}`))?.[1];
+
+    const resolvePath = (path: string[]): FunctionRef | undefined => {
+      if (path.length === 1) {
+        if (declared.has(path[0])) return self(path[0]);
+        return functionAliases.get(path[0]);
+      }
+      if (path.length === 2) {
+        const [alias, name] = path;
+        if (alias === 'Self') return self(name);
+        const target = moduleAliases.get(alias);
+        if (target) return { ...target, function: name };
+        if (packageModules.has(alias)) return { address: packageId, module: alias, function: name };
+        return undefined;
+      }
+      if (path.length === 3) {
+        return { address: resolve(path[0]), module: path[1], function: path[2] };
+      }
+      return undefined;
+    };
+
+    // Module declaring a type as written in this module: `Coin`, `coin::Coin` or `sui::coin::Coin`
+    const typeModule = (path: string[]): ModuleRef | undefined => {
+      if (path.length === 1) {
+        const [name] = path;
+        if (module.structs.some((struct) => struct.name === name)) return { address: packageId, module: module.name };
+        const imported = functionAliases.get(name);
+        if (imported) return { address: imported.address, module: imported.module };
+        return IMPLICIT_TYPES[name];
+      }
+      const target = resolvePath(path);
+      return target && { address: target.address, module: target.module };
+    };
+
+    // Type of a receiver chain: a parameter or `let` binding, then package struct fields
+    const receiverType = (func: FunctionDecl, receiver: string[]): { path: string[]; module: ModuleRef } | undefined => {
+      const param = func.params.find((p) => p.name === receiver[0]);
+      let path = param ? typePath(param.type) : undefined;
+      if (!param) {
+        const bound = argumentType(func, receiver[0], module.structs.map((struct) => struct.name));
+        path = bound ? [bound] : undefined;
+      }
+
+      for (const field of receiver.slice(1)) {
+        const owner = path && typeModule(path);
+        if (!path || owner?.address !== packageId) return undefined;
+        const struct = packageStructs.get(`${owner.module}::${path[path.length - 1]}`);
+        const type = struct?.fields.find((f) => f.name === field)?.type;
+        path = type && typePath(type);
+      }
+
+      const owner = path && typeModule(path);
+      return path && owner && { path, module: owner };
+    };
+
+    for (const func of module.functions) {
+      if (isTestOnly(func)) continue;
+
+      const from = builder.declare(self(func.name), toVisibility([func.visibility]), func.isEntry);
+      for (const call of func.body?.calls ?? []) {
+        if (call.isMacro) continue;
+
+        let target: FunctionRef | undefined;
+        if (call.isMethod) {
+          // `x.f()` calls `f` of the module declaring x's type, unless a `use fun` says otherwise
+          const [method] = call.path;
+          const receiver = call.receiver && receiverType(func, call.receiver);
+          const alias = methodAlias(receiver?.path[receiver.path.length - 1], method);
+          target = alias
+            ? resolvePath(alias)
+            : receiver
+              ? { ...receiver.module, function: method }
+              : declared.has(method) ? self(method) : undefined;
+        } else {
+          target = resolvePath(call.path);
+        }
+        if (target) {
+          builder.call(from, target);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Path of a (possibly referenced) named type, e.g. ['coin', 'Coin'] for `&mut coin::Coin<T>`
+ */
+function typePath(type: TypeNode): string[] | undefined {
+  if (type.kind === 'ref') return typePath(type.inner);
+  return type.kind === 'path' ? type.path : undefined;
+}
+
+/**
+ * Map disassembler modifiers or parser visibility to the analyzed visibility
+ */
+function toVisibility(modifiers: string[]): CallGraphNode['visibility'] {
+  if (modifiers.includes('public')) return 'public';
+  if (modifiers.some((m) => m.startsWith('public(') || m === 'friend' || m === 'package')) return 'friend';
+  return 'private';
+}
+
+/**
+ * For every entry or public package function, collect the internals and
+ * sensitive functions it can reach
+ */
+function computeReachability(nodes: CallGraphNode[], edges: CallGraphEdge[]): EntryReachability[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const callees = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = callees.get(edge.from) ?? [];
+    list.push(edge.to);
+    callees.set(edge.from, list);
+  }
+
+  const results: EntryReachability[] = [];
+  for (const entry of nodes) {
+    if (!entry.isPackageFunction || (!entry.isEntry && entry.visibility !== 'public')) continue;
+
+    const visited = new Set<string>([entry.id]);
+    const queue = [entry.id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of callees.get(current) ?? []) {
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    visited.delete(entry.id);
+
+    const reached = [...visited].map((id) => byId.get(id)!);
+    results.push({
+      entry: entry.id,
+      internals: reached.filter((n) => n.isPackageFunction && n.visibility !== 'public').map((n) => n.id).sort(),
+      sensitive: reached.filter((n) => n.sensitive).map((n) => n.id).sort(),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Package functions each package function calls, keyed by `module::function`
+ */
+export function packageCallees(graph: CallGraph | undefined): Map<string, string[]> {
+  const callees = new Map<string, string[]>();
+  if (!graph) return callees;
+
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  for (const edge of graph.edges) {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    if (!from?.isPackageFunction || !to?.isPackageFunction) continue;
+    const key = `${from.module}::${from.function}`;
+    callees.set(key, [...(callees.get(key) ?? []), `${to.module}::${to.function}`]);
+  }
+  return callees;
+}
+
+/**
+ * `module::function` names reachable from `start` through `packageCallees`,
+ * nearest first and excluding `start` itself
+ */
+export function reachableFunctions(callees: Map<string, string[]>, start: string): string[] {
+  const visited = new Set<string>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of callees.get(current) ?? []) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  visited.delete(start);
+  return [...visited];
+}
+
+/**
+ * Short form of an address: `0x` prefix, lowercase, no leading zeros
+ */
+function shortAddress(address: string): string {
+  const hex = address.toLowerCase().replace(/^0x/, '').replace(/^0+/, '');
+  return `0x${hex || '0'}`;
+}
+
+/**
+ * Human-readable node name: `module::function` inside the package,
+ * prefixed with the framework name or an abbreviated address otherwise
+ */
+export function callGraphNodeLabel(node: CallGraphNode): string {
+  if (node.isPackageFunction) {
+    return `${node.module}::${node.function}`;
+  }
+  const address = FRAMEWORK_ADDRESSES[node.address]
+    ?? (node.address.length > 10 ? `${node.address.slice(0, 8)}…` : node.address);
+  return `${address}::${node.module}::${node.function}`;
+}
+
+/**
+ * Nodes and edges selected by the render options
+ */
+function selectSubgraph(
+  graph: CallGraph,
+  options: CallGraphRenderOptions
+): { nodes: CallGraphNode[]; edges: CallGraphEdge[] } {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const includeExternal = options.includeExternal ?? true;
+
+  const edges = graph.edges.filter((edge) => {
+    const from = byId.get(edge.from)!;
+    const to = byId.get(edge.to)!;
+    if (options.module && from.module !== options.module) return false;
+    return includeExternal || to.isPackageFunction;
+  });
+
+  const ids = new Set(edges.flatMap((edge) => [edge.from, edge.to]));
+  for (const node of graph.nodes) {
+    if (node.isPackageFunction && (!options.module || node.module === options.module)) {
+      ids.add(node.id);
+    }
+  }
+
+  return { nodes: graph.nodes.filter((node) => ids.has(node.id)), edges };
+}
+
+/**
+ * Render a call graph as a Mermaid flowchart
+ */
+export function callGraphToMermaid(graph: CallGraph, options: CallGraphRenderOptions = {}): string {
+  const { nodes, edges } = selectSubgraph(graph, options);
+  const keys = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines = ['graph LR'];
+
+  for (const node of nodes) {
+    const label = callGraphNodeLabel(node).replace(/"/g, '#quot;');
+    lines.push(`    ${keys.get(node.id)}["${label}"]`);
+  }
+  for (const edge of edges) {
+    const label = edge.count > 1 ? `|${edge.count}x|` : '';
+    lines.push(`    ${keys.get(edge.from)} -->${label} ${keys.get(edge.to)}`);
+  }
+
+  const classes: Array<[string, (node: CallGraphNode) => boolean]> = [
+    ['entry', (node) => node.isEntry],
+    ['sensitive', (node) => Boolean(node.sensitive)],
+    ['external', (node) => !node.isPackageFunction && !node.sensitive],
+  ];
+  lines.push('    classDef entry fill:#dbeafe,stroke:#2563eb');
+  lines.push('    classDef sensitive fill:#fee2e2,stroke:#dc2626');
+  lines.push('    classDef external stroke-dasharray:3 3');
+  for (const [name, matches] of classes) {
+    const members = nodes.filter(matches).map((node) => keys.get(node.id));
+    if (members.length > 0) {
+      lines.push(`    class ${members.join(',')} ${name}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a call graph in Graphviz DOT, clustering package functions by module
+ */
+export function callGraphToDot(graph: CallGraph, options: CallGraphRenderOptions = {}): string {
+  const { nodes, edges } = selectSubgraph(graph, options);
+  const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+  const nodeLine = (node: CallGraphNode) => {
+    const attrs = [`label=${quote(callGraphNodeLabel(node))}`];
+    if (node.isEntry) attrs.push('style=bold');
+    if (!node.isPackageFunction) attrs.push('style=dashed');
+    if (node.sensitive) attrs.push('color=red', `tooltip=${quote(node.sensitive)}`);
+    return `${quote(node.id)} [${attrs.join(', ')}];`;
+  };
+
+  const lines = ['digraph call_graph {', '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];'];
+
+  const modules = [...new Set(nodes.filter((n) => n.isPackageFunction).map((n) => n.module))];
+  for (const module of modules) {
+    lines.push(`  subgraph ${quote(`cluster_${module}`)} {`);
+    lines.push(`    label=${quote(module)};`);
+    for (const node of nodes.filter((n) => n.isPackageFunction && n.module === module)) {
+      lines.push(`    ${nodeLine(node)}`);
+    }
+    lines.push('  }');
+  }
+  for (const node of nodes.filter((n) => !n.isPackageFunction)) {
+    lines.push(`  ${nodeLine(node)}`);
+  }
+
+  for (const edge of edges) {
+    const attrs = edge.count > 1 ? ` [label="${edge.count}"]` : '';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attrs};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,364 @@
+/**
+ * Package dependency graph - resolves the packages a package uses, level by level
+ * to a configurable depth, with the versions pinned in each package's linkage table
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { Network, SuiNormalizedModule, SuiMoveNormalizedType } from '../types/index.js';
+import type {
+  DependencyEdge,
+  DependencyNode,
+  ExternalTypeRequirement,
+  PackageDependencyGraph,
+} from '../types/skill.js';
+import { SuiClientWrapper, createSuiClient, type PackageLinkage } from '../fetcher/sui-client.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { buildCallGraph } from './call-graph.js';
+import { inferOwnership } from './ownership.js';
+
+/** Packages that are not fetched unless asked for: std, sui and sui_system */
+export const DEFAULT_SKIPPED_PACKAGES = ['0x1', '0x2', '0x3'].map((a) => normalizeSuiAddress(a));
+
+const FRAMEWORK_PACKAGES = new Set([...DEFAULT_SKIPPED_PACKAGES, normalizeSuiAddress('0xb')]);
+
+export interface DependencyResolverOptions {
+  /** Levels of dependencies to fetch (1 = direct dependencies only) */
+  maxDepth?: number;
+  /** Packages to leave unresolved (defaults to 0x1, 0x2 and 0x3) */
+  skip?: string[];
+  /** Packages fetched in parallel per level */
+  concurrency?: number;
+}
+
+/** The package resolution starts from */
+export interface DependencyRoot {
+  packageId: string;
+  modules: SuiNormalizedModule[];
+  /** Module name -> source or disassembly, for calls into other packages */
+  sources?: Record<string, string>;
+}
+
+interface ResolvedPackage {
+  packageId: string;
+  depth: number;
+  modules: SuiNormalizedModule[];
+  sources?: Record<string, string>;
+  linkage?: PackageLinkage;
+}
+
+interface PackageReferences {
+  types: Set<string>;
+  calls: Set<string>;
+}
+
+/**
+ * Dependency resolver class
+ */
+export class DependencyResolver {
+  private client: SuiClientWrapper;
+  private maxDepth: number;
+  private skip: Set<string>;
+  private concurrency: number;
+
+  constructor(client: SuiClientWrapper, options: DependencyResolverOptions = {}) {
+    this.client = client;
+    this.maxDepth = options.maxDepth ?? 1;
+    this.skip = new Set((options.skip ?? DEFAULT_SKIPPED_PACKAGES).map((a) => normalizeSuiAddress(a)));
+    this.concurrency = options.concurrency ?? 4;
+  }
+
+  /**
+   * Resolve the dependencies of a package. Packages that cannot be fetched are
+   * kept in the graph as `failed`; packages past the depth limit as `depth-limit`.
+   */
+  async resolve(root: DependencyRoot): Promise<PackageDependencyGraph> {
+    const rootId = normalizeSuiAddress(root.packageId);
+    const nodes = new Map<string, DependencyNode>([
+      [rootId, { packageId: rootId, depth: 0, isFramework: false, status: 'root', modules: root.modules.map((m) => m.name) }],
+    ]);
+    const edges: DependencyEdge[] = [];
+    const resolved = new Map<string, ResolvedPackage>();
+
+    // Unpublished (local) packages have no linkage table
+    const rootLinkage = await this.client.getPackageLinkage(root.packageId).catch(() => undefined);
+    let level: ResolvedPackage[] = [
+      { packageId: rootId, depth: 0, modules: root.modules, sources: root.sources, linkage: rootLinkage },
+    ];
+
+    while (level.length > 0) {
+      const next: Array<{ packageId: string; linkedId: string; depth: number }> = [];
+
+      for (const pkg of level) {
+        resolved.set(pkg.packageId, pkg);
+        for (const [to, refs] of collectPackageReferences(pkg.packageId, pkg.modules, pkg.sources)) {
+          const pin = pkg.linkage?.dependencies[to];
+          edges.push({
+            from: pkg.packageId,
+            to,
+            version: pin?.version,
+            linkedId: pin && pin.upgradedId !== to ? pin.upgradedId : undefined,
+            types: [...refs.types].sort(),
+            calls: [...refs.calls].sort(),
+          });
+
+          if (nodes.has(to)) continue;
+          const depth = pkg.depth + 1;
+          const status = this.skip.has(to) ? 'skipped' : depth > this.maxDepth ? 'depth-limit' : 'resolved';
+          nodes.set(to, { packageId: to, depth, isFramework: FRAMEWORK_PACKAGES.has(to), status, modules: [] });
+          if (status === 'resolved') {
+            next.push({ packageId: to, linkedId: pin?.upgradedId ?? to, depth });
+          }
+        }
+      }
+
+      const fetched = await mapWithConcurrency(next, this.concurrency, (dep) => this.fetchPackage(dep));
+      level = [];
+      for (const [index, pkg] of fetched.entries()) {
+        const node = nodes.get(next[index].packageId)!;
+        if (pkg) {
+          node.modules = pkg.modules.map((m) => m.name).sort();
+          level.push(pkg);
+        } else {
+          node.status = 'failed';
+        }
+      }
+    }
+
+    return {
+      root: rootId,
+      maxDepth: this.maxDepth,
+      nodes: [...nodes.values()].sort((a, b) => a.depth - b.depth || a.packageId.localeCompare(b.packageId)),
+      edges,
+      requiredTypes: findRequiredTypes(rootId, root.modules, resolved),
+    };
+  }
+
+  /**
+   * Fetch a dependency at its pinned version; sources and linkage are optional
+   */
+  private async fetchPackage(dep: { packageId: string; linkedId: string; depth: number }): Promise<ResolvedPackage | null> {
+    try {
+      const [modules, sources, linkage] = await Promise.all([
+        this.client.getNormalizedMoveModulesByPackage(dep.linkedId),
+        this.client.getDisassembledSource(dep.linkedId).catch(() => undefined),
+        this.client.getPackageLinkage(dep.linkedId).catch(() => undefined),
+      ]);
+      return { packageId: dep.packageId, depth: dep.depth, modules: Object.values(modules), sources, linkage };
+    } catch (error) {
+      console.warn(`Could not resolve dependency ${dep.linkedId}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+}
+
+/**
+ * Other packages a package uses: types in its signatures and fields, and
+ * (from source) the functions it calls. Keyed by normalized package ID.
+ */
+export function collectPackageReferences(
+  packageId: string,
+  modules: SuiNormalizedModule[],
+  sources: Record<string, string> = {}
+): Map<string, PackageReferences> {
+  // Modules address themselves by the original package ID, which differs after an upgrade
+  const self = new Set([packageId, ...modules.map((m) => m.address)].map((a) => normalizeSuiAddress(a)));
+  const refs = new Map<string, PackageReferences>();
+  const get = (address: string) => {
+    const entry = refs.get(address) ?? { types: new Set<string>(), calls: new Set<string>() };
+    refs.set(address, entry);
+    return entry;
+  };
+
+  const record = (type: SuiMoveNormalizedType) => {
+    for (const ref of structRefs(type)) {
+      const address = normalizeSuiAddress(ref.address);
+      if (!self.has(address)) {
+        get(address).types.add(`${ref.module}::${ref.name}`);
+      }
+    }
+  };
+  for (const module of modules) {
+    for (const func of Object.values(module.exposedFunctions)) {
+      func.parameters.forEach(record);
+      func.return.forEach(record);
+    }
+    for (const struct of Object.values(module.structs)) {
+      struct.fields.forEach((field) => record(field.type));
+    }
+  }
+
+  if (Object.keys(sources).length > 0) {
+    const graph = buildCallGraph(packageId, sources);
+    const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+    for (const edge of graph.edges) {
+      const target = nodes.get(edge.to);
+      // Named addresses (e.g. `pyth::`) can't be fetched without the package manifest
+      if (edge.kind === 'intra-package' || !target || !/^0x[0-9a-fA-F]+$/.test(target.address)) continue;
+      const address = normalizeSuiAddress(target.address);
+      if (!self.has(address)) {
+        get(address).calls.add(`${target.module}::${target.function}`);
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Types from other (non-framework) packages taken by public and entry functions,
+ * with their ownership when the defining package was resolved
+ */
+function findRequiredTypes(
+  rootId: string,
+  modules: SuiNormalizedModule[],
+  resolved: Map<string, ResolvedPackage>
+): ExternalTypeRequirement[] {
+  const self = new Set([rootId, ...modules.map((m) => normalizeSuiAddress(m.address))]);
+  const required = new Map<string, ExternalTypeRequirement>();
+
+  for (const module of modules) {
+    for (const [name, func] of Object.entries(module.exposedFunctions)) {
+      if (func.visibility !== 'Public' && !func.isEntry) continue;
+      for (const param of func.parameters) {
+        for (const ref of structRefs(param)) {
+          const packageId = normalizeSuiAddress(ref.address);
+          if (self.has(packageId) || FRAMEWORK_PACKAGES.has(packageId)) continue;
+
+          const type = `${packageId}::${ref.module}::${ref.name}`;
+          const entry = required.get(type) ?? describeType(packageId, ref.module, ref.name, resolved.get(packageId));
+          if (!entry.requiredBy.includes(`${module.name}::${name}`)) {
+            entry.requiredBy.push(`${module.name}::${name}`);
+          }
+          required.set(type, entry);
+        }
+      }
+    }
+  }
+
+  return [...required.values()].sort((a, b) => a.type.localeCompare(b.type));
+}
+
+function describeType(
+  packageId: string,
+  moduleName: string,
+  name: string,
+  pkg?: ResolvedPackage
+): ExternalTypeRequirement {
+  const module = pkg?.modules.find((m) => m.name === moduleName);
+  const struct = module?.structs[name];
+  const ownership = module
+    ? inferOwnership(module, pkg?.sources).find((o) => o.type === `${moduleName}::${name}`)?.primary
+    : undefined;
+
+  return {
+    type: `${packageId}::${moduleName}::${name}`,
+    packageId,
+    module: moduleName,
+    name,
+    abilities: struct?.abilities.abilities.map((a) => a.toLowerCase()) ?? [],
+    ownership,
+    requiredBy: [],
+  };
+}
+
+/**
+ * Struct types referenced by a normalized type, including type arguments
+ */
+function structRefs(type: SuiMoveNormalizedType): Array<{ address: string; module: string; name: string }> {
+  if (typeof type !== 'object' || type === null) {
+    return [];
+  }
+  if ('Struct' in type) {
+    return [type.Struct, ...type.Struct.typeArguments.flatMap(structRefs)];
+  }
+  if ('Vector' in type) {
+    return structRefs(type.Vector);
+  }
+  if ('Reference' in type) {
+    return structRefs(type.Reference);
+  }
+  if ('MutableReference' in type) {
+    return structRefs(type.MutableReference);
+  }
+  return [];
+}
+
+export interface DependencyDiagramOptions {
+  /** Include framework packages (default: false) */
+  includeFramework?: boolean;
+}
+
+/**
+ * Short label for a package node: `0x1234…abcd`, or the short form of framework addresses
+ */
+export function dependencyNodeLabel(node: DependencyNode): string {
+  const short = node.packageId.replace(/^0x0+/, '0x');
+  return node.isFramework || short.length <= 12 ? short : `${node.packageId.slice(0, 6)}…${node.packageId.slice(-4)}`;
+}
+
+function visibleGraph(graph: PackageDependencyGraph, options: DependencyDiagramOptions) {
+  const nodes = graph.nodes.filter((node) => options.includeFramework || !node.isFramework);
+  const ids = new Set(nodes.map((node) => node.packageId));
+  const edges = graph.edges.filter((edge) => ids.has(edge.from) && ids.has(edge.to));
+  return { nodes, edges, index: new Map(nodes.map((node, i) => [node.packageId, `p${i}`])) };
+}
+
+function edgeLabel(edge: DependencyEdge): string {
+  return edge.version !== undefined ? `v${edge.version}` : '';
+}
+
+function nodeText(node: DependencyNode): string {
+  const status = node.status === 'resolved' || node.status === 'root' ? '' : ` (${node.status})`;
+  return `${dependencyNodeLabel(node)}${status}`;
+}
+
+/**
+ * Render the dependency graph as a Mermaid flowchart
+ */
+export function dependencyGraphToMermaid(
+  graph: PackageDependencyGraph,
+  options: DependencyDiagramOptions = {}
+): string {
+  const { nodes, edges, index } = visibleGraph(graph, options);
+  const lines = ['graph LR'];
+  for (const node of nodes) {
+    const text = nodeText(node);
+    lines.push(node.status === 'root' ? `  ${index.get(node.packageId)}[["${text}"]]` : `  ${index.get(node.packageId)}["${text}"]`);
+  }
+  for (const edge of edges) {
+    const label = edgeLabel(edge);
+    lines.push(`  ${index.get(edge.from)} -->${label ? `|${label}|` : ''} ${index.get(edge.to)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render the dependency graph in Graphviz DOT
+ */
+export function dependencyGraphToDot(
+  graph: PackageDependencyGraph,
+  options: DependencyDiagramOptions = {}
+): string {
+  const { nodes, edges, index } = visibleGraph(graph, options);
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box, fontname="monospace"];'];
+  for (const node of nodes) {
+    const style = node.status === 'root' ? ', style=bold' : node.status === 'resolved' ? '' : ', style=dashed';
+    lines.push(`  ${index.get(node.packageId)} [label="${nodeText(node)}", tooltip="${node.packageId}"${style}];`);
+  }
+  for (const edge of edges) {
+    const label = edgeLabel(edge);
+    lines.push(`  ${index.get(edge.from)} -> ${index.get(edge.to)}${label ? ` [label="${label}"]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Create a dependency resolver for a network
+ */
+export function createDependencyResolver(
+  network: Network,
+  options: DependencyResolverOptions & { rpcUrl?: string } = {}
+): DependencyResolver {
+  return new DependencyResolver(createSuiClient(network, options.rpcUrl), options);
+}
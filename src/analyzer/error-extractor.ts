@@ -2,14 +2,13 @@
  * Error code extractor - extracts error constants from Move source code
  */
 
-import type { ErrorCodeEntry, ErrorCodeCategory } from '../types/index.js';
+import type { ErrorCodeEntry, ErrorCodeCategory, FunctionAbort } from '../types/index.js';
+import { parseMoveFile, typeToString, type MoveFile } from '../parser/index.js';
 
 /**
- * Pattern for extracting error constants
- * Matches: const E_SOMETHING: u64 = 123;
- * Also matches: const ESOMETHING: u64 = 123;
+ * Error constant names: E_SOMETHING or ESOMETHING
  */
-const ERROR_CONST_PATTERN = /const\s+(E[A-Z_][A-Za-z0-9_]*)\s*:\s*u64\s*=\s*(\d+)/g;
+const ERROR_NAME_PATTERN = /^E[A-Z_][A-Za-z0-9_]*$/;
 
 /**
  * Error name patterns for categorization
@@ -143,16 +142,21 @@ function inferErrorDescription(errorName: string): { description: string; causes
 }
 
 /**
- * Extract error codes from Move source code
+ * Extract error codes from Move source code (or an already parsed file).
+ * Only `u64` constants with a literal value are error codes; Move 2024
+ * `#[error]` constants get their abort code from the compiler.
  */
-export function extractErrorCodes(sourceCode: string): ErrorCodeEntry[] {
+export function extractErrorCodes(source: string | MoveFile): ErrorCodeEntry[] {
+  const file = typeof source === 'string' ? parseMoveFile(source) : source;
   const errors: ErrorCodeEntry[] = [];
   const seen = new Set<string>();
 
-  let match;
-  while ((match = ERROR_CONST_PATTERN.exec(sourceCode)) !== null) {
-    const name = match[1];
-    const code = parseInt(match[2], 10);
+  const constants = file.modules.flatMap((module) => module.constants);
+  for (const constant of constants) {
+    const name = constant.name;
+    if (!ERROR_NAME_PATTERN.test(name) || typeToString(constant.type) !== 'u64') continue;
+    if (constant.numericValue === undefined) continue;
+    const code = Number(constant.numericValue);
 
     // Skip duplicates
     if (seen.has(name)) continue;
@@ -168,6 +172,13 @@ export function extractErrorCodes(sourceCode: string): ErrorCodeEntry[] {
       possibleCauses: causes,
       solutions,
       category,
+      provenance: {
+        code: { source: 'abi', confidence: 1, evidence: [`declared \`const ${name}: u64 = ${code}\``] },
+        description: COMMON_ERROR_DESCRIPTIONS[name]
+          ? { source: 'regex', confidence: 0.6, evidence: ['well-known error name'] }
+          : { source: 'regex', confidence: 0.4, evidence: ['words of the constant name'] },
+        category: { source: 'regex', confidence: category === 'other' ? 0.3 : 0.5, evidence: ['constant name pattern'] },
+      },
     });
   }
 
@@ -177,6 +188,24 @@ export function extractErrorCodes(sourceCode: string): ErrorCodeEntry[] {
   return errors;
 }
 
+/**
+ * Record which functions of `moduleName` can abort with each error, from
+ * `findFunctionAborts` output (`module::function` -> aborts)
+ */
+export function linkRaisedBy(
+  errors: ErrorCodeEntry[],
+  aborts: Record<string, FunctionAbort[]>,
+  moduleName: string
+): ErrorCodeEntry[] {
+  return errors.map((error) => {
+    const raisedBy = Object.entries(aborts)
+      .filter(([func, sites]) => func.startsWith(`${moduleName}::`) && sites.some((s) => s.constant === error.name))
+      .map(([func]) => func.slice(moduleName.length + 2))
+      .sort();
+    return { ...error, raisedBy };
+  });
+}
+
 /**
  * Group error codes by category
  */
@@ -0,0 +1,107 @@
+/**
+ * Event emission analysis - follows `0x2::event::emit<T>` calls, directly and
+ * through the package functions a function calls
+ */
+
+import type { CallGraph } from '../types/index.js';
+import { decompileBytecode, isDisassembly } from '../decompiler/bytecode-decompiler.js';
+import { parseMoveFile, isTestOnly, type ModuleDecl } from '../parser/index.js';
+import { argumentType } from './source-scan.js';
+import { packageCallees, reachableFunctions } from './call-graph.js';
+
+/**
+ * Find the events each package function emits.
+ * Returns `module::function` -> sorted `module::Event` types; transitive
+ * emissions are followed through `callGraph` when it is given.
+ */
+export function findEventEmissions(
+  sources: Record<string, string>,
+  callGraph?: CallGraph
+): Record<string, string[]> {
+  const direct = new Map<string, Set<string>>();
+  const emit = (func: string, type: string) => {
+    const set = direct.get(func) ?? new Set<string>();
+    set.add(type);
+    direct.set(func, set);
+  };
+
+  for (const source of Object.values(sources)) {
+    if (isDisassembly(source)) {
+      const module = decompileBytecode(source);
+      const local = new Set(module.structs.map((struct) => struct.name));
+      for (const func of module.functions) {
+        for (const match of func.originalBytecode.matchAll(/\bevent::emit<(?:(\w+)::)?(\w+)/g)) {
+          const owner = match[1] ?? (local.has(match[2]) ? module.moduleName : undefined);
+          emit(`${module.moduleName}::${func.name}`, owner ? `${owner}::${match[2]}` : match[2]);
+        }
+      }
+      continue;
+    }
+
+    for (const module of parseMoveFile(source).modules) {
+      if (isTestOnly(module)) continue;
+      for (const [func, type] of scanSourceModule(module)) {
+        emit(`${module.name}::${func}`, type);
+      }
+    }
+  }
+
+  const callees = packageCallees(callGraph);
+  const functions = new Set([...direct.keys(), ...callees.keys()]);
+  const result: Record<string, string[]> = {};
+  for (const func of functions) {
+    const events = new Set<string>();
+    for (const current of [func, ...reachableFunctions(callees, func)]) {
+      for (const type of direct.get(current) ?? []) events.add(type);
+    }
+    if (events.size > 0) {
+      result[func] = [...events].sort();
+    }
+  }
+
+  return result;
+}
+
+/**
+ * `event::emit(SwapEvent { .. })`, `event::emit<T>(x)` and `use sui::event::emit` aliases
+ */
+function scanSourceModule(module: ModuleDecl): Array<[string, string]> {
+  const eventModules = new Set(['event']);
+  const emitAliases: string[] = [];
+  // Imported structs, alias -> `module::Name`
+  const imported = new Map<string, string>();
+  for (const use of module.uses) {
+    for (const member of use.members) {
+      if (member.module === 'event' && !member.member) eventModules.add(member.alias);
+      else if (member.module === 'event' && member.member === 'emit') emitAliases.push(member.alias);
+      else if (member.member) imported.set(member.alias, `${member.module}::${member.member}`);
+    }
+  }
+
+  const callee = [
+    ...[...eventModules].map((alias) => `\\b${alias}::emit`),
+    ...emitAliases.map((alias) => `(?<![\\w:.])${alias}`),
+  ];
+  const pattern = new RegExp(`(?:${callee.join('|')})\\s*(?:<\\s*([\\w:]+)[^>]*>)?\\s*\\(\\s*(\\w+)`, 'g');
+
+  const structNames = module.structs.map((struct) => struct.name);
+  const qualify = (type: string) => {
+    const parts = type.split('::');
+    const name = parts[parts.length - 1];
+    if (parts.length > 1) return `${parts[parts.length - 2]}::${name}`;
+    if (structNames.includes(name)) return `${module.name}::${name}`;
+    return imported.get(name) ?? name;
+  };
+
+  const emissions: Array<[string, string]> = [];
+  for (const func of module.functions) {
+    if (isTestOnly(func) || !func.body) continue;
+    for (const match of func.body.text.matchAll(pattern)) {
+      const type = match[1] ?? argumentType(func, match[2], structNames);
+      if (type) {
+        emissions.push([func.name, qualify(type)]);
+      }
+    }
+  }
+  return emissions;
+}
@@ -58,6 +58,8 @@ export class FunctionAnalyzer {
       returns,
       typeParameters,
       semantic,
+      emits: [],
+      aborts: [],
     };
   }
 
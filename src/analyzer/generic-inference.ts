@@ -3,7 +3,8 @@
  * Infers meaning of T0, T1, etc. based on contract category and usage patterns
  */
 
-import type { GenericSemantics, GenericMeaning, ModuleCategory } from '../types/index.js';
+import type { GenericSemantics, GenericMeaning, ModuleCategory, Network } from '../types/index.js';
+import { resolveCoinSymbols } from '../fetcher/coin-registry.js';
 
 /**
  * Predefined generic patterns by contract category
@@ -135,11 +136,13 @@ function inferFromParameterNames(sourceCode: string): Record<string, Partial<Gen
 }
 
 /**
- * Infer generic semantics for a module
+ * Infer generic semantics for a module.
+ * Common coin symbols are resolved to coin types on `network`.
  */
 export function inferGenericSemantics(
   sourceCode: string,
-  category: ModuleCategory
+  category: ModuleCategory,
+  network: Network = 'mainnet'
 ): GenericSemantics {
   const inferredFrom: string[] = [];
   let confidence = 0.5;
@@ -206,6 +209,13 @@ export function inferGenericSemantics(
     }
   }
 
+  for (const [generic, meaning] of Object.entries(mapping)) {
+    const coinTypes = resolveCoinSymbols(meaning.commonTypes, network);
+    if (coinTypes.length > 0) {
+      mapping[generic] = { ...meaning, coinTypes };
+    }
+  }
+
   return {
     mapping,
     confidence: Math.min(confidence, 1.0),
@@ -0,0 +1,52 @@
+/**
+ * Hot potato detection - structs without abilities must be consumed in the
+ * programmable transaction that produced them, which pairs the functions
+ * returning them with the functions taking them by value
+ */
+
+import type { SuiNormalizedModule, SuiMoveNormalizedType, HotPotato } from '../types/index.js';
+
+/**
+ * Find ability-less structs of a module and the public functions that
+ * produce, consume and inspect them
+ */
+export function detectHotPotatoes(module: SuiNormalizedModule): HotPotato[] {
+  const potatoes = new Map<string, HotPotato>();
+  for (const [name, struct] of Object.entries(module.structs)) {
+    if (struct.abilities.abilities.length === 0) {
+      potatoes.set(name, {
+        type: `${module.name}::${name}`,
+        name,
+        producers: [],
+        consumers: [],
+        inspectors: [],
+      });
+    }
+  }
+  if (potatoes.size === 0) return [];
+
+  // Only structs declared by this module; other modules' abilities are unknown here
+  const potatoOf = (type: SuiMoveNormalizedType) =>
+    typeof type === 'object' && 'Struct' in type && type.Struct.module === module.name
+      ? potatoes.get(type.Struct.name)
+      : undefined;
+
+  for (const [name, func] of Object.entries(module.exposedFunctions).sort(([a], [b]) => a.localeCompare(b))) {
+    // Friend functions cannot be called from a PTB
+    if (func.visibility === 'Friend') continue;
+    for (const ret of func.return) {
+      potatoOf(ret)?.producers.push(name);
+    }
+    for (const param of func.parameters) {
+      if (typeof param === 'object' && 'Reference' in param) {
+        potatoOf(param.Reference)?.inspectors.push(name);
+      } else if (typeof param === 'object' && 'MutableReference' in param) {
+        potatoOf(param.MutableReference)?.inspectors.push(name);
+      } else {
+        potatoOf(param)?.consumers.push(name);
+      }
+    }
+  }
+
+  return [...potatoes.values()].filter((potato) => potato.producers.length > 0 || potato.consumers.length > 0);
+}
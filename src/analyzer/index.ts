@@ -3,8 +3,18 @@
  */
 
 export * from './module-analyzer.js';
+export * from './package-analyzer.js';
 export * from './function-analyzer.js';
 export * from './semantic-inference.js';
 export * from './error-extractor.js';
 export * from './generic-inference.js';
 export * from './ai-analyzer.js';
+export * from './analysis-cache.js';
+export * from './reconcile.js';
+export * from './call-graph.js';
+export * from './dependency-graph.js';
+export * from './access-control.js';
+export * from './ownership.js';
+export * from './event-emissions.js';
+export * from './abort-sites.js';
+export * from './hot-potato.js';
@@ -5,6 +5,7 @@
 import type { SuiNormalizedModule, SuiNormalizedStruct, Network } from '../types/index.js';
 import type {
   AnalyzedModule,
+  AnalyzedFunction,
   AnalyzedStruct,
   AnalyzedEvent,
   AnalyzedField,
@@ -12,8 +13,18 @@ import type {
   ModuleCategory,
   ModuleMetadata,
   TypeParameterInfo,
+  CallGraph,
 } from '../types/skill.js';
 import { FunctionAnalyzer } from './function-analyzer.js';
+import { buildCallGraph } from './call-graph.js';
+import { analyzeAccessControl } from './access-control.js';
+import { inferOwnership } from './ownership.js';
+import { findEventEmissions } from './event-emissions.js';
+import { findFunctionAborts } from './abort-sites.js';
+import { detectHotPotatoes } from './hot-potato.js';
+import { extractErrorCodes, linkRaisedBy } from './error-extractor.js';
+import { isDisassembly } from '../decompiler/bytecode-decompiler.js';
+import { parseMoveFile } from '../parser/index.js';
 import { TypeMapper } from '../mapper/type-mapper.js';
 
 /**
@@ -29,21 +40,66 @@ export class ModuleAnalyzer {
   }
 
   /**
-   * Analyze a complete module
+   * Analyze a complete module.
+   * `packageSources` (module name -> source) widens the call graph and
+   * capability detection to the whole package.
    */
   analyzeModule(
     module: SuiNormalizedModule,
     network: Network,
-    sourceCode?: string
+    sourceCode?: string,
+    packageSources?: Record<string, string>
   ): AnalyzedModule {
     // Analyze functions
     const functions = this.functionAnalyzer.analyzeFunctions(module.exposedFunctions);
+    if (sourceCode && !isDisassembly(sourceCode)) {
+      this.attachSourceNames(functions, module.name, sourceCode);
+    }
 
     // Analyze structs
     const structs = this.analyzeStructs(module.structs);
 
+    // Build call graph, access control map and object ownership from the package sources
+    const sources = packageSources ?? (sourceCode ? { [module.name]: sourceCode } : {});
+    const callGraph = this.buildCallGraph(module, sources);
+    const accessControl = analyzeAccessControl(module, sources);
+    const ownership = inferOwnership(module, sources);
+
+    // Follow event::emit calls; emitted structs are events whatever their shape
+    const emissions = findEventEmissions(sources, callGraph);
+    for (const struct of structs) {
+      if (Object.values(emissions).some((types) => types.includes(`${module.name}::${struct.name}`))) {
+        struct.isEvent = true;
+      }
+    }
+
     // Extract events from structs
     const events = this.extractEvents(structs);
+    for (const func of functions) {
+      func.emits = (emissions[`${module.name}::${func.name}`] ?? []).map((type) =>
+        this.toEmittedEvent(type, module.name, events)
+      );
+    }
+
+    // Resolve abort sites to error constants; named constants need Move source
+    const aborts = findFunctionAborts(sources, callGraph);
+    for (const func of functions) {
+      func.aborts = aborts[`${module.name}::${func.name}`] ?? [];
+    }
+    const errorCodes =
+      sourceCode && !isDisassembly(sourceCode)
+        ? linkRaisedBy(extractErrorCodes(sourceCode), aborts, module.name)
+        : undefined;
+
+    // Pair hot potato producers with their consumers
+    const hotPotatoes = detectHotPotatoes(module);
+    for (const func of functions) {
+      const produces = hotPotatoes.filter((p) => p.producers.includes(func.name)).map((p) => p.name);
+      const consumes = hotPotatoes.filter((p) => p.consumers.includes(func.name)).map((p) => p.name);
+      if (produces.length > 0 || consumes.length > 0) {
+        func.ptbConstraint = { produces, consumes };
+      }
+    }
 
     // Detect dependencies
     const dependencies = this.detectDependencies(module);
@@ -74,9 +130,45 @@ export class ModuleAnalyzer {
       category,
       metadata,
       sourceCode,
+      callGraph,
+      accessControl,
+      ownership,
+      errorCodes,
+      hotPotatoes: hotPotatoes.length > 0 ? hotPotatoes : undefined,
     };
   }
 
+  /**
+   * Record the parameter names declared in Move source; the ABI only has types
+   */
+  private attachSourceNames(functions: AnalyzedFunction[], moduleName: string, sourceCode: string): void {
+    const decl = parseMoveFile(sourceCode).modules.find((m) => m.name === moduleName);
+    if (!decl) return;
+
+    for (const func of functions) {
+      const params = decl.functions.find((f) => f.name === func.name)?.params;
+      if (params?.length !== func.parameters.length) continue;
+      func.parameters.forEach((param, i) => {
+        param.sourceName = params[i].name;
+      });
+    }
+  }
+
+  /**
+   * Build the call graph, if any source is available
+   */
+  private buildCallGraph(
+    module: SuiNormalizedModule,
+    sources: Record<string, string>
+  ): CallGraph | undefined {
+    if (Object.keys(sources).length === 0) {
+      return undefined;
+    }
+
+    const graph = buildCallGraph(module.address, sources);
+    return graph.nodes.length > 0 ? graph : undefined;
+  }
+
   /**
    * Analyze structs in the module
    */
@@ -102,6 +194,7 @@ export class ModuleAnalyzer {
       index,
       name: `T${index}`,
       constraints: tp.constraints.abilities,
+      isPhantom: tp.isPhantom,
     }));
 
     // Set up type mapper
@@ -159,6 +252,22 @@ export class ModuleAnalyzer {
       }));
   }
 
+  /**
+   * Resolve an emitted `module::Event` type; events of other modules carry no fields
+   */
+  private toEmittedEvent(type: string, moduleName: string, events: AnalyzedEvent[]): AnalyzedEvent {
+    const [owner, name] = type.includes('::') ? type.split('::') : [moduleName, type];
+    const local = owner === moduleName ? events.find((e) => e.structName === name) : undefined;
+    return (
+      local ?? {
+        name: type,
+        structName: name,
+        fields: [],
+        description: `Event emitted when ${this.formatEventDescription(name)}`,
+      }
+    );
+  }
+
   /**
    * Format event description
    */
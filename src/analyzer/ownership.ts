@@ -0,0 +1,270 @@
+/**
+ * Ownership inference - classifies `key` structs as shared, owned, immutable or wrapped
+ * from the transfer calls and struct fields found in bytecode or source
+ */
+
+import type {
+  SuiNormalizedModule,
+  SuiMoveNormalizedType,
+  ObjectOwnership,
+  OwnershipKind,
+} from '../types/index.js';
+import { decompileBytecode, isDisassembly } from '../decompiler/bytecode-decompiler.js';
+import { parseMoveFile, isTestOnly, type FunctionDecl } from '../parser/index.js';
+import { argumentType, typeNodeNames } from './source-scan.js';
+
+/** `transfer` module functions and the ownership they give their argument */
+const TRANSFER_FUNCTIONS: Record<string, OwnershipKind> = {
+  share_object: 'shared',
+  public_share_object: 'shared',
+  freeze_object: 'immutable',
+  public_freeze_object: 'immutable',
+  transfer: 'owned',
+  public_transfer: 'owned',
+};
+
+const PRECEDENCE: OwnershipKind[] = ['shared', 'immutable', 'owned', 'wrapped', 'unknown'];
+
+interface KeyStruct {
+  module: string;
+  name: string;
+  /** Names of the structs referenced by its fields */
+  fieldTypes: string[];
+}
+
+/** An ownership-relevant operation on a struct, found in a function body */
+interface Observation {
+  module: string;
+  function: string;
+  typeName: string;
+  kind: OwnershipKind;
+  via: string;
+}
+
+interface PackageScan {
+  /** Every struct by `module::Name`, with whether it has `key` */
+  structs: Map<string, KeyStruct & { hasKey: boolean }>;
+  observations: Observation[];
+  /** `module::Name` -> creating functions */
+  creators: Map<string, Set<string>>;
+}
+
+/**
+ * Infer the ownership of every `key` struct in a module's package.
+ * `sources` (module name -> source or disassembly) supply the transfer calls;
+ * with the ABI alone only wrapping and returned objects can be seen.
+ */
+export function inferOwnership(
+  module: SuiNormalizedModule,
+  sources: Record<string, string> = {}
+): ObjectOwnership[] {
+  const scan = scanSources(sources);
+
+  // The ABI is authoritative for the module itself
+  for (const [name, struct] of Object.entries(module.structs)) {
+    scan.structs.set(`${module.name}::${name}`, {
+      module: module.name,
+      name,
+      hasKey: struct.abilities.abilities.includes('Key'),
+      fieldTypes: struct.fields.flatMap((field) => structNames(field.type)),
+    });
+  }
+
+  // Objects public functions hand back end up with the caller
+  for (const [name, func] of Object.entries(module.exposedFunctions)) {
+    if (func.visibility !== 'Public') continue;
+    for (const typeName of func.return.flatMap((ret) => structNames(ret, false))) {
+      scan.observations.push({
+        module: module.name,
+        function: name,
+        typeName,
+        kind: 'owned',
+        via: 'returned to the caller',
+      });
+    }
+  }
+
+  const resolve = (typeName: string, fromModule: string): string | undefined => {
+    if (scan.structs.get(`${fromModule}::${typeName}`)?.hasKey) return `${fromModule}::${typeName}`;
+    return [...scan.structs.entries()].find(([, s]) => s.hasKey && s.name === typeName)?.[0];
+  };
+
+  const results = new Map<string, ObjectOwnership>();
+  for (const [type, struct] of scan.structs) {
+    if (!struct.hasKey) continue;
+    results.set(type, {
+      type,
+      module: struct.module,
+      name: struct.name,
+      primary: 'unknown',
+      kinds: [],
+      createdBy: [...(scan.creators.get(type) ?? [])].sort(),
+      wrappedIn: [],
+      evidence: [],
+    });
+  }
+
+  const record = (ownership: ObjectOwnership, kind: OwnershipKind, evidence: string) => {
+    if (!ownership.kinds.includes(kind)) ownership.kinds.push(kind);
+    if (!ownership.evidence.includes(evidence)) ownership.evidence.push(evidence);
+  };
+
+  for (const observation of scan.observations) {
+    const type = resolve(observation.typeName, observation.module);
+    const ownership = type ? results.get(type) : undefined;
+    if (ownership) {
+      record(ownership, observation.kind, `${observation.via} in ${observation.module}::${observation.function}`);
+    }
+  }
+
+  for (const [outer, struct] of scan.structs) {
+    for (const typeName of struct.fieldTypes) {
+      const type = resolve(typeName, struct.module);
+      const ownership = type && type !== outer ? results.get(type) : undefined;
+      if (ownership && !ownership.wrappedIn.includes(outer)) {
+        ownership.wrappedIn.push(outer);
+        record(ownership, 'wrapped', `field of ${outer}`);
+      }
+    }
+  }
+
+  for (const ownership of results.values()) {
+    ownership.kinds.sort((a, b) => PRECEDENCE.indexOf(a) - PRECEDENCE.indexOf(b));
+    ownership.primary = ownership.kinds[0] ?? 'unknown';
+  }
+
+  return [...results.values()].sort((a, b) => a.type.localeCompare(b.type));
+}
+
+/**
+ * Collect structs, transfer operations and struct creation from all sources
+ */
+function scanSources(sources: Record<string, string>): PackageScan {
+  const scan: PackageScan = { structs: new Map(), observations: [], creators: new Map() };
+  const created = (type: string, by: string) => {
+    const set = scan.creators.get(type) ?? new Set<string>();
+    set.add(by);
+    scan.creators.set(type, set);
+  };
+
+  for (const source of Object.values(sources)) {
+    if (isDisassembly(source)) {
+      const module = decompileBytecode(source);
+      for (const struct of module.structs) {
+        scan.structs.set(`${module.moduleName}::${struct.name}`, {
+          module: module.moduleName,
+          name: struct.name,
+          hasKey: struct.abilities.includes('key'),
+          fieldTypes: struct.fields.flatMap((field) => field.type.match(/[A-Z]\w*/g) ?? []),
+        });
+      }
+      for (const func of module.functions) {
+        const functionId = `${module.moduleName}::${func.name}`;
+        for (const observation of scanBytecode(func.originalBytecode)) {
+          scan.observations.push({ module: module.moduleName, function: func.name, ...observation });
+        }
+        for (const match of func.originalBytecode.matchAll(/\bPack(?:Generic)?(?:\[\d+\])?[(\s]+(\w+)/g)) {
+          created(`${module.moduleName}::${match[1]}`, functionId);
+        }
+      }
+      continue;
+    }
+
+    for (const module of parseMoveFile(source).modules) {
+      if (isTestOnly(module)) continue;
+      const structNamesInModule = module.structs.map((struct) => struct.name);
+      for (const struct of module.structs) {
+        scan.structs.set(`${module.name}::${struct.name}`, {
+          module: module.name,
+          name: struct.name,
+          hasKey: struct.abilities.includes('key'),
+          fieldTypes: struct.fields.flatMap((field) => typeNodeNames(field.type)),
+        });
+      }
+      for (const func of module.functions) {
+        if (isTestOnly(func) || !func.body) continue;
+        for (const observation of scanSourceFunction(func, structNamesInModule)) {
+          scan.observations.push({ module: module.name, function: func.name, ...observation });
+        }
+        for (const name of structNamesInModule) {
+          if (new RegExp(`\\b${name}\\s*(?:<[^>{}]*>)?\\s*\\{`).test(func.body.text)) {
+            created(`${module.name}::${name}`, `${module.name}::${func.name}`);
+          }
+        }
+      }
+    }
+  }
+
+  return scan;
+}
+
+/**
+ * `Call transfer::share_object<Pool>(Pool)` and dynamic field insertions in a bytecode listing
+ */
+function scanBytecode(bytecode: string): Array<Omit<Observation, 'module' | 'function'>> {
+  const observations: Array<Omit<Observation, 'module' | 'function'>> = [];
+
+  for (const match of bytecode.matchAll(/transfer::(\w+)<(\w+)/g)) {
+    const kind = TRANSFER_FUNCTIONS[match[1]];
+    if (kind) {
+      observations.push({ typeName: match[2], kind, via: `transfer::${match[1]}` });
+    }
+  }
+  for (const match of bytecode.matchAll(/(dynamic_object_field|dynamic_field)::add<[^,]+,\s*(\w+)/g)) {
+    observations.push({ typeName: match[2], kind: 'wrapped', via: `${match[1]}::add` });
+  }
+
+  return observations;
+}
+
+/**
+ * Find `transfer::*` calls in a function body and resolve their argument's type from
+ * an explicit type argument, a struct literal, a parameter or a `let` binding
+ */
+function scanSourceFunction(
+  func: FunctionDecl,
+  structNames: string[]
+): Array<Omit<Observation, 'module' | 'function'>> {
+  const text = func.body?.text ?? '';
+  const observations: Array<Omit<Observation, 'module' | 'function'>> = [];
+
+  const pattern = /\btransfer::(\w+)\s*(?:<\s*([\w:]+)[^>]*>)?\s*\(\s*(\w+)/g;
+  for (const match of text.matchAll(pattern)) {
+    const kind = TRANSFER_FUNCTIONS[match[1]];
+    const typeName = match[2]?.split('::').pop() ?? argumentType(func, match[3], structNames);
+    if (kind && typeName) {
+      observations.push({ typeName, kind, via: `transfer::${match[1]}` });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Struct names referenced by a normalized type, including type arguments
+ * (`withArgs` = false only looks at the outer struct)
+ */
+function structNames(type: SuiMoveNormalizedType, withArgs = true): string[] {
+  if (typeof type !== 'object') return [];
+  if ('Vector' in type) return withArgs ? structNames(type.Vector) : [];
+  if ('Reference' in type || 'MutableReference' in type) return [];
+  if ('Struct' in type) {
+    const args = withArgs ? type.Struct.typeArguments.flatMap((arg) => structNames(arg)) : [];
+    return [type.Struct.name, ...args];
+  }
+  return [];
+}
+
+/**
+ * Look up the ownership of a parameter's object type, if it is a package `key` struct
+ */
+export function ownershipOf(
+  ownership: ObjectOwnership[] | undefined,
+  type: SuiMoveNormalizedType
+): ObjectOwnership | undefined {
+  if (!ownership || typeof type !== 'object') return undefined;
+  if ('Reference' in type) return ownershipOf(ownership, type.Reference);
+  if ('MutableReference' in type) return ownershipOf(ownership, type.MutableReference);
+  if (!('Struct' in type)) return undefined;
+  return ownership.find((o) => o.module === type.Struct.module && o.name === type.Struct.name);
+}
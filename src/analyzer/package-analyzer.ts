@@ -0,0 +1,265 @@
+/**
+ * Package analyzer - analyzes every module of a package and links them:
+ * cross-module type references, friend / `public(package)` calls, the shared
+ * object catalogue, and package-wide error codes and events
+ */
+
+import type { SuiNormalizedModule, SuiMoveNormalizedType, Network } from '../types/index.js';
+import type {
+  AnalyzedModule,
+  AnalyzedPackage,
+  CallGraph,
+  CrossModuleTypeRef,
+  ModuleCategory,
+  ModuleFriendship,
+  ObjectOwnership,
+  PackageErrorCode,
+  PackageEvent,
+  PackageMetadata,
+} from '../types/skill.js';
+import { ModuleAnalyzer, createModuleAnalyzer } from './module-analyzer.js';
+
+/**
+ * Package analyzer class
+ */
+export class PackageAnalyzer {
+  private moduleAnalyzer: ModuleAnalyzer;
+
+  constructor(moduleAnalyzer: ModuleAnalyzer = createModuleAnalyzer()) {
+    this.moduleAnalyzer = moduleAnalyzer;
+  }
+
+  /**
+   * Analyze the given modules of one package.
+   * `sources` (module name -> source or disassembly) feed the call graph,
+   * ownership, event and abort analysis of every module.
+   */
+  analyzePackage(
+    modules: SuiNormalizedModule[],
+    network: Network,
+    sources: Record<string, string> = {}
+  ): AnalyzedPackage {
+    const analyzed = modules.map((module) =>
+      this.moduleAnalyzer.analyzeModule(
+        module,
+        network,
+        sources[module.name],
+        Object.keys(sources).length > 0 ? sources : undefined
+      )
+    );
+
+    const packageId = modules[0]?.address ?? '';
+    // Call graphs are built from the whole package, so any module's will do
+    const callGraph = analyzed.find((m) => m.callGraph)?.callGraph;
+
+    const metadata: PackageMetadata = {
+      packageId,
+      network,
+      modules: analyzed.map((m) => m.moduleName),
+      totalFunctions: analyzed.reduce((sum, m) => sum + m.metadata.totalFunctions, 0),
+      entryFunctions: analyzed.reduce((sum, m) => sum + m.metadata.entryFunctions, 0),
+      publicFunctions: analyzed.reduce((sum, m) => sum + m.metadata.publicFunctions, 0),
+      totalStructs: analyzed.reduce((sum, m) => sum + m.metadata.totalStructs, 0),
+      totalEvents: analyzed.reduce((sum, m) => sum + m.metadata.totalEvents, 0),
+      fetchedAt: new Date().toISOString(),
+    };
+
+    return {
+      packageId,
+      network,
+      modules: analyzed,
+      typeReferences: this.findTypeReferences(modules),
+      friendships: this.findFriendships(modules, callGraph),
+      sharedObjects: this.collectSharedObjects(analyzed),
+      errorCodes: this.collectErrorCodes(analyzed),
+      events: this.collectEvents(analyzed),
+      category: this.inferCategory(analyzed),
+      metadata,
+    };
+  }
+
+  /**
+   * Find package types used by other modules in parameters, returns and fields
+   */
+  private findTypeReferences(modules: SuiNormalizedModule[]): CrossModuleTypeRef[] {
+    const names = new Set(modules.map((m) => m.name));
+    const refs = new Map<string, CrossModuleTypeRef>();
+
+    for (const module of modules) {
+      const self = normalizeAddress(module.address);
+      const record = (type: SuiMoveNormalizedType, usage: string) => {
+        for (const ref of structRefs(type)) {
+          if (normalizeAddress(ref.address) !== self || ref.module === module.name || !names.has(ref.module)) {
+            continue;
+          }
+          const typeName = `${ref.module}::${ref.name}`;
+          const key = `${module.name}>${typeName}`;
+          const entry = refs.get(key) ?? { from: module.name, to: ref.module, type: typeName, usages: [] };
+          if (!entry.usages.includes(usage)) {
+            entry.usages.push(usage);
+          }
+          refs.set(key, entry);
+        }
+      };
+
+      for (const [name, func] of Object.entries(module.exposedFunctions)) {
+        func.parameters.forEach((param) => record(param, `${name} (parameter)`));
+        func.return.forEach((ret) => record(ret, `${name} (return)`));
+      }
+      for (const [name, struct] of Object.entries(module.structs)) {
+        struct.fields.forEach((field) => record(field.type, `${name}.${field.name} (field)`));
+      }
+    }
+
+    return [...refs.values()].sort((a, b) => a.from.localeCompare(b.from) || a.type.localeCompare(b.type));
+  }
+
+  /**
+   * Combine `friend` declarations with calls to package-visible functions across modules
+   */
+  private findFriendships(modules: SuiNormalizedModule[], callGraph?: CallGraph): ModuleFriendship[] {
+    const names = new Set(modules.map((m) => m.name));
+    const friendships = new Map<string, ModuleFriendship>();
+    const get = (module: string, friend: string) => {
+      const key = `${module}>${friend}`;
+      const entry = friendships.get(key) ?? { module, friend, declared: false, calls: [] };
+      friendships.set(key, entry);
+      return entry;
+    };
+
+    for (const module of modules) {
+      for (const friend of module.friends) {
+        if (names.has(friend.name)) {
+          get(module.name, friend.name).declared = true;
+        }
+      }
+    }
+
+    if (callGraph) {
+      const nodes = new Map(callGraph.nodes.map((node) => [node.id, node]));
+      for (const edge of callGraph.edges) {
+        const from = nodes.get(edge.from);
+        const to = nodes.get(edge.to);
+        if (
+          edge.kind === 'intra-package' &&
+          from && to &&
+          from.module !== to.module &&
+          to.visibility === 'friend'
+        ) {
+          const entry = get(to.module, from.module);
+          if (!entry.calls.includes(to.function)) {
+            entry.calls.push(to.function);
+          }
+        }
+      }
+    }
+
+    return [...friendships.values()].sort(
+      (a, b) => a.module.localeCompare(b.module) || a.friend.localeCompare(b.friend)
+    );
+  }
+
+  /**
+   * Shared objects of the package; every module sees the same package-wide ownership
+   */
+  private collectSharedObjects(modules: AnalyzedModule[]): ObjectOwnership[] {
+    const byType = new Map<string, ObjectOwnership>();
+    for (const ownership of modules.flatMap((m) => m.ownership ?? [])) {
+      if (ownership.primary === 'shared' && !byType.has(ownership.type)) {
+        byType.set(ownership.type, ownership);
+      }
+    }
+    return [...byType.values()];
+  }
+
+  /**
+   * Error constants of every module, tagged with their module
+   */
+  private collectErrorCodes(modules: AnalyzedModule[]): PackageErrorCode[] {
+    return modules.flatMap((m) => (m.errorCodes ?? []).map((error) => ({ ...error, module: m.moduleName })));
+  }
+
+  /**
+   * Events of every module with their emitters across the package
+   */
+  private collectEvents(modules: AnalyzedModule[]): PackageEvent[] {
+    const emitters = new Map<string, string[]>();
+    for (const module of modules) {
+      for (const func of module.functions) {
+        for (const event of func.emits) {
+          const type = event.name.includes('::') ? event.name : `${module.moduleName}::${event.name}`;
+          emitters.set(type, [...(emitters.get(type) ?? []), `${module.moduleName}::${func.name}`]);
+        }
+      }
+    }
+
+    return modules.flatMap((module) =>
+      module.events.map((event) => {
+        const type = `${module.moduleName}::${event.structName}`;
+        return {
+          module: module.moduleName,
+          name: event.name,
+          type,
+          fields: event.fields,
+          description: event.description,
+          emittedBy: emitters.get(type) ?? [],
+        };
+      })
+    );
+  }
+
+  /**
+   * Most common module category, ignoring modules with no clear category
+   */
+  private inferCategory(modules: AnalyzedModule[]): ModuleCategory {
+    const counts = new Map<ModuleCategory, number>();
+    for (const module of modules) {
+      if (module.category !== 'unknown') {
+        counts.set(module.category, (counts.get(module.category) ?? 0) + 1);
+      }
+    }
+
+    let dominant: ModuleCategory = 'unknown';
+    let maxCount = 0;
+    for (const [category, count] of counts) {
+      if (count > maxCount) {
+        dominant = category;
+        maxCount = count;
+      }
+    }
+    return dominant;
+  }
+}
+
+/**
+ * Struct types referenced by a normalized type, including type arguments
+ */
+function structRefs(type: SuiMoveNormalizedType): Array<{ address: string; module: string; name: string }> {
+  if (typeof type !== 'object' || type === null) {
+    return [];
+  }
+  if ('Struct' in type) {
+    return [type.Struct, ...type.Struct.typeArguments.flatMap(structRefs)];
+  }
+  if ('Vector' in type) {
+    return structRefs(type.Vector);
+  }
+  if ('Reference' in type) {
+    return structRefs(type.Reference);
+  }
+  if ('MutableReference' in type) {
+    return structRefs(type.MutableReference);
+  }
+  return [];
+}
+
+function normalizeAddress(address: string): string {
+  return `0x${address.replace(/^0x/, '').replace(/^0+/, '') || '0'}`;
+}
+
+/**
+ * Create a package analyzer instance
+ */
+export function createPackageAnalyzer(moduleAnalyzer?: ModuleAnalyzer): PackageAnalyzer {
+  return new PackageAnalyzer(moduleAnalyzer);
+}
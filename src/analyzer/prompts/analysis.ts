@@ -2,6 +2,12 @@
  * Claude analysis prompt template for contract analysis
  */
 
+/**
+ * Version of the analysis prompt and response format.
+ * Bump whenever either changes: cached analyses from other versions are discarded.
+ */
+export const ANALYSIS_PROMPT_VERSION = 1;
+
 export interface AnalysisPromptParams {
   packageId: string;
   moduleName: string;
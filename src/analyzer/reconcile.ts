@@ -0,0 +1,394 @@
+/**
+ * Analysis reconciliation - merges LLM output, regex fallbacks and declared (ABI) facts
+ * field by field, recording each fact's provenance and every disagreement.
+ *
+ * Precedence: declared facts (visibility, entry, abilities, constant values) always win;
+ * otherwise the LLM is preferred over name heuristics, and the regex analysis fills
+ * whatever the LLM left out.
+ */
+
+import type {
+  AIAnalyzedFunction,
+  AIAnalyzedType,
+  AnalysisConflict,
+  ContractAnalysis,
+  ErrorCodeEntry,
+  FactProvenance,
+  FactSource,
+  FieldProvenance,
+  GenericSemantics,
+} from '../types/index.js';
+import { decompileBytecode, isDisassembly } from '../decompiler/bytecode-decompiler.js';
+import { parseMoveFile, isTestOnly, typeToString } from '../parser/index.js';
+
+/** Default confidence of each source */
+export const SOURCE_CONFIDENCE: Record<FactSource, number> = {
+  abi: 1,
+  user: 1,
+  source: 0.9,
+  llm: 0.8,
+  regex: 0.5,
+};
+
+type Visibility = NonNullable<AIAnalyzedFunction['visibility']>;
+
+/**
+ * Facts read from the module's declarations
+ */
+export interface DeclaredFacts {
+  /** Whether declarations could be read at all (otherwise nothing is checked against them) */
+  known: boolean;
+  functions: Map<string, { visibility: Visibility; isEntry: boolean }>;
+  structs: Map<string, { abilities: string[] }>;
+  /** Error constant values (bytecode has no constant names, so this can be unknown) */
+  constants: Map<string, number>;
+  constantsKnown: boolean;
+  /** Type parameter names used by any declaration */
+  typeParams: Set<string>;
+}
+
+/**
+ * Read functions, struct abilities, error constants and type parameters from
+ * Move source or a bytecode disassembly
+ */
+export function collectDeclaredFacts(sourceCode: string): DeclaredFacts {
+  const facts: DeclaredFacts = {
+    known: false,
+    functions: new Map(),
+    structs: new Map(),
+    constants: new Map(),
+    constantsKnown: false,
+    typeParams: new Set(),
+  };
+
+  try {
+    if (isDisassembly(sourceCode)) {
+      const module = decompileBytecode(sourceCode);
+      for (const func of module.functions) {
+        facts.functions.set(func.name, { visibility: toVisibility(func.visibility), isEntry: func.isEntry });
+        func.typeParams.forEach((param) => facts.typeParams.add(param.split(':')[0].trim()));
+      }
+      for (const struct of module.structs) {
+        facts.structs.set(struct.name, { abilities: struct.abilities });
+      }
+      facts.known = module.functions.length + module.structs.length > 0;
+      return facts;
+    }
+
+    for (const module of parseMoveFile(sourceCode).modules) {
+      if (isTestOnly(module)) continue;
+      facts.known = true;
+      facts.constantsKnown = true;
+      for (const func of module.functions) {
+        if (isTestOnly(func)) continue;
+        facts.functions.set(func.name, { visibility: func.visibility, isEntry: func.isEntry });
+        func.typeParams.forEach((param) => facts.typeParams.add(param.name));
+      }
+      for (const struct of module.structs) {
+        if (isTestOnly(struct)) continue;
+        facts.structs.set(struct.name, { abilities: struct.abilities });
+        struct.typeParams.forEach((param) => facts.typeParams.add(param.name));
+      }
+      for (const constant of module.constants) {
+        if (constant.numericValue !== undefined && typeToString(constant.type) === 'u64') {
+          facts.constants.set(constant.name, Number(constant.numericValue));
+        }
+      }
+    }
+  } catch (error) {
+    console.warn(`Skipping declared facts: ${(error as Error).message}`);
+  }
+
+  return facts;
+}
+
+/**
+ * Reconcile an LLM analysis (if any) with the regex analysis and declared facts
+ */
+export function reconcileAnalysis(
+  llm: ContractAnalysis | null,
+  regex: ContractAnalysis,
+  facts: DeclaredFacts
+): ContractAnalysis {
+  const conflicts: AnalysisConflict[] = [];
+  const base = llm ?? regex;
+  const primary: FactSource = llm ? 'llm' : 'regex';
+  let filled = false;
+
+  const functions = base.functions
+    .map((func) => reconcileFunction(func, llm ? regex.functions.find((f) => f.name === func.name) : undefined, primary, facts, conflicts))
+    .filter((func): func is AIAnalyzedFunction => func !== null);
+  const types = base.types
+    .map((type) => reconcileType(type, llm ? regex.types.find((t) => t.name === type.name) : undefined, primary, facts, conflicts))
+    .filter((type): type is AIAnalyzedType => type !== null);
+  const errorCodes = base.errorCodes
+    .map((error) => reconcileError(error, llm ? regex.errorCodes.find((e) => e.name === error.name) : undefined, primary, facts, conflicts))
+    .filter((error): error is ErrorCodeEntry => error !== null);
+  const generics = reconcileGenerics(base.generics, llm ? regex.generics : undefined, primary, facts, conflicts);
+
+  // The regex analysis fills in whatever the LLM left out
+  if (llm) {
+    const rejected = new Set(conflicts.filter((c) => c.field === 'exists').map((c) => c.subject));
+    for (const func of regex.functions) {
+      if (functions.some((f) => f.name === func.name) || rejected.has(`function:${func.name}`)) continue;
+      const reconciled = reconcileFunction(func, undefined, 'regex', facts, conflicts);
+      if (!reconciled) continue;
+      functions.push(reconciled);
+      filled = true;
+    }
+    for (const type of regex.types) {
+      if (types.some((t) => t.name === type.name) || rejected.has(`type:${type.name}`)) continue;
+      const reconciled = reconcileType(type, undefined, 'regex', facts, conflicts);
+      if (!reconciled) continue;
+      types.push(reconciled);
+      filled = true;
+    }
+    for (const error of regex.errorCodes) {
+      if (errorCodes.some((e) => e.name === error.name)) continue;
+      const reconciled = reconcileError(error, undefined, 'regex', facts, conflicts);
+      if (!reconciled) continue;
+      errorCodes.push(reconciled);
+      filled = true;
+    }
+    for (const [name, meaning] of Object.entries(regex.generics.mapping)) {
+      if (generics.mapping[name]) continue;
+      generics.mapping[name] = meaning;
+      generics.provenance![name] = regex.generics.provenance?.[name] ?? fact('regex', regex.generics.inferredFrom);
+      filled = true;
+    }
+  }
+  errorCodes.sort((a, b) => a.code - b.code);
+
+  const functionNames = new Set(functions.map((f) => f.name));
+  const overridden = conflicts.some((c) => c.chosen.source !== primary);
+
+  return {
+    ...base,
+    functions,
+    types,
+    errorCodes,
+    generics,
+    security: {
+      ...base.security,
+      adminFunctions: base.security.adminFunctions.filter((name) => functionNames.has(name)),
+    },
+    analysisSource: llm && (filled || overridden) ? 'hybrid' : base.analysisSource,
+    conflicts,
+  };
+}
+
+/**
+ * Check a function against its declaration; undeclared functions are dropped
+ */
+function reconcileFunction(
+  func: AIAnalyzedFunction,
+  fallback: AIAnalyzedFunction | undefined,
+  primary: FactSource,
+  facts: DeclaredFacts,
+  conflicts: AnalysisConflict[]
+): AIAnalyzedFunction | null {
+  const declared = facts.functions.get(func.name);
+  if (facts.known && !declared) {
+    conflicts.push(notDeclared(`function:${func.name}`, primary));
+    return null;
+  }
+
+  const provenance = withDefaults(func.provenance, primary, ['purpose', 'category', 'risk']);
+  let category = func.category;
+
+  if (fallback && fallback.category !== category) {
+    conflicts.push(preferred(`function:${func.name}`, 'category', category, fallback.category));
+  }
+
+  if (declared) {
+    const callable = declared.isEntry || declared.visibility === 'public';
+    if (!callable && category !== 'internal') {
+      conflicts.push({
+        subject: `function:${func.name}`,
+        field: 'category',
+        chosen: { value: 'internal', source: 'abi' },
+        rejected: [{ value: category, source: provenance.category.source }],
+        reason: `declared ${declared.visibility} and not entry, so it cannot be called from a transaction`,
+      });
+      category = 'internal';
+      provenance.category = abiFact(`declared ${declared.visibility}`);
+    }
+    provenance.visibility = abiFact(`declared ${declared.visibility}`);
+    provenance.isEntry = abiFact(declared.isEntry ? 'declared entry' : 'not declared entry');
+  }
+
+  return {
+    ...func,
+    category,
+    ...(declared ? { visibility: declared.visibility, isEntry: declared.isEntry } : {}),
+    provenance,
+  };
+}
+
+/**
+ * Check a type's object flags against its declared abilities; undeclared types are dropped
+ */
+function reconcileType(
+  type: AIAnalyzedType,
+  fallback: AIAnalyzedType | undefined,
+  primary: FactSource,
+  facts: DeclaredFacts,
+  conflicts: AnalysisConflict[]
+): AIAnalyzedType | null {
+  const declared = facts.structs.get(type.name);
+  if (facts.known && !declared) {
+    conflicts.push(notDeclared(`type:${type.name}`, primary));
+    return null;
+  }
+
+  const provenance = withDefaults(type.provenance, primary, ['purpose', 'isCapability', 'isSharedObject']);
+  const flags = { isCapability: type.isCapability, isSharedObject: type.isSharedObject };
+
+  for (const flag of ['isCapability', 'isSharedObject'] as const) {
+    if (declared && flags[flag] && !declared.abilities.includes('key')) {
+      conflicts.push({
+        subject: `type:${type.name}`,
+        field: flag,
+        chosen: { value: false, source: 'abi' },
+        rejected: [{ value: true, source: provenance[flag].source }],
+        reason: `declared without \`key\` (abilities: ${formatAbilities(declared.abilities)}), so it is not an object`,
+      });
+      flags[flag] = false;
+      provenance[flag] = abiFact(`abilities: ${formatAbilities(declared.abilities)}`);
+    } else if (fallback && fallback[flag] !== flags[flag]) {
+      conflicts.push(preferred(`type:${type.name}`, flag, flags[flag], fallback[flag]));
+    }
+  }
+  if (declared) {
+    provenance.abilities = abiFact(`abilities: ${formatAbilities(declared.abilities)}`);
+  }
+
+  return { ...type, ...flags, ...(declared ? { abilities: declared.abilities } : {}), provenance };
+}
+
+/**
+ * Check an error's code against its constant declaration; undeclared errors are dropped
+ */
+function reconcileError(
+  error: ErrorCodeEntry,
+  fallback: ErrorCodeEntry | undefined,
+  primary: FactSource,
+  facts: DeclaredFacts,
+  conflicts: AnalysisConflict[]
+): ErrorCodeEntry | null {
+  const declaredCode = facts.constants.get(error.name);
+  if (facts.constantsKnown && declaredCode === undefined) {
+    conflicts.push(notDeclared(`error:${error.name}`, primary));
+    return null;
+  }
+
+  const provenance = withDefaults(error.provenance, primary, ['code', 'description', 'category']);
+  let code = error.code;
+
+  if (declaredCode !== undefined) {
+    const declaration = `declared \`const ${error.name}: u64 = ${declaredCode}\``;
+    if (declaredCode !== code) {
+      conflicts.push({
+        subject: `error:${error.name}`,
+        field: 'code',
+        chosen: { value: declaredCode, source: 'abi' },
+        rejected: [{ value: code, source: provenance.code.source }],
+        reason: declaration,
+      });
+      code = declaredCode;
+    }
+    provenance.code = abiFact(declaration);
+  }
+  if (fallback && fallback.category !== error.category) {
+    conflicts.push(preferred(`error:${error.name}`, 'category', error.category, fallback.category));
+  }
+
+  return { ...error, code, raisedBy: error.raisedBy ?? fallback?.raisedBy, provenance };
+}
+
+/**
+ * Keep generics that are declared, preferring the LLM's meaning over the regex guess
+ */
+function reconcileGenerics(
+  generics: GenericSemantics,
+  fallback: GenericSemantics | undefined,
+  primary: FactSource,
+  facts: DeclaredFacts,
+  conflicts: AnalysisConflict[]
+): GenericSemantics {
+  const mapping: GenericSemantics['mapping'] = {};
+  const provenance: FieldProvenance = {};
+
+  for (const [name, meaning] of Object.entries(generics.mapping)) {
+    if (facts.known && !facts.typeParams.has(name)) {
+      conflicts.push(notDeclared(`generic:${name}`, primary));
+      continue;
+    }
+
+    const other = fallback?.mapping[name];
+    if (other && other.name.toLowerCase() !== meaning.name.toLowerCase()) {
+      conflicts.push(preferred(`generic:${name}`, 'name', meaning.name, other.name));
+    }
+
+    mapping[name] = meaning;
+    provenance[name] = generics.provenance?.[name] ?? fact(primary, primary === 'regex' ? generics.inferredFrom : []);
+  }
+
+  return { ...generics, mapping, provenance };
+}
+
+/**
+ * Fill in provenance for fields the producer did not annotate
+ */
+function withDefaults(provenance: FieldProvenance | undefined, source: FactSource, fields: string[]): FieldProvenance {
+  const result: FieldProvenance = { ...provenance };
+  for (const field of fields) {
+    result[field] ??= fact(source, []);
+  }
+  return result;
+}
+
+/**
+ * An LLM value kept over a disagreeing regex heuristic
+ */
+function preferred(subject: string, field: string, llmValue: unknown, regexValue: unknown): AnalysisConflict {
+  return {
+    subject,
+    field,
+    chosen: { value: llmValue, source: 'llm' },
+    rejected: [{ value: regexValue, source: 'regex' }],
+    reason: 'LLM reading of the contract preferred over name heuristics',
+  };
+}
+
+function notDeclared(subject: string, source: FactSource): AnalysisConflict {
+  return {
+    subject,
+    field: 'exists',
+    chosen: { value: false, source: 'abi' },
+    rejected: [{ value: true, source }],
+    reason: 'not declared in the module',
+  };
+}
+
+/**
+ * Provenance for a fact from one source at its default confidence
+ */
+export function fact(source: FactSource, evidence: string[], confidence = SOURCE_CONFIDENCE[source]): FactProvenance {
+  return { source, confidence, evidence };
+}
+
+function abiFact(evidence: string): FactProvenance {
+  return fact('abi', [evidence]);
+}
+
+function formatAbilities(abilities: string[]): string {
+  return abilities.length > 0 ? abilities.join(', ') : 'none';
+}
+
+function toVisibility(visibility: string): Visibility {
+  if (/friend/.test(visibility)) return 'friend';
+  if (/package/.test(visibility)) return 'package';
+  if (/^public/.test(visibility)) return 'public';
+  return 'private';
+}
@@ -0,0 +1,39 @@
+/**
+ * Helpers shared by the analyzers that scan function bodies in Move source
+ */
+
+import type { FunctionDecl, TypeNode } from '../parser/index.js';
+
+/**
+ * Resolve the struct type of a call argument from a struct literal,
+ * a parameter or a `let` binding in the function body
+ */
+export function argumentType(func: FunctionDecl, arg: string, structNames: string[]): string | undefined {
+  if (structNames.includes(arg)) return arg;
+
+  const param = func.params.find((p) => p.name === arg);
+  if (param) return typeNodeNames(param.type)[0];
+
+  const binding = (func.body?.text ?? '').match(
+    new RegExp(`let\\s+(?:mut\\s+)?${arg}\\b\\s*(?::\\s*([\\w:]+))?[^=;]*=\\s*([\\w:]+)\\s*(?:<[^>{}]*>)?\\s*(\\{)?`)
+  );
+  if (!binding) return undefined;
+  if (binding[1]) return binding[1].split('::').pop();
+  return binding[3] ? binding[2].split('::').pop() : undefined;
+}
+
+/**
+ * Struct names referenced by a parsed type, including type arguments
+ */
+export function typeNodeNames(type: TypeNode): string[] {
+  switch (type.kind) {
+    case 'path':
+      return [type.path[type.path.length - 1], ...type.typeArgs.flatMap((arg) => typeNodeNames(arg))];
+    case 'ref':
+      return typeNodeNames(type.inner);
+    case 'tuple':
+      return type.elements.flatMap((element) => typeNodeNames(element));
+    case 'lambda':
+      return [];
+  }
+}
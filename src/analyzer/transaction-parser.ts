@@ -8,6 +8,7 @@ import type {
   ParsedMoveCall,
   InvolvedPackage,
 } from '../fetcher/transaction-fetcher.js';
+import { formatCoinAmount, type CoinRegistry } from '../fetcher/coin-registry.js';
 
 // ============ Types ============
 
@@ -84,6 +85,19 @@ export interface TransactionSummary {
   eventsEmitted: number;
   coinTypesInvolved: string[];
   netValueChanges: Map<string, bigint>;  // coinType -> amount
+  /** Net changes scaled by coin decimals, filled by `resolveAmounts` */
+  valueChanges?: CoinValueChange[];
+}
+
+export interface CoinValueChange {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  /** Raw amount in the coin's smallest unit */
+  amount: bigint;
+  /** Signed human-readable amount, e.g. "+1.5" */
+  formatted: string;
+  iconUrl?: string;
 }
 
 // ============ Known Protocol Patterns ============
@@ -232,6 +246,28 @@ export class TransactionParser {
     };
   }
 
+  /**
+   * Resolve coin metadata for the summary's net value changes and
+   * fill `summary.valueChanges` with human-readable amounts
+   */
+  async resolveAmounts(result: TransactionParseResult, registry: CoinRegistry): Promise<CoinValueChange[]> {
+    const { summary } = result;
+    const coins = await registry.resolveMany([...summary.netValueChanges.keys()]);
+
+    summary.valueChanges = [...summary.netValueChanges].map(([coinType, amount]) => {
+      const coin = coins.get(coinType)!;
+      return {
+        coinType,
+        symbol: coin.symbol,
+        decimals: coin.decimals,
+        amount,
+        formatted: formatCoinAmount(amount, coin.decimals, { signed: true }),
+        iconUrl: coin.iconUrl,
+      };
+    });
+    return summary.valueChanges;
+  }
+
   /**
    * Extract all involved packages
    */
@@ -0,0 +1,179 @@
+/**
+ * Cache command - inspect, prune and export the on-disk package cache
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import {
+  DiskCache,
+  type DiskCacheFilter,
+  type DiskCacheKind,
+} from '../../fetcher/disk-cache.js';
+import { MoveWhispererError } from '../../core/errors.js';
+
+interface CacheFilterOptions {
+  network?: string;
+  package?: string;
+  kind?: string;
+  dir?: string;
+}
+
+interface InspectOptions extends CacheFilterOptions {
+  entries: boolean;
+  json: boolean;
+}
+
+interface PruneOptions extends CacheFilterOptions {
+  all: boolean;
+  olderThan?: string;
+}
+
+const VALID_KINDS: DiskCacheKind[] = ['module', 'modules', 'versioned-source', 'history', 'analysis', 'coin'];
+
+export function createCacheCommand(): Command {
+  const cmd = new Command('cache');
+
+  cmd.description('Inspect, prune and export the on-disk package cache');
+
+  const withFilters = (sub: Command): Command =>
+    sub
+      .option('-n, --network <network>', 'Only entries for this network')
+      .option('-p, --package <packageId>', 'Only entries for this package')
+      .option('-k, --kind <kind>', `Only entries of this kind: ${VALID_KINDS.join(' | ')}`)
+      .option('--dir <dir>', 'Cache directory (defaults to ~/.cache/move-whisperer)');
+
+  withFilters(
+    cmd
+      .command('inspect')
+      .description('Show cache location, size and entries')
+      .option('-e, --entries', 'List individual entries', false)
+      .option('--json', 'Output as JSON', false)
+  ).action(async (options: InspectOptions) => {
+    try {
+      const cache = new DiskCache(options.dir);
+      const filter = toFilter(options);
+      const stats = await cache.stats();
+      const entries = await cache.list(filter);
+
+      if (options.json) {
+        console.log(JSON.stringify({ stats, entries: options.entries ? entries : undefined }, null, 2));
+        return;
+      }
+
+      console.log('');
+      console.log(chalk.cyan('  Cache:'));
+      console.log(`    Location: ${chalk.white(stats.root)}`);
+      console.log(`    Entries:  ${chalk.white(stats.entries)} ${chalk.gray(`(${stats.expired} expired)`)}`);
+      console.log(`    Objects:  ${chalk.white(stats.objects)} ${chalk.gray(`(${formatBytes(stats.totalBytes)})`)}`);
+      console.log('');
+
+      if (Object.keys(stats.byKind).length > 0) {
+        console.log(chalk.cyan('  By kind:'));
+        for (const [kind, count] of Object.entries(stats.byKind)) {
+          console.log(`    ${chalk.gray('-')} ${kind}: ${chalk.white(count)}`);
+        }
+        console.log('');
+        console.log(chalk.cyan('  By network:'));
+        for (const [network, count] of Object.entries(stats.byNetwork)) {
+          console.log(`    ${chalk.gray('-')} ${network}: ${chalk.white(count)}`);
+        }
+        console.log('');
+      }
+
+      if (options.entries) {
+        console.log(chalk.cyan(`  Entries (${entries.length}):`));
+        for (const entry of entries) {
+          const expiry = entry.expiresAt === null
+            ? chalk.gray('immutable')
+            : entry.expiresAt < Date.now()
+              ? chalk.red('expired')
+              : chalk.yellow(`expires ${new Date(entry.expiresAt).toISOString()}`);
+          const name = entry.name ? `::${entry.name}` : '';
+          console.log(
+            `    ${chalk.gray('-')} [${entry.network}] ${chalk.white(`${entry.packageId}${name}`)} ${chalk.gray(entry.kind)} ${formatBytes(entry.size)} ${expiry}`
+          );
+        }
+        console.log('');
+      }
+    } catch (error) {
+      handleError(error);
+      process.exit(1);
+    }
+  });
+
+  withFilters(
+    cmd
+      .command('prune')
+      .description('Remove expired entries (or everything matching with --all)')
+      .option('-a, --all', 'Remove all matching entries, not just expired ones', false)
+      .option('--older-than <days>', 'Only remove entries stored more than <days> days ago')
+  ).action(async (options: PruneOptions) => {
+    try {
+      const cache = new DiskCache(options.dir);
+      const olderThanDays = options.olderThan !== undefined ? parseFloat(options.olderThan) : undefined;
+      if (olderThanDays !== undefined && (isNaN(olderThanDays) || olderThanDays < 0)) {
+        throw new Error(`Invalid --older-than value: ${options.olderThan}`);
+      }
+
+      const result = await cache.prune({
+        ...toFilter(options),
+        expiredOnly: !options.all && olderThanDays === undefined,
+        olderThanMs: olderThanDays !== undefined ? olderThanDays * 24 * 60 * 60 * 1000 : undefined,
+      });
+
+      console.log(
+        chalk.green(`✓ Removed ${result.removedEntries} entries and ${result.removedObjects} unreferenced objects`)
+      );
+    } catch (error) {
+      handleError(error);
+      process.exit(1);
+    }
+  });
+
+  withFilters(
+    cmd
+      .command('export')
+      .description('Export matching entries with their content to a JSON bundle')
+      .argument('<file>', 'Output file')
+  ).action(async (file: string, options: CacheFilterOptions) => {
+    try {
+      const cache = new DiskCache(options.dir);
+      const bundle = await cache.export(toFilter(options));
+      await fs.writeFile(file, JSON.stringify(bundle, null, 2), 'utf-8');
+      console.log(chalk.green(`✓ Exported ${bundle.entries.length} entries to ${file}`));
+    } catch (error) {
+      handleError(error);
+      process.exit(1);
+    }
+  });
+
+  return cmd;
+}
+
+function toFilter(options: CacheFilterOptions): DiskCacheFilter {
+  if (options.kind && !VALID_KINDS.includes(options.kind as DiskCacheKind)) {
+    throw new Error(`Invalid kind: ${options.kind}. Valid options: ${VALID_KINDS.join(', ')}`);
+  }
+  return {
+    network: options.network,
+    packageId: options.package,
+    kind: options.kind as DiskCacheKind | undefined,
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function handleError(error: unknown): void {
+  if (error instanceof MoveWhispererError) {
+    console.error(chalk.red(`\n  Error [${error.code}]: ${error.message}`));
+  } else if (error instanceof Error) {
+    console.error(chalk.red(`\n  Error: ${error.message}`));
+  } else {
+    console.error(chalk.red(`\n  Error: ${String(error)}`));
+  }
+}
@@ -5,24 +5,45 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import type { Network, SkillScene } from '../../types/index.js';
+import type { Network, SkillScene, ModuleMetadata, OutputFormat, GenerateTarget } from '../../types/index.js';
 import { createMainGenerator } from '../../core/generator.js';
+import { resolveNetwork } from '../../fetcher/index.js';
 import { MoveWhispererError } from '../../core/errors.js';
 import { isValidScene, getSceneDisplayName, SCENE_CONFIGS } from '../../scenes/index.js';
+import { isTargetLanguage, TARGET_LANGUAGES, type TargetLanguage } from '../../mapper/languages.js';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['skill', 'json', 'markdown'];
+const GENERATE_TARGETS: GenerateTarget[] = ['skill', 'mcp'];
 
 export interface GenerateOptions {
   network: Network;
   output?: string;
   lang: 'en' | 'zh';
+  format: string;
+  target: string;
   scene: SkillScene;
   scripts: boolean;
   examples: boolean;
+  types: boolean;
+  codegen: boolean;
+  scriptLang: string;
   analyzeDeps: boolean;
+  depsDepth?: string;
   includeDiagram: boolean;
   modules?: string;
+  concurrency?: string;
   verbose: boolean;
 }
 
+/** What the command reports for a module or package skill */
+interface GenerateSummary {
+  /** Move.toml package name, for source inputs */
+  name?: string;
+  packageId: string;
+  modules: string[];
+  metadata: Pick<ModuleMetadata, 'entryFunctions' | 'publicFunctions' | 'totalStructs' | 'totalEvents'>;
+}
+
 export function createGenerateCommand(): Command {
   const cmd = new Command('generate');
 
@@ -30,16 +51,23 @@ export function createGenerateCommand(): Command {
 
   cmd
     .description('Generate skill from Sui Move contract')
-    .argument('<input>', 'Package ID (0x...) or Package::Module (0x...::module_name)')
-    .option('-n, --network <network>', 'Network: mainnet | testnet | devnet', 'mainnet')
+    .argument('<input>', 'Package ID (0x...), Package::Module (0x...::module_name), local Move package path or GitHub URL')
+    .option('-n, --network <network>', 'Network profile: mainnet | testnet | devnet | localnet | <custom>', 'mainnet')
     .option('-o, --output <dir>', 'Output directory')
     .option('-l, --lang <lang>', 'Language: en | zh', 'en')
+    .option('-f, --format <format>', `Output format: ${OUTPUT_FORMATS.join(' | ')}`, 'skill')
+    .option('-t, --target <target>', `What to generate: ${GENERATE_TARGETS.join(' | ')}`, 'skill')
     .option(`-s, --scene <scene>`, `Scene: ${sceneChoices}`, 'sdk')
-    .option('--analyze-deps', 'Analyze dependencies', false)
+    .option('--analyze-deps', 'Resolve the packages this package depends on', false)
+    .option('--deps-depth <n>', 'Levels of dependencies to resolve with --analyze-deps', '1')
     .option('--include-diagram', 'Include architecture diagram', false)
     .option('--modules <modules>', 'Comma-separated module filter')
+    .option('--concurrency <n>', 'Maximum parallel RPC requests when fetching modules', '4')
     .option('--no-scripts', 'Skip script generation')
     .option('--no-examples', 'Skip example generation')
+    .option('--no-types', 'Skip TypeScript type and BCS schema generation')
+    .option('--codegen', 'Generate a typed TypeScript SDK module per Move module', false)
+    .option('--script-lang <lang>', `Language of the call/read scripts: ${TARGET_LANGUAGES.join(' | ')}`, 'typescript')
     .option('-v, --verbose', 'Verbose output', false)
     .action(async (input: string, options: GenerateOptions) => {
       const spinner = ora('Initializing...').start();
@@ -51,54 +79,100 @@ export function createGenerateCommand(): Command {
         // Validate scene
         const scene = validateScene(options.scene);
 
+        // Validate output format
+        const format = validateFormat(options.format);
+
+        // Validate target
+        const target = validateTarget(options.target, format);
+
+        // Validate script language
+        const scriptLanguage = validateScriptLanguage(options.scriptLang);
+
         // Parse module filter
         const moduleFilter = options.modules
           ? options.modules.split(',').map(m => m.trim())
           : undefined;
 
+        const concurrency = parseInt(options.concurrency ?? '4', 10);
+        if (isNaN(concurrency) || concurrency < 1) {
+          throw new Error(`Invalid --concurrency value: ${options.concurrency}`);
+        }
+
+        const dependencyDepth = parseInt(options.depsDepth ?? '1', 10);
+        if (isNaN(dependencyDepth) || dependencyDepth < 1) {
+          throw new Error(`Invalid --deps-depth value: ${options.depsDepth}`);
+        }
+
         // Create generator
         const generator = createMainGenerator({
           network,
           language: options.lang,
+          format,
+          target,
           includeScripts: options.scripts,
           includeExamples: options.examples,
+          includeTypes: options.types,
+          includeSdk: options.codegen,
+          scriptLanguage,
           outputDir: options.output,
           scene,
           analyzeDependencies: options.analyzeDeps,
+          dependencyDepth,
           includeArchitectureDiagram: options.includeDiagram,
           moduleFilter,
+          concurrency,
         });
 
-        // Generate with progress updates
-        const result = await generator.generate(input, (_stage, message, progress) => {
+        // Generate with progress updates; inputs without a module get a package-level skill
+        const onProgress = (_stage: string, message: string, progress?: number) => {
           spinner.text = message;
           if (options.verbose && progress !== undefined) {
             spinner.text = `${message} (${progress}%)`;
           }
-        });
+        };
+
+        let writtenFiles: string[];
+        let summaries: GenerateSummary[];
+        if (generator.targetsSingleModule(input)) {
+          const result = await generator.generate(input, onProgress);
+          writtenFiles = result.writtenFiles;
+          summaries = [{ ...result.analyzedModule, modules: [result.analyzedModule.moduleName] }];
+        } else {
+          const results = await generator.generatePackages(input, onProgress);
+          writtenFiles = results.flatMap((result) => result.writtenFiles);
+          summaries = results.map(({ analyzedPackage }) => ({
+            ...analyzedPackage,
+            modules: analyzedPackage.metadata.modules,
+          }));
+        }
 
-        spinner.succeed(chalk.green('Skill generated successfully!'));
+        spinner.succeed(chalk.green(target === 'mcp' ? 'MCP server generated successfully!' : 'Skill generated successfully!'));
 
-        // Print summary
-        console.log('');
-        console.log(chalk.cyan('  Summary:'));
-        console.log(`    Package: ${chalk.white(result.analyzedModule.packageId)}`);
-        console.log(`    Module:  ${chalk.white(result.analyzedModule.moduleName)}`);
-        console.log(`    Network: ${chalk.white(network)}`);
-        console.log(`    Scene:   ${chalk.white(getSceneDisplayName(scene, options.lang))}`);
-        console.log('');
-        console.log(chalk.cyan('  Statistics:'));
-        console.log(`    Entry functions: ${chalk.white(result.analyzedModule.metadata.entryFunctions)}`);
-        console.log(`    Public functions: ${chalk.white(result.analyzedModule.metadata.publicFunctions)}`);
-        console.log(`    Structs: ${chalk.white(result.analyzedModule.metadata.totalStructs)}`);
-        console.log(`    Events: ${chalk.white(result.analyzedModule.metadata.totalEvents)}`);
+        // Print summary, one per package
+        for (const summary of summaries) {
+          console.log('');
+          console.log(chalk.cyan('  Summary:'));
+          if (summary.name) {
+            console.log(`    Name:    ${chalk.white(summary.name)}`);
+          }
+          console.log(`    Package: ${chalk.white(summary.packageId)}`);
+          console.log(`    ${summary.modules.length === 1 ? 'Module: ' : 'Modules:'} ${chalk.white(summary.modules.join(', '))}`);
+          console.log(`    Network: ${chalk.white(network)}`);
+          console.log(`    Scene:   ${chalk.white(getSceneDisplayName(scene, options.lang))}`);
+          console.log('');
+          console.log(chalk.cyan('  Statistics:'));
+          console.log(`    Entry functions: ${chalk.white(summary.metadata.entryFunctions)}`);
+          console.log(`    Public functions: ${chalk.white(summary.metadata.publicFunctions)}`);
+          console.log(`    Structs: ${chalk.white(summary.metadata.totalStructs)}`);
+          console.log(`    Events: ${chalk.white(summary.metadata.totalEvents)}`);
+        }
         console.log('');
         console.log(chalk.cyan('  Output:'));
-        for (const file of result.writtenFiles.slice(0, 5)) {
+        for (const file of writtenFiles.slice(0, 5)) {
           console.log(`    ${chalk.gray('-')} ${chalk.white(file)}`);
         }
-        if (result.writtenFiles.length > 5) {
-          console.log(`    ${chalk.gray(`... and ${result.writtenFiles.length - 5} more files`)}`);
+        if (writtenFiles.length > 5) {
+          console.log(`    ${chalk.gray(`... and ${writtenFiles.length - 5} more files`)}`);
         }
         console.log('');
       } catch (error) {
@@ -112,11 +186,7 @@ export function createGenerateCommand(): Command {
 }
 
 function validateNetwork(network: string): Network {
-  const valid: Network[] = ['mainnet', 'testnet', 'devnet'];
-  if (!valid.includes(network as Network)) {
-    throw new Error(`Invalid network: ${network}. Valid options: ${valid.join(', ')}`);
-  }
-  return network as Network;
+  return resolveNetwork(network);
 }
 
 function validateScene(scene: string): SkillScene {
@@ -127,6 +197,30 @@ function validateScene(scene: string): SkillScene {
   return scene;
 }
 
+function validateFormat(format: string): OutputFormat {
+  if (!(OUTPUT_FORMATS as string[]).includes(format)) {
+    throw new Error(`Invalid format: ${format}. Valid options: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format as OutputFormat;
+}
+
+function validateTarget(target: string, format: OutputFormat): GenerateTarget {
+  if (!(GENERATE_TARGETS as string[]).includes(target)) {
+    throw new Error(`Invalid target: ${target}. Valid options: ${GENERATE_TARGETS.join(', ')}`);
+  }
+  if (target === 'mcp' && format !== 'skill') {
+    throw new Error(`Invalid format for the mcp target: ${format}. Omit --format to generate an MCP server`);
+  }
+  return target as GenerateTarget;
+}
+
+function validateScriptLanguage(language: string): TargetLanguage {
+  if (!isTargetLanguage(language)) {
+    throw new Error(`Invalid script language: ${language}. Valid options: ${TARGET_LANGUAGES.join(', ')}`);
+  }
+  return language;
+}
+
 function handleError(error: unknown, verbose: boolean): void {
   if (error instanceof MoveWhispererError) {
     console.error(chalk.red(`\n  Error [${error.code}]: ${error.message}`));
@@ -9,7 +9,7 @@ import ora from 'ora';
 import { promises as fs } from 'fs';
 import { spawn } from 'child_process';
 import type { Network } from '../../types/index.js';
-import { parsePackageInput } from '../../fetcher/index.js';
+import { parsePackageInput, resolveNetwork } from '../../fetcher/index.js';
 import { createVersionFetcher, type PackageVersionHistory } from '../../history/index.js';
 import {
   createStructuralDiffer,
@@ -34,11 +34,7 @@ interface HistoryOptions {
  * Validate network option
  */
 function validateNetwork(network: string): Network {
-  const valid: Network[] = ['mainnet', 'testnet', 'devnet'];
-  if (!valid.includes(network as Network)) {
-    throw new InputValidationError(`Invalid network: ${network}. Valid options: ${valid.join(', ')}`);
-  }
-  return network as Network;
+  return resolveNetwork(network);
 }
 
 /**
@@ -79,7 +75,7 @@ export function createHistoryCommand(): Command {
   command
     .description('Display package version history and compare versions')
     .argument('<package>', 'Package ID (any version in the upgrade chain)')
-    .option('-n, --network <network>', 'Sui network (mainnet, testnet, devnet)', 'mainnet')
+    .option('-n, --network <network>', 'Sui network profile (mainnet, testnet, devnet, localnet or custom)', 'mainnet')
     .option('-f, --format <format>', 'Output format: table, json, markdown', 'table')
     .option('-c, --compare <versions>', 'Compare two versions (e.g., "1:2", "latest:previous")')
     .option('-m, --module <module>', 'Filter to specific module for comparison')
@@ -9,3 +9,5 @@ export * from './source.js';
 export * from './serve.js';
 export * from './history.js';
 export * from './tx.js';
+export * from './cache.js';
+export * from './networks.js';
@@ -7,10 +7,12 @@ import chalk from 'chalk';
 import ora from 'ora';
 import type { Network } from '../../types/index.js';
 import { createMainGenerator } from '../../core/generator.js';
+import { resolveNetwork } from '../../fetcher/index.js';
 import { MoveWhispererError } from '../../core/errors.js';
 
 export interface ListOptions {
   network: Network;
+  details: boolean;
   verbose: boolean;
 }
 
@@ -20,7 +22,8 @@ export function createListCommand(): Command {
   cmd
     .description('List modules in a Sui package')
     .argument('<packageId>', 'Package ID (0x...)')
-    .option('-n, --network <network>', 'Network: mainnet | testnet | devnet', 'mainnet')
+    .option('-n, --network <network>', 'Network profile: mainnet | testnet | devnet | localnet | <custom>', 'mainnet')
+    .option('-d, --details', 'Fetch every module ABI and show function/struct counts', false)
     .option('-v, --verbose', 'Verbose output', false)
     .action(async (packageId: string, options: ListOptions) => {
       const spinner = ora('Fetching modules...').start();
@@ -32,8 +35,9 @@ export function createListCommand(): Command {
         // Create generator
         const generator = createMainGenerator({ network });
 
-        // List modules
-        const modules = await generator.listModules(packageId);
+        // List modules (with ABIs fetched in one batch for --details)
+        const fetched = options.details ? await generator.fetchPackageModules(packageId) : null;
+        const modules = fetched ? fetched.map((m) => m.moduleName) : await generator.listModules(packageId);
 
         spinner.succeed(chalk.green(`Found ${modules.length} module(s)`));
 
@@ -44,7 +48,11 @@ export function createListCommand(): Command {
         console.log(chalk.cyan('  Modules:'));
 
         for (const mod of modules) {
-          console.log(`    ${chalk.gray('-')} ${chalk.white(mod)}`);
+          const abi = fetched?.find((m) => m.moduleName === mod)?.abi;
+          const counts = abi
+            ? chalk.gray(` (${Object.keys(abi.exposedFunctions).length} functions, ${Object.keys(abi.structs).length} structs)`)
+            : '';
+          console.log(`    ${chalk.gray('-')} ${chalk.white(mod)}${counts}`);
         }
 
         console.log('');
@@ -61,11 +69,7 @@ export function createListCommand(): Command {
 }
 
 function validateNetwork(network: string): Network {
-  const valid: Network[] = ['mainnet', 'testnet', 'devnet'];
-  if (!valid.includes(network as Network)) {
-    throw new Error(`Invalid network: ${network}. Valid options: ${valid.join(', ')}`);
-  }
-  return network as Network;
+  return resolveNetwork(network);
 }
 
 function handleError(error: unknown, verbose: boolean): void {
@@ -0,0 +1,89 @@
+/**
+ * Networks command - list network profiles and check endpoint health
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import {
+  getNetworkConfig,
+  getEndpointPool,
+  type EndpointHealth,
+} from '../../fetcher/index.js';
+import { MoveWhispererError } from '../../core/errors.js';
+
+interface NetworksOptions {
+  check: boolean;
+  json: boolean;
+}
+
+export function createNetworksCommand(): Command {
+  const cmd = new Command('networks');
+
+  cmd
+    .description('List network profiles (built-in and from move-whisperer.config.json)')
+    .option('-c, --check', 'Probe every RPC endpoint and show latency', false)
+    .option('--json', 'Output as JSON', false)
+    .action(async (options: NetworksOptions) => {
+      try {
+        const config = getNetworkConfig();
+        const profiles = Object.values(config.profiles);
+        const health: Record<string, EndpointHealth[]> = {};
+
+        if (options.check) {
+          const spinner = options.json ? null : ora('Checking endpoints...').start();
+          for (const profile of profiles) {
+            health[profile.name] = await getEndpointPool(profile.rpc).probe();
+          }
+          spinner?.stop();
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify({
+            configPath: config.path,
+            profiles,
+            health: options.check ? health : undefined,
+          }, null, 2));
+          return;
+        }
+
+        console.log('');
+        console.log(chalk.cyan(`  Config: ${chalk.white(config.path ?? '(none, built-in profiles only)')}`));
+        console.log('');
+
+        for (const profile of profiles) {
+          const chain = profile.chain && profile.chain !== profile.name ? chalk.gray(` (${profile.chain})`) : '';
+          console.log(`  ${chalk.white(profile.name)}${chain}`);
+
+          for (const url of profile.rpc) {
+            const entry = health[profile.name]?.find((h) => h.url === url);
+            const status = !entry
+              ? ''
+              : entry.consecutiveFailures > 0
+                ? chalk.red(' ✗ unreachable')
+                : chalk.green(` ✓ ${Math.round(entry.avgLatencyMs)}ms`);
+            console.log(`    ${chalk.gray('rpc')}     ${url}${status}`);
+          }
+          for (const url of profile.graphql) {
+            console.log(`    ${chalk.gray('graphql')} ${url}`);
+          }
+          console.log('');
+        }
+      } catch (error) {
+        handleError(error);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+function handleError(error: unknown): void {
+  if (error instanceof MoveWhispererError) {
+    console.error(chalk.red(`\n  Error [${error.code}]: ${error.message}`));
+  } else if (error instanceof Error) {
+    console.error(chalk.red(`\n  Error: ${error.message}`));
+  } else {
+    console.error(chalk.red(`\n  Error: ${String(error)}`));
+  }
+}
@@ -7,6 +7,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import type { Network } from '../../types/index.js';
 import { createMainGenerator } from '../../core/generator.js';
+import { resolveNetwork } from '../../fetcher/index.js';
 import { MoveWhispererError } from '../../core/errors.js';
 
 export interface PreviewOptions {
@@ -19,8 +20,8 @@ export function createPreviewCommand(): Command {
 
   cmd
     .description('Preview skill generation without saving files')
-    .argument('<input>', 'Package ID (0x...) or Package::Module (0x...::module_name)')
-    .option('-n, --network <network>', 'Network: mainnet | testnet | devnet', 'mainnet')
+    .argument('<input>', 'Package ID (0x...), Package::Module (0x...::module_name), local Move package path or GitHub URL')
+    .option('-n, --network <network>', 'Network profile: mainnet | testnet | devnet | localnet | <custom>', 'mainnet')
     .option('-v, --verbose', 'Verbose output', false)
     .action(async (input: string, options: PreviewOptions) => {
       const spinner = ora('Initializing...').start();
@@ -36,49 +37,60 @@ export function createPreviewCommand(): Command {
           includeExamples: true,
         });
 
-        // Generate preview
-        const output = await generator.preview(input, (_stage, message) => {
+        // Generate preview; inputs without a module get a package-level skill
+        const onProgress = (_stage: string, message: string) => {
           spinner.text = message;
-        });
+        };
+        const outputs = generator.targetsSingleModule(input)
+          ? [await generator.preview(input, onProgress)]
+          : await generator.previewPackages(input, onProgress);
 
         spinner.succeed(chalk.green('Preview generated!'));
 
-        // Print SKILL.md content
-        console.log('');
-        console.log(chalk.cyan('═'.repeat(60)));
-        console.log(chalk.cyan.bold('  SKILL.md Preview'));
-        console.log(chalk.cyan('═'.repeat(60)));
-        console.log('');
+        // Print each package's SKILL.md and files
+        for (const output of outputs) {
+          console.log('');
+          console.log(chalk.cyan('═'.repeat(60)));
+          console.log(chalk.cyan.bold('  SKILL.md Preview'));
+          console.log(chalk.cyan('═'.repeat(60)));
+          console.log('');
 
-        // Print first 100 lines of SKILL.md
-        const lines = output.skillMd.split('\n');
-        const previewLines = lines.slice(0, 100);
-        console.log(previewLines.join('\n'));
+          // Print first 100 lines of SKILL.md
+          const lines = output.skillMd.split('\n');
+          const previewLines = lines.slice(0, 100);
+          console.log(previewLines.join('\n'));
 
-        if (lines.length > 100) {
-          console.log('');
-          console.log(chalk.gray(`... (${lines.length - 100} more lines)`));
-        }
+          if (lines.length > 100) {
+            console.log('');
+            console.log(chalk.gray(`... (${lines.length - 100} more lines)`));
+          }
 
-        console.log('');
-        console.log(chalk.cyan('═'.repeat(60)));
-        console.log('');
+          console.log('');
+          console.log(chalk.cyan('═'.repeat(60)));
+          console.log('');
 
-        // Print summary
-        console.log(chalk.cyan('  Generated files (not saved):'));
-        console.log(`    ${chalk.gray('-')} SKILL.md`);
-        console.log(`    ${chalk.gray('-')} references/abi.json`);
-        console.log(`    ${chalk.gray('-')} references/types.md`);
-        if (output.references.events) {
-          console.log(`    ${chalk.gray('-')} references/events.md`);
-        }
-        if (output.scripts.call) {
-          console.log(`    ${chalk.gray('-')} scripts/call.ts`);
-        }
-        if (output.scripts.read) {
-          console.log(`    ${chalk.gray('-')} scripts/read.ts`);
+          // Print summary
+          console.log(chalk.cyan('  Generated files (not saved):'));
+          console.log(`    ${chalk.gray('-')} SKILL.md`);
+          console.log(`    ${chalk.gray('-')} references/abi.json`);
+          console.log(`    ${chalk.gray('-')} references/types.md`);
+          if (output.references.events) {
+            console.log(`    ${chalk.gray('-')} references/events.md`);
+          }
+          for (const moduleName of Object.keys(output.references.modules ?? {})) {
+            console.log(`    ${chalk.gray('-')} references/modules/${moduleName}.md`);
+          }
+          if (output.scripts.call) {
+            console.log(`    ${chalk.gray('-')} scripts/call.ts`);
+          }
+          if (output.scripts.read) {
+            console.log(`    ${chalk.gray('-')} scripts/read.ts`);
+          }
+          for (const path of Object.keys(output.code ?? {})) {
+            console.log(`    ${chalk.gray('-')} ${path}`);
+          }
+          console.log('');
         }
-        console.log('');
         console.log(chalk.gray('  Use "move-whisperer generate" to save files.'));
         console.log('');
       } catch (error) {
@@ -92,11 +104,7 @@ export function createPreviewCommand(): Command {
 }
 
 function validateNetwork(network: string): Network {
-  const valid: Network[] = ['mainnet', 'testnet', 'devnet'];
-  if (!valid.includes(network as Network)) {
-    throw new Error(`Invalid network: ${network}. Valid options: ${valid.join(', ')}`);
-  }
-  return network as Network;
+  return resolveNetwork(network);
 }
 
 function handleError(error: unknown, verbose: boolean): void {
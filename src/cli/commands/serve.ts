@@ -5,6 +5,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { startServer } from '../../server/index.js';
+import { parseLLMProviderName } from '../../llm/index.js';
 
 export function createServeCommand(): Command {
   const command = new Command('serve');
@@ -14,13 +15,21 @@ export function createServeCommand(): Command {
     .option('-p, --port <port>', 'Server port', '3456')
     .option('-H, --host <host>', 'Server host', '127.0.0.1')
     .option('--open', 'Open web UI in browser after starting')
+    .option('--llm <provider>', 'LLM provider: anthropic, claude-cli, openai or mock')
+    .option('--llm-model <model>', 'Model id for the LLM provider')
+    .option('--fresh', 'Bypass cached contract analyses', false)
     .action(async (options) => {
       const port = parseInt(options.port, 10);
       const host = options.host;
 
       console.log(chalk.cyan('Starting MoveWhisperer server...'));
 
-      startServer({ port, host });
+      const llm = {
+        ...(options.llm ? { provider: parseLLMProviderName(options.llm) } : {}),
+        ...(options.llmModel ? { model: options.llmModel } : {}),
+      };
+
+      startServer({ port, host, llm, freshAnalysis: options.fresh });
 
       if (options.open) {
         // Open browser after a short delay
@@ -8,9 +8,8 @@ import ora from 'ora';
 import { promises as fs } from 'fs';
 import path from 'path';
 import type { Network } from '../../types/index.js';
-import { parsePackageInput } from '../../fetcher/index.js';
+import { parsePackageInput, resolveNetwork } from '../../fetcher/index.js';
 import { createSuiClient } from '../../fetcher/sui-client.js';
-import { InputValidationError } from '../../core/errors.js';
 
 interface SourceOptions {
   network: string;
@@ -23,11 +22,7 @@ interface SourceOptions {
  * Validate network option
  */
 function validateNetwork(network: string): Network {
-  const valid: Network[] = ['mainnet', 'testnet', 'devnet'];
-  if (!valid.includes(network as Network)) {
-    throw new InputValidationError(`Invalid network: ${network}. Valid options: ${valid.join(', ')}`);
-  }
-  return network as Network;
+  return resolveNetwork(network);
 }
 
 /**
@@ -39,7 +34,7 @@ export function createSourceCommand(): Command {
   command
     .description('Download and display disassembled Move source code from on-chain')
     .argument('<package>', 'Package ID or package::module format')
-    .option('-n, --network <network>', 'Sui network (mainnet, testnet, devnet)', 'mainnet')
+    .option('-n, --network <network>', 'Sui network profile (mainnet, testnet, devnet, localnet or custom)', 'mainnet')
     .option('-m, --module <module>', 'Specific module name (downloads all if not specified)')
     .option('-o, --output <path>', 'Output file or directory path')
     .option('-f, --format <format>', 'Output format: console, file, json', 'console')
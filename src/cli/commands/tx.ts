@@ -7,6 +7,8 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { createTransactionFetcher } from '../../fetcher/transaction-fetcher.js';
+import { createCoinRegistry } from '../../fetcher/coin-registry.js';
+import { isKnownNetwork, listNetworks } from '../../fetcher/networks.js';
 import { createTransactionParser, type TransactionType } from '../../analyzer/transaction-parser.js';
 import type { Network } from '../../types/index.js';
 
@@ -36,7 +38,7 @@ export function createTxCommand(): Command {
   cmd
     .description('Analyze a Sui transaction and generate skill')
     .argument('<digest>', 'Transaction digest (0x...)')
-    .option('-n, --network <network>', 'Network: mainnet | testnet | devnet', 'mainnet')
+    .option('-n, --network <network>', 'Network profile: mainnet | testnet | devnet | localnet | <custom>', 'mainnet')
     .option('-o, --output <dir>', 'Output directory for generated skill')
     .option('-l, --lang <lang>', 'Language: en | zh', 'en')
     .option('-v, --verbose', 'Show detailed output', false)
@@ -53,8 +55,8 @@ export function createTxCommand(): Command {
 
         // Validate network
         const network = options.network as Network;
-        if (!['mainnet', 'testnet', 'devnet'].includes(network)) {
-          console.error(chalk.red('Error: Network must be mainnet, testnet, or devnet'));
+        if (!isKnownNetwork(network)) {
+          console.error(chalk.red(`Error: Network must be one of: ${listNetworks().join(', ')}`));
           process.exit(1);
         }
 
@@ -76,6 +78,7 @@ export function createTxCommand(): Command {
         spinner.start('Analyzing transaction...');
         const parser = createTransactionParser();
         const result = parser.parse(tx);
+        await parser.resolveAmounts(result, createCoinRegistry(network));
         spinner.succeed('Analysis complete');
 
         // Output results
@@ -94,6 +97,13 @@ export function createTxCommand(): Command {
               objectsCreated: result.summary.objectsCreated,
               objectsDeleted: result.summary.objectsDeleted,
               events: result.summary.eventsEmitted,
+              valueChanges: result.summary.valueChanges?.map(c => ({
+                coinType: c.coinType,
+                symbol: c.symbol,
+                decimals: c.decimals,
+                amount: c.amount.toString(),
+                formatted: c.formatted,
+              })),
             },
             involvedPackages: result.involvedPackages,
             callSequence: result.callSequence.map(c => ({
@@ -134,16 +144,9 @@ export function createTxCommand(): Command {
 
           if (result.summary.coinTypesInvolved.length > 0) {
             console.log(chalk.bold('\n💰 Coins Involved\n'));
-            for (const coinType of result.summary.coinTypesInvolved) {
-              const shortType = coinType.split('::').pop() || coinType;
-              const netChange = result.summary.netValueChanges.get(coinType);
-              if (netChange !== undefined) {
-                const sign = netChange >= 0n ? '+' : '';
-                const color = netChange >= 0n ? 'green' : 'red';
-                console.log(`  ${shortType}: ${(chalk as unknown as Record<string, (s: string) => string>)[color]?.(`${sign}${formatAmount(netChange)}`) || `${sign}${formatAmount(netChange)}`}`);
-              } else {
-                console.log(`  ${shortType}`);
-              }
+            for (const change of result.summary.valueChanges ?? []) {
+              const color = change.amount >= 0n ? chalk.green : chalk.red;
+              console.log(`  ${change.symbol}: ${color(change.formatted)} ${chalk.gray(change.coinType)}`);
             }
           }
 
@@ -192,17 +195,3 @@ function formatGas(gas: string): string {
   }
   return `${value} wei`;
 }
-
-/**
- * Format coin amount
- */
-function formatAmount(amount: bigint): string {
-  const abs = amount < 0n ? -amount : amount;
-  if (abs >= 1_000_000_000n) {
-    return `${(Number(amount) / 1_000_000_000).toFixed(4)}`;
-  }
-  if (abs >= 1_000_000n) {
-    return `${(Number(amount) / 1_000_000).toFixed(2)}M`;
-  }
-  return amount.toString();
-}
@@ -12,6 +12,9 @@ import { createSourceCommand } from './commands/source.js';
 import { createServeCommand } from './commands/serve.js';
 import { createHistoryCommand } from './commands/history.js';
 import { createTxCommand } from './commands/tx.js';
+import { createCacheCommand } from './commands/cache.js';
+import { createNetworksCommand } from './commands/networks.js';
+import { configureFixtures, parseFixtureMode } from '../fetcher/fixtures.js';
 
 /**
  * Create the CLI program
@@ -22,7 +25,17 @@ export function createProgram(): Command {
   program
     .name('move-whisperer')
     .description('MoveWhisperer - The AI that speaks Move')
-    .version(VERSION, '-V, --version', 'Display version number');
+    .version(VERSION, '-V, --version', 'Display version number')
+    .option('--fixtures <dir>', 'Record/replay RPC traffic using fixtures in <dir>')
+    .option('--fixtures-mode <mode>', 'Fixture mode: replay | record', 'replay');
+
+  // Route every RPC client through the fixture store when requested
+  program.hook('preAction', () => {
+    const { fixtures, fixturesMode } = program.opts<{ fixtures?: string; fixturesMode: string }>();
+    if (fixtures) {
+      configureFixtures({ dir: fixtures, mode: parseFixtureMode(fixturesMode) });
+    }
+  });
 
   // Add commands
   program.addCommand(createGenerateCommand());
@@ -32,6 +45,8 @@ export function createProgram(): Command {
   program.addCommand(createServeCommand());
   program.addCommand(createHistoryCommand());
   program.addCommand(createTxCommand());
+  program.addCommand(createCacheCommand());
+  program.addCommand(createNetworksCommand());
 
   // Custom help
   program.addHelpText('after', `
@@ -42,6 +57,12 @@ ${chalk.cyan('Examples:')}
   ${chalk.gray('# Generate skill from entire package')}
   $ move-whisperer generate 0xdee9 -n mainnet -o ./skills/deepbook
 
+  ${chalk.gray('# Generate skill from a local Move package (no RPC)')}
+  $ move-whisperer generate ./my_package::my_module
+
+  ${chalk.gray('# Generate skill from a Move package on GitHub')}
+  $ move-whisperer generate https://github.com/org/repo/tree/main/packages/dex
+
   ${chalk.gray('# Preview without saving')}
   $ move-whisperer preview 0x2::coin -n mainnet
 
@@ -54,6 +75,10 @@ ${chalk.cyan('Examples:')}
   ${chalk.gray('# Download all source code to files')}
   $ move-whisperer source 0xdee9 -n mainnet -f file -o ./deepbook-source
 
+  ${chalk.gray('# Record RPC traffic, then replay it offline')}
+  $ move-whisperer --fixtures ./fixtures --fixtures-mode record generate 0x2::coin
+  $ move-whisperer --fixtures ./fixtures generate 0x2::coin
+
   ${chalk.gray('# Start local server for web UI')}
   $ move-whisperer serve --port 3456
 
@@ -78,6 +103,16 @@ ${chalk.cyan('Examples:')}
   ${chalk.gray('# Output transaction analysis as JSON')}
   $ move-whisperer tx 0xabc123... --json
 
+  ${chalk.gray('# Inspect and prune the on-disk package cache')}
+  $ move-whisperer cache inspect --entries
+  $ move-whisperer cache prune --all --network testnet
+
+  ${chalk.gray('# List network profiles and check endpoint health')}
+  $ move-whisperer networks --check
+
+  ${chalk.gray('# Use a custom network profile from move-whisperer.config.json')}
+  $ move-whisperer generate 0x2::coin -n private-mainnet
+
 ${chalk.cyan('More info:')}
   Repository: https://github.com/example/move-whisperer
   `);
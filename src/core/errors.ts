@@ -15,12 +15,19 @@ export enum ErrorCode {
   RPC_RATE_LIMIT = 'RPC_RATE_LIMIT',
   PACKAGE_NOT_FOUND = 'PACKAGE_NOT_FOUND',
   MODULE_NOT_FOUND = 'MODULE_NOT_FOUND',
+  REPOSITORY_ERROR = 'REPOSITORY_ERROR',
+  FIXTURE_MISSING = 'FIXTURE_MISSING',
 
   // Processing errors
   TYPE_MAPPING = 'TYPE_MAPPING',
   ANALYSIS_ERROR = 'ANALYSIS_ERROR',
   TEMPLATE_ERROR = 'TEMPLATE_ERROR',
 
+  // LLM provider errors
+  LLM_ERROR = 'LLM_ERROR',
+  LLM_UNAVAILABLE = 'LLM_UNAVAILABLE',
+  LLM_TIMEOUT = 'LLM_TIMEOUT',
+
   // Output errors
   FILE_SYSTEM = 'FILE_SYSTEM',
   PERMISSION_DENIED = 'PERMISSION_DENIED',
@@ -72,10 +79,31 @@ export class InputValidationError extends MoveWhispererError {
     );
   }
 
-  static invalidNetwork(network: string): InputValidationError {
+  static invalidNetwork(network: string, available: string[] = ['mainnet', 'testnet', 'devnet', 'localnet']): InputValidationError {
+    return new InputValidationError(
+      `Invalid network: "${network}". Valid networks are: ${available.join(', ')}`,
+      { network, available }
+    );
+  }
+
+  static invalidFixtureMode(mode: string, available: string[]): InputValidationError {
+    return new InputValidationError(
+      `Invalid fixture mode: "${mode}". Valid modes are: ${available.join(', ')}`,
+      { mode, available }
+    );
+  }
+
+  static invalidRepositoryUrl(url: string): InputValidationError {
+    return new InputValidationError(
+      `Invalid GitHub URL: "${url}". Expected format: https://github.com/<owner>/<repo>[/tree/<ref>/<path>]`,
+      { url }
+    );
+  }
+
+  static invalidAmount(amount: string, decimals: number): InputValidationError {
     return new InputValidationError(
-      `Invalid network: "${network}". Valid networks are: mainnet, testnet, devnet`,
-      { network }
+      `Invalid amount: "${amount}". Expected a non-negative decimal with at most ${decimals} fractional digits`,
+      { amount, decimals }
     );
   }
 }
@@ -126,6 +154,30 @@ export class NetworkError extends MoveWhispererError {
       { rpcUrl: url, originalError: originalError.message }
     );
   }
+
+  static repositoryError(repository: string, reason: string): NetworkError {
+    return new NetworkError(
+      `Failed to read repository ${repository}: ${reason}`,
+      ErrorCode.REPOSITORY_ERROR,
+      { repository, reason }
+    );
+  }
+
+  static fixtureMissing(request: string, file: string): NetworkError {
+    return new NetworkError(
+      `No recorded fixture for ${request} (expected ${file}). Re-run with fixture recording enabled.`,
+      ErrorCode.FIXTURE_MISSING,
+      { request, file }
+    );
+  }
+
+  static noMovePackages(repository: string, path?: string): NetworkError {
+    return new NetworkError(
+      `No Move.toml found in ${repository}${path ? ` under "${path}"` : ''}.`,
+      ErrorCode.PACKAGE_NOT_FOUND,
+      { repository, path }
+    );
+  }
 }
 
 // Type mapping errors
@@ -172,6 +224,46 @@ export class TemplateError extends MoveWhispererError {
   }
 }
 
+// LLM provider errors
+export class LLMError extends MoveWhispererError {
+  constructor(message: string, code: ErrorCode = ErrorCode.LLM_ERROR, details?: Record<string, unknown>) {
+    super(message, code, details);
+    this.name = 'LLMError';
+  }
+
+  static unavailable(provider: string, reason: string): LLMError {
+    return new LLMError(
+      `LLM provider "${provider}" is not available: ${reason}`,
+      ErrorCode.LLM_UNAVAILABLE,
+      { provider, reason }
+    );
+  }
+
+  static timeout(provider: string, timeoutMs: number): LLMError {
+    return new LLMError(
+      `LLM provider "${provider}" did not respond within ${timeoutMs}ms`,
+      ErrorCode.LLM_TIMEOUT,
+      { provider, timeoutMs }
+    );
+  }
+
+  static requestFailed(provider: string, reason: string, status?: number): LLMError {
+    return new LLMError(
+      `LLM request to "${provider}" failed${status ? ` (HTTP ${status})` : ''}: ${reason}`,
+      ErrorCode.LLM_ERROR,
+      { provider, reason, status }
+    );
+  }
+
+  static unknownProvider(provider: string, available: string[]): LLMError {
+    return new LLMError(
+      `Unknown LLM provider: "${provider}". Valid providers are: ${available.join(', ')}`,
+      ErrorCode.CONFIG_ERROR,
+      { provider, available }
+    );
+  }
+}
+
 // File system errors
 export class FileSystemError extends MoveWhispererError {
   constructor(message: string, code: ErrorCode = ErrorCode.FILE_SYSTEM, details?: Record<string, unknown>) {
@@ -5,77 +5,189 @@
 import type {
   Network,
   AnalyzedModule,
+  AnalyzedPackage,
+  PackageDependencyGraph,
+  SuiNormalizedModule,
   SkillOutput,
   SkillMetadata,
   GeneratedExample,
   ProgressCallback,
   SkillScene,
   CustomSceneConfig,
+  OutputFormat,
+  GenerateTarget,
 } from '../types/index.js';
-import { AbiFetcher, createAbiFetcher, parsePackageInput } from '../fetcher/index.js';
-import { ModuleAnalyzer, createModuleAnalyzer } from '../analyzer/index.js';
+import {
+  AbiFetcher,
+  createAbiFetcher,
+  LocalPackageFetcher,
+  createLocalFetcher,
+  GitHubPackageFetcher,
+  createGitHubFetcher,
+  type RepositorySourceFactory,
+  parseInputSource,
+  type FetchedModule,
+} from '../fetcher/index.js';
+import {
+  ModuleAnalyzer,
+  createModuleAnalyzer,
+  PackageAnalyzer,
+  createPackageAnalyzer,
+  DependencyResolver,
+  createDependencyResolver,
+  dependencyGraphToDot,
+} from '../analyzer/index.js';
 import { SkillGenerator, createSkillGenerator } from '../generator/skill-generator.js';
 import { ScriptGenerator, createScriptGenerator } from '../generator/script-generator.js';
+import { TypesGenerator, createTypesGenerator, TYPES_DIR } from '../generator/types-generator.js';
+import { SdkGenerator, createSdkGenerator } from '../generator/sdk-generator.js';
+import { PythonGenerator, createPythonGenerator } from '../generator/python-generator.js';
+import { RustGenerator, createRustGenerator } from '../generator/rust-generator.js';
+import type { TargetLanguage } from '../mapper/languages.js';
+import { JsonGenerator, createJsonGenerator } from '../generator/json-generator.js';
+import { ANALYSIS_FILE, ANALYSIS_SCHEMA_FILE } from '../generator/analysis-schema.js';
+import { McpGenerator, createMcpGenerator, MCP_DIR_SUFFIX } from '../generator/mcp-generator.js';
+import { FileSystemError } from './errors.js';
 import { createFileWriter } from '../output/writer.js';
 import { VERSION } from '../index.js';
 import { createHash } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+/** File of the `markdown` output format */
+export const REFERENCE_FILE = 'REFERENCE.md';
 
 export interface MainGeneratorOptions {
   network: Network;
   rpcUrl?: string;
   language?: 'en' | 'zh';
+  /** `skill` (default) writes the skill directory; `json` and `markdown` write one document */
+  format?: OutputFormat;
+  /** `mcp` writes an MCP server project into `<outputDir>/<package>-mcp` instead of a skill */
+  target?: GenerateTarget;
   includeScripts?: boolean;
   includeExamples?: boolean;
+  /** Generate TypeScript interfaces and BCS schemas for every struct */
+  includeTypes?: boolean;
+  /** Generate a typed transaction builder module per Move module */
+  includeSdk?: boolean;
+  /** Language of the call/read scripts; Python and Rust also get type bindings */
+  scriptLanguage?: TargetLanguage;
   outputDir?: string;
   // Scene-related options
   scene?: SkillScene;
   customScene?: CustomSceneConfig;
   analyzeDependencies?: boolean;
+  /** Levels of dependencies to resolve with `analyzeDependencies` (default 1: direct only) */
+  dependencyDepth?: number;
   includeArchitectureDiagram?: boolean;
   moduleFilter?: string[];
+  /** Custom repository source for GitHub inputs (e.g. a local git fixture) */
+  githubSource?: RepositorySourceFactory;
+  /** Maximum per-module RPC requests in flight */
+  concurrency?: number;
+}
+
+interface LoadedModule {
+  module: FetchedModule;
+  /** Sources of every module in the package (module name -> source), when available */
+  packageSources?: Record<string, string>;
+}
+
+interface LoadedPackage {
+  /** Package name from Move.toml, for source inputs */
+  name?: string;
+  modules: FetchedModule[];
+  /** Sources of every module in the package, including filtered-out ones */
+  packageSources?: Record<string, string>;
 }
 
 export interface GenerateResult {
-  output: SkillOutput;
+  /** Skill files; absent for the `json` and `markdown` formats and the `mcp` target */
+  output?: SkillOutput;
   analyzedModule: AnalyzedModule;
   writtenFiles: string[];
 }
 
+export interface GeneratePackageResult {
+  /** Skill files; absent for the `json` and `markdown` formats and the `mcp` target */
+  output?: SkillOutput;
+  analyzedPackage: AnalyzedPackage;
+  writtenFiles: string[];
+}
+
 /**
  * Main generator class - coordinates all generation steps
  */
 export class MainGenerator {
   private abiFetcher: AbiFetcher;
+  private localFetcher: LocalPackageFetcher;
   private moduleAnalyzer: ModuleAnalyzer;
+  private packageAnalyzer: PackageAnalyzer;
   private skillGenerator: SkillGenerator;
   private scriptGenerator: ScriptGenerator;
-  private options: Required<Omit<MainGeneratorOptions, 'moduleFilter' | 'customScene'>> & { moduleFilter?: string[]; customScene?: CustomSceneConfig };
+  private typesGenerator: TypesGenerator;
+  private sdkGenerator: SdkGenerator;
+  private pythonGenerator: PythonGenerator;
+  private rustGenerator: RustGenerator;
+  private jsonGenerator: JsonGenerator;
+  private mcpGenerator: McpGenerator;
+  private githubFetcher: GitHubPackageFetcher;
+  private dependencyResolver: DependencyResolver;
+  private options: Required<Omit<MainGeneratorOptions, 'moduleFilter' | 'customScene' | 'githubSource' | 'concurrency'>> & { moduleFilter?: string[]; customScene?: CustomSceneConfig };
 
   constructor(options: MainGeneratorOptions) {
     this.options = {
       network: options.network,
       rpcUrl: options.rpcUrl ?? '',
       language: options.language ?? 'en',
+      format: options.format ?? 'skill',
+      target: options.target ?? 'skill',
       includeScripts: options.includeScripts ?? true,
       includeExamples: options.includeExamples ?? true,
+      includeTypes: options.includeTypes ?? true,
+      includeSdk: options.includeSdk ?? false,
+      scriptLanguage: options.scriptLanguage ?? 'typescript',
       outputDir: options.outputDir ?? './',
       scene: options.scene ?? 'sdk',
       customScene: options.customScene,
       analyzeDependencies: options.analyzeDependencies ?? false,
+      dependencyDepth: options.dependencyDepth ?? 1,
       includeArchitectureDiagram: options.includeArchitectureDiagram ?? false,
       moduleFilter: options.moduleFilter,
     };
 
     this.abiFetcher = createAbiFetcher(options.network, {
       rpcUrl: options.rpcUrl,
+      concurrency: options.concurrency,
+    });
+    this.localFetcher = createLocalFetcher(options.network);
+    this.githubFetcher = createGitHubFetcher(options.network, {
+      sourceFactory: options.githubSource,
     });
     this.moduleAnalyzer = createModuleAnalyzer();
+    this.packageAnalyzer = createPackageAnalyzer(this.moduleAnalyzer);
+    this.dependencyResolver = createDependencyResolver(options.network, {
+      rpcUrl: options.rpcUrl,
+      maxDepth: this.options.dependencyDepth,
+      concurrency: options.concurrency,
+    });
     this.skillGenerator = createSkillGenerator({
       language: this.options.language,
       scene: this.options.scene,
       customScene: this.options.customScene,
+      includeTypes: this.options.includeTypes,
+      includeSdk: this.options.includeSdk,
+    });
+    this.scriptGenerator = createScriptGenerator({
+      typesDir: this.options.includeTypes ? TYPES_DIR : undefined,
     });
-    this.scriptGenerator = createScriptGenerator();
+    this.typesGenerator = createTypesGenerator();
+    this.sdkGenerator = createSdkGenerator();
+    this.pythonGenerator = createPythonGenerator();
+    this.rustGenerator = createRustGenerator();
+    this.jsonGenerator = createJsonGenerator();
+    this.mcpGenerator = createMcpGenerator();
   }
 
   /**
@@ -87,23 +199,19 @@ export class MainGenerator {
   ): Promise<GenerateResult> {
     // Parse input
     onProgress?.('parse', 'Parsing input...', 0);
-    const { packageId, moduleName } = parsePackageInput(input);
 
     // Fetch ABI
-    onProgress?.('fetch', `Fetching ABI from ${this.options.network}...`, 20);
-
-    let module;
-    if (moduleName) {
-      // Fetch specific module
-      const fetched = await this.abiFetcher.fetchModule(packageId, moduleName);
-      module = fetched;
-    } else {
-      // Fetch all modules and use the first one
-      const modules = await this.abiFetcher.fetchPackage(packageId);
-      if (modules.length === 0) {
-        throw new Error(`No modules found in package ${packageId}`);
-      }
-      module = modules[0];
+    const { module, packageSources } = await this.loadModule(input, (message) => onProgress?.('fetch', message, 20));
+
+    // Documents and MCP servers describe a package, so analyze the module as a one-module package
+    if (!this.generatesSkill()) {
+      onProgress?.('analyze', 'Analyzing module...', 40);
+      const sources = packageSources ?? (module.sourceCode ? { [module.abi.name]: module.sourceCode } : undefined);
+      const pkg = this.packageAnalyzer.analyzePackage([module.abi], this.options.network, sources);
+      pkg.dependencyGraph = await this.resolveDependencies(module.packageId, [module.abi], packageSources, onProgress);
+      const writtenFiles = await this.writeDocument(pkg, this.options.outputDir, onProgress);
+      onProgress?.('done', 'Generation complete!', 100);
+      return { analyzedModule: pkg.modules[0], writtenFiles };
     }
 
     // Analyze module
@@ -111,8 +219,10 @@ export class MainGenerator {
     const analyzed = this.moduleAnalyzer.analyzeModule(
       module.abi,
       this.options.network,
-      module.sourceCode
+      module.sourceCode,
+      packageSources
     );
+    analyzed.dependencyGraph = await this.resolveDependencies(module.packageId, [module.abi], packageSources, onProgress);
 
     // Generate content
     onProgress?.('generate', 'Generating skill documentation...', 60);
@@ -139,30 +249,19 @@ export class MainGenerator {
   async preview(input: string, onProgress?: ProgressCallback): Promise<SkillOutput> {
     // Parse input
     onProgress?.('parse', 'Parsing input...', 0);
-    const { packageId, moduleName } = parsePackageInput(input);
 
     // Fetch ABI
-    onProgress?.('fetch', `Fetching ABI from ${this.options.network}...`, 25);
-
-    let module;
-    if (moduleName) {
-      const fetched = await this.abiFetcher.fetchModule(packageId, moduleName);
-      module = fetched;
-    } else {
-      const modules = await this.abiFetcher.fetchPackage(packageId);
-      if (modules.length === 0) {
-        throw new Error(`No modules found in package ${packageId}`);
-      }
-      module = modules[0];
-    }
+    const { module, packageSources } = await this.loadModule(input, (message) => onProgress?.('fetch', message, 25));
 
     // Analyze module
     onProgress?.('analyze', 'Analyzing module...', 50);
     const analyzed = this.moduleAnalyzer.analyzeModule(
       module.abi,
       this.options.network,
-      module.sourceCode
+      module.sourceCode,
+      packageSources
     );
+    analyzed.dependencyGraph = await this.resolveDependencies(module.packageId, [module.abi], packageSources, onProgress);
 
     // Generate content
     onProgress?.('generate', 'Generating preview...', 75);
@@ -173,6 +272,51 @@ export class MainGenerator {
     return output;
   }
 
+  /**
+   * Generate one skill for each package of the input: a package-level SKILL.md
+   * with a reference file per module. A repository holding several packages
+   * gets one output directory per package.
+   */
+  async generatePackages(
+    input: string,
+    onProgress?: ProgressCallback
+  ): Promise<GeneratePackageResult[]> {
+    const packages = await this.analyzePackages(input, onProgress);
+
+    const results: GeneratePackageResult[] = [];
+    for (const analyzed of packages) {
+      const outputDir = packages.length > 1
+        ? join(this.options.outputDir, this.formatPackageName(this.skillGenerator.packageSlug(analyzed)))
+        : this.options.outputDir;
+      results.push(await this.generatePackage(analyzed, outputDir, onProgress));
+    }
+
+    onProgress?.('done', 'Generation complete!', 100);
+    return results;
+  }
+
+  /**
+   * Preview the package skills of an input without writing files
+   */
+  async previewPackages(input: string, onProgress?: ProgressCallback): Promise<SkillOutput[]> {
+    const packages = await this.analyzePackages(input, onProgress);
+
+    onProgress?.('generate', 'Generating preview...', 75);
+    const outputs = packages.map((pkg) => this.generatePackageOutput(pkg));
+
+    onProgress?.('done', 'Preview ready!', 100);
+
+    return outputs;
+  }
+
+  /**
+   * Whether an input selects one module (`0x...::module`, a single --modules entry),
+   * as opposed to a whole package
+   */
+  targetsSingleModule(input: string): boolean {
+    return Boolean(parseInputSource(input).module) || this.options.moduleFilter?.length === 1;
+  }
+
   /**
    * List available modules in a package
    */
@@ -180,6 +324,212 @@ export class MainGenerator {
     return this.abiFetcher.listModules(packageId);
   }
 
+  /**
+   * Fetch ABIs for every module in a package in one batch
+   */
+  async fetchPackageModules(packageId: string): Promise<FetchedModule[]> {
+    return this.abiFetcher.fetchPackage(packageId, { includeSource: false });
+  }
+
+  /**
+   * Resolve an input string to a single fetched module, whatever its source,
+   * along with the sources of the rest of its package
+   */
+  private async loadModule(
+    input: string,
+    onFetch?: (message: string) => void
+  ): Promise<LoadedModule> {
+    const source = parseInputSource(input);
+
+    switch (source.type) {
+      case 'local': {
+        onFetch?.(`Reading Move package from ${source.path}...`);
+        const modules = await this.localFetcher.fetchPackage(source.path);
+        return {
+          module: this.selectModule(modules, source.path, source.module),
+          packageSources: this.collectSources(modules),
+        };
+      }
+
+      case 'github': {
+        onFetch?.(`Fetching Move package from ${source.url}...`);
+        const packages = await this.githubFetcher.loadPackages(source.url, source.path);
+        const module = this.selectModule(packages.flatMap((pkg) => pkg.modules), source.url, source.module);
+        const pkg = packages.find((p) => p.modules.includes(module));
+        return { module, packageSources: this.collectSources(pkg?.modules ?? [module]) };
+      }
+
+      case 'packageId': {
+        onFetch?.(`Fetching ABI from ${this.options.network}...`);
+        // Sources are shared by every module of the package, so this is one request
+        const packageSources = this.abiFetcher.fetchPackageSources(source.packageId).catch(() => {
+          console.warn(`Could not fetch package sources for ${source.packageId}`);
+          return undefined;
+        });
+        if (source.module) {
+          const [module, sources] = await Promise.all([
+            this.abiFetcher.fetchModule(source.packageId, source.module),
+            packageSources,
+          ]);
+          return { module, packageSources: sources };
+        }
+        // Fetch the filtered modules (or all of them) in one batch and use the first one
+        const [modules, sources] = await Promise.all([
+          this.abiFetcher.fetchPackage(source.packageId, {
+            modules: this.options.moduleFilter,
+          }),
+          packageSources,
+        ]);
+        return { module: this.selectModule(modules, source.packageId), packageSources: sources };
+      }
+    }
+  }
+
+  /**
+   * Fetch and analyze every module of each package of the input (or those in the module filter)
+   */
+  private async analyzePackages(input: string, onProgress?: ProgressCallback): Promise<AnalyzedPackage[]> {
+    onProgress?.('parse', 'Parsing input...', 0);
+
+    const packages = await this.loadPackages(input, (message) => onProgress?.('fetch', message, 20));
+
+    const results: AnalyzedPackage[] = [];
+    for (const { name, modules, packageSources } of packages) {
+      onProgress?.('analyze', `Analyzing ${modules.length} module(s)${name ? ` of ${name}` : ''}...`, 40);
+      const abis = modules.map((m) => m.abi);
+      const analyzed = this.packageAnalyzer.analyzePackage(abis, this.options.network, packageSources);
+      analyzed.name = name;
+      analyzed.dependencyGraph = await this.resolveDependencies(modules[0].packageId, abis, packageSources, onProgress);
+      results.push(analyzed);
+    }
+    return results;
+  }
+
+  /**
+   * Resolve the packages a package depends on, if dependency analysis is enabled
+   */
+  private async resolveDependencies(
+    packageId: string,
+    modules: SuiNormalizedModule[],
+    sources: Record<string, string> | undefined,
+    onProgress?: ProgressCallback
+  ): Promise<PackageDependencyGraph | undefined> {
+    if (!this.options.analyzeDependencies) {
+      return undefined;
+    }
+
+    onProgress?.('analyze', `Resolving dependencies (depth ${this.options.dependencyDepth})...`, 50);
+    return this.dependencyResolver.resolve({ packageId, modules, sources });
+  }
+
+  /**
+   * Resolve an input string to its packages' modules, narrowed by the module filter
+   */
+  private async loadPackages(
+    input: string,
+    onFetch?: (message: string) => void
+  ): Promise<LoadedPackage[]> {
+    const source = parseInputSource(input);
+
+    switch (source.type) {
+      case 'local': {
+        onFetch?.(`Reading Move package from ${source.path}...`);
+        const { manifest, modules } = await this.localFetcher.loadPackage(source.path);
+        return [{
+          name: manifest.package.name,
+          modules: this.filterModules(modules, source.path),
+          packageSources: this.collectSources(modules),
+        }];
+      }
+
+      case 'github': {
+        onFetch?.(`Fetching Move package from ${source.url}...`);
+        const packages = await this.githubFetcher.loadPackages(source.url, source.path);
+        const modules = this.filterModules(packages.flatMap((pkg) => pkg.modules), source.url);
+        // Each package is analyzed on its own; module names are only unique within a package
+        return packages
+          .map((pkg) => ({
+            name: pkg.manifest.package.name,
+            modules: pkg.modules.filter((m) => modules.includes(m)),
+            packageSources: this.collectSources(pkg.modules),
+          }))
+          .filter((pkg) => pkg.modules.length > 0);
+      }
+
+      case 'packageId': {
+        onFetch?.(`Fetching package ABI from ${this.options.network}...`);
+        const [modules, packageSources] = await Promise.all([
+          this.abiFetcher.fetchPackage(source.packageId, { modules: this.options.moduleFilter }),
+          this.abiFetcher.fetchPackageSources(source.packageId).catch(() => {
+            console.warn(`Could not fetch package sources for ${source.packageId}`);
+            return undefined;
+          }),
+        ]);
+        if (modules.length === 0) {
+          throw new Error(`No modules found in package ${source.packageId}`);
+        }
+        return [{ modules, packageSources: packageSources ?? this.collectSources(modules) }];
+      }
+    }
+  }
+
+  /**
+   * Keep the modules named in the module filter, failing on unknown names
+   */
+  private filterModules(modules: FetchedModule[], origin: string): FetchedModule[] {
+    if (modules.length === 0) {
+      throw new Error(`No modules found in package ${origin}`);
+    }
+
+    const filter = this.options.moduleFilter;
+    if (!filter || filter.length === 0) {
+      return modules;
+    }
+
+    const missing = filter.filter((name) => !modules.some((m) => m.moduleName === name));
+    if (missing.length > 0) {
+      throw new Error(
+        `Module "${missing[0]}" not found in ${origin}. Available: ${modules.map((m) => m.moduleName).join(', ')}`
+      );
+    }
+    return modules.filter((m) => filter.includes(m.moduleName));
+  }
+
+  /**
+   * Map module names to source code, skipping modules without source
+   */
+  private collectSources(modules: FetchedModule[]): Record<string, string> | undefined {
+    const sources: Record<string, string> = {};
+    for (const module of modules) {
+      if (module.sourceCode) {
+        sources[module.moduleName] = module.sourceCode;
+      }
+    }
+    return Object.keys(sources).length > 0 ? sources : undefined;
+  }
+
+  /**
+   * Pick a module by explicit name, then by module filter, then the first one
+   */
+  private selectModule(modules: FetchedModule[], origin: string, moduleName?: string): FetchedModule {
+    if (modules.length === 0) {
+      throw new Error(`No modules found in package ${origin}`);
+    }
+
+    const wanted = moduleName ?? this.options.moduleFilter?.[0];
+    if (!wanted) {
+      return modules[0];
+    }
+
+    const module = modules.find((m) => m.moduleName === wanted);
+    if (!module) {
+      throw new Error(
+        `Module "${wanted}" not found in ${origin}. Available: ${modules.map((m) => m.moduleName).join(', ')}`
+      );
+    }
+    return module;
+  }
+
   /**
    * Generate output from analyzed module
    */
@@ -198,10 +548,12 @@ export class MainGenerator {
       this.options.includeScripts &&
       (this.options.scene === 'sdk' || this.options.scene === 'bot' || this.options.scene === 'frontend');
 
-    const callScript = shouldGenerateScripts
+    // Python and Rust scripts are written with the other generated code
+    const generateTypeScript = shouldGenerateScripts && this.options.scriptLanguage === 'typescript';
+    const callScript = generateTypeScript
       ? this.scriptGenerator.generateCallScript(analyzed)
       : '';
-    const readScript = shouldGenerateScripts
+    const readScript = generateTypeScript
       ? this.scriptGenerator.generateReadScript(analyzed)
       : '';
 
@@ -211,9 +563,7 @@ export class MainGenerator {
       : [];
 
     // Build metadata
-    const sceneId = this.options.scene === 'custom'
-      ? (this.options.customScene?.name?.toLowerCase().replace(/\s+/g, '-') || 'custom')
-      : this.options.scene;
+    const sceneId = this.sceneId();
     const metadata: SkillMetadata = {
       generatedAt: new Date().toISOString(),
       generatorVersion: VERSION,
@@ -230,16 +580,236 @@ export class MainGenerator {
         abi: JSON.stringify(analyzed, null, 2),
         types: typesMd,
         events: eventsMd,
+        dependencies: analyzed.dependencyGraph ? dependencyGraphToDot(analyzed.dependencyGraph) : undefined,
       },
       scripts: {
         call: callScript,
         read: readScript,
       },
+      code: this.generateCode([analyzed], shouldGenerateScripts ? this.generateLanguageScripts(analyzed) : {}),
       examples,
       metadata,
     };
   }
 
+  /**
+   * Generate and write the skill, document or MCP server of one package
+   */
+  private async generatePackage(
+    analyzed: AnalyzedPackage,
+    outputDir: string,
+    onProgress?: ProgressCallback
+  ): Promise<GeneratePackageResult> {
+    if (!this.generatesSkill()) {
+      const writtenFiles = await this.writeDocument(analyzed, outputDir, onProgress);
+      return { analyzedPackage: analyzed, writtenFiles };
+    }
+
+    onProgress?.('generate', 'Generating package skill documentation...', 60);
+    const output = this.generatePackageOutput(analyzed);
+
+    onProgress?.('write', 'Writing files...', 80);
+    const writer = createFileWriter(outputDir || `./${output.packageName}`);
+    const writtenFiles = await writer.writeSkillOutput(output);
+
+    return {
+      output,
+      analyzedPackage: analyzed,
+      writtenFiles,
+    };
+  }
+
+  /**
+   * Generate output for a whole package: the package SKILL.md plus one reference per module
+   */
+  private generatePackageOutput(pkg: AnalyzedPackage): SkillOutput {
+    const skillMd = this.skillGenerator.generatePackageSkillMd(pkg);
+
+    const modules: Record<string, string> = {};
+    for (const module of pkg.modules) {
+      modules[module.moduleName] = this.skillGenerator.generateModuleReferenceMd(module, pkg);
+    }
+
+    const shouldGenerateScripts =
+      this.options.includeScripts &&
+      (this.options.scene === 'sdk' || this.options.scene === 'bot' || this.options.scene === 'frontend');
+
+    const examples = this.options.includeExamples
+      ? pkg.modules.flatMap((module) =>
+          this.generateExamples(module).map((example) => ({
+            ...example,
+            name: pkg.modules.length > 1 ? `${module.moduleName}_${example.name}` : example.name,
+          }))
+        )
+      : [];
+
+    const { scripts, code } = shouldGenerateScripts
+      ? this.generatePackageScripts(pkg.modules)
+      : { scripts: { call: '', read: '' }, code: {} };
+
+    const metadata: SkillMetadata = {
+      generatedAt: new Date().toISOString(),
+      generatorVersion: VERSION,
+      network: this.options.network,
+      packageId: pkg.packageId,
+      modules: pkg.metadata.modules,
+      checksum: this.generateChecksum(skillMd),
+    };
+
+    return {
+      packageName: `${this.formatPackageName(this.skillGenerator.packageSlug(pkg))}-${this.sceneId()}`,
+      skillMd,
+      references: {
+        abi: JSON.stringify(pkg, null, 2),
+        types: pkg.modules.map((m) => this.skillGenerator.generateTypesMd(m)).join('\n\n'),
+        events: pkg.modules.map((m) => this.generateEventsMd(m)).filter(Boolean).join('\n\n'),
+        modules,
+        dependencies: pkg.dependencyGraph ? dependencyGraphToDot(pkg.dependencyGraph) : undefined,
+      },
+      scripts,
+      code: this.generateCode(pkg.modules, code),
+      examples,
+      metadata,
+    };
+  }
+
+  /**
+   * Generate the call/read scripts of a package. A single module keeps the
+   * module skill layout; otherwise each module gets `scripts/<module>/`, and
+   * the TypeScript `scripts/call.ts` and `scripts/read.ts` re-export them.
+   */
+  private generatePackageScripts(modules: AnalyzedModule[]): { scripts: SkillOutput['scripts']; code: Record<string, string> } {
+    const typescript = this.options.scriptLanguage === 'typescript';
+    if (modules.length === 1) {
+      return {
+        scripts: {
+          call: typescript ? this.scriptGenerator.generateCallScript(modules[0]) : '',
+          read: typescript ? this.scriptGenerator.generateReadScript(modules[0]) : '',
+        },
+        code: this.generateLanguageScripts(modules[0]),
+      };
+    }
+
+    const code: Record<string, string> = {};
+    for (const module of modules) {
+      const dir = `scripts/${module.moduleName}`;
+      if (typescript) {
+        code[`${dir}/call.ts`] = this.scriptGenerator.generateCallScript(module);
+        code[`${dir}/read.ts`] = this.scriptGenerator.generateReadScript(module, 2);
+      }
+      for (const [path, content] of Object.entries(this.generateLanguageScripts(module))) {
+        code[path.replace(/^scripts\//, `${dir}/`)] = content;
+      }
+    }
+    if (!typescript) {
+      return { scripts: { call: '', read: '' }, code };
+    }
+
+    const reexports = (script: string) =>
+      [
+        '/**',
+        ` * ${script === 'call' ? 'Transaction builders' : 'Read functions'} of every module`,
+        ' *',
+        ` * Generated by MoveWhisperer v${VERSION}`,
+        ' */',
+        '',
+        ...modules.map((m) => `export * as ${m.moduleName} from './${m.moduleName}/${script}.js';`),
+        '',
+      ].join('\n');
+    return { scripts: { call: reexports('call'), read: reexports('read') }, code };
+  }
+
+  /**
+   * Whether the skill directory is generated, rather than a document or an MCP server
+   */
+  private generatesSkill(): boolean {
+    return this.options.format === 'skill' && this.options.target === 'skill';
+  }
+
+  /**
+   * Generate the document of the `json` or `markdown` format, or the server of
+   * the `mcp` target, and write it, returning the written paths
+   */
+  private async writeDocument(
+    pkg: AnalyzedPackage,
+    baseDir: string,
+    onProgress?: ProgressCallback
+  ): Promise<string[]> {
+    const packageName = this.formatPackageName(this.skillGenerator.packageSlug(pkg));
+    let outputDir = baseDir || `./${packageName}`;
+    let files: Record<string, string>;
+
+    if (this.options.target === 'mcp') {
+      onProgress?.('generate', 'Generating MCP server...', 60);
+      // The server is a project of its own, so keep its package.json out of the output directory
+      const serverName = `${packageName}${MCP_DIR_SUFFIX}`;
+      outputDir = join(baseDir, serverName);
+      files = this.mcpGenerator.generate(pkg, serverName);
+    } else {
+      onProgress?.('generate', `Generating ${this.options.format} document...`, 60);
+      files =
+        this.options.format === 'json'
+          ? {
+              [ANALYSIS_FILE]: this.jsonGenerator.generateJson(pkg),
+              [ANALYSIS_SCHEMA_FILE]: this.jsonGenerator.generateSchema(),
+            }
+          : { [REFERENCE_FILE]: this.skillGenerator.generateReferenceMd(pkg) };
+    }
+
+    onProgress?.('write', 'Writing files...', 80);
+    const writtenFiles: string[] = [];
+    for (const [name, content] of Object.entries(files)) {
+      const path = join(outputDir, name);
+      try {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, content, 'utf-8');
+      } catch (error) {
+        throw FileSystemError.writeError(path, error as Error);
+      }
+      writtenFiles.push(path);
+    }
+
+    return writtenFiles;
+  }
+
+  /**
+   * Generate the TypeScript types and SDK sources that are enabled, plus the
+   * given script files
+   */
+  private generateCode(modules: AnalyzedModule[], scripts: Record<string, string>): Record<string, string> | undefined {
+    if (!this.options.includeTypes && !this.options.includeSdk && Object.keys(scripts).length === 0) {
+      return undefined;
+    }
+    return {
+      ...(this.options.includeTypes ? this.typesGenerator.generate(modules) : {}),
+      ...(this.options.includeSdk ? this.sdkGenerator.generate(modules) : {}),
+      ...scripts,
+    };
+  }
+
+  /**
+   * Generate the scripts and bindings of a module in a non-TypeScript script language
+   */
+  private generateLanguageScripts(module: AnalyzedModule): Record<string, string> {
+    switch (this.options.scriptLanguage) {
+      case 'python':
+        return this.pythonGenerator.generate(module);
+      case 'rust':
+        return this.rustGenerator.generate(module);
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Scene part of the skill name
+   */
+  private sceneId(): string {
+    return this.options.scene === 'custom'
+      ? (this.options.customScene?.name?.toLowerCase().replace(/\s+/g, '-') || 'custom')
+      : this.options.scene;
+  }
+
   /**
    * Generate events.md content
    */
@@ -6,14 +6,39 @@
 export interface DecompiledFunction {
   name: string;
   visibility: string;
+  isEntry: boolean;
   typeParams: string[];
   params: { name: string; type: string }[];
   returnType: string;
   body: string;
   originalBytecode: string;
+  /** Functions invoked by `Call` instructions, in instruction order */
+  calls: DecompiledCall[];
+  /** `Abort` instructions, in instruction order */
+  aborts: DecompiledAbort[];
+}
+
+export interface DecompiledAbort {
+  /** Abort code as loaded by the preceding instruction, if it was a constant */
+  code?: string;
+  /** Condition that must hold to avoid the abort, when guarded by a branch */
+  condition?: string;
+  /** Instruction offset of the abort */
+  offset: number;
+}
+
+export interface DecompiledCall {
+  /** Callee module address as printed by the disassembler (hex without 0x) */
+  address: string;
+  module: string;
+  function: string;
+  /** Instruction offset of the call */
+  offset: number;
 }
 
 export interface DecompiledModule {
+  /** Module address as printed by the disassembler (hex without 0x) */
+  address: string;
   moduleName: string;
   structs: DecompiledStruct[];
   functions: DecompiledFunction[];
@@ -25,33 +50,66 @@ export interface DecompiledStruct {
   fields: { name: string; type: string }[];
 }
 
+/**
+ * Check whether source text is a disassembly listing rather than Move source.
+ * Listings start with a version comment or a `module 2.coin {` header.
+ */
+export function isDisassembly(source: string): boolean {
+  return /^\s*(?:\/\/ Move bytecode|module\s+[0-9a-fA-F]+\.\w+\s*\{)/.test(source);
+}
+
 /**
  * Decompile Move bytecode into readable pseudo-code
  */
 export function decompileBytecode(bytecode: string): DecompiledModule {
   const lines = bytecode.split('\n');
-  const moduleName = extractModuleName(lines);
+  const { address, moduleName } = extractModuleHeader(lines);
   const structs = extractStructs(lines);
-  const functions = extractAndDecompileFunctions(bytecode);
+  const scope: ModuleScope = { address, moduleName, uses: extractUses(lines) };
+  const functions = extractAndDecompileFunctions(lines, scope);
 
   return {
+    address,
     moduleName,
     structs,
     functions,
   };
 }
 
+interface ModuleScope {
+  address: string;
+  moduleName: string;
+  /** Module alias -> declaring address and module name */
+  uses: Map<string, { address: string; module: string }>;
+}
+
 /**
- * Extract module name from bytecode
+ * Extract module address and name from the `module 2.coin {` header
  */
-function extractModuleName(lines: string[]): string {
+function extractModuleHeader(lines: string[]): { address: string; moduleName: string } {
   for (const line of lines) {
-    const match = line.match(/^module\s+[\w.]+\.(\w+)\s*\{/);
+    const match = line.match(/^module\s+(\w+)\.(\w+)\s*\{/);
     if (match) {
-      return match[1];
+      return { address: match[1], moduleName: match[2] };
     }
   }
-  return 'unknown';
+  return { address: '', moduleName: 'unknown' };
+}
+
+/**
+ * Extract `use 0000...0002::coin;` imports, keyed by local alias
+ */
+function extractUses(lines: string[]): ModuleScope['uses'] {
+  const uses: ModuleScope['uses'] = new Map();
+
+  for (const line of lines) {
+    const match = line.match(/^use\s+(\w+)::(\w+)(?:\s+as\s+(\w+))?\s*;/);
+    if (match) {
+      uses.set(match[3] ?? match[2], { address: match[1], module: match[2] });
+    }
+  }
+
+  return uses;
 }
 
 /**
@@ -94,61 +152,87 @@ function extractStructs(lines: string[]): DecompiledStruct[] {
   return structs;
 }
 
+// Function header as printed by the disassembler, e.g.
+// `entry public swap<Ty0>(Arg0: &mut Pool<Ty0>, Arg1: u64): u64 {`
+// Private functions have no modifiers; older listings may include `fun`.
+const FUNCTION_HEADER =
+  /^((?:(?:entry|native|public(?:\(\w+\))?|friend|private)\s+)*)(?:fun\s+)?(\w+)(?:<(.*?)>)?\((.*?)\)(?:\s*:\s*([^{]+))?\s*\{?\s*$/;
+
 /**
  * Extract and decompile functions
  */
-function extractAndDecompileFunctions(bytecode: string): DecompiledFunction[] {
+function extractAndDecompileFunctions(lines: string[], scope: ModuleScope): DecompiledFunction[] {
   const functions: DecompiledFunction[] = [];
+  let header: RegExpMatchArray | null = null;
+  let bodyLines: string[] = [];
 
-  // Simpler approach: split by function patterns
-  const funcBlocks = bytecode.split(/\n(?=(?:public|entry|friend|private)\s)/);
+  for (const line of lines) {
+    if (!header) {
+      // Headers are never indented; this also skips struct bodies
+      header = /^\s/.test(line) ? null : line.match(FUNCTION_HEADER);
+      bodyLines = [];
+      continue;
+    }
 
-  for (const block of funcBlocks) {
-    const func = parseFunction(block);
-    if (func) {
-      functions.push(func);
+    if (line.trim() === '}') {
+      functions.push(parseFunction(header, bodyLines, scope));
+      header = null;
+      continue;
     }
+
+    bodyLines.push(line);
   }
 
   return functions;
 }
 
 /**
- * Parse a single function block
+ * Build a decompiled function from its header match and body lines
  */
-function parseFunction(block: string): DecompiledFunction | null {
-  const lines = block.split('\n');
-  const firstLine = lines[0];
-
-  // Match function signature
-  const sigMatch = firstLine.match(/^(public(?:\s+entry)?|entry|friend|private)?\s*(\w+)(?:<([^>]+)>)?\(([^)]*)\)(?:\s*:\s*([^\{]+))?/);
-  if (!sigMatch) return null;
-
-  const visibility = sigMatch[1] || 'private';
-  const name = sigMatch[2];
-  const typeParamsStr = sigMatch[3] || '';
-  const paramsStr = sigMatch[4] || '';
-  const returnType = sigMatch[5]?.trim() || 'void';
+function parseFunction(
+  header: RegExpMatchArray,
+  bodyLines: string[],
+  scope: ModuleScope
+): DecompiledFunction {
+  const modifiers = header[1].trim().split(/\s+/).filter((m) => m && m !== 'native');
+  const name = header[2];
+  const typeParamsStr = header[3] || '';
+  const paramsStr = header[4] || '';
+  const returnType = header[5]?.trim() || 'void';
+
+  const isEntry = modifiers.includes('entry');
+  const visibility = modifiers.length > 0 ? modifiers.join(' ') : 'private';
 
   // Parse type parameters
-  const typeParams = typeParamsStr ? typeParamsStr.split(',').map(t => t.trim()) : [];
+  const typeParams = typeParamsStr ? splitTopLevel(typeParamsStr) : [];
 
   // Parse parameters
   const params = parseParams(paramsStr);
 
   // Extract and decompile body
-  const bodyLines = lines.slice(1);
   const originalBytecode = bodyLines.join('\n');
-  const body = decompileFunctionBody(bodyLines, params, name);
+  const { body, calls, aborts } = decompileFunctionBody(bodyLines, params, name);
 
   return {
     name,
     visibility,
+    isEntry,
     typeParams,
     params,
     returnType: cleanType(returnType),
     body,
     originalBytecode,
+    calls: calls.map((call) => {
+      // Calls without a module prefix target the module itself
+      const target = call.module ? scope.uses.get(call.module) : undefined;
+      return {
+        address: target?.address ?? scope.address,
+        module: target?.module ?? call.module ?? scope.moduleName,
+        function: call.func,
+        offset: call.offset,
+      };
+    }),
+    aborts,
   };
 }
 
@@ -159,7 +243,7 @@ function parseParams(paramsStr: string): { name: string; type: string }[] {
   if (!paramsStr.trim()) return [];
 
   const params: { name: string; type: string }[] = [];
-  const parts = paramsStr.split(',');
+  const parts = splitTopLevel(paramsStr);
 
   for (const part of parts) {
     const match = part.match(/(\w+):\s*(.+)/);
@@ -181,10 +265,14 @@ function decompileFunctionBody(
   lines: string[],
   params: { name: string; type: string }[],
   _funcName: string
-): string {
+): { body: string; calls: Array<ParsedCall & { offset: number }>; aborts: DecompiledAbort[] } {
   const statements: string[] = [];
+  const calls: Array<ParsedCall & { offset: number }> = [];
+  const aborts: DecompiledAbort[] = [];
   const locals: Map<string, string> = new Map();
   const stack: string[] = [];
+  let lastBranch: { opcode: string; condition: string; target: number; offset: number } | undefined;
+  let lastLoad: { offset: number; value: string } | undefined;
 
   // Initialize params in locals
   params.forEach((p, i) => {
@@ -205,21 +293,113 @@ function decompileFunctionBody(
     const trimmed = line.trim();
     if (!trimmed || trimmed.startsWith('L') || trimmed.startsWith('B')) continue;
 
-    const instrMatch = trimmed.match(/^\d+:\s*(\w+)(?:\[([^\]]*)\])?(?:\(([^)]*)\))?$/);
-    if (!instrMatch) continue;
+    const instruction = parseInstruction(trimmed);
+    if (!instruction) continue;
 
-    const [, opcode, operand, annotation] = instrMatch;
+    const { offset, opcode, operand, annotation } = instruction;
+    if (opcode === 'Call' || opcode === 'CallGeneric') {
+      const call = parseCallAnnotation(annotation);
+      if (call) {
+        calls.push({ ...call, offset });
+      }
+    }
+    if ((opcode === 'BrTrue' || opcode === 'BrFalse') && stack.length > 0) {
+      const target = Number(operand ?? annotation);
+      lastBranch = { opcode, condition: stack[stack.length - 1], target, offset };
+    }
+    if (opcode === 'Abort') {
+      const code = lastLoad?.offset === offset - 1 ? lastLoad.value : undefined;
+      const start = code !== undefined ? offset - 1 : offset;
+      aborts.push({ code, condition: abortGuard(lastBranch, start), offset });
+    }
     processInstruction(opcode, operand, annotation, locals, stack, statements);
+    lastLoad = /^Ld(?:U\d+|Const)$/.test(opcode) ? { offset, value: stack[stack.length - 1] } : undefined;
   }
 
   // Format the body
-  if (statements.length === 0) {
-    return '    // Complex bytecode - manual analysis required';
+  const body = statements.length === 0
+    ? '    // Complex bytecode - manual analysis required'
+    : statements.map(s => `    ${s}`).join('\n');
+
+  return { body, calls, aborts };
+}
+
+/**
+ * Condition guarding an abort block that starts at `start`: the branch either
+ * jumps to the block or falls through into it
+ */
+function abortGuard(
+  branch: { opcode: string; condition: string; target: number; offset: number } | undefined,
+  start: number
+): string | undefined {
+  if (!branch) return undefined;
+  // BrFalse jumps when the condition fails, BrTrue when it holds
+  if (branch.target === start) {
+    return branch.opcode === 'BrFalse' ? branch.condition : negate(branch.condition);
+  }
+  if (branch.offset + 1 === start) {
+    return branch.opcode === 'BrTrue' ? branch.condition : negate(branch.condition);
+  }
+  return undefined;
+}
+
+/**
+ * Negate a decompiled boolean expression
+ */
+function negate(expression: string): string {
+  if (expression.startsWith('!(') && expression.endsWith(')')) return expression.slice(2, -1);
+  return /^[\w.&*]+$/.test(expression) ? `!${expression}` : `!(${expression})`;
+}
+
+/**
+ * Split an instruction line into opcode, operand and annotation.
+ * Handles both `3: Call coin::value<Ty0>(&Coin<Ty0>): u64` and the older
+ * `3: Call[7](value<Ty0>(&Coin<Ty0>): u64)` layout.
+ */
+function parseInstruction(line: string): {
+  offset: number;
+  opcode: string;
+  operand?: string;
+  annotation?: string;
+} | null {
+  const match = line.match(/^(\d+):\s*(\w+)(?:\[([^\]]*)\])?(.*)$/);
+  if (!match) return null;
+
+  let annotation = match[4].trim();
+  if (annotation.startsWith('(') && annotation.endsWith(')')) {
+    annotation = annotation.slice(1, -1);
   }
 
-  return statements.map(s => `    ${s}`).join('\n');
+  return {
+    offset: Number(match[1]),
+    opcode: match[2],
+    operand: match[3],
+    annotation: annotation || undefined,
+  };
 }
 
+/** Arithmetic, comparison and logical opcodes */
+const BINARY_OPERATORS: Record<string, string> = {
+  Add: '+',
+  Sub: '-',
+  Mul: '*',
+  Div: '/',
+  Mod: '%',
+  BitAnd: '&',
+  BitOr: '|',
+  Xor: '^',
+  Shl: '<<',
+  Shr: '>>',
+  Lt: '<',
+  Gt: '>',
+  Le: '<=',
+  Ge: '>=',
+  Eq: '==',
+  Neq: '!=',
+  And: '&&',
+  Or: '||',
+};
+
 /**
  * Process a single bytecode instruction
  */
@@ -254,7 +434,8 @@ function processInstruction(
       break;
     }
 
-    case 'Call': {
+    case 'Call':
+    case 'CallGeneric': {
       const funcCall = parseCallAnnotation(annotation);
       if (funcCall) {
         const { module, func, returnType, argCount } = funcCall;
@@ -263,7 +444,7 @@ function processInstruction(
           args.unshift(stack.pop() || '?');
         }
 
-        const callExpr = `${module}::${func}(${args.join(', ')})`;
+        const callExpr = `${module ? `${module}::` : ''}${func}(${args.join(', ')})`;
 
         if (returnType && returnType !== '()') {
           stack.push(callExpr);
@@ -306,7 +487,14 @@ function processInstruction(
     case 'LdU64':
     case 'LdU128':
     case 'LdU256': {
-      stack.push(operand || '0');
+      stack.push(operand || annotation || '0');
+      break;
+    }
+
+    case 'LdConst': {
+      // Annotation carries the value, e.g. `u64: 3`
+      const value = annotation?.replace(/^[^:]+:\s*/, '');
+      stack.push(value || `CONST_${operand ?? '?'}`);
       break;
     }
 
@@ -323,6 +511,33 @@ function processInstruction(
       break;
     }
 
+    case 'Not': {
+      stack.push(negate(stack.pop() || '?'));
+      break;
+    }
+
+    case 'ReadRef': {
+      const ref = stack.pop() || '?';
+      stack.push(ref.startsWith('&') ? ref.replace(/^&(?:mut )?/, '') : `*${ref}`);
+      break;
+    }
+
+    case 'ImmBorrowField':
+    case 'MutBorrowField':
+    case 'ImmBorrowFieldGeneric':
+    case 'MutBorrowFieldGeneric': {
+      // Annotation names the field, e.g. `Pool.balance: u64`
+      const field = annotation?.match(/\.(\w+)/)?.[1] ?? '?';
+      const base = (stack.pop() || '?').replace(/^&(?:mut )?/, '');
+      stack.push(`${opcode.startsWith('Mut') ? '&mut ' : '&'}${base}.${field}`);
+      break;
+    }
+
+    case 'Abort': {
+      statements.push(`abort ${stack.pop() || '?'};`);
+      break;
+    }
+
     case 'BrTrue':
     case 'BrFalse':
     case 'Branch': {
@@ -335,6 +550,14 @@ function processInstruction(
     }
 
     default:
+      if (BINARY_OPERATORS[opcode]) {
+        // Parenthesize nested expressions to keep precedence explicit
+        const operandOf = (value: string) => (value.includes(' ') ? `(${value})` : value);
+        const right = operandOf(stack.pop() || '?');
+        const left = operandOf(stack.pop() || '?');
+        stack.push(`${left} ${BINARY_OPERATORS[opcode]} ${right}`);
+        break;
+      }
       // Unknown opcode - add as comment
       if (annotation) {
         statements.push(`// ${opcode}: ${annotation}`);
@@ -362,22 +585,25 @@ function getLocalName(
   return '?';
 }
 
-/**
- * Parse Call annotation to extract function info
- */
-function parseCallAnnotation(annotation: string | undefined): {
-  module: string;
+interface ParsedCall {
+  /** Module alias; absent for calls within the same module */
+  module?: string;
   func: string;
   returnType: string;
   argCount: number;
-} | null {
+}
+
+/**
+ * Parse Call annotation to extract function info
+ */
+function parseCallAnnotation(annotation: string | undefined): ParsedCall | null {
   if (!annotation) return null;
 
-  // Pattern: module::func<TypeArgs>(ArgTypes): ReturnType
-  const match = annotation.match(/(\w+)::(\w+)(?:<[^>]+>)?\(([^)]*)\)(?::\s*(.+))?/);
+  // Pattern: [module::]func<TypeArgs>(ArgTypes): ReturnType
+  const match = annotation.match(/^(?:(\w+)::)?(\w+)(?:<.*?>)?\((.*?)\)(?::\s*(.+))?$/);
   if (!match) return null;
 
-  const argTypes = match[3] ? match[3].split(',').filter(a => a.trim()) : [];
+  const argTypes = match[3] ? splitTopLevel(match[3]) : [];
 
   return {
     module: match[1],
@@ -387,6 +613,29 @@ function parseCallAnnotation(annotation: string | undefined): {
   };
 }
 
+/**
+ * Split a comma-separated list, ignoring commas inside type arguments
+ */
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const ch of list) {
+    if (ch === '<' || ch === '(') depth++;
+    if (ch === '>' || ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+}
+
 /**
  * Parse Pack annotation
  */
@@ -3,8 +3,9 @@
  */
 
 import type { Network, SuiNormalizedModule } from '../types/index.js';
-import { SuiClientWrapper, createSuiClient } from './sui-client.js';
+import { SuiClientWrapper, createSuiClient, DEFAULT_FETCH_CONCURRENCY } from './sui-client.js';
 import { abiCache, Cache } from './cache.js';
+import { getDiskCache, type DiskCache } from './disk-cache.js';
 import { NetworkError, InputValidationError } from '../core/errors.js';
 
 export interface FetchedModule {
@@ -22,6 +23,16 @@ export interface AbiFetcherOptions {
   rpcUrl?: string;
   useCache?: boolean;
   cacheTtlMs?: number;
+  /** Persist immutable package data on disk (defaults to the shared disk cache) */
+  diskCache?: DiskCache | null;
+  /** Maximum per-module requests in flight when a package-level fetch is not possible */
+  concurrency?: number;
+}
+
+export interface FetchPackageOptions {
+  /** Only fetch these modules (defaults to every module in the package) */
+  modules?: string[];
+  includeSource?: boolean;
 }
 
 export class AbiFetcher {
@@ -29,12 +40,18 @@ export class AbiFetcher {
   private network: Network;
   private useCache: boolean;
   private cache: Cache<FetchedModule>;
+  private diskCache: DiskCache | null;
+  private concurrency: number;
 
   constructor(options: AbiFetcherOptions) {
     this.network = options.network;
     this.client = createSuiClient(options.network, options.rpcUrl);
     this.useCache = options.useCache ?? true;
     this.cache = abiCache as Cache<FetchedModule>;
+    this.diskCache = this.useCache
+      ? (options.diskCache === undefined ? getDiskCache() : options.diskCache)
+      : null;
+    this.concurrency = options.concurrency ?? DEFAULT_FETCH_CONCURRENCY;
   }
 
   /**
@@ -45,14 +62,9 @@ export class AbiFetcher {
     this.validatePackageId(packageId);
     this.validateModuleName(moduleName);
 
-    const cacheKey = this.getCacheKey(packageId, moduleName);
-
-    // Check cache first
-    if (this.useCache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
+    const cached = await this.getCached(packageId, moduleName, includeSource);
+    if (cached) {
+      return cached;
     }
 
     // Fetch ABI from RPC
@@ -69,49 +81,66 @@ export class AbiFetcher {
       }
     }
 
-    const result: FetchedModule = {
-      packageId,
-      moduleName,
-      network: this.network,
-      abi,
-      sourceCode,
-      fetchedAt: new Date().toISOString(),
-    };
-
-    // Cache the result
-    if (this.useCache) {
-      this.cache.set(cacheKey, result);
-    }
-
-    return result;
+    return this.store(packageId, moduleName, abi, sourceCode);
   }
 
   /**
-   * Fetch all modules in a package
+   * Fetch all modules in a package (or a subset) with package-level batching.
+   * Cached modules are served locally; the rest are fetched in one ABI request
+   * plus one source request instead of a round trip per module.
    */
-  async fetchPackage(packageId: string): Promise<FetchedModule[]> {
+  async fetchPackage(packageId: string, options: FetchPackageOptions = {}): Promise<FetchedModule[]> {
     this.validatePackageId(packageId);
+    const includeSource = options.includeSource ?? true;
 
     // Get list of modules
-    const moduleNames = await this.client.getPackageModules(packageId);
+    const moduleNames = options.modules ?? await this.getModuleNames(packageId);
+    moduleNames.forEach((name) => this.validateModuleName(name));
 
     if (moduleNames.length === 0) {
       throw NetworkError.packageNotFound(packageId, this.network);
     }
 
-    // Fetch all modules
-    const results: FetchedModule[] = [];
+    const fetched = new Map<string, FetchedModule>();
+    const missing: string[] = [];
     for (const moduleName of moduleNames) {
-      try {
-        const module = await this.fetchModule(packageId, moduleName);
-        results.push(module);
-      } catch (error) {
-        // Skip modules that fail to fetch (might be internal/private)
-        console.warn(`Failed to fetch module ${moduleName}: ${error}`);
+      const cached = await this.getCached(packageId, moduleName, includeSource);
+      if (cached) {
+        fetched.set(moduleName, cached);
+      } else {
+        missing.push(moduleName);
       }
     }
 
-    return results;
+    if (missing.length > 0) {
+      const [abis, sources] = await Promise.all([
+        this.client.getNormalizedMoveModules(packageId, missing, { concurrency: this.concurrency }),
+        includeSource
+          ? this.client.getDisassembledSource(packageId).catch(() => {
+              // Source code is optional, don't fail if we can't get it
+              console.warn(`Could not fetch source for ${packageId}`);
+              return {} as Record<string, string>;
+            })
+          : Promise.resolve({} as Record<string, string>),
+      ]);
+
+      // Modules missing from the response were already reported and are skipped
+      for (const moduleName of missing) {
+        if (abis[moduleName]) {
+          fetched.set(moduleName, await this.store(packageId, moduleName, abis[moduleName], sources[moduleName]));
+        }
+      }
+    }
+
+    return moduleNames.filter((name) => fetched.has(name)).map((name) => fetched.get(name)!);
+  }
+
+  /**
+   * Fetch disassembled sources for every module in a package (module name -> source)
+   */
+  async fetchPackageSources(packageId: string): Promise<Record<string, string>> {
+    this.validatePackageId(packageId);
+    return this.client.getDisassembledSource(packageId);
   }
 
   /**
@@ -119,7 +148,7 @@ export class AbiFetcher {
    */
   async listModules(packageId: string): Promise<string[]> {
     this.validatePackageId(packageId);
-    return this.client.getPackageModules(packageId);
+    return this.getModuleNames(packageId);
   }
 
   /**
@@ -136,6 +165,87 @@ export class AbiFetcher {
     this.cache.clear();
   }
 
+  /**
+   * Get module names, going through the disk cache when enabled
+   */
+  private async getModuleNames(packageId: string): Promise<string[]> {
+    if (!this.diskCache) {
+      return this.client.getPackageModules(packageId);
+    }
+
+    const key = { network: this.network, packageId, kind: 'modules' as const };
+    const cached = await this.diskCache.get<string[]>(key);
+    if (cached) {
+      return cached;
+    }
+
+    const moduleNames = await this.client.getPackageModules(packageId);
+    if (moduleNames.length > 0) {
+      await this.diskCache.set(key, moduleNames);
+    }
+    return moduleNames;
+  }
+
+  /**
+   * Look up a module in the memory and disk caches
+   */
+  private async getCached(
+    packageId: string,
+    moduleName: string,
+    includeSource: boolean
+  ): Promise<FetchedModule | undefined> {
+    const cacheKey = this.getCacheKey(packageId, moduleName);
+
+    if (this.useCache) {
+      const cached = this.cache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    // Published packages are immutable, so a disk hit never goes stale
+    const diskCached = await this.diskCache?.get<FetchedModule>(this.getDiskKey(packageId, moduleName));
+    if (diskCached && (diskCached.sourceCode !== undefined || !includeSource)) {
+      this.cache.set(cacheKey, diskCached);
+      return diskCached;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Build a fetched module and write it to the caches
+   */
+  private async store(
+    packageId: string,
+    moduleName: string,
+    abi: SuiNormalizedModule,
+    sourceCode?: string
+  ): Promise<FetchedModule> {
+    const result: FetchedModule = {
+      packageId,
+      moduleName,
+      network: this.network,
+      abi,
+      sourceCode,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    if (this.useCache) {
+      this.cache.set(this.getCacheKey(packageId, moduleName), result);
+      await this.diskCache?.set(this.getDiskKey(packageId, moduleName), result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get disk cache key for a module
+   */
+  private getDiskKey(packageId: string, moduleName: string) {
+    return { network: this.network, packageId, kind: 'module' as const, name: moduleName };
+  }
+
   /**
    * Get cache key for a module
    */
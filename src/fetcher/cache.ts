@@ -145,3 +145,9 @@ export const abiCache = new Cache<unknown>({
   ttlMs: 10 * 60 * 1000, // 10 minutes for ABI data
   maxEntries: 50,
 });
+
+// Disassembled package contents, shared by module listing and source lookups
+export const packageContentCache = new Cache<Record<string, string>>({
+  ttlMs: 10 * 60 * 1000,
+  maxEntries: 20,
+});
@@ -0,0 +1,287 @@
+/**
+ * Coin registry - resolves CoinMetadata (decimals, symbol, icon) for coin types
+ *
+ * Lookup order: in-memory, disk cache, RPC `suix_getCoinMetadata`, then the
+ * bundled table of well-known coins, so offline and replayed runs still get
+ * correct decimals for the common ones. Unknown coins fall back to 0 decimals.
+ */
+
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type { BuiltinNetwork, Network } from '../types/index.js';
+import { InputValidationError } from '../core/errors.js';
+import { getDiskCache, type DiskCache, type DiskCacheKey } from './disk-cache.js';
+import { getNetworkConfig } from './networks.js';
+import { SuiClientWrapper } from './sui-client.js';
+
+export type CoinInfoSource = 'rpc' | 'cache' | 'builtin' | 'fallback';
+
+export interface CoinInfo {
+  /** Coin type with a full-length address, e.g. 0x000...02::sui::SUI */
+  coinType: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  description?: string;
+  iconUrl?: string;
+  /** Where the metadata came from */
+  source: CoinInfoSource;
+}
+
+export type KnownCoin = Omit<CoinInfo, 'source'>;
+
+export interface CoinRegistryOptions {
+  network: Network;
+  /** Disk cache for resolved metadata (defaults to the shared cache) */
+  cache?: DiskCache | null;
+}
+
+const SUI: KnownCoin = {
+  coinType: '0x2::sui::SUI',
+  symbol: 'SUI',
+  name: 'Sui',
+  decimals: 9,
+};
+
+/**
+ * Well-known coins per chain, used when RPC metadata is unavailable
+ * and to turn symbols like "USDC" into concrete coin types
+ */
+export const KNOWN_COINS: Record<BuiltinNetwork, KnownCoin[]> = {
+  mainnet: [
+    SUI,
+    {
+      coinType: '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+      symbol: 'USDC',
+      name: 'USDC',
+      decimals: 6,
+    },
+    {
+      coinType: '0xc060006111016b8a020ad5b33834984a437aaa7d3c74c18e09a95d48aceab08c::coin::COIN',
+      symbol: 'USDT',
+      name: 'Tether USD (Wormhole)',
+      decimals: 6,
+    },
+    {
+      coinType: '0xaf8cd5edc19c4512f4259f0bee101a40d41ebed738ade5874359610ef8eeced5::coin::COIN',
+      symbol: 'WETH',
+      name: 'Wrapped Ether (Wormhole)',
+      decimals: 8,
+    },
+    {
+      coinType: '0x027792d9fed7f9844eb4839566001bb6f6cb4804f66aa2da6fe1ee242d896881::coin::COIN',
+      symbol: 'WBTC',
+      name: 'Wrapped BTC (Wormhole)',
+      decimals: 8,
+    },
+  ],
+  testnet: [
+    SUI,
+    {
+      coinType: '0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC',
+      symbol: 'USDC',
+      name: 'USDC',
+      decimals: 6,
+    },
+  ],
+  devnet: [SUI],
+  localnet: [SUI],
+};
+
+/**
+ * Coin registry class
+ */
+export class CoinRegistry {
+  private client: SuiClientWrapper | null;
+  private network: Network;
+  private cache: DiskCache | null;
+  private resolved = new Map<string, CoinInfo>();
+
+  /**
+   * @param client RPC client, or null to resolve from the cache and bundled table only
+   */
+  constructor(client: SuiClientWrapper | null, options: CoinRegistryOptions) {
+    this.client = client;
+    this.network = options.network;
+    this.cache = options.cache === undefined ? getDiskCache() : options.cache;
+  }
+
+  /**
+   * Metadata already resolved or bundled, without any I/O
+   */
+  lookup(coinType: string): CoinInfo | undefined {
+    const normalized = normalizeCoinType(coinType);
+    return this.resolved.get(normalized) ?? findKnownCoin(normalized, this.network);
+  }
+
+  /**
+   * Resolve metadata for a coin type
+   */
+  async resolve(coinType: string): Promise<CoinInfo> {
+    const normalized = normalizeCoinType(coinType);
+    const memo = this.resolved.get(normalized);
+    if (memo) {
+      return memo;
+    }
+
+    const info = await this.fetch(normalized);
+    this.resolved.set(normalized, info);
+    return info;
+  }
+
+  /**
+   * Resolve metadata for many coin types, keyed by the type as given
+   */
+  async resolveMany(coinTypes: string[]): Promise<Map<string, CoinInfo>> {
+    const unique = [...new Set(coinTypes)];
+    const infos = await Promise.all(unique.map((coinType) => this.resolve(coinType)));
+    return new Map(unique.map((coinType, i) => [coinType, infos[i]]));
+  }
+
+  /**
+   * Format a raw amount of a coin, e.g. "-1.5 USDC"
+   */
+  async format(amount: bigint | string, coinType: string, options: FormatCoinAmountOptions = {}): Promise<string> {
+    const info = await this.resolve(coinType);
+    return `${formatCoinAmount(amount, info.decimals, options)} ${info.symbol}`;
+  }
+
+  private async fetch(coinType: string): Promise<CoinInfo> {
+    const key = this.toDiskKey(coinType);
+    const cached = await this.cache?.get<KnownCoin>(key);
+    if (cached) {
+      return { ...cached, source: 'cache' };
+    }
+
+    if (this.client) {
+      try {
+        const metadata = await this.client.getCoinMetadata(coinType);
+        if (metadata) {
+          const info: KnownCoin = {
+            coinType,
+            symbol: metadata.symbol,
+            name: metadata.name,
+            decimals: metadata.decimals,
+            description: metadata.description || undefined,
+            iconUrl: metadata.iconUrl ?? undefined,
+          };
+          await this.cache?.set(key, info);
+          return { ...info, source: 'rpc' };
+        }
+      } catch (error) {
+        console.warn(`Could not fetch coin metadata for ${coinType}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const known = findKnownCoin(coinType, this.network);
+    if (known) {
+      return known;
+    }
+
+    const symbol = coinType.split('::').pop()?.replace(/<.*$/, '') || coinType;
+    return { coinType, symbol, name: symbol, decimals: 0, source: 'fallback' };
+  }
+
+  private toDiskKey(coinType: string): DiskCacheKey {
+    const [packageId, ...rest] = coinType.split('::');
+    return { network: this.network, packageId, kind: 'coin', name: rest.join('::').replace(/[^\w.-]/g, '_') };
+  }
+}
+
+export interface FormatCoinAmountOptions {
+  /** Truncate the fraction to this many digits */
+  maxFractionDigits?: number;
+  /** Prefix positive amounts with "+" */
+  signed?: boolean;
+}
+
+/**
+ * Format a raw integer amount with the coin's decimals, without float rounding
+ */
+export function formatCoinAmount(
+  amount: bigint | string,
+  decimals: number,
+  options: FormatCoinAmountOptions = {}
+): string {
+  const value = BigInt(amount);
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+
+  let fraction = decimals > 0 ? (abs % base).toString().padStart(decimals, '0') : '';
+  if (options.maxFractionDigits !== undefined) {
+    fraction = fraction.slice(0, options.maxFractionDigits);
+  }
+  fraction = fraction.replace(/0+$/, '');
+
+  const sign = negative ? '-' : options.signed && abs > 0n ? '+' : '';
+  return `${sign}${abs / base}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Parse a human-readable amount (e.g. "1.5") into raw units
+ */
+export function parseCoinAmount(amount: string | number, decimals: number): bigint {
+  const text = String(amount).trim();
+  const match = text.match(/^(\d+)(?:\.(\d*))?$/);
+  if (!match || (match[2]?.length ?? 0) > decimals) {
+    throw InputValidationError.invalidAmount(text, decimals);
+  }
+  const fraction = (match[2] ?? '').padEnd(decimals, '0');
+  return BigInt(match[1]) * 10n ** BigInt(decimals) + BigInt(fraction || '0');
+}
+
+/**
+ * Normalize a coin type to full-length addresses, leaving unparseable input as is
+ */
+export function normalizeCoinType(coinType: string): string {
+  try {
+    return normalizeStructTag(coinType);
+  } catch {
+    return coinType;
+  }
+}
+
+/**
+ * Bundled coins for a network's chain (custom profiles use their `chain`)
+ */
+export function getKnownCoins(network: Network): KnownCoin[] {
+  const chain = getNetworkConfig().profiles[network]?.chain ?? network;
+  return KNOWN_COINS[chain as BuiltinNetwork] ?? [SUI];
+}
+
+/**
+ * Find a bundled coin by coin type or symbol (case-insensitive)
+ */
+export function findKnownCoin(coinTypeOrSymbol: string, network: Network = 'mainnet'): CoinInfo | undefined {
+  const query = coinTypeOrSymbol.includes('::')
+    ? normalizeCoinType(coinTypeOrSymbol)
+    : coinTypeOrSymbol.toUpperCase();
+  const coin = getKnownCoins(network).find((known) =>
+    query.includes('::') ? normalizeCoinType(known.coinType) === query : known.symbol === query
+  );
+  return coin ? { ...coin, coinType: normalizeCoinType(coin.coinType), source: 'builtin' } : undefined;
+}
+
+/**
+ * Concrete coin types for symbols such as "SUI" or "USDC"; unknown symbols are dropped
+ */
+export function resolveCoinSymbols(symbols: string[], network: Network = 'mainnet'): string[] {
+  return symbols.flatMap((symbol) => {
+    if (symbol.includes('::')) {
+      return [symbol];
+    }
+    const known = getKnownCoins(network).find((coin) => coin.symbol === symbol.toUpperCase());
+    return known ? [known.coinType] : [];
+  });
+}
+
+/**
+ * Create a coin registry for a network
+ */
+export function createCoinRegistry(
+  network: Network,
+  options: { rpcUrl?: string; offline?: boolean; cache?: DiskCache | null } = {}
+): CoinRegistry {
+  const client = options.offline ? null : new SuiClientWrapper({ network, rpcUrl: options.rpcUrl });
+  return new CoinRegistry(client, { network, cache: options.cache });
+}
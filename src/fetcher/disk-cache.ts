@@ -0,0 +1,404 @@
+/**
+ * Persistent content-addressed cache for package data
+ *
+ * Layout under the cache root (default ~/.cache/move-whisperer):
+ *   objects/<sha[0:2]>/<sha>.json              - content blobs, deduplicated by hash
+ *   index/<network>/<packageId>/<entry>.json   - pointers to blobs with expiry metadata
+ *
+ * Published package versions are immutable, so their ABIs and bytecode never
+ * expire. Mutable data (e.g. version chains) is stored with a short TTL, as is
+ * everything of the system packages, which are upgraded in place.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { basename, dirname, join } from 'path';
+import { FileSystemError } from '../core/errors.js';
+import { getFixtureStore } from './fixtures.js';
+
+/**
+ * Kind of cached data and whether it can change over time
+ */
+export type DiskCacheKind =
+  | 'module'            // Normalized ABI + disassembled source of one module (immutable)
+  | 'modules'           // Module names of a package (immutable)
+  | 'versioned-source'  // Source/ABI of a specific package version (immutable)
+  | 'history'           // Version chain (mutable - new upgrades can appear)
+  | 'analysis'          // LLM contract analysis, keyed by source hash, prompt version, provider and model
+  | 'coin';             // CoinMetadata of a coin type (mutable - symbol and icon can be updated)
+
+export interface DiskCacheKey {
+  network: string;
+  packageId: string;
+  kind: DiskCacheKind;
+  /** Optional discriminator, e.g. module name or version */
+  name?: string;
+}
+
+export interface DiskCacheIndexEntry extends DiskCacheKey {
+  /** SHA-256 of the stored content */
+  hash: string;
+  size: number;
+  storedAt: number;
+  /** null for immutable entries */
+  expiresAt: number | null;
+}
+
+export interface DiskCacheFilter {
+  network?: string;
+  packageId?: string;
+  kind?: DiskCacheKind;
+}
+
+export interface DiskCachePruneOptions extends DiskCacheFilter {
+  /** Only remove expired entries */
+  expiredOnly?: boolean;
+  /** Only remove entries stored before this age (ms) */
+  olderThanMs?: number;
+}
+
+export interface DiskCacheStats {
+  root: string;
+  entries: number;
+  objects: number;
+  totalBytes: number;
+  expired: number;
+  byKind: Record<string, number>;
+  byNetwork: Record<string, number>;
+}
+
+export interface DiskCacheExport {
+  version: 1;
+  exportedAt: string;
+  entries: Array<DiskCacheIndexEntry & { data: unknown }>;
+}
+
+/** TTLs for mutable data; immutable kinds are stored without expiry */
+export const DISK_CACHE_TTLS: Partial<Record<DiskCacheKind, number>> = {
+  history: 10 * 60 * 1000, // 10 minutes
+  coin: 24 * 60 * 60 * 1000, // 1 day
+};
+
+/** TTL for the immutable kinds of system packages, which keep their ID across framework upgrades */
+export const SYSTEM_PACKAGE_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+const SYSTEM_PACKAGES = new Set(['0x1', '0x2', '0x3', '0xb', '0xdee9'].map(normalizeId));
+
+/**
+ * Default TTL of an entry: the kind's TTL, else none - unless the package is a
+ * system package
+ */
+export function getDefaultTtl(key: DiskCacheKey): number | null {
+  const ttl = DISK_CACHE_TTLS[key.kind];
+  if (ttl !== undefined) {
+    return ttl;
+  }
+  return isSystemPackage(key.packageId) ? SYSTEM_PACKAGE_TTL : null;
+}
+
+export class DiskCache {
+  private root: string;
+
+  constructor(root: string = getDefaultCacheDir()) {
+    this.root = root;
+  }
+
+  /**
+   * Get the cache root directory
+   */
+  getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Read an entry, returning undefined when missing or expired
+   */
+  async get<T>(key: DiskCacheKey): Promise<T | undefined> {
+    const entry = await this.readIndexEntry(this.getIndexPath(key));
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
+      await rm(this.getIndexPath(key), { force: true });
+      return undefined;
+    }
+
+    try {
+      const content = await readFile(this.getObjectPath(entry.hash), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch {
+      // Dangling index entry (object pruned or corrupted)
+      await rm(this.getIndexPath(key), { force: true });
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an entry. TTL defaults to the kind's TTL (none for immutable kinds,
+   * except for system packages).
+   * Write failures are reported but never fail the caller - the cache is best-effort.
+   */
+  async set<T>(key: DiskCacheKey, data: T, ttlMs: number | null = getDefaultTtl(key)): Promise<void> {
+    const content = JSON.stringify(data);
+    const hash = createHash('sha256').update(content).digest('hex');
+    const objectPath = this.getObjectPath(hash);
+
+    try {
+      // Content-addressed: identical content is only written once
+      if (!(await exists(objectPath))) {
+        await writeAtomic(objectPath, content);
+      }
+
+      const now = Date.now();
+      const entry: DiskCacheIndexEntry = {
+        ...key,
+        hash,
+        size: Buffer.byteLength(content),
+        storedAt: now,
+        expiresAt: ttlMs === null ? null : now + ttlMs,
+      };
+      await writeAtomic(this.getIndexPath(key), JSON.stringify(entry, null, 2));
+    } catch (error) {
+      console.warn(FileSystemError.writeError(objectPath, error as Error).message);
+    }
+  }
+
+  /**
+   * Remove an entry (its object is reclaimed by the next prune)
+   */
+  async delete(key: DiskCacheKey): Promise<void> {
+    await rm(this.getIndexPath(key), { force: true });
+  }
+
+  /**
+   * Get cached value or compute and store it
+   */
+  async getOrSet<T>(key: DiskCacheKey, factory: () => Promise<T>, ttlMs?: number | null): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const data = await factory();
+    await this.set(key, data, ttlMs);
+    return data;
+  }
+
+  /**
+   * List index entries matching a filter
+   */
+  async list(filter: DiskCacheFilter = {}): Promise<DiskCacheIndexEntry[]> {
+    const entries: DiskCacheIndexEntry[] = [];
+    const indexRoot = join(this.root, 'index');
+
+    for (const network of await listDir(indexRoot)) {
+      if (filter.network && network !== filter.network) continue;
+
+      for (const packageId of await listDir(join(indexRoot, network))) {
+        if (filter.packageId && packageId !== normalizeId(filter.packageId)) continue;
+
+        for (const file of await listDir(join(indexRoot, network, packageId))) {
+          const entry = await this.readIndexEntry(join(indexRoot, network, packageId, file));
+          if (entry && (!filter.kind || entry.kind === filter.kind)) {
+            entries.push(entry);
+          }
+        }
+      }
+    }
+
+    return entries.sort((a, b) => b.storedAt - a.storedAt);
+  }
+
+  /**
+   * Summarize cache contents
+   */
+  async stats(): Promise<DiskCacheStats> {
+    const entries = await this.list();
+    const now = Date.now();
+    const byKind: Record<string, number> = {};
+    const byNetwork: Record<string, number> = {};
+
+    for (const entry of entries) {
+      byKind[entry.kind] = (byKind[entry.kind] ?? 0) + 1;
+      byNetwork[entry.network] = (byNetwork[entry.network] ?? 0) + 1;
+    }
+
+    let objects = 0;
+    let totalBytes = 0;
+    for (const file of await this.listObjects()) {
+      objects++;
+      totalBytes += (await stat(file)).size;
+    }
+
+    return {
+      root: this.root,
+      entries: entries.length,
+      objects,
+      totalBytes,
+      expired: entries.filter((e) => e.expiresAt !== null && now > e.expiresAt).length,
+      byKind,
+      byNetwork,
+    };
+  }
+
+  /**
+   * Remove matching entries, then garbage-collect unreferenced objects
+   */
+  async prune(options: DiskCachePruneOptions = {}): Promise<{ removedEntries: number; removedObjects: number }> {
+    const now = Date.now();
+    let removedEntries = 0;
+
+    for (const entry of await this.list(options)) {
+      if (options.expiredOnly && (entry.expiresAt === null || now <= entry.expiresAt)) continue;
+      if (options.olderThanMs !== undefined && now - entry.storedAt < options.olderThanMs) continue;
+
+      await rm(this.getIndexPath(entry), { force: true });
+      removedEntries++;
+    }
+
+    // Objects are shared between entries; only delete those nothing points to
+    const referenced = new Set((await this.list()).map((e) => e.hash));
+    let removedObjects = 0;
+    for (const file of await this.listObjects()) {
+      const hash = basename(file, '.json');
+      if (!referenced.has(hash)) {
+        await rm(file, { force: true });
+        removedObjects++;
+      }
+    }
+
+    return { removedEntries, removedObjects };
+  }
+
+  /**
+   * Export matching entries with their content as a single bundle
+   */
+  async export(filter: DiskCacheFilter = {}): Promise<DiskCacheExport> {
+    const entries: DiskCacheExport['entries'] = [];
+
+    for (const entry of await this.list(filter)) {
+      try {
+        const content = await readFile(this.getObjectPath(entry.hash), 'utf-8');
+        entries.push({ ...entry, data: JSON.parse(content) });
+      } catch {
+        console.warn(`Skipping cache entry with missing object: ${entry.hash}`);
+      }
+    }
+
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      entries,
+    };
+  }
+
+  private getObjectPath(hash: string): string {
+    return join(this.root, 'objects', hash.slice(0, 2), `${hash}.json`);
+  }
+
+  private getIndexPath(key: DiskCacheKey): string {
+    const file = key.name ? `${key.kind}--${sanitize(key.name)}.json` : `${key.kind}.json`;
+    return join(this.root, 'index', sanitize(key.network), normalizeId(key.packageId), file);
+  }
+
+  private async readIndexEntry(path: string): Promise<DiskCacheIndexEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(path, 'utf-8')) as DiskCacheIndexEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async listObjects(): Promise<string[]> {
+    const objectsRoot = join(this.root, 'objects');
+    const files: string[] = [];
+    for (const prefix of await listDir(objectsRoot)) {
+      for (const file of await listDir(join(objectsRoot, prefix))) {
+        files.push(join(objectsRoot, prefix, file));
+      }
+    }
+    return files;
+  }
+}
+
+/**
+ * Default cache directory (MOVE_WHISPERER_CACHE_DIR, then XDG_CACHE_HOME, then ~/.cache)
+ */
+export function getDefaultCacheDir(): string {
+  if (process.env.MOVE_WHISPERER_CACHE_DIR) {
+    return process.env.MOVE_WHISPERER_CACHE_DIR;
+  }
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(base, 'move-whisperer');
+}
+
+/**
+ * Whether the disk cache should be used.
+ * Disabled by MOVE_WHISPERER_CACHE=off and while RPC fixtures are active,
+ * so recordings always capture real traffic and replays stay deterministic.
+ */
+export function isDiskCacheEnabled(): boolean {
+  const setting = process.env.MOVE_WHISPERER_CACHE?.toLowerCase();
+  if (setting === 'off' || setting === 'false' || setting === '0') {
+    return false;
+  }
+  return getFixtureStore() === null;
+}
+
+let sharedDiskCache: DiskCache | null = null;
+
+/**
+ * Get the shared disk cache, or null when disabled
+ */
+export function getDiskCache(): DiskCache | null {
+  if (!isDiskCacheEnabled()) {
+    return null;
+  }
+  if (!sharedDiskCache) {
+    sharedDiskCache = new DiskCache();
+  }
+  return sharedDiskCache;
+}
+
+// Package IDs are normalized to lowercase full-length hex so 0x2 and 0x000...2 share entries
+function normalizeId(packageId: string): string {
+  const hex = packageId.toLowerCase().replace(/^0x/, '');
+  return /^[0-9a-f]+$/.test(hex) ? `0x${hex.padStart(64, '0')}` : sanitize(packageId);
+}
+
+function isSystemPackage(packageId: string): boolean {
+  return SYSTEM_PACKAGES.has(normalizeId(packageId));
+}
+
+function sanitize(value: string): string {
+  return value.replace(/[^\w.-]/g, '_');
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function listDir(path: string): Promise<string[]> {
+  try {
+    return await readdir(path);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write via a temp file + rename so concurrent readers never see partial content
+ */
+async function writeAtomic(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(tmp, content, 'utf-8');
+  await rename(tmp, path);
+}
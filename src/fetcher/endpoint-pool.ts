@@ -0,0 +1,237 @@
+/**
+ * Endpoint pool - health-scored failover across multiple RPC endpoints
+ */
+
+import { NetworkError } from '../core/errors.js';
+
+export interface EndpointPoolOptions {
+  /** Per-request timeout for a single endpoint */
+  timeoutMs: number;
+  /** Cooldown after the first consecutive failure (doubles per failure) */
+  baseCooldownMs: number;
+  maxCooldownMs: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Exponential moving average of successful request latency */
+  avgLatencyMs: number;
+  cooldownUntil: number;
+  score: number;
+}
+
+const DEFAULT_OPTIONS: EndpointPoolOptions = {
+  timeoutMs: 30000,
+  baseCooldownMs: 5000,
+  maxCooldownMs: 5 * 60 * 1000,
+};
+
+// HTTP statuses that indicate the endpoint (not the request) is the problem
+const FAILOVER_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+type FetchFn = typeof fetch;
+
+export class EndpointPool {
+  private endpoints: EndpointHealth[];
+  private options: EndpointPoolOptions;
+
+  constructor(urls: string[], options: Partial<EndpointPoolOptions> = {}) {
+    if (urls.length === 0) {
+      throw new Error('EndpointPool requires at least one endpoint');
+    }
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.endpoints = urls.map((url) => ({
+      url,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      avgLatencyMs: 0,
+      cooldownUntil: 0,
+      score: 0,
+    }));
+  }
+
+  /**
+   * Endpoints ordered by preference: healthy before cooling down, then by score.
+   * Ties keep the configured order.
+   */
+  getOrdered(): string[] {
+    const now = Date.now();
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index, score: scoreOf(endpoint) }))
+      .sort((a, b) => {
+        const aCooling = a.endpoint.cooldownUntil > now ? 1 : 0;
+        const bCooling = b.endpoint.cooldownUntil > now ? 1 : 0;
+        if (aCooling !== bCooling) return aCooling - bCooling;
+        if (a.score !== b.score) return b.score - a.score;
+        return a.index - b.index;
+      })
+      .map(({ endpoint }) => endpoint.url);
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(url: string, latencyMs: number): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+    endpoint.avgLatencyMs = endpoint.successes === 0
+      ? latencyMs
+      : endpoint.avgLatencyMs * 0.8 + latencyMs * 0.2;
+    endpoint.successes++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  /**
+   * Record a failed request and put the endpoint into cooldown
+   */
+  recordFailure(url: string): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    const cooldown = Math.min(
+      this.options.baseCooldownMs * 2 ** (endpoint.consecutiveFailures - 1),
+      this.options.maxCooldownMs
+    );
+    endpoint.cooldownUntil = Date.now() + cooldown;
+  }
+
+  /**
+   * Snapshot of endpoint health, in preference order
+   */
+  getHealth(): EndpointHealth[] {
+    return this.getOrdered().map((url) => {
+      const endpoint = this.find(url)!;
+      return { ...endpoint, score: scoreOf(endpoint) };
+    });
+  }
+
+  /**
+   * Primary (currently preferred) endpoint
+   */
+  getPrimary(): string {
+    return this.getOrdered()[0];
+  }
+
+  /**
+   * Create a fetch function that sends each request to the best endpoint
+   * and fails over to the next one on connection errors, timeouts and 5xx/429.
+   */
+  createFetch(baseFetch: FetchFn = globalThis.fetch): FetchFn {
+    return async (_input, init) => {
+      let lastError: unknown;
+      let lastResponse: Response | undefined;
+
+      for (const url of this.getOrdered()) {
+        const started = Date.now();
+        const timeout = AbortSignal.timeout(this.options.timeoutMs);
+        const signal = init?.signal ? anySignal(init.signal, timeout) : timeout;
+
+        try {
+          const response = await baseFetch(url, { ...init, signal });
+          if (FAILOVER_STATUSES.has(response.status)) {
+            this.recordFailure(url);
+            // Release the connection of the response we are moving past; only
+            // the last one is kept for the caller
+            await lastResponse?.body?.cancel();
+            lastResponse = response;
+            continue;
+          }
+          this.recordSuccess(url, Date.now() - started);
+          return response;
+        } catch (error) {
+          // Errors raised by our own layers (e.g. missing fixtures) or by the
+          // caller aborting are not endpoint failures
+          if (error instanceof NetworkError || init?.signal?.aborted) {
+            throw error;
+          }
+          this.recordFailure(url);
+          lastError = error;
+        }
+      }
+
+      // Every endpoint failed: surface the last HTTP response so callers see the status
+      if (lastResponse) {
+        return lastResponse;
+      }
+      throw lastError;
+    };
+  }
+
+  /**
+   * Probe every endpoint once with a lightweight JSON-RPC call and record the result
+   */
+  async probe(baseFetch: FetchFn = globalThis.fetch): Promise<EndpointHealth[]> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'sui_getChainIdentifier', params: [] });
+    await Promise.all(
+      this.endpoints.map(async ({ url }) => {
+        const started = Date.now();
+        try {
+          const response = await baseFetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+            signal: AbortSignal.timeout(this.options.timeoutMs),
+          });
+          if (response.ok) {
+            this.recordSuccess(url, Date.now() - started);
+          } else {
+            this.recordFailure(url);
+          }
+        } catch {
+          this.recordFailure(url);
+        }
+      })
+    );
+    return this.getHealth();
+  }
+
+  private find(url: string): EndpointHealth | undefined {
+    return this.endpoints.find((e) => e.url === url);
+  }
+}
+
+/**
+ * Signal aborted when either signal aborts (AbortSignal.any needs Node 20.3)
+ */
+function anySignal(a: AbortSignal, b: AbortSignal): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of [a, b]) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+  }
+  return controller.signal;
+}
+
+/**
+ * Score in [0, 1]: smoothed success rate minus a small latency penalty
+ */
+function scoreOf(endpoint: EndpointHealth): number {
+  const successRate = (endpoint.successes + 1) / (endpoint.successes + endpoint.failures + 2);
+  const latencyPenalty = endpoint.avgLatencyMs / (endpoint.avgLatencyMs + 1000);
+  return successRate - 0.2 * latencyPenalty;
+}
+
+// Pools are shared per endpoint list so health survives across clients
+const pools = new Map<string, EndpointPool>();
+
+/**
+ * Get the shared pool for an ordered endpoint list
+ */
+export function getEndpointPool(urls: string[]): EndpointPool {
+  const key = urls.join('|');
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new EndpointPool(urls);
+    pools.set(key, pool);
+  }
+  return pool;
+}
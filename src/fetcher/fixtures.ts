@@ -0,0 +1,226 @@
+/**
+ * Record/replay fixtures for RPC traffic
+ * Records every JSON-RPC / GraphQL exchange to disk and serves it back
+ * deterministically so the generator can run offline and in CI
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { InputValidationError, NetworkError } from '../core/errors.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+const FIXTURE_MODES: FixtureMode[] = ['replay', 'record'];
+
+export interface FixtureOptions {
+  /** Directory holding fixture files */
+  dir: string;
+  mode: FixtureMode;
+}
+
+export interface FixtureEntry {
+  url: string;
+  /** Request body with volatile fields (JSON-RPC id) removed */
+  request: unknown;
+  status: number;
+  response: unknown;
+  recordedAt: string;
+}
+
+type FetchFn = typeof fetch;
+
+/**
+ * Fixture store - wraps fetch to record or replay HTTP POST bodies
+ */
+export class FixtureStore {
+  private dir: string;
+  private mode: FixtureMode;
+  private upstream: FetchFn;
+
+  constructor(options: FixtureOptions, upstream: FetchFn = globalThis.fetch) {
+    this.dir = options.dir;
+    this.mode = options.mode;
+    this.upstream = upstream;
+
+    if (this.mode === 'record') {
+      mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Get the fixture mode
+   */
+  getMode(): FixtureMode {
+    return this.mode;
+  }
+
+  /**
+   * Get the fixture directory
+   */
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * fetch-compatible function that records or replays requests
+   */
+  fetch: FetchFn = async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const rawBody = typeof init?.body === 'string' ? init.body : '';
+    const { normalized, id } = normalizeBody(rawBody);
+    const key = this.getKey(url, normalized);
+    const file = join(this.dir, `${key}.json`);
+
+    if (this.mode === 'replay') {
+      if (!existsSync(file)) {
+        throw NetworkError.fixtureMissing(describeRequest(normalized), file);
+      }
+      const entry = JSON.parse(readFileSync(file, 'utf-8')) as FixtureEntry;
+      return toResponse(entry, id);
+    }
+
+    const response = await this.upstream(input, init);
+    const text = await response.text();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = text;
+    }
+
+    const entry: FixtureEntry = {
+      url,
+      request: normalized,
+      status: response.status,
+      response: stripId(parsed),
+      recordedAt: new Date().toISOString(),
+    };
+    writeFileSync(file, JSON.stringify(entry, null, 2), 'utf-8');
+
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  /**
+   * Fixture file name: readable method prefix plus content hash
+   */
+  private getKey(url: string, normalized: unknown): string {
+    const hash = createHash('sha256')
+      .update(url)
+      .update('\n')
+      .update(stableStringify(normalized))
+      .digest('hex')
+      .slice(0, 16);
+    const label = describeRequest(normalized).replace(/[^\w-]/g, '_');
+    return `${label}-${hash}`;
+  }
+}
+
+/**
+ * Remove the JSON-RPC id so identical calls map to the same fixture
+ */
+function normalizeBody(body: string): { normalized: unknown; id?: unknown } {
+  if (!body) return { normalized: null };
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'id' in parsed) {
+      const { id, ...rest } = parsed;
+      return { normalized: rest, id };
+    }
+    return { normalized: parsed };
+  } catch {
+    return { normalized: body };
+  }
+}
+
+function stripId(value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'id' in value) {
+    const { id: _id, ...rest } = value as Record<string, unknown>;
+    return rest;
+  }
+  return value;
+}
+
+function toResponse(entry: FixtureEntry, id: unknown): Response {
+  let body: unknown = entry.response;
+  if (id !== undefined && body && typeof body === 'object' && !Array.isArray(body)) {
+    body = { ...(body as Record<string, unknown>), id };
+  }
+  return new Response(typeof body === 'string' ? body : JSON.stringify(body), {
+    status: entry.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Short label for a request: JSON-RPC method or GraphQL operation name
+ */
+function describeRequest(normalized: unknown): string {
+  if (normalized && typeof normalized === 'object') {
+    const body = normalized as Record<string, unknown>;
+    if (typeof body.method === 'string') return body.method;
+    if (typeof body.operationName === 'string') return `graphql_${body.operationName}`;
+    if (typeof body.query === 'string') return 'graphql';
+  }
+  return 'request';
+}
+
+/**
+ * JSON.stringify with sorted object keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// ============ Global configuration ============
+
+let activeStore: FixtureStore | null = null;
+
+/**
+ * Enable (or disable with null) fixtures for every client created afterwards
+ */
+export function configureFixtures(options: FixtureOptions | null): FixtureStore | null {
+  activeStore = options ? new FixtureStore(options) : null;
+  return activeStore;
+}
+
+/**
+ * Get the active fixture store, if any
+ */
+export function getFixtureStore(): FixtureStore | null {
+  return activeStore;
+}
+
+/**
+ * Get a fetch function honouring the active fixture store
+ */
+export function getFetch(): FetchFn {
+  return activeStore?.fetch ?? globalThis.fetch;
+}
+
+/**
+ * Parse a fixture mode string, defaulting to replay when unset
+ */
+export function parseFixtureMode(mode: string | undefined): FixtureMode {
+  if (mode === undefined || mode === '') {
+    return 'replay';
+  }
+  if (!FIXTURE_MODES.includes(mode as FixtureMode)) {
+    throw InputValidationError.invalidFixtureMode(mode, FIXTURE_MODES);
+  }
+  return mode as FixtureMode;
+}
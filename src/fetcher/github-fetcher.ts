@@ -0,0 +1,484 @@
+/**
+ * GitHub package fetcher - discovers Move packages in a repository and
+ * parses their sources through the same pipeline as local packages
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, posix } from 'path';
+import type { Network } from '../types/index.js';
+import type { FetchedModule } from './abi-fetcher.js';
+import type { MoveManifest } from './move-manifest.js';
+import { buildMovePackage, type MoveSourceFile } from './local-fetcher.js';
+import { InputValidationError, NetworkError } from '../core/errors.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitHubRepoRef {
+  owner: string;
+  repo: string;
+  /** Branch, tag or commit; defaults to the repository's default branch */
+  ref?: string;
+  /** Sub-directory inside the repository */
+  path?: string;
+}
+
+/**
+ * Read-only view of a repository at a single revision.
+ * Implementations decide where the bytes come from (GitHub API, git, ...).
+ */
+export interface RepositorySource {
+  /** List every file path (relative to the repository root) */
+  listFiles(): Promise<string[]>;
+  /** Read a file by its repository-relative path */
+  readFile(path: string): Promise<string>;
+  /** Branch and tag names starting with a prefix, for splitting URL refs that contain slashes */
+  listRefs?(prefix: string): Promise<string[]>;
+  /** Release any resources (temporary clones, etc.) */
+  dispose?(): Promise<void>;
+}
+
+export type RepositorySourceFactory = (repo: GitHubRepoRef) => RepositorySource;
+
+export interface GitHubPackage {
+  /** Package root relative to the repository root ('' for the root) */
+  path: string;
+  manifest: MoveManifest;
+  modules: FetchedModule[];
+}
+
+export interface GitHubFetcherOptions {
+  /** Custom repository source, e.g. a local git fixture */
+  sourceFactory?: RepositorySourceFactory;
+  /** GitHub token for API requests (defaults to GITHUB_TOKEN) */
+  token?: string;
+}
+
+/**
+ * Parse a GitHub URL such as https://github.com/org/repo/tree/main/packages/dex
+ */
+export function parseGitHubUrl(url: string): GitHubRepoRef {
+  const match = url
+    .trim()
+    .match(/^(?:https?:\/\/)?(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:\/(tree|blob)\/([^/]+)(?:\/(.*))?)?\/?$/i);
+
+  if (!match) {
+    throw InputValidationError.invalidRepositoryUrl(url);
+  }
+
+  const [, owner, repo, kind, ref, rest] = match;
+  let path = rest?.replace(/\/+$/, '') || undefined;
+
+  // A blob URL points at a file (usually Move.toml); use its directory
+  if (kind === 'blob' && path) {
+    const dir = posix.dirname(path);
+    path = dir === '.' ? undefined : dir;
+  }
+
+  return { owner, repo, ref, path };
+}
+
+/**
+ * Split a URL's ref and path when the ref itself contains slashes.
+ * parseGitHubUrl takes the first segment as the ref, so `tree/feature/x/pkg`
+ * is matched against the source's branches and tags, longest name first;
+ * without a match (or a source that cannot list refs) the first-segment split is kept.
+ */
+export async function resolveRefPath(repo: GitHubRepoRef, source: RepositorySource): Promise<GitHubRepoRef> {
+  if (!repo.ref || !repo.path || !source.listRefs) return repo;
+
+  const joined = `${repo.ref}/${repo.path}`;
+  let names: string[];
+  try {
+    names = await source.listRefs(repo.ref);
+  } catch {
+    return repo;
+  }
+
+  const ref = names
+    .filter((name) => joined === name || joined.startsWith(`${name}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!ref || ref === repo.ref) return repo;
+  return { ...repo, ref, path: joined.slice(ref.length + 1) || undefined };
+}
+
+// ============ Repository sources ============
+
+/**
+ * Repository source backed by the GitHub REST API
+ */
+export class GitHubApiSource implements RepositorySource {
+  private repo: GitHubRepoRef;
+  private token?: string;
+  private apiBaseUrl: string;
+  private resolvedRef?: string;
+
+  constructor(repo: GitHubRepoRef, options: { token?: string; apiBaseUrl?: string } = {}) {
+    this.repo = repo;
+    this.token = options.token ?? process.env.GITHUB_TOKEN;
+    this.apiBaseUrl = options.apiBaseUrl ?? 'https://api.github.com';
+  }
+
+  /**
+   * List all files using the recursive git tree endpoint
+   */
+  async listFiles(): Promise<string[]> {
+    const ref = await this.getRef();
+    const tree = await this.request<{ tree: Array<{ path: string; type: string }>; truncated: boolean }>(
+      `/repos/${this.repo.owner}/${this.repo.repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`
+    );
+
+    if (tree.truncated) {
+      console.warn(`Repository tree for ${this.describe()} is truncated; some packages may be missed`);
+    }
+
+    return tree.tree.filter((entry) => entry.type === 'blob').map((entry) => entry.path);
+  }
+
+  /**
+   * Branches and tags matching a prefix, via the matching-refs endpoint
+   */
+  async listRefs(prefix: string): Promise<string[]> {
+    const names: string[] = [];
+    for (const kind of ['heads', 'tags']) {
+      const refs = await this.request<Array<{ ref: string }>>(
+        `/repos/${this.repo.owner}/${this.repo.repo}/git/matching-refs/${kind}/${prefix.split('/').map(encodeURIComponent).join('/')}`
+      );
+      names.push(...refs.map((r) => r.ref.replace(/^refs\/(heads|tags)\//, '')));
+    }
+    return names;
+  }
+
+  /**
+   * Read a file via the contents endpoint
+   */
+  async readFile(path: string): Promise<string> {
+    const ref = await this.getRef();
+    const file = await this.request<{ content: string; encoding: string }>(
+      `/repos/${this.repo.owner}/${this.repo.repo}/contents/${path.split('/').map(encodeURIComponent).join('/')}?ref=${encodeURIComponent(ref)}`
+    );
+    return file.encoding === 'base64'
+      ? Buffer.from(file.content, 'base64').toString('utf-8')
+      : file.content;
+  }
+
+  /**
+   * Resolve the ref, falling back to the default branch
+   */
+  private async getRef(): Promise<string> {
+    if (this.repo.ref) return this.repo.ref;
+    if (!this.resolvedRef) {
+      const info = await this.request<{ default_branch: string }>(
+        `/repos/${this.repo.owner}/${this.repo.repo}`
+      );
+      this.resolvedRef = info.default_branch;
+    }
+    return this.resolvedRef;
+  }
+
+  private async request<T>(endpoint: string): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'move-whisperer',
+    };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiBaseUrl}${endpoint}`, { headers });
+    } catch (error) {
+      throw NetworkError.connectionFailed(this.apiBaseUrl, error as Error);
+    }
+
+    if (!response.ok) {
+      const reason = response.status === 403 || response.status === 429
+        ? 'GitHub API rate limit exceeded (set GITHUB_TOKEN to raise it)'
+        : `HTTP ${response.status} ${response.statusText}`;
+      throw NetworkError.repositoryError(this.describe(), reason);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private describe(): string {
+    return `${this.repo.owner}/${this.repo.repo}`;
+  }
+}
+
+/**
+ * Repository source backed by the git CLI.
+ * Works with any remote git can read, including local fixture repositories.
+ */
+export class GitRepositorySource implements RepositorySource {
+  private remote: string;
+  private ref?: string;
+  private gitDir?: string;
+  private tempDir?: string;
+
+  constructor(remote: string, ref?: string) {
+    this.remote = remote;
+    this.ref = ref;
+  }
+
+  /**
+   * List all files at the selected revision
+   */
+  async listFiles(): Promise<string[]> {
+    const output = await this.git(['ls-tree', '-r', '--name-only', this.revision()]);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Read a file at the selected revision
+   */
+  async readFile(path: string): Promise<string> {
+    return this.git(['show', `${this.revision()}:${path}`]);
+  }
+
+  /**
+   * Branches and tags of the remote matching a prefix
+   */
+  async listRefs(prefix: string): Promise<string[]> {
+    let output: string;
+    try {
+      ({ stdout: output } = await execFileAsync('git', ['ls-remote', '--heads', '--tags', this.remote], {
+        timeout: 60000,
+      }));
+    } catch (error) {
+      throw NetworkError.repositoryError(this.remote, (error as Error).message);
+    }
+
+    return output
+      .split('\n')
+      .map((line) => line.split('\t')[1]?.replace(/^refs\/(heads|tags)\//, '').replace(/\^\{\}$/, ''))
+      .filter((name): name is string => !!name && name.startsWith(prefix));
+  }
+
+  /**
+   * Remove the temporary clone, if one was made
+   */
+  async dispose(): Promise<void> {
+    if (this.tempDir) {
+      await rm(this.tempDir, { recursive: true, force: true });
+      this.tempDir = undefined;
+      this.gitDir = undefined;
+    }
+  }
+
+  private revision(): string {
+    return this.ref ?? 'HEAD';
+  }
+
+  /**
+   * Local repositories are read in place; remotes get a shallow bare clone
+   */
+  private async ensureGitDir(): Promise<string> {
+    if (this.gitDir) return this.gitDir;
+
+    if (await isDirectory(this.remote)) {
+      this.gitDir = this.remote;
+      return this.gitDir;
+    }
+
+    this.tempDir = await mkdtemp(join(tmpdir(), 'move-whisperer-git-'));
+    const commit = this.ref && isCommitSha(this.ref);
+
+    try {
+      if (commit) {
+        // `clone --branch` only takes branches and tags; fetch the commit itself
+        await execFileAsync('git', ['init', '--bare', '--quiet', this.tempDir], { timeout: 60000 });
+        await execFileAsync('git', ['-C', this.tempDir, 'remote', 'add', 'origin', this.remote], { timeout: 60000 });
+        await execFileAsync('git', ['-C', this.tempDir, 'fetch', '--depth', '1', '--quiet', 'origin', this.ref!], {
+          timeout: 120000,
+        });
+      } else {
+        const args = ['clone', '--bare', '--depth', '1', '--quiet'];
+        if (this.ref) {
+          args.push('--branch', this.ref);
+        }
+        args.push(this.remote, this.tempDir);
+        await execFileAsync('git', args, { timeout: 120000 });
+      }
+    } catch (error) {
+      await this.dispose();
+      throw NetworkError.repositoryError(this.remote, (error as Error).message);
+    }
+
+    // A fetched commit is FETCH_HEAD; a clone only contains the requested branch, which is now HEAD
+    this.ref = commit ? 'FETCH_HEAD' : undefined;
+    this.gitDir = this.tempDir;
+    return this.gitDir;
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const gitDir = await this.ensureGitDir();
+    try {
+      const { stdout } = await execFileAsync('git', ['-C', gitDir, ...args], {
+        timeout: 60000,
+        maxBuffer: 50 * 1024 * 1024,
+      });
+      return stdout;
+    } catch (error) {
+      throw NetworkError.repositoryError(this.remote, (error as Error).message);
+    }
+  }
+}
+
+function isCommitSha(ref: string): boolean {
+  return /^([0-9a-f]{40}|[0-9a-f]{64})$/i.test(ref);
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Default repository source.
+ * MOVE_WHISPERER_GITHUB_REMOTE redirects to a git remote template,
+ * e.g. "/fixtures/{owner}/{repo}.git", instead of the GitHub API.
+ */
+export function createRepositorySource(repo: GitHubRepoRef, token?: string): RepositorySource {
+  if (process.env.MOVE_WHISPERER_GITHUB_REMOTE) {
+    return new GitRepositorySource(repositoryRemote(repo), repo.ref);
+  }
+  return new GitHubApiSource(repo, { token });
+}
+
+/**
+ * Git remote of a repository, honouring MOVE_WHISPERER_GITHUB_REMOTE
+ */
+function repositoryRemote(repo: GitHubRepoRef): string {
+  const remoteTemplate = process.env.MOVE_WHISPERER_GITHUB_REMOTE;
+  if (remoteTemplate) {
+    return remoteTemplate.replace('{owner}', repo.owner).replace('{repo}', repo.repo);
+  }
+  return `https://github.com/${repo.owner}/${repo.repo}.git`;
+}
+
+// ============ Fetcher ============
+
+export class GitHubPackageFetcher {
+  private network: Network;
+  private sourceFactory: RepositorySourceFactory;
+
+  constructor(network: Network, options: GitHubFetcherOptions = {}) {
+    this.network = network;
+    this.sourceFactory = options.sourceFactory ?? ((repo) => createRepositorySource(repo, options.token));
+  }
+
+  /**
+   * Discover and parse every Move package under the URL's path
+   */
+  async loadPackages(url: string, subPath?: string): Promise<GitHubPackage[]> {
+    const parsed = parseGitHubUrl(url);
+    let source = this.sourceFactory(parsed);
+    const repo = await resolveRefPath(parsed, source);
+    const basePath = normalizeRepoPath(subPath ?? repo.path);
+    if (repo.ref !== parsed.ref || basePath !== normalizeRepoPath(parsed.path)) {
+      await source.dispose?.();
+      source = this.sourceFactory({ ...repo, path: basePath || undefined });
+    }
+    const repoName = `${repo.owner}/${repo.repo}`;
+
+    try {
+      const files = await source.listFiles();
+      const roots = discoverPackageRoots(files, basePath);
+      if (roots.length === 0) {
+        throw NetworkError.noMovePackages(repoName, basePath || undefined);
+      }
+
+      const packages: GitHubPackage[] = [];
+      for (const root of roots) {
+        const manifestPath = root ? `${root}/Move.toml` : 'Move.toml';
+        const sourcesPrefix = root ? `${root}/sources/` : 'sources/';
+
+        const sources: MoveSourceFile[] = [];
+        for (const file of files) {
+          if (file.startsWith(sourcesPrefix) && file.endsWith('.move')) {
+            sources.push({ path: file, content: await source.readFile(file) });
+          }
+        }
+
+        const manifestContent = await source.readFile(manifestPath);
+        const { manifest, modules } = buildMovePackage(
+          manifestContent,
+          `${repoName}/${manifestPath}`,
+          sources,
+          this.network
+        );
+        packages.push({ path: root, manifest, modules });
+      }
+
+      return packages;
+    } finally {
+      await source.dispose?.();
+    }
+  }
+
+  /**
+   * Fetch all modules from every package under the URL's path
+   */
+  async fetchPackage(url: string, subPath?: string): Promise<FetchedModule[]> {
+    const packages = await this.loadPackages(url, subPath);
+    return packages.flatMap((pkg) => pkg.modules);
+  }
+
+  /**
+   * Fetch a single module by name
+   */
+  async fetchModule(url: string, moduleName: string, subPath?: string): Promise<FetchedModule> {
+    const modules = await this.fetchPackage(url, subPath);
+    const module = modules.find((m) => m.moduleName === moduleName);
+    if (!module) {
+      throw NetworkError.moduleNotFound(url, moduleName, 'github');
+    }
+    return module;
+  }
+
+  /**
+   * List module names across discovered packages
+   */
+  async listModules(url: string, subPath?: string): Promise<string[]> {
+    const modules = await this.fetchPackage(url, subPath);
+    return modules.map((m) => m.moduleName);
+  }
+}
+
+/**
+ * Find directories containing a Move.toml at or below basePath.
+ * Build output and dependency caches are ignored.
+ */
+export function discoverPackageRoots(files: string[], basePath = ''): string[] {
+  const prefix = basePath ? `${basePath}/` : '';
+  const roots = files
+    .filter((file) => file === `${prefix}Move.toml` || (file.startsWith(prefix) && file.endsWith('/Move.toml')))
+    .map((file) => posix.dirname(file))
+    .map((dir) => (dir === '.' ? '' : dir))
+    .filter((dir) => !dir.split('/').some((part) => part === 'build' || part.startsWith('.')));
+
+  // If the base path is itself a package, don't descend into nested ones
+  if (roots.includes(basePath)) {
+    return [basePath];
+  }
+
+  return [...new Set(roots)].sort();
+}
+
+function normalizeRepoPath(path?: string): string {
+  return (path ?? '').replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Create a GitHub package fetcher
+ */
+export function createGitHubFetcher(network: Network, options?: GitHubFetcherOptions): GitHubPackageFetcher {
+  return new GitHubPackageFetcher(network, options);
+}
@@ -2,6 +2,16 @@
  * Fetcher exports
  */
 
+export * from './networks.js';
+export * from './endpoint-pool.js';
 export * from './sui-client.js';
+export * from './coin-registry.js';
 export * from './abi-fetcher.js';
 export * from './cache.js';
+export * from './disk-cache.js';
+export * from './fixtures.js';
+export * from './move-manifest.js';
+export * from './move-source-parser.js';
+export * from './local-fetcher.js';
+export * from './github-fetcher.js';
+export * from './input-source.js';
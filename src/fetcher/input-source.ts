@@ -0,0 +1,61 @@
+/**
+ * Input source detection - decides whether an input string refers to
+ * an on-chain package, a GitHub repository or a local Move package
+ */
+
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { InputSource } from '../types/index.js';
+import { parsePackageInput } from './abi-fetcher.js';
+
+const GITHUB_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?github\.com\//i;
+
+/**
+ * Parse an input string into an InputSource.
+ * A trailing `::module` selects a single module for every source type.
+ */
+export function parseInputSource(input: string): InputSource {
+  const trimmed = input.trim();
+
+  if (GITHUB_URL_PATTERN.test(trimmed)) {
+    const { target, module } = splitModuleSuffix(trimmed);
+    return { type: 'github', url: target, module };
+  }
+
+  if (isLocalPath(trimmed)) {
+    const { target, module } = splitModuleSuffix(trimmed);
+    return { type: 'local', path: target, module };
+  }
+
+  const { packageId, moduleName } = parsePackageInput(trimmed);
+  return { type: 'packageId', packageId, module: moduleName };
+}
+
+/**
+ * Check whether an input looks like a filesystem path
+ */
+export function isLocalPath(input: string): boolean {
+  if (
+    input.startsWith('.') ||
+    input.startsWith('/') ||
+    input.startsWith('~') ||
+    /^[a-zA-Z]:[\\/]/.test(input)
+  ) {
+    return true;
+  }
+
+  // Bare directory name such as `my_package` containing a Move.toml
+  const { target } = splitModuleSuffix(input);
+  return !target.startsWith('0x') && existsSync(join(target, 'Move.toml'));
+}
+
+/**
+ * Split an optional `::module` suffix off a path or URL
+ */
+function splitModuleSuffix(input: string): { target: string; module?: string } {
+  const match = input.match(/^(.*?)::(\w+)$/);
+  if (!match) {
+    return { target: input };
+  }
+  return { target: match[1], module: match[2] };
+}
@@ -0,0 +1,202 @@
+/**
+ * Local package fetcher - reads Move packages from disk instead of RPC
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+import type { Network } from '../types/index.js';
+import type { FetchedModule } from './abi-fetcher.js';
+import { parseMoveManifest, type MoveManifest } from './move-manifest.js';
+import { parseMoveSource } from './move-source-parser.js';
+import { ConfigError, FileSystemError, NetworkError } from '../core/errors.js';
+
+export interface MoveSourceFile {
+  path: string;
+  content: string;
+}
+
+export interface LocalPackage {
+  /** Absolute path to the package root */
+  path: string;
+  manifest: MoveManifest;
+  modules: FetchedModule[];
+}
+
+export class LocalPackageFetcher {
+  private network: Network;
+
+  constructor(network: Network) {
+    this.network = network;
+  }
+
+  /**
+   * Load a local Move package and parse all of its modules
+   */
+  async loadPackage(packagePath: string): Promise<LocalPackage> {
+    const root = expandPath(packagePath);
+    const manifestPath = join(root, 'Move.toml');
+
+    let manifestContent: string;
+    try {
+      manifestContent = await readFile(manifestPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw ConfigError.notFound(manifestPath);
+      }
+      throw FileSystemError.readError(manifestPath, error as Error);
+    }
+
+    const sourceFiles = await findMoveFiles(join(root, 'sources'));
+    const sources: MoveSourceFile[] = [];
+    for (const file of sourceFiles) {
+      try {
+        sources.push({ path: file, content: await readFile(file, 'utf-8') });
+      } catch (error) {
+        throw FileSystemError.readError(file, error as Error);
+      }
+    }
+
+    const { manifest, modules } = buildMovePackage(manifestContent, manifestPath, sources, this.network);
+
+    return { path: root, manifest, modules };
+  }
+
+  /**
+   * Fetch all modules in a local package
+   */
+  async fetchPackage(packagePath: string): Promise<FetchedModule[]> {
+    const pkg = await this.loadPackage(packagePath);
+    return pkg.modules;
+  }
+
+  /**
+   * Fetch a single module from a local package
+   */
+  async fetchModule(packagePath: string, moduleName: string): Promise<FetchedModule> {
+    const modules = await this.fetchPackage(packagePath);
+    const module = modules.find((m) => m.moduleName === moduleName);
+    if (!module) {
+      throw NetworkError.moduleNotFound(packagePath, moduleName, 'local');
+    }
+    return module;
+  }
+
+  /**
+   * List module names in a local package
+   */
+  async listModules(packagePath: string): Promise<string[]> {
+    const modules = await this.fetchPackage(packagePath);
+    return modules.map((m) => m.moduleName);
+  }
+}
+
+/**
+ * Build fetched modules from a manifest and its source files.
+ * Shared by every source that yields raw Move packages (disk, git).
+ */
+export function buildMovePackage(
+  manifestContent: string,
+  manifestPath: string,
+  sources: MoveSourceFile[],
+  network: Network
+): { manifest: MoveManifest; modules: FetchedModule[] } {
+  const manifest = parseMoveManifest(manifestContent, manifestPath);
+  const packageNamedAddress = findPackageNamedAddress(manifest);
+  const packageAddress = manifest.package.publishedAt
+    ?? (packageNamedAddress ? manifest.addresses[packageNamedAddress] : undefined);
+
+  const fetchedAt = new Date().toISOString();
+  const modules: FetchedModule[] = [];
+
+  for (const file of sources) {
+    try {
+      const parsed = parseMoveSource(file.content, {
+        addresses: manifest.addresses,
+        packageAddress: packageAddress && packageAddress !== '_' && packageAddress !== '0x0'
+          ? packageAddress
+          : undefined,
+        packageNamedAddress,
+      });
+
+      for (const { abi, source } of parsed) {
+        modules.push({
+          packageId: abi.address,
+          moduleName: abi.name,
+          network,
+          abi,
+          sourceCode: source,
+          fetchedAt,
+        });
+      }
+    } catch (error) {
+      console.warn(`Skipping ${file.path}: ${(error as Error).message}`);
+    }
+  }
+
+  modules.sort((a, b) => a.moduleName.localeCompare(b.moduleName));
+
+  return { manifest, modules };
+}
+
+/**
+ * Guess which named address belongs to the package itself.
+ * By convention it matches the package name (lowercased).
+ */
+function findPackageNamedAddress(manifest: MoveManifest): string | undefined {
+  const candidates = [manifest.package.name, manifest.package.name.toLowerCase()];
+  return candidates.find((name) => name in manifest.addresses);
+}
+
+/**
+ * Recursively collect .move files under a directory
+ */
+async function findMoveFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    throw FileSystemError.readError(dir, error as Error);
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findMoveFiles(fullPath)));
+    } else if (entry.isFile() && entry.name.endsWith('.move')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Expand ~ and resolve to an absolute path
+ */
+export function expandPath(path: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(path);
+}
+
+/**
+ * Check whether a directory contains a Move package
+ */
+export async function isMovePackageDir(path: string): Promise<boolean> {
+  try {
+    const info = await stat(join(expandPath(path), 'Move.toml'));
+    return info.isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a local package fetcher
+ */
+export function createLocalFetcher(network: Network): LocalPackageFetcher {
+  return new LocalPackageFetcher(network);
+}
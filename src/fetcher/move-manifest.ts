@@ -0,0 +1,258 @@
+/**
+ * Move.toml manifest reader
+ * Parses the subset of TOML used by Move package manifests
+ */
+
+import { ConfigError } from '../core/errors.js';
+
+export interface MovePackageInfo {
+  name: string;
+  edition?: string;
+  version?: string;
+  /** On-chain address the package was published at */
+  publishedAt?: string;
+}
+
+export interface MoveDependency {
+  name: string;
+  git?: string;
+  rev?: string;
+  subdir?: string;
+  local?: string;
+  /** Address override for Move Registry / automated address management */
+  addrSubst?: Record<string, string>;
+}
+
+export interface MoveManifest {
+  package: MovePackageInfo;
+  /** Named address -> hex address */
+  addresses: Record<string, string>;
+  dependencies: MoveDependency[];
+  devDependencies: MoveDependency[];
+}
+
+type TomlValue = string | number | boolean | TomlTable | TomlValue[];
+interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+/**
+ * Parse Move.toml content
+ */
+export function parseMoveManifest(content: string, path = 'Move.toml'): MoveManifest {
+  let table: TomlTable;
+  try {
+    table = parseToml(content);
+  } catch (error) {
+    throw ConfigError.invalidFormat(path, error as Error);
+  }
+
+  const pkg = asTable(table['package']);
+  const name = typeof pkg['name'] === 'string' ? pkg['name'] : '';
+  if (!name) {
+    throw ConfigError.invalidFormat(path, new Error('[package] name is required'));
+  }
+
+  const addresses: Record<string, string> = {};
+  for (const [key, value] of Object.entries(asTable(table['addresses']))) {
+    if (typeof value === 'string') {
+      addresses[key] = value;
+    }
+  }
+
+  return {
+    package: {
+      name,
+      edition: asString(pkg['edition']),
+      version: asString(pkg['version']),
+      publishedAt: asString(pkg['published-at']),
+    },
+    addresses,
+    dependencies: parseDependencies(asTable(table['dependencies'])),
+    devDependencies: parseDependencies(asTable(table['dev-dependencies'])),
+  };
+}
+
+/**
+ * Convert dependency tables to a flat list
+ */
+function parseDependencies(deps: TomlTable): MoveDependency[] {
+  return Object.entries(deps).map(([name, value]) => {
+    const dep = asTable(value);
+    const addrSubst: Record<string, string> = {};
+    for (const [key, addr] of Object.entries(asTable(dep['addr-subst']))) {
+      if (typeof addr === 'string') addrSubst[key] = addr;
+    }
+    return {
+      name,
+      git: asString(dep['git']),
+      rev: asString(dep['rev']),
+      subdir: asString(dep['subdir']),
+      local: asString(dep['local']),
+      addrSubst: Object.keys(addrSubst).length > 0 ? addrSubst : undefined,
+    };
+  });
+}
+
+function asTable(value: TomlValue | undefined): TomlTable {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+function asString(value: TomlValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Minimal TOML parser: tables, dotted tables, strings, numbers,
+ * booleans, arrays and inline tables. Sufficient for Move manifests.
+ */
+function parseToml(content: string): TomlTable {
+  const root: TomlTable = {};
+  let current = root;
+
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    let line = stripComment(lines[i]).trim();
+    if (!line) continue;
+
+    // Table header: [section] or [section.sub]
+    const header = line.match(/^\[\s*([^\]]+?)\s*\]$/);
+    if (header) {
+      current = root;
+      for (const part of splitKey(header[1])) {
+        const next = current[part];
+        if (!next || typeof next !== 'object' || Array.isArray(next)) {
+          current[part] = {};
+        }
+        current = current[part] as TomlTable;
+      }
+      continue;
+    }
+
+    // Multi-line values (arrays / inline tables spanning lines)
+    while (!isBalanced(line) && i + 1 < lines.length) {
+      i++;
+      line += ' ' + stripComment(lines[i]).trim();
+    }
+
+    const eq = findTopLevel(line, '=');
+    if (eq === -1) {
+      throw new Error(`Invalid line: ${line}`);
+    }
+
+    const keyParts = splitKey(line.slice(0, eq).trim());
+    const value = parseValue(line.slice(eq + 1).trim());
+
+    let target = current;
+    for (const part of keyParts.slice(0, -1)) {
+      if (!target[part] || typeof target[part] !== 'object') {
+        target[part] = {};
+      }
+      target = target[part] as TomlTable;
+    }
+    target[keyParts[keyParts.length - 1]] = value;
+  }
+
+  return root;
+}
+
+function parseValue(raw: string): TomlValue {
+  if (raw.startsWith('"') || raw.startsWith("'")) {
+    return raw.slice(1, raw.lastIndexOf(raw[0]));
+  }
+  if (raw.startsWith('{')) {
+    const table: TomlTable = {};
+    for (const entry of splitTopLevel(raw.slice(1, raw.lastIndexOf('}')))) {
+      const eq = findTopLevel(entry, '=');
+      if (eq === -1) continue;
+      const keyParts = splitKey(entry.slice(0, eq).trim());
+      let target = table;
+      for (const part of keyParts.slice(0, -1)) {
+        if (!target[part] || typeof target[part] !== 'object') target[part] = {};
+        target = target[part] as TomlTable;
+      }
+      target[keyParts[keyParts.length - 1]] = parseValue(entry.slice(eq + 1).trim());
+    }
+    return table;
+  }
+  if (raw.startsWith('[')) {
+    return splitTopLevel(raw.slice(1, raw.lastIndexOf(']'))).map(parseValue);
+  }
+  if (raw === 'true' || raw === 'false') {
+    return raw === 'true';
+  }
+  const num = Number(raw.replace(/_/g, ''));
+  if (!isNaN(num)) {
+    return num;
+  }
+  return raw;
+}
+
+function splitKey(key: string): string[] {
+  return key.split('.').map((k) => k.trim().replace(/^["']|["']$/g, ''));
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+function findTopLevel(text: string, target: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    } else if (ch === target && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  let idx = findTopLevel(rest, ',');
+  while (idx !== -1) {
+    parts.push(rest.slice(0, idx).trim());
+    rest = rest.slice(idx + 1);
+    idx = findTopLevel(rest, ',');
+  }
+  if (rest.trim()) parts.push(rest.trim());
+  return parts.filter((p) => p.length > 0);
+}
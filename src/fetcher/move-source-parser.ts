@@ -0,0 +1,306 @@
+/**
+ * Move source parser - builds normalized module ABIs from Move source files
+ * so local packages can go through the same analysis pipeline as on-chain ones
+ */
+
+import type {
+  SuiNormalizedModule,
+  SuiNormalizedStruct,
+  SuiNormalizedFunction,
+  SuiMoveNormalizedType,
+  SuiMoveAbility,
+  SuiMoveVisibility,
+  SuiMoveStructTypeParameter,
+  SuiMoveAbilitySet,
+} from '../types/index.js';
+import {
+  parseMoveFile,
+  isTestOnly,
+  typeToString,
+  type ModuleDecl,
+  type StructDecl,
+  type FunctionDecl,
+  type TypeNode,
+} from '../parser/index.js';
+
+export interface SourceParseContext {
+  /** Named address -> hex address (from Move.toml [addresses]) */
+  addresses: Record<string, string>;
+  /** Override for the address of modules declared by this package */
+  packageAddress?: string;
+  /** Named address that belongs to this package */
+  packageNamedAddress?: string;
+}
+
+export interface ParsedSourceModule {
+  abi: SuiNormalizedModule;
+  /** Original source text of the module */
+  source: string;
+}
+
+/** Named addresses every Sui package can use */
+const DEFAULT_ADDRESSES: Record<string, string> = {
+  std: '0x1',
+  sui: '0x2',
+  sui_system: '0x3',
+  bridge: '0xb',
+};
+
+interface UseTarget {
+  address: string;
+  module: string;
+  /** Member name when the alias points at a struct rather than a module */
+  member?: string;
+}
+
+/**
+ * Aliases that are implicitly in scope for every Sui Move module
+ */
+const IMPLICIT_USES: Record<string, UseTarget> = {
+  vector: { address: '0x1', module: 'vector' },
+  option: { address: '0x1', module: 'option' },
+  Option: { address: '0x1', module: 'option', member: 'Option' },
+  object: { address: '0x2', module: 'object' },
+  UID: { address: '0x2', module: 'object', member: 'UID' },
+  ID: { address: '0x2', module: 'object', member: 'ID' },
+  transfer: { address: '0x2', module: 'transfer' },
+  tx_context: { address: '0x2', module: 'tx_context' },
+  TxContext: { address: '0x2', module: 'tx_context', member: 'TxContext' },
+};
+
+const PRIMITIVES: Record<string, SuiMoveNormalizedType> = {
+  bool: 'Bool',
+  u8: 'U8',
+  u16: 'U16',
+  u32: 'U32',
+  u64: 'U64',
+  u128: 'U128',
+  u256: 'U256',
+  address: 'Address',
+  signer: 'Signer',
+};
+
+const VISIBILITY_MAP: Record<FunctionDecl['visibility'], SuiMoveVisibility> = {
+  public: 'Public',
+  package: 'Friend',
+  friend: 'Friend',
+  private: 'Private',
+};
+
+const ABILITY_MAP: Record<string, SuiMoveAbility> = {
+  copy: 'Copy',
+  drop: 'Drop',
+  store: 'Store',
+  key: 'Key',
+};
+
+interface ModuleScope {
+  address: string;
+  name: string;
+  uses: Map<string, UseTarget>;
+  structNames: Set<string>;
+  addresses: Record<string, string>;
+}
+
+/**
+ * Parse all modules declared in a Move source file
+ */
+export function parseMoveSource(source: string, context: SourceParseContext): ParsedSourceModule[] {
+  const addresses = { ...DEFAULT_ADDRESSES, ...context.addresses };
+  const file = parseMoveFile(source);
+
+  return file.modules
+    .filter((module) => !isTestOnly(module))
+    .map((module) => ({
+      abi: buildModule(module, resolveModuleAddress(module.address, addresses, context), addresses),
+      source: source.slice(module.span.start, module.span.end).trim(),
+    }));
+}
+
+/**
+ * Resolve the address of a module declared in this package
+ */
+function resolveModuleAddress(
+  namedAddr: string,
+  addresses: Record<string, string>,
+  context: SourceParseContext
+): string {
+  const isOwn = !context.packageNamedAddress || namedAddr === context.packageNamedAddress;
+  if (isOwn && context.packageAddress) {
+    return context.packageAddress;
+  }
+  return resolveAddress(namedAddr, addresses);
+}
+
+function resolveAddress(addr: string, addresses: Record<string, string>): string {
+  if (/^0x[0-9a-fA-F]+$/.test(addr) || /^\d+$/.test(addr)) {
+    return addr.startsWith('0x') ? addr : `0x${BigInt(addr).toString(16)}`;
+  }
+  const resolved = addresses[addr];
+  if (!resolved || resolved === '_') {
+    return '0x0';
+  }
+  return resolved;
+}
+
+/**
+ * Build a normalized ABI from a parsed module
+ */
+function buildModule(
+  module: ModuleDecl,
+  address: string,
+  addresses: Record<string, string>
+): SuiNormalizedModule {
+  const scope: ModuleScope = {
+    address,
+    name: module.name,
+    uses: new Map(Object.entries(IMPLICIT_USES)),
+    structNames: new Set(module.structs.map((s) => s.name)),
+    addresses,
+  };
+
+  for (const use of module.uses) {
+    const useAddress = resolveAddress(use.address, addresses);
+    for (const member of use.members) {
+      scope.uses.set(member.alias, { address: useAddress, module: member.module, member: member.member });
+    }
+  }
+
+  // Friend declarations (legacy)
+  const friends: SuiNormalizedModule['friends'] = [];
+  for (const friend of module.friends) {
+    if (friend.path.length === 2) {
+      friends.push({ address: resolveAddress(friend.path[0], addresses), name: friend.path[1] });
+    } else if (friend.path.length === 1) {
+      const target = scope.uses.get(friend.path[0]);
+      if (target) friends.push({ address: target.address, name: target.module });
+    }
+  }
+
+  const structs: Record<string, SuiNormalizedStruct> = {};
+  for (const decl of module.structs) {
+    if (isTestOnly(decl)) continue;
+    structs[decl.name] = buildStruct(decl, scope);
+  }
+
+  const exposedFunctions: Record<string, SuiNormalizedFunction> = {};
+  for (const decl of module.functions) {
+    // Only public, package/friend and entry functions appear in the on-chain ABI;
+    // macros are expanded at compile time
+    if (decl.isMacro || isTestOnly(decl)) continue;
+    if (decl.visibility === 'private' && !decl.isEntry) continue;
+    exposedFunctions[decl.name] = buildFunction(decl, scope);
+  }
+
+  return {
+    fileFormatVersion: 6,
+    address,
+    name: module.name,
+    friends,
+    structs,
+    exposedFunctions,
+  };
+}
+
+function buildStruct(decl: StructDecl, scope: ModuleScope): SuiNormalizedStruct {
+  const typeParamNames = decl.typeParams.map((tp) => tp.name);
+  const typeParameters: SuiMoveStructTypeParameter[] = decl.typeParams.map((tp) => ({
+    constraints: { abilities: mapAbilities(tp.constraints) },
+    isPhantom: tp.isPhantom,
+  }));
+
+  return {
+    abilities: { abilities: mapAbilities(decl.abilities) },
+    typeParameters,
+    fields: decl.fields.map((field) => ({
+      name: field.name,
+      type: normalizeType(field.type, scope, typeParamNames),
+    })),
+  };
+}
+
+function buildFunction(decl: FunctionDecl, scope: ModuleScope): SuiNormalizedFunction {
+  const typeParamNames = decl.typeParams.map((tp) => tp.name);
+  const typeParameters: SuiMoveAbilitySet[] = decl.typeParams.map((tp) => ({
+    abilities: mapAbilities(tp.constraints),
+  }));
+
+  return {
+    visibility: VISIBILITY_MAP[decl.visibility],
+    isEntry: decl.isEntry,
+    typeParameters,
+    parameters: decl.params.map((param) => normalizeType(param.type, scope, typeParamNames)),
+    return: decl.returns.map((type) => normalizeType(type, scope, typeParamNames)),
+  };
+}
+
+function mapAbilities(abilities: string[]): SuiMoveAbility[] {
+  return abilities
+    .map((a) => ABILITY_MAP[a.trim().toLowerCase()])
+    .filter((a): a is SuiMoveAbility => a !== undefined);
+}
+
+// ============ Type normalization ============
+
+/**
+ * Convert a parsed type into the normalized representation
+ */
+function normalizeType(type: TypeNode, scope: ModuleScope, typeParams: string[]): SuiMoveNormalizedType {
+  switch (type.kind) {
+    case 'ref': {
+      const inner = normalizeType(type.inner, scope, typeParams);
+      return type.mutable ? { MutableReference: inner } : { Reference: inner };
+    }
+    case 'tuple':
+    case 'lambda':
+      // Neither can appear in a public signature
+      return { Struct: { address: scope.address, module: scope.name, name: typeToString(type), typeArguments: [] } };
+    case 'path': {
+      const typeArgs = type.typeArgs.map((arg) => normalizeType(arg, scope, typeParams));
+
+      if (type.path.length === 1) {
+        const name = type.path[0];
+        if (PRIMITIVES[name]) return PRIMITIVES[name];
+        if (name === 'vector') return { Vector: typeArgs[0] ?? 'U8' };
+        const paramIndex = typeParams.indexOf(name);
+        if (paramIndex !== -1) return { TypeParameter: paramIndex };
+      }
+
+      return { Struct: { ...resolveStructPath(type.path, scope), typeArguments: typeArgs } };
+    }
+  }
+}
+
+/**
+ * Resolve a struct path (Name, module::Name, addr::module::Name) to a fully qualified type
+ */
+function resolveStructPath(
+  path: string[],
+  scope: ModuleScope
+): { address: string; module: string; name: string } {
+  if (path.length >= 3) {
+    return {
+      address: resolveAddress(path[0], scope.addresses),
+      module: path[1],
+      name: path[2],
+    };
+  }
+
+  if (path.length === 2) {
+    const target = scope.uses.get(path[0]);
+    if (target && !target.member) {
+      return { address: target.address, module: target.module, name: path[1] };
+    }
+    return { address: scope.address, module: path[0], name: path[1] };
+  }
+
+  const name = path[0];
+  if (scope.structNames.has(name)) {
+    return { address: scope.address, module: scope.name, name };
+  }
+  const target = scope.uses.get(name);
+  if (target?.member) {
+    return { address: target.address, module: target.module, name: target.member };
+  }
+  return { address: scope.address, module: scope.name, name };
+}
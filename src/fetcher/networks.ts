@@ -0,0 +1,195 @@
+/**
+ * Network profiles - built-in networks plus custom profiles from a config file
+ *
+ * Config file lookup order:
+ *   1. MOVE_WHISPERER_CONFIG
+ *   2. ./move-whisperer.config.json
+ *   3. $XDG_CONFIG_HOME/move-whisperer/config.json (~/.config/...)
+ *
+ * Example:
+ *   {
+ *     "networks": {
+ *       "localnet": { "rpc": ["http://127.0.0.1:9000"] },
+ *       "private-mainnet": {
+ *         "rpc": ["https://rpc-1.example.com", "https://fullnode.mainnet.sui.io"],
+ *         "graphql": ["https://graphql.example.com"],
+ *         "chain": "mainnet"
+ *       }
+ *     }
+ *   }
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import { z } from 'zod';
+import {
+  NETWORK_URLS,
+  GRAPHQL_URLS,
+  type BuiltinNetwork,
+  type Network,
+  type NetworkProfile,
+} from '../types/sui.js';
+import { ConfigError, InputValidationError } from '../core/errors.js';
+
+export const BUILTIN_NETWORKS: BuiltinNetwork[] = ['mainnet', 'testnet', 'devnet', 'localnet'];
+
+const endpointList = z
+  .union([z.string().url(), z.array(z.string().url())])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+const profileSchema = z.object({
+  rpc: endpointList.refine((urls) => urls.length > 0, 'At least one RPC endpoint is required'),
+  graphql: endpointList.optional(),
+  chain: z.enum(['mainnet', 'testnet', 'devnet', 'localnet']).optional(),
+});
+
+const configSchema = z.object({
+  networks: z.record(
+    z.string().regex(/^[a-zA-Z][\w-]*$/, 'Network names must start with a letter and contain only letters, digits, "_" or "-"'),
+    profileSchema
+  ).default({}),
+});
+
+export interface NetworkConfig {
+  /** Path the profiles were loaded from, if any */
+  path?: string;
+  profiles: Record<string, NetworkProfile>;
+}
+
+let loadedConfig: NetworkConfig | null = null;
+
+/**
+ * Built-in profiles for the public networks and localnet
+ */
+function getBuiltinProfiles(): Record<string, NetworkProfile> {
+  const profiles: Record<string, NetworkProfile> = {};
+  for (const name of BUILTIN_NETWORKS) {
+    profiles[name] = {
+      name,
+      rpc: [NETWORK_URLS[name]],
+      graphql: [GRAPHQL_URLS[name]],
+      chain: name,
+    };
+  }
+  return profiles;
+}
+
+/**
+ * Find the config file to load, if any
+ */
+export function findNetworkConfigPath(): string | undefined {
+  if (process.env.MOVE_WHISPERER_CONFIG) {
+    return resolve(process.env.MOVE_WHISPERER_CONFIG);
+  }
+
+  const candidates = [
+    resolve('move-whisperer.config.json'),
+    join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'move-whisperer', 'config.json'),
+  ];
+  return candidates.find((path) => existsSync(path));
+}
+
+/**
+ * Load network profiles, merging config file profiles over the built-ins
+ */
+export function loadNetworkConfig(path: string | undefined = findNetworkConfigPath()): NetworkConfig {
+  const profiles = getBuiltinProfiles();
+  if (!path) {
+    return { profiles };
+  }
+
+  if (!existsSync(path)) {
+    throw ConfigError.notFound(path);
+  }
+
+  let parsed: z.infer<typeof configSchema>;
+  try {
+    parsed = configSchema.parse(JSON.parse(readFileSync(path, 'utf-8')));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ');
+      throw ConfigError.invalidFormat(path, new Error(issues));
+    }
+    throw ConfigError.invalidFormat(path, error as Error);
+  }
+
+  for (const [name, profile] of Object.entries(parsed.networks)) {
+    const builtin = profiles[name];
+    profiles[name] = {
+      name,
+      rpc: profile.rpc,
+      // Overriding a built-in keeps its GraphQL endpoint unless one is given
+      graphql: profile.graphql ?? builtin?.graphql ?? [],
+      chain: profile.chain ?? builtin?.chain,
+    };
+  }
+
+  return { path, profiles };
+}
+
+/**
+ * Get the active network configuration (loaded once)
+ */
+export function getNetworkConfig(): NetworkConfig {
+  if (!loadedConfig) {
+    loadedConfig = loadNetworkConfig();
+  }
+  return loadedConfig;
+}
+
+/**
+ * Replace the active network configuration (e.g. from a --config flag or tests)
+ */
+export function setNetworkConfig(config: NetworkConfig | null): void {
+  loadedConfig = config;
+}
+
+/**
+ * List all known network names
+ */
+export function listNetworks(): string[] {
+  return Object.keys(getNetworkConfig().profiles);
+}
+
+/**
+ * Check whether a network name refers to a known profile
+ */
+export function isKnownNetwork(network: string): network is Network {
+  return network in getNetworkConfig().profiles;
+}
+
+/**
+ * Validate a network name
+ */
+export function resolveNetwork(network: string): Network {
+  if (!isKnownNetwork(network)) {
+    throw InputValidationError.invalidNetwork(network, listNetworks());
+  }
+  return network;
+}
+
+/**
+ * Get the profile for a network
+ */
+export function getNetworkProfile(network: Network): NetworkProfile {
+  const profile = getNetworkConfig().profiles[network];
+  if (!profile) {
+    throw InputValidationError.invalidNetwork(network, listNetworks());
+  }
+  return profile;
+}
+
+/**
+ * RPC endpoints for a network; an explicit URL overrides the profile
+ */
+export function getRpcEndpoints(network: Network, rpcUrl?: string): string[] {
+  return rpcUrl ? [rpcUrl] : getNetworkProfile(network).rpc;
+}
+
+/**
+ * Primary RPC URL for a network, falling back to mainnet for unknown names
+ */
+export function getPrimaryRpcUrl(network: Network): string {
+  return getNetworkConfig().profiles[network]?.rpc[0] ?? NETWORK_URLS.mainnet;
+}
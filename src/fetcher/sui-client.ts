@@ -2,11 +2,34 @@
  * Sui client wrapper with retry and error handling
  */
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { SuiClient, SuiHTTPTransport, type CoinMetadata } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
 import type { Network, SuiNormalizedModule } from '../types/index.js';
 import { NetworkError } from '../core/errors.js';
 import { withRetry, type RetryOptions } from '../utils/retry.js';
-import { NETWORK_URLS } from '../types/sui.js';
+import { mapWithConcurrency, RequestCoalescer } from '../utils/concurrency.js';
+import { getFixtureStore } from './fixtures.js';
+import { packageContentCache } from './cache.js';
+import { getRpcEndpoints, getPrimaryRpcUrl } from './networks.js';
+import { getEndpointPool, type EndpointHealth, type EndpointPool } from './endpoint-pool.js';
+
+/** Default number of per-module requests in flight for batch fetches */
+export const DEFAULT_FETCH_CONCURRENCY = 4;
+
+export interface BatchFetchOptions {
+  concurrency?: number;
+}
+
+// Identical concurrent requests (from any wrapper) share one RPC round trip
+const inflight = new RequestCoalescer();
+
+/** A package's own version and the dependency versions it links against */
+export interface PackageLinkage {
+  packageId: string;
+  version: number;
+  /** Original dependency ID (normalized) -> linked version */
+  dependencies: Record<string, { upgradedId: string; version: number }>;
+}
 
 export interface SuiClientWrapperOptions {
   network: Network;
@@ -17,15 +40,16 @@ export interface SuiClientWrapperOptions {
 export class SuiClientWrapper {
   private client: SuiClient;
   private network: Network;
-  private rpcUrl: string;
+  private pool: EndpointPool;
   private retryOptions: Partial<RetryOptions>;
 
   constructor(options: SuiClientWrapperOptions) {
     this.network = options.network;
-    this.rpcUrl = options.rpcUrl ?? NETWORK_URLS[options.network];
     this.retryOptions = options.retryOptions ?? {};
 
-    this.client = new SuiClient({ url: this.rpcUrl });
+    // Requests fail over across the profile's endpoints; retries wrap the whole round
+    this.pool = getEndpointPool(getRpcEndpoints(options.network, options.rpcUrl));
+    this.client = createPooledClient(this.pool);
   }
 
   /**
@@ -36,10 +60,17 @@ export class SuiClientWrapper {
   }
 
   /**
-   * Get the RPC URL
+   * Get the currently preferred RPC URL
    */
   getRpcUrl(): string {
-    return this.rpcUrl;
+    return this.pool.getPrimary();
+  }
+
+  /**
+   * Get health scores for all RPC endpoints
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    return this.pool.getHealth();
   }
 
   /**
@@ -49,7 +80,7 @@ export class SuiClientWrapper {
     packageId: string,
     moduleName: string
   ): Promise<SuiNormalizedModule> {
-    return withRetry(
+    return inflight.run(`${this.network}:module:${packageId}::${moduleName}`, () => withRetry(
       async () => {
         try {
           const result = await this.client.getNormalizedMoveModule({
@@ -60,6 +91,10 @@ export class SuiClientWrapper {
           // The SDK returns the correct type, but we cast to our interface
           return result as unknown as SuiNormalizedModule;
         } catch (error) {
+          if (error instanceof NetworkError) {
+            throw error;
+          }
+
           // Handle specific RPC errors
           if (error instanceof Error) {
             const message = error.message.toLowerCase();
@@ -69,14 +104,14 @@ export class SuiClientWrapper {
             }
 
             if (message.includes('rate limit') || message.includes('429')) {
-              throw NetworkError.rpcRateLimit(this.rpcUrl);
+              throw NetworkError.rpcRateLimit(this.getRpcUrl());
             }
 
             if (message.includes('timeout') || message.includes('etimedout')) {
-              throw NetworkError.rpcTimeout(this.rpcUrl, 30000);
+              throw NetworkError.rpcTimeout(this.getRpcUrl(), 30000);
             }
 
-            throw NetworkError.connectionFailed(this.rpcUrl, error);
+            throw NetworkError.connectionFailed(this.getRpcUrl(), error);
           }
 
           throw error;
@@ -90,17 +125,104 @@ export class SuiClientWrapper {
           );
         },
       }
-    );
+    ));
+  }
+
+  /**
+   * Get normalized ABIs for many modules of a package.
+   * Uses one package-level request, falling back to per-module requests
+   * (bounded by `concurrency`) when the package-level call fails.
+   * Modules that cannot be fetched are skipped with a warning.
+   */
+  async getNormalizedMoveModules(
+    packageId: string,
+    moduleNames?: string[],
+    options: BatchFetchOptions = {}
+  ): Promise<Record<string, SuiNormalizedModule>> {
+    const concurrency = options.concurrency ?? DEFAULT_FETCH_CONCURRENCY;
+
+    // A single module is cheaper to fetch on its own than the whole package
+    if (moduleNames?.length !== 1) {
+      try {
+        const all = await this.getNormalizedMoveModulesByPackage(packageId);
+        if (!moduleNames) {
+          return all;
+        }
+        const selected: Record<string, SuiNormalizedModule> = {};
+        for (const name of moduleNames) {
+          if (all[name]) {
+            selected[name] = all[name];
+          } else {
+            console.warn(`Module ${packageId}::${name} not found in package`);
+          }
+        }
+        return selected;
+      } catch (error) {
+        if (error instanceof NetworkError && error.code === 'PACKAGE_NOT_FOUND') {
+          throw error;
+        }
+        console.warn(`Package-level ABI fetch failed for ${packageId}, fetching modules individually: ${error}`);
+      }
+    }
+
+    const names = moduleNames ?? await this.getPackageModules(packageId);
+    const fetched = await mapWithConcurrency(names, concurrency, async (name) => {
+      try {
+        return [name, await this.getNormalizedMoveModule(packageId, name)] as const;
+      } catch (error) {
+        console.warn(`Could not fetch ABI for ${packageId}::${name}: ${error}`);
+        return null;
+      }
+    });
+
+    const result: Record<string, SuiNormalizedModule> = {};
+    for (const entry of fetched) {
+      if (entry) {
+        result[entry[0]] = entry[1];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get normalized ABIs for every module of a package in one request
+   */
+  async getNormalizedMoveModulesByPackage(packageId: string): Promise<Record<string, SuiNormalizedModule>> {
+    return inflight.run(`${this.network}:modules:${packageId}`, () => withRetry(
+      async () => {
+        try {
+          const result = await this.client.getNormalizedMoveModulesByPackage({ package: packageId });
+          return result as unknown as Record<string, SuiNormalizedModule>;
+        } catch (error) {
+          throw this.toNetworkError(error, () => NetworkError.packageNotFound(packageId, this.network));
+        }
+      },
+      // Persistent failures fall back to per-module requests, so don't retry long
+      { ...this.retryOptions, maxRetries: Math.min(this.retryOptions.maxRetries ?? 1, 1) }
+    ));
   }
 
   /**
    * Get all module names in a package
    */
   async getPackageModules(packageId: string): Promise<string[]> {
-    return withRetry(
+    return Object.keys(await this.getDisassembledSource(packageId));
+  }
+
+  /**
+   * Get disassembled Move source code for a package
+   */
+  async getDisassembledSource(packageId: string): Promise<Record<string, string>> {
+    // Published packages are immutable, so listing modules and reading sources share one fetch
+    const cacheKey = `${this.network}:${packageId}`;
+    const cached = packageContentCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const disassembled = await inflight.run(`${this.network}:disassembled:${packageId}`, () => withRetry(
       async () => {
         try {
-          // Get the package object to find modules
           const packageObject = await this.client.getObject({
             id: packageId,
             options: {
@@ -117,81 +239,72 @@ export class SuiClientWrapper {
             throw NetworkError.packageNotFound(packageId, this.network);
           }
 
-          // Extract module names from disassembled content
           const disassembled = content.disassembled;
           if (disassembled && typeof disassembled === 'object') {
-            return Object.keys(disassembled);
+            return disassembled as Record<string, string>;
           }
 
-          // Fallback: return empty array if we can't parse modules
-          return [];
+          return {};
         } catch (error) {
-          if (error instanceof NetworkError) {
-            throw error;
-          }
-
-          if (error instanceof Error) {
-            const message = error.message.toLowerCase();
-            if (message.includes('not found') || message.includes('does not exist')) {
-              throw NetworkError.packageNotFound(packageId, this.network);
-            }
-            throw NetworkError.connectionFailed(this.rpcUrl, error);
-          }
-
-          throw error;
+          throw this.toNetworkError(error, () => NetworkError.packageNotFound(packageId, this.network));
         }
       },
       this.retryOptions
-    );
+    ));
+
+    packageContentCache.set(cacheKey, disassembled);
+    return disassembled;
   }
 
   /**
-   * Get disassembled Move source code for a package
+   * Get a package's version and linkage table
    */
-  async getDisassembledSource(packageId: string): Promise<Record<string, string>> {
-    return withRetry(
+  async getPackageLinkage(packageId: string): Promise<PackageLinkage> {
+    return inflight.run(`${this.network}:linkage:${packageId}`, () => withRetry(
       async () => {
         try {
           const packageObject = await this.client.getObject({
             id: packageId,
             options: {
-              showContent: true,
+              showBcs: true,
             },
           });
 
-          if (!packageObject.data) {
+          const bcs = packageObject.data?.bcs;
+          if (!bcs || bcs.dataType !== 'package') {
             throw NetworkError.packageNotFound(packageId, this.network);
           }
 
-          const content = packageObject.data.content;
-          if (!content || content.dataType !== 'package') {
-            throw NetworkError.packageNotFound(packageId, this.network);
+          const dependencies: PackageLinkage['dependencies'] = {};
+          for (const [original, info] of Object.entries(bcs.linkageTable)) {
+            dependencies[normalizeSuiAddress(original)] = {
+              upgradedId: normalizeSuiAddress(info.upgraded_id),
+              version: Number(info.upgraded_version),
+            };
           }
-
-          const disassembled = content.disassembled;
-          if (disassembled && typeof disassembled === 'object') {
-            return disassembled as Record<string, string>;
-          }
-
-          return {};
+          return { packageId, version: Number(bcs.version), dependencies };
         } catch (error) {
-          if (error instanceof NetworkError) {
-            throw error;
-          }
-
-          if (error instanceof Error) {
-            const message = error.message.toLowerCase();
-            if (message.includes('not found') || message.includes('does not exist')) {
-              throw NetworkError.packageNotFound(packageId, this.network);
-            }
-            throw NetworkError.connectionFailed(this.rpcUrl, error);
-          }
+          throw this.toNetworkError(error, () => NetworkError.packageNotFound(packageId, this.network));
+        }
+      },
+      this.retryOptions
+    ));
+  }
 
-          throw error;
+  /**
+   * Get the CoinMetadata of a coin type, or null if it has none
+   */
+  async getCoinMetadata(coinType: string): Promise<CoinMetadata | null> {
+    return inflight.run(`${this.network}:coin:${coinType}`, () => withRetry(
+      async () => {
+        try {
+          return await this.client.getCoinMetadata({ coinType });
+        } catch (error) {
+          throw this.toNetworkError(error, () => NetworkError.packageNotFound(coinType.split('::')[0], this.network));
         }
       },
       this.retryOptions
-    );
+    ));
   }
 
   /**
@@ -217,6 +330,24 @@ export class SuiClientWrapper {
     }
   }
 
+  /**
+   * Map an RPC failure to a NetworkError
+   */
+  private toNetworkError(error: unknown, notFound: () => NetworkError): unknown {
+    if (error instanceof NetworkError || !(error instanceof Error)) {
+      return error;
+    }
+
+    const message = error.message.toLowerCase();
+    if (message.includes('not found') || message.includes('does not exist')) {
+      return notFound();
+    }
+    if (message.includes('rate limit') || message.includes('429')) {
+      return NetworkError.rpcRateLimit(this.getRpcUrl());
+    }
+    return NetworkError.connectionFailed(this.getRpcUrl(), error);
+  }
+
   /**
    * Get the underlying SuiClient
    */
@@ -235,9 +366,27 @@ export function createSuiClient(
   return new SuiClientWrapper({ network, rpcUrl });
 }
 
+/**
+ * Create a raw SuiClient for a network (or explicit URL) with endpoint failover.
+ * Requests are routed through the fixture store when one is active.
+ */
+export function createRpcClient(network: Network, rpcUrl?: string): SuiClient {
+  return createPooledClient(getEndpointPool(getRpcEndpoints(network, rpcUrl)));
+}
+
+function createPooledClient(pool: EndpointPool): SuiClient {
+  const fixtures = getFixtureStore();
+  return new SuiClient({
+    transport: new SuiHTTPTransport({
+      url: pool.getPrimary(),
+      fetch: pool.createFetch(fixtures?.fetch),
+    }),
+  });
+}
+
 /**
  * Get default RPC URL for network
  */
 export function getDefaultRpcUrl(network: Network): string {
-  return getFullnodeUrl(network);
+  return getPrimaryRpcUrl(network);
 }
@@ -5,7 +5,7 @@
 
 import { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
 import type { Network } from '../types/index.js';
-import { NETWORK_URLS } from '../types/sui.js';
+import { createRpcClient } from './sui-client.js';
 
 // ============ Types ============
 
@@ -110,8 +110,7 @@ export class TransactionFetcher {
 
   constructor(options: TransactionFetcherOptions) {
     this.network = options.network;
-    const rpcUrl = options.rpcUrl || NETWORK_URLS[options.network];
-    this.suiClient = new SuiClient({ url: rpcUrl });
+    this.suiClient = createRpcClient(options.network, options.rpcUrl || undefined);
   }
 
   /**
@@ -0,0 +1,311 @@
+/**
+ * JSON Schema (draft 2020-12) of the analysis document; see types/analysis.ts
+ */
+
+/** Version of the analysis document format; bump the major on breaking changes */
+export const ANALYSIS_SCHEMA_VERSION = '1.0.0';
+
+/** File the schema is written to, next to the analysis document */
+export const ANALYSIS_SCHEMA_FILE = 'analysis.schema.json';
+
+/** File the analysis document is written to */
+export const ANALYSIS_FILE = 'analysis.json';
+
+const stringArray = { type: 'array', items: { type: 'string' } } as const;
+
+const ref = (name: string) => ({ $ref: `#/$defs/${name}` });
+
+const arrayOf = (name: string) => ({ type: 'array', items: ref(name) });
+
+const object = (properties: Record<string, unknown>, optional: string[] = []) => ({
+  type: 'object',
+  required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  properties,
+});
+
+const MODULE_CATEGORIES = ['dex', 'nft', 'defi', 'gaming', 'social', 'utility', 'governance', 'oracle', 'bridge', 'unknown'];
+const SEMANTIC_CATEGORIES = [
+  'dex', 'nft', 'staking', 'lending', 'rewards', 'admin', 'config', 'transfer', 'query', 'create', 'destroy', 'unknown',
+];
+const OWNERSHIP_KINDS = ['shared', 'owned', 'immutable', 'wrapped', 'unknown'];
+
+export const ANALYSIS_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:move-whisperer:analysis:${ANALYSIS_SCHEMA_VERSION}`,
+  title: 'MoveWhisperer package analysis',
+  description:
+    'Analysis of a Sui Move package: modules, functions, semantics, errors, events and dependencies. ' +
+    'Minor schema versions only add optional properties; major versions may rename or remove them.',
+  ...object({
+    $schema: { type: 'string' },
+    schemaVersion: { type: 'string', pattern: `^${ANALYSIS_SCHEMA_VERSION.split('.')[0]}\\.\\d+\\.\\d+$` },
+    generator: object({ name: { type: 'string' }, version: { type: 'string' } }),
+    generatedAt: { type: 'string', format: 'date-time' },
+    package: object({
+      packageId: ref('address'),
+      network: { type: 'string' },
+      category: ref('moduleCategory'),
+      modules: stringArray,
+      totals: object({
+        functions: { type: 'integer' },
+        entryFunctions: { type: 'integer' },
+        publicFunctions: { type: 'integer' },
+        structs: { type: 'integer' },
+        events: { type: 'integer' },
+      }),
+    }),
+    modules: arrayOf('module'),
+    typeReferences: {
+      type: 'array',
+      items: object({ from: { type: 'string' }, to: { type: 'string' }, type: { type: 'string' }, usages: stringArray }),
+    },
+    friendships: {
+      type: 'array',
+      items: object({ module: { type: 'string' }, friend: { type: 'string' }, declared: { type: 'boolean' }, calls: stringArray }),
+    },
+    events: {
+      type: 'array',
+      items: object({ module: { type: 'string' }, name: { type: 'string' }, type: { type: 'string' }, emittedBy: stringArray }),
+    },
+    errors: {
+      type: 'array',
+      items: object({ module: { type: 'string' }, name: { type: 'string' }, code: { type: 'integer' } }),
+    },
+    callGraph: { oneOf: [ref('callGraph'), { type: 'null' }] },
+    dependencies: { oneOf: [ref('dependencyGraph'), { type: 'null' }] },
+  }),
+  $defs: {
+    address: { type: 'string', pattern: '^0x[0-9a-fA-F]+$' },
+    moduleCategory: { enum: MODULE_CATEGORIES },
+    visibility: { enum: ['public', 'package', 'private'] },
+    moveType: {
+      description: 'Normalized Move type, as returned by sui_getNormalizedMoveModule',
+      oneOf: [
+        { enum: ['Bool', 'U8', 'U16', 'U32', 'U64', 'U128', 'U256', 'Address', 'Signer'] },
+        object({ Vector: ref('moveType') }),
+        object({
+          Struct: object({
+            address: { type: 'string' },
+            module: { type: 'string' },
+            name: { type: 'string' },
+            typeArguments: arrayOf('moveType'),
+          }),
+        }),
+        object({ TypeParameter: { type: 'integer', minimum: 0 } }),
+        object({ Reference: ref('moveType') }),
+        object({ MutableReference: ref('moveType') }),
+      ],
+    },
+    typeParameter: object(
+      { name: { type: 'string' }, constraints: stringArray, isPhantom: { type: 'boolean' } },
+      ['isPhantom']
+    ),
+    value: object({
+      type: { type: 'string', description: 'Fully qualified Move type' },
+      moveType: ref('moveType'),
+      tsType: { type: 'string' },
+      description: { type: 'string' },
+    }),
+    field: {
+      allOf: [ref('value'), object({ name: { type: 'string' } })],
+    },
+    parameter: {
+      allOf: [
+        ref('value'),
+        object({ name: { type: 'string' }, isSystemObject: { type: 'boolean' }, isAutoInjected: { type: 'boolean' } }),
+      ],
+    },
+    module: object({
+      name: { type: 'string' },
+      category: ref('moduleCategory'),
+      hasSource: { type: 'boolean' },
+      functions: arrayOf('function'),
+      structs: arrayOf('struct'),
+      events: {
+        type: 'array',
+        items: object({ name: { type: 'string' }, fields: arrayOf('field'), description: { type: 'string' } }),
+      },
+      errors: arrayOf('error'),
+      capabilities: arrayOf('capability'),
+      access: arrayOf('functionAccess'),
+      objects: arrayOf('objectOwnership'),
+      hotPotatoes: arrayOf('hotPotato'),
+      externalDependencies: {
+        type: 'array',
+        items: object(
+          {
+            packageId: { type: 'string' },
+            moduleName: { type: 'string' },
+            typeName: { type: 'string' },
+            usageType: { enum: ['parameter', 'return', 'generic', 'import'] },
+            implications: stringArray,
+          },
+          ['typeName']
+        ),
+      },
+    }),
+    function: object(
+      {
+        name: { type: 'string' },
+        visibility: ref('visibility'),
+        isEntry: { type: 'boolean' },
+        signature: { type: 'string' },
+        typeParameters: arrayOf('typeParameter'),
+        parameters: arrayOf('parameter'),
+        returns: arrayOf('value'),
+        semantics: object({
+          category: { enum: SEMANTIC_CATEGORIES },
+          risk: { enum: ['low', 'medium', 'high', 'critical'] },
+          description: { type: 'string' },
+          warnings: stringArray,
+          tags: stringArray,
+        }),
+        emits: stringArray,
+        aborts: {
+          type: 'array',
+          items: object(
+            {
+              constant: { type: 'string' },
+              code: { type: 'integer' },
+              line: { type: 'integer' },
+              condition: { type: 'string' },
+              via: { type: 'string' },
+            },
+            ['constant', 'code', 'line', 'condition', 'via']
+          ),
+        },
+        ptbConstraint: object({ produces: stringArray, consumes: stringArray }),
+        documentation: { type: 'string' },
+      },
+      ['ptbConstraint', 'documentation']
+    ),
+    struct: object({
+      name: { type: 'string' },
+      abilities: stringArray,
+      typeParameters: arrayOf('typeParameter'),
+      fields: arrayOf('field'),
+      isEvent: { type: 'boolean' },
+    }),
+    error: object({
+      name: { type: 'string' },
+      code: { type: 'integer' },
+      description: { type: 'string' },
+      category: { enum: ['permission', 'validation', 'state', 'math', 'other'] },
+      possibleCauses: stringArray,
+      solutions: stringArray,
+      raisedBy: stringArray,
+    }),
+    capability: object({
+      type: { type: 'string' },
+      module: { type: 'string' },
+      name: { type: 'string' },
+      abilities: stringArray,
+      isFramework: { type: 'boolean' },
+      mintedInInit: { type: 'boolean' },
+      transferable: { type: 'boolean' },
+      evidence: stringArray,
+    }),
+    functionAccess: object({
+      function: { type: 'string' },
+      visibility: { enum: ['public', 'private', 'friend'] },
+      isEntry: { type: 'boolean' },
+      direct: stringArray,
+      transitive: {
+        type: 'array',
+        items: object({ capability: { type: 'string' }, via: { type: 'string' }, producer: { type: 'string' } }),
+      },
+    }),
+    objectOwnership: object({
+      type: { type: 'string' },
+      module: { type: 'string' },
+      name: { type: 'string' },
+      primary: { enum: OWNERSHIP_KINDS },
+      kinds: { type: 'array', items: { enum: OWNERSHIP_KINDS } },
+      createdBy: stringArray,
+      wrappedIn: stringArray,
+      evidence: stringArray,
+    }),
+    hotPotato: object({
+      type: { type: 'string' },
+      name: { type: 'string' },
+      producers: stringArray,
+      consumers: stringArray,
+      inspectors: stringArray,
+    }),
+    callGraph: object({
+      packageId: { type: 'string' },
+      nodes: {
+        type: 'array',
+        items: object(
+          {
+            id: { type: 'string' },
+            address: { type: 'string' },
+            module: { type: 'string' },
+            function: { type: 'string' },
+            isPackageFunction: { type: 'boolean' },
+            visibility: { enum: ['public', 'private', 'friend'] },
+            isEntry: { type: 'boolean' },
+            sensitive: { type: 'string' },
+          },
+          ['visibility', 'sensitive']
+        ),
+      },
+      edges: {
+        type: 'array',
+        items: object({
+          from: { type: 'string' },
+          to: { type: 'string' },
+          kind: { enum: ['intra-package', 'cross-package', 'framework'] },
+          count: { type: 'integer' },
+        }),
+      },
+      reachability: {
+        type: 'array',
+        items: object({ entry: { type: 'string' }, internals: stringArray, sensitive: stringArray }),
+      },
+    }),
+    dependencyGraph: object({
+      root: { type: 'string' },
+      maxDepth: { type: 'integer' },
+      nodes: {
+        type: 'array',
+        items: object({
+          packageId: { type: 'string' },
+          depth: { type: 'integer' },
+          isFramework: { type: 'boolean' },
+          status: { enum: ['root', 'resolved', 'skipped', 'depth-limit', 'failed'] },
+          modules: stringArray,
+        }),
+      },
+      edges: {
+        type: 'array',
+        items: object(
+          {
+            from: { type: 'string' },
+            to: { type: 'string' },
+            version: { type: 'integer' },
+            linkedId: { type: 'string' },
+            types: stringArray,
+            calls: stringArray,
+          },
+          ['version', 'linkedId']
+        ),
+      },
+      requiredTypes: {
+        type: 'array',
+        items: object(
+          {
+            type: { type: 'string' },
+            packageId: { type: 'string' },
+            module: { type: 'string' },
+            name: { type: 'string' },
+            abilities: stringArray,
+            ownership: { enum: OWNERSHIP_KINDS },
+            requiredBy: stringArray,
+          },
+          ['ownership']
+        ),
+      },
+    }),
+  },
+};
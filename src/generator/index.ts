@@ -4,4 +4,12 @@
 
 export * from './skill-generator.js';
 export * from './script-generator.js';
+export * from './types-generator.js';
+export * from './sdk-generator.js';
+export * from './layout.js';
+export * from './python-generator.js';
+export * from './rust-generator.js';
+export * from './analysis-schema.js';
+export * from './json-generator.js';
+export * from './mcp-generator.js';
 export * from './transaction-skill-generator.js';
@@ -0,0 +1,228 @@
+/**
+ * JSON generator - serializes an analysis into the versioned analysis document
+ */
+
+import type {
+  AnalyzedPackage,
+  AnalyzedModule,
+  AnalyzedFunction,
+  AnalyzedStruct,
+  AnalyzedField,
+  AnalyzedReturn,
+  TypeParameterInfo,
+  SuiMoveNormalizedType,
+  AnalysisDocument,
+  AnalysisModuleEntry,
+  AnalysisFunctionEntry,
+  AnalysisStructEntry,
+  AnalysisField,
+  AnalysisValue,
+  AnalysisTypeParameter,
+  AnalysisVisibility,
+} from '../types/index.js';
+import { ANALYSIS_SCHEMA_VERSION, ANALYSIS_SCHEMA_FILE, ANALYSIS_JSON_SCHEMA } from './analysis-schema.js';
+import { VERSION } from '../index.js';
+
+const VISIBILITY: Record<AnalyzedFunction['visibility'], AnalysisVisibility> = {
+  public: 'public',
+  friend: 'package',
+  private: 'private',
+};
+
+const MOVE_VISIBILITY: Record<AnalysisVisibility, string> = {
+  public: 'public ',
+  package: 'public(package) ',
+  private: '',
+};
+
+/**
+ * JSON generator class
+ */
+export class JsonGenerator {
+  /**
+   * Build the analysis document of a package
+   */
+  generate(pkg: AnalyzedPackage): AnalysisDocument {
+    return {
+      $schema: `./${ANALYSIS_SCHEMA_FILE}`,
+      schemaVersion: ANALYSIS_SCHEMA_VERSION,
+      generator: { name: 'move-whisperer', version: VERSION },
+      generatedAt: new Date().toISOString(),
+      package: {
+        packageId: pkg.packageId,
+        network: pkg.network,
+        category: pkg.category,
+        modules: pkg.metadata.modules,
+        totals: {
+          functions: pkg.metadata.totalFunctions,
+          entryFunctions: pkg.metadata.entryFunctions,
+          publicFunctions: pkg.metadata.publicFunctions,
+          structs: pkg.metadata.totalStructs,
+          events: pkg.metadata.totalEvents,
+        },
+      },
+      modules: pkg.modules.map((module) => this.mapModule(module)),
+      typeReferences: pkg.typeReferences,
+      friendships: pkg.friendships,
+      events: pkg.events.map((e) => ({
+        module: e.module,
+        name: e.name,
+        type: `${pkg.packageId}::${e.type}`,
+        emittedBy: e.emittedBy,
+      })),
+      errors: pkg.errorCodes.map((e) => ({ module: e.module, name: e.name, code: e.code })),
+      // Every module carries the same package-wide call graph
+      callGraph: pkg.modules.find((m) => m.callGraph)?.callGraph ?? null,
+      dependencies: pkg.dependencyGraph ?? null,
+    };
+  }
+
+  /**
+   * Serialize the analysis document of a package
+   */
+  generateJson(pkg: AnalyzedPackage): string {
+    return `${JSON.stringify(this.generate(pkg), null, 2)}\n`;
+  }
+
+  /**
+   * Serialize the JSON Schema of the analysis document
+   */
+  generateSchema(): string {
+    return `${JSON.stringify(ANALYSIS_JSON_SCHEMA, null, 2)}\n`;
+  }
+
+  private mapModule(module: AnalyzedModule): AnalysisModuleEntry {
+    return {
+      name: module.moduleName,
+      category: module.category,
+      hasSource: Boolean(module.sourceCode),
+      functions: module.functions.map((func) => this.mapFunction(func)),
+      structs: module.structs.map((struct) => this.mapStruct(struct)),
+      events: module.events.map((event) => ({
+        name: event.name,
+        fields: event.fields.map((field) => this.mapField(field, [])),
+        description: event.description,
+      })),
+      errors: (module.errorCodes ?? []).map((e) => ({
+        name: e.name,
+        code: e.code,
+        description: e.description,
+        category: e.category,
+        possibleCauses: e.possibleCauses,
+        solutions: e.solutions,
+        raisedBy: e.raisedBy ?? [],
+      })),
+      capabilities: module.accessControl?.capabilities ?? [],
+      access: module.accessControl?.functions ?? [],
+      objects: (module.ownership ?? []).filter((o) => o.module === module.moduleName),
+      hotPotatoes: module.hotPotatoes ?? [],
+      externalDependencies: module.dependencies,
+    };
+  }
+
+  private mapFunction(func: AnalyzedFunction): AnalysisFunctionEntry {
+    const names = func.typeParameters.map((tp) => tp.name);
+    const visibility = VISIBILITY[func.visibility];
+    const parameters = func.parameters.map((param) => ({
+      name: param.name,
+      ...this.mapValue(param.moveType, param.tsType, param.description, names),
+      isSystemObject: param.isSystemObject,
+      isAutoInjected: param.isAutoInjected,
+    }));
+    const returns = func.returns.map((r: AnalyzedReturn) => this.mapValue(r.moveType, r.tsType, r.description, names));
+
+    const generics = names.length > 0 ? `<${func.typeParameters.map(formatTypeParameter).join(', ')}>` : '';
+    const args = parameters.map((p) => `${p.name}: ${p.type}`).join(', ');
+    const result =
+      returns.length === 0 ? '' : returns.length === 1 ? `: ${returns[0].type}` : `: (${returns.map((r) => r.type).join(', ')})`;
+
+    return {
+      name: func.name,
+      visibility,
+      isEntry: func.isEntry,
+      signature: `${MOVE_VISIBILITY[visibility]}${func.isEntry ? 'entry ' : ''}fun ${func.name}${generics}(${args})${result}`,
+      typeParameters: func.typeParameters.map(mapTypeParameter),
+      parameters,
+      returns,
+      semantics: {
+        category: func.semantic.category,
+        risk: func.semantic.risk,
+        description: func.semantic.description,
+        warnings: func.semantic.warnings,
+        tags: func.semantic.tags,
+      },
+      emits: func.emits.map((e) => e.structName),
+      aborts: func.aborts,
+      ...(func.ptbConstraint ? { ptbConstraint: func.ptbConstraint } : {}),
+      ...(func.documentation ? { documentation: func.documentation } : {}),
+    };
+  }
+
+  private mapStruct(struct: AnalyzedStruct): AnalysisStructEntry {
+    const names = struct.typeParameters.map((tp) => tp.name);
+    return {
+      name: struct.name,
+      abilities: struct.abilities,
+      typeParameters: struct.typeParameters.map(mapTypeParameter),
+      fields: struct.fields.map((field) => this.mapField(field, names)),
+      isEvent: struct.isEvent,
+    };
+  }
+
+  private mapField(field: AnalyzedField, typeParameters: string[]): AnalysisField {
+    return { name: field.name, ...this.mapValue(field.moveType, field.tsType, field.description, typeParameters) };
+  }
+
+  private mapValue(
+    moveType: SuiMoveNormalizedType,
+    tsType: string,
+    description: string,
+    typeParameters: string[]
+  ): AnalysisValue {
+    return { type: formatMoveType(moveType, typeParameters), moveType, tsType, description };
+  }
+}
+
+function mapTypeParameter(tp: TypeParameterInfo): AnalysisTypeParameter {
+  return {
+    name: tp.name,
+    constraints: tp.constraints,
+    ...(tp.isPhantom ? { isPhantom: true } : {}),
+  };
+}
+
+function formatTypeParameter(tp: TypeParameterInfo): string {
+  const constraints = tp.constraints.length > 0 ? `: ${tp.constraints.map((c) => c.toLowerCase()).join(' + ')}` : '';
+  return `${tp.isPhantom ? 'phantom ' : ''}${tp.name}${constraints}`;
+}
+
+/**
+ * Fully qualified Move type, e.g. `&mut 0x2::coin::Coin<T0>`
+ */
+function formatMoveType(type: SuiMoveNormalizedType, typeParameters: string[]): string {
+  if (typeof type === 'string') {
+    return type.toLowerCase();
+  }
+  if ('Vector' in type) {
+    return `vector<${formatMoveType(type.Vector, typeParameters)}>`;
+  }
+  if ('TypeParameter' in type) {
+    return typeParameters[type.TypeParameter] ?? `T${type.TypeParameter}`;
+  }
+  if ('Reference' in type) {
+    return `&${formatMoveType(type.Reference, typeParameters)}`;
+  }
+  if ('MutableReference' in type) {
+    return `&mut ${formatMoveType(type.MutableReference, typeParameters)}`;
+  }
+  const { address, module, name, typeArguments } = type.Struct;
+  const args = typeArguments.map((arg) => formatMoveType(arg, typeParameters));
+  return `${address}::${module}::${name}${args.length > 0 ? `<${args.join(', ')}>` : ''}`;
+}
+
+/**
+ * Create a JSON generator instance
+ */
+export function createJsonGenerator(): JsonGenerator {
+  return new JsonGenerator();
+}
@@ -0,0 +1,177 @@
+/**
+ * BCS layouts of Move types, shared by the non-TypeScript binding generators
+ *
+ * Framework structs with a single field are flattened to that field (BCS
+ * encodes them identically), so bindings only need helpers for the rest.
+ */
+
+import type {
+  AnalyzedModule,
+  AnalyzedStruct,
+  SuiMoveNormalizedType,
+  SuiMovePrimitiveType,
+} from '../types/index.js';
+
+/** Framework structs that bindings declare as helper types */
+export type FrameworkHelper = 'Coin' | 'TreasuryCap' | 'Table' | 'LinkedTable' | 'VecMap';
+
+export type Layout =
+  | { kind: 'primitive'; type: SuiMovePrimitiveType }
+  | { kind: 'bytes' }
+  | { kind: 'string' }
+  | { kind: 'address' }
+  | { kind: 'vector'; element: Layout }
+  | { kind: 'option'; inner: Layout }
+  | { kind: 'framework'; helper: FrameworkHelper; args: Layout[] }
+  /** Struct of the generated package */
+  | { kind: 'struct'; module: string; name: string; args: Layout[] }
+  | { kind: 'typeParameter'; index: number }
+  /** Struct of another package, whose layout is not known here */
+  | { kind: 'unknown'; type: string };
+
+type FrameworkLayout = (args: SuiMoveNormalizedType[], map: (type: SuiMoveNormalizedType) => Layout) => Layout;
+
+const U64: Layout = { kind: 'primitive', type: 'U64' };
+const STRING: Layout = { kind: 'string' };
+const ADDRESS: Layout = { kind: 'address' };
+
+const FRAMEWORK_LAYOUTS: Record<string, FrameworkLayout> = {
+  '0x1::string::String': () => STRING,
+  '0x1::ascii::String': () => STRING,
+  '0x1::option::Option': ([inner], map) => ({ kind: 'option', inner: map(inner) }),
+  '0x1::type_name::TypeName': () => STRING,
+  '0x2::object::UID': () => ADDRESS,
+  '0x2::object::ID': () => ADDRESS,
+  '0x2::url::Url': () => STRING,
+  '0x2::balance::Balance': () => U64,
+  '0x2::balance::Supply': () => U64,
+  '0x2::coin::Coin': () => ({ kind: 'framework', helper: 'Coin', args: [] }),
+  '0x2::coin::TreasuryCap': () => ({ kind: 'framework', helper: 'TreasuryCap', args: [] }),
+  '0x2::table::Table': () => ({ kind: 'framework', helper: 'Table', args: [] }),
+  '0x2::object_table::ObjectTable': () => ({ kind: 'framework', helper: 'Table', args: [] }),
+  '0x2::bag::Bag': () => ({ kind: 'framework', helper: 'Table', args: [] }),
+  '0x2::object_bag::ObjectBag': () => ({ kind: 'framework', helper: 'Table', args: [] }),
+  '0x2::table_vec::TableVec': () => ({ kind: 'framework', helper: 'Table', args: [] }),
+  '0x2::linked_table::LinkedTable': ([key], map) => ({ kind: 'framework', helper: 'LinkedTable', args: [map(key)] }),
+  '0x2::vec_map::VecMap': ([key, value], map) => ({ kind: 'framework', helper: 'VecMap', args: [map(key), map(value)] }),
+  '0x2::vec_set::VecSet': ([key], map) => ({ kind: 'vector', element: map(key) }),
+};
+
+/**
+ * Maps Move types of one package to layouts
+ */
+export class LayoutResolver {
+  private packageId: string;
+  private structs: Map<string, AnalyzedStruct>;
+
+  constructor(modules: AnalyzedModule[]) {
+    this.packageId = normalizeAddress(modules[0]?.packageId ?? '0x0');
+    this.structs = new Map(
+      modules.flatMap((m) => m.structs.map((s) => [`${m.moduleName}::${s.name}`, s] as const))
+    );
+  }
+
+  /**
+   * Layout of a value of a Move type (references are looked through)
+   */
+  layoutOf(type: SuiMoveNormalizedType): Layout {
+    if (typeof type === 'string') {
+      return { kind: 'primitive', type };
+    }
+    if ('Vector' in type) {
+      return type.Vector === 'U8' ? { kind: 'bytes' } : { kind: 'vector', element: this.layoutOf(type.Vector) };
+    }
+    if ('TypeParameter' in type) {
+      return { kind: 'typeParameter', index: type.TypeParameter };
+    }
+    if ('Reference' in type) {
+      return this.layoutOf(type.Reference);
+    }
+    if ('MutableReference' in type) {
+      return this.layoutOf(type.MutableReference);
+    }
+
+    const struct = type.Struct;
+    const address = normalizeAddress(struct.address);
+    const framework = FRAMEWORK_LAYOUTS[`${address}::${struct.module}::${struct.name}`];
+    if (framework) {
+      return framework(struct.typeArguments, (arg) => this.layoutOf(arg));
+    }
+
+    const local = address === this.packageId ? this.structs.get(`${struct.module}::${struct.name}`) : undefined;
+    if (!local) {
+      return { kind: 'unknown', type: `${address}::${struct.module}::${struct.name}` };
+    }
+    return {
+      kind: 'struct',
+      module: struct.module,
+      name: struct.name,
+      args: layoutParameters(local).map((tp) => this.layoutOf(struct.typeArguments[tp.index])),
+    };
+  }
+}
+
+/**
+ * Type parameters of a struct that affect its layout (phantom ones don't)
+ */
+export function layoutParameters(struct: AnalyzedStruct) {
+  return struct.typeParameters.filter((tp) => !tp.isPhantom);
+}
+
+/**
+ * Whether a layout depends on a type parameter, and so only the caller can decode it
+ */
+export function isGenericLayout(layout: Layout): boolean {
+  switch (layout.kind) {
+    case 'typeParameter':
+      return true;
+    case 'vector':
+      return isGenericLayout(layout.element);
+    case 'option':
+      return isGenericLayout(layout.inner);
+    case 'framework':
+    case 'struct':
+      return layout.args.some(isGenericLayout);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Layouts of a module's function parameters and returns, which the scripts
+ * refer to next to the struct fields
+ */
+export function signatureLayouts(module: AnalyzedModule, resolver: LayoutResolver): Layout[] {
+  return module.functions.flatMap((func) => [
+    ...func.parameters.filter((p) => !p.isAutoInjected).map((p) => resolver.layoutOf(p.moveType)),
+    ...func.returns.map((r) => resolver.layoutOf(r.moveType)),
+  ]);
+}
+
+/**
+ * Framework helpers a set of layouts uses
+ */
+export function collectHelpers(layouts: Layout[], into = new Set<FrameworkHelper>()): Set<FrameworkHelper> {
+  for (const layout of layouts) {
+    switch (layout.kind) {
+      case 'vector':
+        collectHelpers([layout.element], into);
+        break;
+      case 'option':
+        collectHelpers([layout.inner], into);
+        break;
+      case 'framework':
+        into.add(layout.helper);
+        collectHelpers(layout.args, into);
+        break;
+      case 'struct':
+        collectHelpers(layout.args, into);
+        break;
+    }
+  }
+  return into;
+}
+
+function normalizeAddress(address: string): string {
+  return `0x${address.replace(/^0x/, '').replace(/^0+/, '') || '0'}`;
+}
@@ -0,0 +1,814 @@
+/**
+ * MCP generator - emits a runnable Model Context Protocol server for a package
+ *
+ * Layout (relative to the server directory):
+ *   package.json, tsconfig.json, README.md
+ *   src/index.ts  - stdio server running the tools
+ *   src/tools.ts  - one tool per callable function, view function and event
+ *   src/decode.ts - decoding of devInspect return values
+ *
+ * Entry and state-changing public functions become tools returning unsigned
+ * transaction bytes, view functions become devInspect tools and events become
+ * query tools.
+ */
+
+import type {
+  AnalyzedPackage,
+  AnalyzedModule,
+  AnalyzedFunction,
+  AnalyzedEvent,
+  AnalyzedStruct,
+  SuiMoveNormalizedType,
+} from '../types/index.js';
+import {
+  isPrimitive,
+  isVector,
+  isStruct,
+  isReference,
+  isMutableReference,
+  WELL_KNOWN_TYPES,
+} from '../types/sui.js';
+import { SdkGenerator, createSdkGenerator, isViewFunction, type BuilderArgument } from './sdk-generator.js';
+import { getPrimaryRpcUrl } from '../fetcher/networks.js';
+import { VERSION } from '../index.js';
+
+/** Suffix of the server directory, next to the skill */
+export const MCP_DIR_SUFFIX = '-mcp';
+
+/** JSON Schema of one tool input property */
+type JsonSchema = Record<string, unknown>;
+
+type ToolKind = 'transaction' | 'read' | 'events';
+
+interface ToolDefinition {
+  kind: ToolKind;
+  name: string;
+  description: string;
+  properties: Record<string, JsonSchema>;
+  required: string[];
+  /** Statements of the `build` or the fields of an event tool */
+  body: string[];
+}
+
+const ADDRESS_SCHEMA: JsonSchema = { type: 'string', pattern: '^0x[0-9a-fA-F]{1,64}$' };
+
+const INTEGER_BITS: Record<string, number> = { U8: 8, U16: 16, U32: 32 };
+
+// Framework objects that functions return to the caller
+const FRAMEWORK_OBJECTS = [WELL_KNOWN_TYPES.COIN, { address: '0x2', module: 'coin', name: 'TreasuryCap' }];
+
+// Integers wider than 2^53 travel as decimal strings
+const BIG_INTEGERS = new Set(['U64', 'U128', 'U256']);
+
+/**
+ * MCP generator class
+ */
+export class McpGenerator {
+  private sdkGenerator: SdkGenerator;
+
+  constructor() {
+    this.sdkGenerator = createSdkGenerator();
+  }
+
+  /**
+   * Generate the server files for a package (path -> content)
+   */
+  generate(pkg: AnalyzedPackage, serverName: string): Record<string, string> {
+    const transactions = pkg.modules.flatMap((m) =>
+      m.functions.filter(isTransactionFunction).map((func) => ({ module: m, func }))
+    );
+    // A hot potato must be consumed in the transaction that created it, so these
+    // functions cannot be standalone tools
+    const combined = transactions.filter(({ func }) => takesOrReturnsHotPotato(func));
+    const tools = [
+      ...transactions
+        .filter(({ func }) => !takesOrReturnsHotPotato(func))
+        .map(({ module, func }) => this.transactionTool(pkg, module, func)),
+      ...pkg.modules.flatMap((m) => m.functions.filter(isViewFunction).map((f) => this.readTool(m, f))),
+      ...pkg.modules.flatMap((m) => m.events.map((event) => this.eventTool(m, event))),
+    ];
+
+    return {
+      'package.json': this.generatePackageJson(serverName),
+      'tsconfig.json': TSCONFIG,
+      'README.md': this.generateReadme(
+        pkg,
+        serverName,
+        tools,
+        combined.map(({ module, func }) => `${module.moduleName}::${func.name}`)
+      ),
+      'src/index.ts': this.generateServer(pkg, serverName),
+      'src/tools.ts': this.generateTools(pkg, tools),
+      'src/decode.ts': generateDecodeSource(),
+    };
+  }
+
+  /**
+   * Tool building a call of an entry or state-changing function; returned
+   * objects are transferred to the sender
+   */
+  private transactionTool(pkg: AnalyzedPackage, module: AnalyzedModule, func: AnalyzedFunction): ToolDefinition {
+    const transfers = func.returns.flatMap((r, i) => (isObjectType(r.moveType, pkg) ? [i] : []));
+    const tool = this.callTool('transaction', module, func, transfers);
+    tool.properties = {
+      sender: { ...ADDRESS_SCHEMA, description: 'Address that will sign the transaction and pay for gas' },
+      ...tool.properties,
+      gasBudget: { type: 'string', pattern: '^[0-9]+$', description: 'Gas budget in MIST (estimated when omitted)' },
+    };
+    tool.required.unshift('sender');
+    return tool;
+  }
+
+  /**
+   * Tool simulating a call of a view function
+   */
+  private readTool(module: AnalyzedModule, func: AnalyzedFunction): ToolDefinition {
+    const tool = this.callTool('read', module, func);
+    tool.properties = {
+      ...tool.properties,
+      sender: { ...ADDRESS_SCHEMA, description: 'Address to simulate the call as (defaults to 0x0)' },
+    };
+    return tool;
+  }
+
+  /**
+   * Name, input schema and `build` body shared by transaction and read tools
+   */
+  private callTool(kind: ToolKind, module: AnalyzedModule, func: AnalyzedFunction, transfers: number[] = []): ToolDefinition {
+    const args = this.sdkGenerator.describeArguments(func, '');
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const arg of args) {
+      if (arg.encoding.kind === 'clock') {
+        continue;
+      }
+      const schema = this.argumentSchema(arg);
+      properties[arg.field] = schema;
+      if (!isOptionType(derefType(arg.parameter.moveType))) {
+        required.push(arg.field);
+      }
+    }
+    if (func.typeParameters.length > 0) {
+      properties.typeArguments = {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: func.typeParameters.length,
+        maxItems: func.typeParameters.length,
+        description: `Type arguments (${func.typeParameters.map((tp) => tp.name).join(', ')}), e.g. 0x2::sui::SUI`,
+      };
+      required.push('typeArguments');
+    }
+
+    const body = [
+      transfers.length > 0 ? 'const result = tx.moveCall({' : 'tx.moveCall({',
+      `  target: \`\${PACKAGE_ID}::${module.moduleName}::${func.name}\`,`,
+      ...(func.typeParameters.length > 0 ? ["  typeArguments: stringsArg(args, 'typeArguments'),"] : []),
+      ...(args.length > 0
+        ? ['  arguments: [', ...args.map((arg) => `    ${encodeArgument(arg)},`), '  ],']
+        : []),
+      '});',
+      ...(transfers.length > 0
+        ? [`tx.transferObjects([${transfers.map((i) => `result[${i}]`).join(', ')}], stringArg(args, 'sender'));`]
+        : []),
+    ];
+
+    const notes = [...func.semantic.warnings];
+    if (transfers.length > 0) {
+      notes.push('Returned objects are transferred to the sender.');
+    }
+    return {
+      kind,
+      name: toolName(module.moduleName, func.name),
+      description: [
+        func.semantic.description,
+        `(\`${module.moduleName}::${func.name}\`, risk: ${func.semantic.risk})`,
+        ...notes,
+      ].join(' '),
+      properties,
+      required,
+      body,
+    };
+  }
+
+  /**
+   * Tool querying the emitted events of one event struct
+   */
+  private eventTool(module: AnalyzedModule, event: AnalyzedEvent): ToolDefinition {
+    const struct = module.structs.find((s) => s.name === event.structName);
+    const typeParameters = struct?.typeParameters.length ?? 0;
+    const properties: Record<string, JsonSchema> = {
+      limit: { type: 'integer', minimum: 1, maximum: 50, description: 'Events per page (default 20)' },
+      cursor: {
+        type: 'object',
+        properties: { txDigest: { type: 'string' }, eventSeq: { type: 'string' } },
+        required: ['txDigest', 'eventSeq'],
+        description: 'nextCursor of the previous page',
+      },
+    };
+    if (typeParameters > 0) {
+      properties.typeArguments = {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: typeParameters,
+        maxItems: typeParameters,
+        description: 'Type arguments of the event; events of every instantiation are returned when omitted',
+      };
+    }
+
+    return {
+      kind: 'events',
+      name: toolName(module.moduleName, `${toSnakeCase(event.structName)}_events`),
+      description: `Latest ${event.structName} events, newest first (${event.description}). Fields: ${describeFields(struct)}.`,
+      properties,
+      required: [],
+      body: [
+        `module: '${module.moduleName}',`,
+        `eventType: \`\${PACKAGE_ID}::${module.moduleName}::${event.structName}\`,`,
+        `isGeneric: ${typeParameters > 0},`,
+      ],
+    };
+  }
+
+  /**
+   * JSON Schema of a builder argument, derived from its Move type
+   */
+  private argumentSchema(arg: BuilderArgument): JsonSchema {
+    const description = arg.parameter.description;
+    switch (arg.encoding.kind) {
+      case 'object':
+        return { type: 'string', description };
+      case 'objectVector':
+        return { type: 'array', items: { type: 'string' }, description };
+      default:
+        return { ...pureSchema(derefType(arg.parameter.moveType)), description };
+    }
+  }
+
+  /**
+   * Generate src/tools.ts
+   */
+  private generateTools(pkg: AnalyzedPackage, tools: ToolDefinition[]): string {
+    const usesPure = tools.some((t) => t.body.some((line) => line.includes('pure(tx')));
+    const usesBytes = tools.some((t) => t.body.some((line) => /\bbytes\b/.test(line)));
+    const usesObjectVector = tools.some((t) => t.body.some((line) => line.includes('objects(tx')));
+
+    const lines: string[] = [
+      '/**',
+      ` * Tools of package ${pkg.packageId}`,
+      ' *',
+      ` * Generated by MoveWhisperer v${VERSION}`,
+      ' */',
+      '',
+    ];
+    if (usesPure) {
+      lines.push("import { bcs, type BcsType } from '@mysten/sui/bcs';");
+      lines.push("import type { Transaction } from '@mysten/sui/transactions';");
+    } else {
+      lines.push("import type { Transaction } from '@mysten/sui/transactions';");
+    }
+    if (usesBytes) {
+      lines.push("import { fromHex } from '@mysten/sui/utils';");
+    }
+    lines.push(
+      '',
+      `export const PACKAGE_ID = '${pkg.packageId}';`,
+      `export const NETWORK = '${pkg.network}';`,
+      '',
+      '/** Tool input as sent by the client, narrowed by the helpers below */',
+      'export type ToolArguments = Record<string, unknown>;',
+      '',
+      ARGUMENT_HELPERS,
+      'interface ToolBase {',
+      '  name: string;',
+      '  description: string;',
+      "  inputSchema: { type: 'object'; properties: Record<string, unknown>; required: string[] };",
+      '}',
+      '',
+      '/** Builds a transaction and returns its unsigned bytes */',
+      'export interface TransactionTool extends ToolBase {',
+      "  kind: 'transaction';",
+      '  build: (tx: Transaction, args: ToolArguments) => void;',
+      '}',
+      '',
+      '/** Simulates a call with devInspect and returns the decoded return values */',
+      'export interface ReadTool extends ToolBase {',
+      "  kind: 'read';",
+      '  build: (tx: Transaction, args: ToolArguments) => void;',
+      '}',
+      '',
+      '/** Queries emitted events of one event type */',
+      'export interface EventTool extends ToolBase {',
+      "  kind: 'events';",
+      '  module: string;',
+      '  eventType: string;',
+      '  isGeneric: boolean;',
+      '}',
+      '',
+      'export type Tool = TransactionTool | ReadTool | EventTool;',
+      ''
+    );
+    if (usesBytes) {
+      lines.push(this.sdkGenerator.generateBytesSchema(''));
+    }
+    if (usesPure) {
+      lines.push(
+        '/**',
+        ' * Pass a tool argument as a pure argument; serializing checks it against the schema',
+        ' */',
+        'function pure<Input>(tx: Transaction, schema: BcsType<unknown, Input>, value: unknown) {',
+        '  return tx.pure(schema.serialize(value as Input));',
+        '}',
+        ''
+      );
+    }
+    if (usesObjectVector) {
+      lines.push(
+        'function objects(tx: Transaction, ids: string[]) {',
+        '  return tx.makeMoveVec({ elements: ids.map((id) => tx.object(id)) });',
+        '}',
+        ''
+      );
+    }
+
+    lines.push('export const TOOLS: Tool[] = [');
+    for (const tool of tools) {
+      const schema = { type: 'object', properties: tool.properties, required: tool.required };
+      lines.push(
+        '  {',
+        `    kind: '${tool.kind}',`,
+        `    name: '${tool.name}',`,
+        `    description: ${JSON.stringify(tool.description)},`,
+        `    inputSchema: ${indent(JSON.stringify(schema, null, 2), '    ').trimStart()},`
+      );
+      if (tool.kind === 'events') {
+        lines.push(...tool.body.map((line) => `    ${line}`));
+      } else {
+        lines.push('    build: (tx, args) => {', ...tool.body.map((line) => `      ${line}`), '    },');
+      }
+      lines.push('  },');
+    }
+    lines.push('];', '');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate src/index.ts
+   */
+  private generateServer(pkg: AnalyzedPackage, serverName: string): string {
+    return `#!/usr/bin/env node
+/**
+ * MCP server for package ${pkg.packageId} (${pkg.network})
+ *
+ * Environment:
+ *   SUI_RPC_URL - fullnode to build, simulate and query against
+ *
+ * Generated by MoveWhisperer v${VERSION}
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { SuiClient, type EventId, type SuiEventFilter } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { toBase64 } from '@mysten/sui/utils';
+import { TOOLS, optionalStringArg, stringArg, stringsArg, type Tool, type ToolArguments } from './tools.js';
+import { decodeValue } from './decode.js';
+
+const client = new SuiClient({ url: process.env.SUI_RPC_URL ?? '${getPrimaryRpcUrl(pkg.network)}' });
+
+const server = new Server(
+  { name: '${serverName}', version: '${VERSION}' },
+  { capabilities: { tools: {} } }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const tool = TOOLS.find((t) => t.name === request.params.name);
+  if (!tool) {
+    return { content: [{ type: 'text', text: \`Unknown tool: \${request.params.name}\` }], isError: true };
+  }
+  try {
+    const result = await runTool(tool, request.params.arguments ?? {});
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: 'text', text: \`\${tool.name} failed: \${message}\` }], isError: true };
+  }
+});
+
+async function runTool(tool: Tool, args: ToolArguments): Promise<unknown> {
+  switch (tool.kind) {
+    case 'transaction': {
+      const tx = new Transaction();
+      tool.build(tx, args);
+      tx.setSender(stringArg(args, 'sender'));
+      const gasBudget = optionalStringArg(args, 'gasBudget');
+      if (gasBudget) {
+        tx.setGasBudget(BigInt(gasBudget));
+      }
+      const bytes = await tx.build({ client });
+      return {
+        txBytes: toBase64(bytes),
+        note: 'Unsigned transaction: sign it with the sender key, then execute it with sui_executeTransactionBlock.',
+      };
+    }
+
+    case 'read': {
+      const tx = new Transaction();
+      tool.build(tx, args);
+      const result = await client.devInspectTransactionBlock({
+        sender: optionalStringArg(args, 'sender') ?? '0x0',
+        transactionBlock: tx,
+      });
+      if (result.effects.status.status !== 'success') {
+        throw new Error(result.effects.status.error ?? 'devInspect failed');
+      }
+      const values = result.results?.at(-1)?.returnValues ?? [];
+      return values.map(([bytes, type]) => ({ type, value: decodeValue(Uint8Array.from(bytes), type) }));
+    }
+
+    case 'events': {
+      const typeArguments = args.typeArguments === undefined ? undefined : stringsArg(args, 'typeArguments');
+      // Without type arguments a generic event is matched by module and type prefix
+      const query: SuiEventFilter =
+        tool.isGeneric && !typeArguments
+          ? { MoveEventModule: { package: tool.eventType.split('::')[0], module: tool.module } }
+          : { MoveEventType: typeArguments ? \`\${tool.eventType}<\${typeArguments.join(', ')}>\` : tool.eventType };
+      const page = await client.queryEvents({
+        query,
+        cursor: eventCursor(args.cursor),
+        limit: typeof args.limit === 'number' ? args.limit : 20,
+        order: 'descending',
+      });
+      const name = tool.eventType.split('::').slice(1).join('::');
+      return {
+        events: page.data
+          .filter((event) => event.type.split('::').slice(1).join('::').replace(/<.*$/, '') === name)
+          .map((event) => ({
+            type: event.type,
+            sender: event.sender,
+            txDigest: event.id.txDigest,
+            timestampMs: event.timestampMs,
+            data: event.parsedJson,
+          })),
+        nextCursor: page.hasNextPage ? page.nextCursor : null,
+      };
+    }
+  }
+}
+
+/**
+ * nextCursor of a previous page, checked before it reaches the fullnode
+ */
+function eventCursor(value: unknown): EventId | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (
+    typeof value !== 'object' ||
+    !('txDigest' in value && typeof value.txDigest === 'string') ||
+    !('eventSeq' in value && typeof value.eventSeq === 'string')
+  ) {
+    throw new Error('cursor must be the nextCursor of a previous page');
+  }
+  return { txDigest: value.txDigest, eventSeq: value.eventSeq };
+}
+
+await server.connect(new StdioServerTransport());
+`;
+  }
+
+  /**
+   * Generate package.json
+   */
+  private generatePackageJson(serverName: string): string {
+    const manifest = {
+      name: serverName,
+      version: '0.1.0',
+      private: true,
+      description: `MCP server generated by MoveWhisperer v${VERSION}`,
+      type: 'module',
+      bin: { [serverName]: './dist/index.js' },
+      scripts: {
+        build: 'tsc',
+        start: 'node dist/index.js',
+      },
+      dependencies: {
+        '@modelcontextprotocol/sdk': '^1.0.0',
+        '@mysten/sui': '^1.16.0',
+      },
+      devDependencies: {
+        '@types/node': '^20.0.0',
+        typescript: '^5.4.0',
+      },
+    };
+    return `${JSON.stringify(manifest, null, 2)}\n`;
+  }
+
+  /**
+   * Generate README.md
+   */
+  private generateReadme(pkg: AnalyzedPackage, serverName: string, tools: ToolDefinition[], combined: string[]): string {
+    const lines = [
+      `# ${serverName}`,
+      '',
+      `Model Context Protocol server for Sui package \`${pkg.packageId}\` (${pkg.network}).`,
+      '',
+      'Transaction tools return unsigned transaction bytes: the server never holds keys, so sign and',
+      'execute them with a wallet. Read tools simulate calls with devInspect and event tools query',
+      'the fullnode, so neither costs gas.',
+      '',
+      '## Run',
+      '',
+      '```bash',
+      'npm install',
+      'npm run build',
+      'npm start',
+      '```',
+      '',
+      `Set \`SUI_RPC_URL\` to use another fullnode than \`${getPrimaryRpcUrl(pkg.network)}\`.`,
+      '',
+      'Register it with an MCP client, e.g.:',
+      '',
+      '```json',
+      JSON.stringify({ mcpServers: { [serverName]: { command: 'node', args: ['/path/to/dist/index.js'] } } }, null, 2),
+      '```',
+      '',
+      '## Tools',
+      '',
+      '| Tool | Kind | Description |',
+      '|------|------|-------------|',
+    ];
+    for (const tool of tools) {
+      lines.push(`| \`${tool.name}\` | ${tool.kind} | ${tool.description.replace(/\|/g, '\\|')} |`);
+    }
+    if (combined.length > 0) {
+      lines.push(
+        '',
+        '## Not exposed',
+        '',
+        'These functions take or return a hot potato, which must be consumed in the same transaction,',
+        "so they only work combined with other calls. Build them as shown in the skill's PTB recipes:",
+        '',
+        ...combined.map((name) => `- \`${name}\``)
+      );
+    }
+    lines.push('', '---', '', `*Generated by MoveWhisperer v${VERSION}*`, '');
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Entry functions, and public functions that change state (anything but a view
+ * function); functions returning references cannot be called from a transaction
+ */
+function isTransactionFunction(func: AnalyzedFunction): boolean {
+  return (
+    func.isEntry ||
+    (func.visibility === 'public' &&
+      !isViewFunction(func) &&
+      !func.returns.some((r) => isReference(r.moveType) || isMutableReference(r.moveType)))
+  );
+}
+
+/**
+ * Functions producing or consuming a hot potato
+ */
+function takesOrReturnsHotPotato(func: AnalyzedFunction): boolean {
+  return Boolean(func.ptbConstraint?.produces.length || func.ptbConstraint?.consumes.length);
+}
+
+/**
+ * Whether a returned value is an object the sender can receive: a `key`
+ * struct of the package, or a coin or treasury cap
+ */
+function isObjectType(type: SuiMoveNormalizedType, pkg: AnalyzedPackage): boolean {
+  if (!isStruct(type)) {
+    return false;
+  }
+  const { address, module, name } = type.Struct;
+  if (FRAMEWORK_OBJECTS.some((object) => isWellKnown(type.Struct, object))) {
+    return true;
+  }
+  const local = pkg.modules.find((m) => m.moduleName === module && normalizeAddress(m.packageId) === normalizeAddress(address));
+  return local?.structs.find((s) => s.name === name)?.abilities.includes('Key') ?? false;
+}
+
+/**
+ * Expression passing one argument to `moveCall`, reading it from the tool arguments
+ */
+function encodeArgument(arg: BuilderArgument): string {
+  switch (arg.encoding.kind) {
+    case 'clock':
+      return 'tx.object.clock()';
+    case 'object':
+      return `tx.object(stringArg(args, '${arg.field}'))`;
+    case 'objectVector':
+      return `objects(tx, stringsArg(args, '${arg.field}'))`;
+    case 'pure':
+      return isOptionType(derefType(arg.parameter.moveType))
+        ? `pure(tx, ${arg.encoding.schema}, args.${arg.field} ?? null)`
+        : `pure(tx, ${arg.encoding.schema}, args.${arg.field})`;
+  }
+}
+
+/**
+ * JSON Schema of a value passed as a pure argument
+ */
+function pureSchema(type: SuiMoveNormalizedType): JsonSchema {
+  if (isPrimitive(type)) {
+    if (type === 'Bool') {
+      return { type: 'boolean' };
+    }
+    if (type === 'Address' || type === 'Signer') {
+      return ADDRESS_SCHEMA;
+    }
+    if (BIG_INTEGERS.has(type)) {
+      return { type: 'string', pattern: '^[0-9]+$' };
+    }
+    return { type: 'integer', minimum: 0, maximum: 2 ** INTEGER_BITS[type] - 1 };
+  }
+  if (isVector(type)) {
+    return type.Vector === 'U8'
+      ? { type: 'string', pattern: '^(0x)?([0-9a-fA-F]{2})*$', contentEncoding: 'hex' }
+      : { type: 'array', items: pureSchema(type.Vector) };
+  }
+  if (isStruct(type)) {
+    if (isWellKnown(type.Struct, WELL_KNOWN_TYPES.OBJECT_ID)) {
+      return ADDRESS_SCHEMA;
+    }
+    if (isWellKnown(type.Struct, WELL_KNOWN_TYPES.OPTION)) {
+      return { anyOf: [pureSchema(type.Struct.typeArguments[0]), { type: 'null' }] };
+    }
+  }
+  // String and ascii::String
+  return { type: 'string' };
+}
+
+function isOptionType(type: SuiMoveNormalizedType): boolean {
+  return isStruct(type) && isWellKnown(type.Struct, WELL_KNOWN_TYPES.OPTION);
+}
+
+function isWellKnown(
+  struct: { address: string; module: string; name: string },
+  wellKnown: { address: string; module: string; name: string }
+): boolean {
+  return (
+    normalizeAddress(struct.address) === wellKnown.address &&
+    struct.module === wellKnown.module &&
+    struct.name === wellKnown.name
+  );
+}
+
+function normalizeAddress(address: string): string {
+  return `0x${address.replace(/^0x/, '').replace(/^0+/, '') || '0'}`;
+}
+
+function derefType(type: SuiMoveNormalizedType): SuiMoveNormalizedType {
+  if (isReference(type)) {
+    return type.Reference;
+  }
+  if (isMutableReference(type)) {
+    return type.MutableReference;
+  }
+  return type;
+}
+
+function describeFields(struct?: AnalyzedStruct): string {
+  return struct && struct.fields.length > 0 ? struct.fields.map((f) => f.name).join(', ') : 'none';
+}
+
+/**
+ * Tool name: `module_function`, trimmed to the 64 characters MCP allows
+ */
+function toolName(moduleName: string, name: string): string {
+  return `${moduleName}_${name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n');
+}
+
+// Narrow tool arguments; the client is expected to validate them against the
+// input schema, but a wrong type should fail with a message, not a bad transaction
+const ARGUMENT_HELPERS = `/** String argument, e.g. an address or object ID */
+export function stringArg(args: ToolArguments, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string') {
+    throw new Error(\`\${name} must be a string\`);
+  }
+  return value;
+}
+
+/** String argument the tool can do without */
+export function optionalStringArg(args: ToolArguments, name: string): string | undefined {
+  return args[name] === undefined ? undefined : stringArg(args, name);
+}
+
+/** Array of strings, e.g. object IDs or type arguments */
+export function stringsArg(args: ToolArguments, name: string): string[] {
+  const value = args[name];
+  if (!Array.isArray(value) || !value.every((item): item is string => typeof item === 'string')) {
+    throw new Error(\`\${name} must be an array of strings\`);
+  }
+  return value;
+}
+`;
+
+const TSCONFIG = `${JSON.stringify(
+  {
+    compilerOptions: {
+      target: 'ES2022',
+      module: 'NodeNext',
+      moduleResolution: 'NodeNext',
+      outDir: 'dist',
+      rootDir: 'src',
+      strict: true,
+      skipLibCheck: true,
+    },
+    include: ['src'],
+  },
+  null,
+  2
+)}\n`;
+
+/**
+ * Source of src/decode.ts; built on demand because VERSION is only initialized
+ * once the package index has loaded
+ */
+function generateDecodeSource(): string {
+  return `/**
+ * Decoding of devInspect return values from their Move type
+ *
+ * Generated by MoveWhisperer v${VERSION}
+ */
+
+import { bcs, type BcsType } from '@mysten/sui/bcs';
+import { toBase64 } from '@mysten/sui/utils';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Schema = BcsType<any>;
+
+const PRIMITIVES: Record<string, Schema> = {
+  bool: bcs.bool(),
+  u8: bcs.u8(),
+  u16: bcs.u16(),
+  u32: bcs.u32(),
+  u64: bcs.u64(),
+  u128: bcs.u128(),
+  u256: bcs.u256(),
+  address: bcs.Address,
+};
+
+/**
+ * Decode a value of a primitive, string, ID, option or vector type; other
+ * types are returned as base64 BCS
+ */
+export function decodeValue(bytes: Uint8Array, type: string): unknown {
+  const schema = schemaOf(type);
+  return schema ? schema.parse(bytes) : { bcs: toBase64(bytes) };
+}
+
+function schemaOf(type: string): Schema | null {
+  if (PRIMITIVES[type]) {
+    return PRIMITIVES[type];
+  }
+  const vector = /^vector<(.+)>$/.exec(type);
+  if (vector) {
+    const inner = schemaOf(vector[1]);
+    return inner ? bcs.vector(inner) : null;
+  }
+  if (/^0x0*1::(string|ascii)::String$/.test(type)) {
+    return bcs.string();
+  }
+  if (/^0x0*2::object::ID$/.test(type)) {
+    return bcs.Address;
+  }
+  const option = /^0x0*1::option::Option<(.+)>$/.exec(type);
+  if (option) {
+    const inner = schemaOf(option[1]);
+    return inner ? bcs.option(inner) : null;
+  }
+  return null;
+}
+`;
+}
+
+/**
+ * Create an MCP generator instance
+ */
+export function createMcpGenerator(): McpGenerator {
+  return new McpGenerator();
+}
@@ -0,0 +1,533 @@
+/**
+ * Python generator - emits pysui call and read scripts plus dataclass
+ * bindings with BCS decoders for a module
+ *
+ * Layout (relative to the skill directory):
+ *   scripts/move_types.py - one dataclass per struct, with a `decode` classmethod
+ *   scripts/call.py       - one function per entry function, adding a move call
+ *   scripts/read.py       - one function per view function, decoding devInspect results
+ */
+
+import type { AnalyzedModule, AnalyzedFunction, AnalyzedStruct } from '../types/index.js';
+import { TypeMapper } from '../mapper/type-mapper.js';
+import { SdkGenerator, createSdkGenerator, isViewFunction, type BuilderArgument } from './sdk-generator.js';
+import {
+  LayoutResolver,
+  layoutParameters,
+  isGenericLayout,
+  collectHelpers,
+  signatureLayouts,
+  type Layout,
+  type FrameworkHelper,
+} from './layout.js';
+import { VERSION } from '../index.js';
+
+interface PythonValue {
+  /** Type annotation */
+  type: string;
+  /** Expression of a `Callable[[BcsReader], T]` */
+  decoder: string;
+}
+
+const PRIMITIVE_READERS: Record<string, PythonValue> = {
+  Bool: { type: 'bool', decoder: 'BcsReader.read_bool' },
+  U8: { type: 'int', decoder: 'BcsReader.read_u8' },
+  U16: { type: 'int', decoder: 'BcsReader.read_u16' },
+  U32: { type: 'int', decoder: 'BcsReader.read_u32' },
+  U64: { type: 'int', decoder: 'BcsReader.read_u64' },
+  U128: { type: 'int', decoder: 'BcsReader.read_u128' },
+  U256: { type: 'int', decoder: 'BcsReader.read_u256' },
+  Address: { type: 'str', decoder: 'BcsReader.read_address' },
+  Signer: { type: 'str', decoder: 'BcsReader.read_address' },
+};
+
+const FRAMEWORK_CLASSES: Record<FrameworkHelper, string> = {
+  Coin: `    @dataclass
+    class Coin:
+        id: str
+        balance: int
+
+        @classmethod
+        def decode(cls, r: BcsReader) -> framework.Coin:
+            return cls(id=r.read_address(), balance=r.read_u64())
+`,
+  TreasuryCap: `    @dataclass
+    class TreasuryCap:
+        id: str
+        total_supply: int
+
+        @classmethod
+        def decode(cls, r: BcsReader) -> framework.TreasuryCap:
+            return cls(id=r.read_address(), total_supply=r.read_u64())
+`,
+  Table: `    @dataclass
+    class Table:
+        """Handle of a Table, Bag or TableVec; entries are dynamic fields of \`id\`"""
+
+        id: str
+        size: int
+
+        @classmethod
+        def decode(cls, r: BcsReader) -> framework.Table:
+            return cls(id=r.read_address(), size=r.read_u64())
+`,
+  LinkedTable: `    @dataclass
+    class LinkedTable(Generic[K]):
+        id: str
+        size: int
+        head: Optional[K]
+        tail: Optional[K]
+
+        @classmethod
+        def decode(cls, r: BcsReader, k: Callable[[BcsReader], K]) -> framework.LinkedTable[K]:
+            return cls(id=r.read_address(), size=r.read_u64(), head=r.read_option(k), tail=r.read_option(k))
+`,
+  VecMap: `    @dataclass
+    class VecMap(Generic[K, V]):
+        contents: list[tuple[K, V]]
+
+        @classmethod
+        def decode(cls, r: BcsReader, k: Callable[[BcsReader], K], v: Callable[[BcsReader], V]) -> framework.VecMap[K, V]:
+            return cls(contents=r.read_vector(lambda r: (k(r), v(r))))
+`,
+};
+
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+/**
+ * Python generator class
+ */
+export class PythonGenerator {
+  private typeMapper: TypeMapper;
+  private sdkGenerator: SdkGenerator;
+
+  constructor() {
+    this.typeMapper = new TypeMapper('python');
+    this.sdkGenerator = createSdkGenerator();
+  }
+
+  /**
+   * Generate the scripts and bindings of a module (path -> content)
+   */
+  generate(module: AnalyzedModule): Record<string, string> {
+    return {
+      'scripts/move_types.py': this.generateTypes(module),
+      'scripts/call.py': this.generateCallScript(module),
+      'scripts/read.py': this.generateReadScript(module),
+    };
+  }
+
+  /**
+   * Generate dataclasses and BCS decoders for the module's structs
+   */
+  generateTypes(module: AnalyzedModule): string {
+    const resolver = new LayoutResolver([module]);
+    const structs = module.structs.map((struct) => ({
+      struct,
+      fields: struct.fields.map((field) => ({ name: field.name, layout: resolver.layoutOf(field.moveType) })),
+    }));
+    // read.py decodes return values with these classes too
+    const layouts = [...structs.flatMap((s) => s.fields.map((f) => f.layout)), ...signatureLayouts(module, resolver)];
+    const helpers = collectHelpers(layouts);
+    const maxParams = Math.max(0, ...module.structs.map((s) => layoutParameters(s).length));
+
+    const lines: string[] = [
+      '"""',
+      `Types and BCS decoders for ${module.moduleName}`,
+      `Package: ${module.packageId}`,
+      '',
+      'Each struct is a dataclass with a `decode` classmethod:',
+      '    value = decode(data, Name.decode)',
+      'Generic structs take a decoder per type argument:',
+      '    value = decode(data, lambda r: Name.decode(r, BcsReader.read_u64))',
+      '',
+      `Generated by MoveWhisperer v${VERSION}`,
+      '"""',
+      '',
+      'from __future__ import annotations',
+      '',
+      'from dataclasses import dataclass',
+      'from typing import Any, Callable, Generic, Optional, TypeVar',
+      '',
+      'T = TypeVar("T")',
+    ];
+    for (let i = 0; i < maxParams; i++) {
+      lines.push(`T${i} = TypeVar("T${i}")`);
+    }
+    if (helpers.has('LinkedTable') || helpers.has('VecMap')) {
+      lines.push('K = TypeVar("K")', 'V = TypeVar("V")');
+    }
+    lines.push('', '', BCS_READER, '');
+
+    if (helpers.size > 0) {
+      lines.push('class framework:', '    """Sui framework structs used by package structs and functions"""', '');
+      for (const helper of helpers) {
+        lines.push(FRAMEWORK_CLASSES[helper]);
+      }
+      lines.push('');
+    }
+
+    for (const { struct, fields } of structs) {
+      lines.push(...this.generateStruct(struct, fields, module.moduleName), '');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate call.py with one function per entry function
+   */
+  generateCallScript(module: AnalyzedModule): string {
+    const entryFunctions = module.functions.filter((f) => f.isEntry);
+
+    const lines: string[] = [
+      '"""',
+      `Transaction calls for ${module.moduleName}`,
+      `Package: ${module.packageId}`,
+      `Network: ${module.metadata.network}`,
+      '',
+      'Each function adds one move call to a pysui transaction; pysui encodes',
+      "the arguments against the function's on-chain signature:",
+      '    txn = SyncTransaction(client=client)',
+      `    ${entryFunctions[0] ? this.functionName(entryFunctions[0]) : 'some_function'}(txn, ...)`,
+      '    result = txn.execute(gas_budget="10000000")',
+      '',
+      `Generated by MoveWhisperer v${VERSION}`,
+      '"""',
+      '',
+      'from __future__ import annotations',
+      '',
+      'from typing import Any, Optional',
+      '',
+      'from pysui import ObjectID',
+      'from pysui.sui.sui_txn import SyncTransaction',
+      '',
+      `PACKAGE_ID = "${module.packageId}"`,
+      `MODULE_NAME = "${module.moduleName}"`,
+      'CLOCK_ID = "0x6"',
+      '',
+    ];
+
+    for (const func of entryFunctions) {
+      const { params, call } = this.buildCall(func, 'txn');
+      lines.push(
+        '',
+        `def ${this.functionName(func)}(${['txn: SyncTransaction', ...params].join(', ')}) -> Any:`,
+        ...this.docstring(func),
+        `    return ${call}`,
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate read.py with one devInspect-backed function per view function
+   */
+  generateReadScript(module: AnalyzedModule): string {
+    // Only view-style functions, so any sender can simulate them
+    const viewFunctions = module.functions.filter(isViewFunction);
+    const resolver = new LayoutResolver([module]);
+
+    const lines: string[] = [
+      '"""',
+      `Read functions for ${module.moduleName}`,
+      `Package: ${module.packageId}`,
+      `Network: ${module.metadata.network}`,
+      '',
+      'Each function simulates a call with devInspect and decodes its BCS',
+      'return values; nothing is signed or executed.',
+      '',
+      `Generated by MoveWhisperer v${VERSION}`,
+      '"""',
+      '',
+      'from __future__ import annotations',
+      '',
+      'from typing import Any, Optional',
+      '',
+      'from pysui import ObjectID, SyncClient',
+      'from pysui.sui.sui_txn import SyncTransaction',
+      '',
+      'from move_types import *  # noqa: F403',
+      '',
+      `PACKAGE_ID = "${module.packageId}"`,
+      `MODULE_NAME = "${module.moduleName}"`,
+      'CLOCK_ID = "0x6"',
+      '',
+      '',
+      'def _inspect(txn: SyncTransaction) -> list[bytes]:',
+      '    """Simulate a transaction and return the BCS return values of its last call"""',
+      '    result = txn.inspect_all()',
+      '    if result.effects.status.status != "success":',
+      '        raise RuntimeError(f"devInspect failed: {result.effects.status.error}")',
+      '    return [bytes(value) for value, _type in result.results[-1].return_values]',
+      '',
+    ];
+
+    if (viewFunctions.length === 0) {
+      lines.push('', '# No public read functions found in this module.', '');
+      return lines.join('\n');
+    }
+
+    for (const func of viewFunctions) {
+      const { params, call } = this.buildCall(func, 'txn');
+      const values = func.returns.map((r) => {
+        const layout = resolver.layoutOf(r.moveType);
+        return isGenericLayout(layout) ? null : this.mapLayout(layout, module.moduleName);
+      });
+      const types = values.map((v) => v?.type ?? 'bytes');
+      const decoded = values.map((v, i) => (v ? `decode(values[${i}], ${v.decoder})` : `values[${i}]`));
+      const doc = this.docstring(func, values.some((v) => !v)
+        ? ['Values whose layout depends on a type argument are returned as raw BCS bytes.']
+        : []);
+
+      lines.push(
+        '',
+        `def ${this.functionName(func)}(${['client: SyncClient', ...params].join(', ')}) -> ${types.length === 1 ? types[0] : `tuple[${types.join(', ')}]`}:`,
+        ...doc,
+        '    txn = SyncTransaction(client=client)',
+        `    ${call}`,
+        '    values = _inspect(txn)',
+        `    return ${decoded.length === 1 ? decoded[0] : `(${decoded.join(', ')})`}`,
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate the dataclass of one struct
+   */
+  private generateStruct(
+    struct: AnalyzedStruct,
+    fields: Array<{ name: string; layout: Layout }>,
+    moduleName: string
+  ): string[] {
+    const params = layoutParameters(struct);
+    const generic = params.length > 0 ? `[${params.map((tp) => `T${tp.index}`).join(', ')}]` : '';
+    const mapped = fields.map((field) => ({ name: toPythonName(field.name), ...this.mapLayout(field.layout, moduleName) }));
+
+    const decoders = params.map((tp) => `, t${tp.index}: Callable[[BcsReader], T${tp.index}]`).join('');
+    const lines: string[] = [
+      '@dataclass',
+      `class ${struct.name}${params.length > 0 ? `(Generic${generic})` : ''}:`,
+      `    """\`${moduleName}::${struct.name}\`${struct.isEvent ? ' (event)' : ''}"""`,
+      '',
+      ...mapped.map((field) => `    ${field.name}: ${field.type}`),
+      '',
+      '    @classmethod',
+      `    def decode(cls, r: BcsReader${decoders}) -> ${struct.name}${generic}:`,
+    ];
+    lines.push(`        return cls(${mapped.map((field) => `${field.name}=${readWith(field.decoder)}`).join(', ')})`, '');
+    return lines;
+  }
+
+  /**
+   * Type annotation and decoder of a layout
+   */
+  private mapLayout(layout: Layout, moduleName: string): PythonValue {
+    switch (layout.kind) {
+      case 'primitive':
+        return PRIMITIVE_READERS[layout.type];
+      case 'bytes':
+        return { type: 'bytes', decoder: 'BcsReader.read_bytes' };
+      case 'string':
+        return { type: 'str', decoder: 'BcsReader.read_string' };
+      case 'address':
+        return { type: 'str', decoder: 'BcsReader.read_address' };
+      case 'vector': {
+        const element = this.mapLayout(layout.element, moduleName);
+        return { type: `list[${element.type}]`, decoder: `lambda r: r.read_vector(${element.decoder})` };
+      }
+      case 'option': {
+        const inner = this.mapLayout(layout.inner, moduleName);
+        return { type: `Optional[${inner.type}]`, decoder: `lambda r: r.read_option(${inner.decoder})` };
+      }
+      case 'framework':
+        return this.mapClass(`framework.${layout.helper}`, layout.args, moduleName);
+      case 'struct':
+        return layout.module === moduleName
+          ? this.mapClass(layout.name, layout.args, moduleName)
+          : { type: 'Any', decoder: `unknown_type("${layout.module}::${layout.name}")` };
+      case 'typeParameter':
+        return { type: `T${layout.index}`, decoder: `t${layout.index}` };
+      case 'unknown':
+        return { type: 'Any', decoder: `unknown_type("${layout.type}")` };
+    }
+  }
+
+  private mapClass(name: string, args: Layout[], moduleName: string): PythonValue {
+    if (args.length === 0) {
+      return { type: name, decoder: `${name}.decode` };
+    }
+    const mapped = args.map((arg) => this.mapLayout(arg, moduleName));
+    return {
+      type: `${name}[${mapped.map((a) => a.type).join(', ')}]`,
+      decoder: `lambda r: ${name}.decode(r, ${mapped.map((a) => a.decoder).join(', ')})`,
+    };
+  }
+
+  /**
+   * Parameters and `move_call` expression of a function
+   */
+  private buildCall(func: AnalyzedFunction, txn: string): { params: string[]; call: string } {
+    this.typeMapper.setTypeParameters(func.typeParameters.map((tp) => tp.name));
+    const args = this.sdkGenerator.describeArguments(func);
+    const used = new Set<string>();
+    const named = args.map((arg) => {
+      let name = toPythonName(arg.parameter.name);
+      if (used.has(name)) {
+        name = `${name}_${arg.parameter.index}`;
+      }
+      used.add(name);
+      return { arg, name };
+    });
+
+    const params = named
+      .filter(({ arg }) => arg.encoding.kind !== 'clock')
+      .map(({ arg, name }) => `${name}: ${this.typeMapper.mapType(arg.parameter.moveType).ts}`);
+    if (func.typeParameters.length > 0) {
+      params.push(`type_arguments: tuple[${func.typeParameters.map(() => 'str').join(', ')}]`);
+    }
+
+    const encoded = named.map(({ arg, name }) => encodeArgument(arg, name));
+    const call = [
+      `${txn}.move_call(`,
+      `target=f"{PACKAGE_ID}::{MODULE_NAME}::${func.name}", `,
+      `arguments=[${encoded.join(', ')}]`,
+      func.typeParameters.length > 0 ? ', type_arguments=list(type_arguments)' : '',
+      ')',
+    ].join('');
+    return { params, call };
+  }
+
+  private docstring(func: AnalyzedFunction, notes: string[] = []): string[] {
+    const visibility = func.visibility === 'public' ? 'public ' : func.visibility === 'friend' ? 'public(package) ' : '';
+    return [
+      `    """${func.semantic.description}`,
+      '',
+      `    \`${visibility}${func.isEntry ? 'entry ' : ''}fun ${func.name}\``,
+      ...notes.flatMap((note) => ['', `    ${note}`]),
+      '    """',
+    ];
+  }
+
+  private functionName(func: AnalyzedFunction): string {
+    return toPythonName(func.name);
+  }
+}
+
+/** BCS reader and helpers every bindings file starts with */
+const BCS_READER = `class BcsReader:
+    """Reads BCS-encoded values from a byte string"""
+
+    def __init__(self, data: bytes) -> None:
+        self.data = data
+        self.offset = 0
+
+    def read_exact(self, length: int) -> bytes:
+        if self.offset + length > len(self.data):
+            raise ValueError("BCS data ended early")
+        chunk = self.data[self.offset:self.offset + length]
+        self.offset += length
+        return chunk
+
+    def read_uint(self, size: int) -> int:
+        return int.from_bytes(self.read_exact(size), "little")
+
+    def read_u8(self) -> int:
+        return self.read_uint(1)
+
+    def read_u16(self) -> int:
+        return self.read_uint(2)
+
+    def read_u32(self) -> int:
+        return self.read_uint(4)
+
+    def read_u64(self) -> int:
+        return self.read_uint(8)
+
+    def read_u128(self) -> int:
+        return self.read_uint(16)
+
+    def read_u256(self) -> int:
+        return self.read_uint(32)
+
+    def read_bool(self) -> bool:
+        return self.read_u8() == 1
+
+    def read_uleb128(self) -> int:
+        value = shift = 0
+        while True:
+            byte = self.read_u8()
+            value |= (byte & 0x7F) << shift
+            if byte & 0x80 == 0:
+                return value
+            shift += 7
+
+    def read_bytes(self) -> bytes:
+        return self.read_exact(self.read_uleb128())
+
+    def read_string(self) -> str:
+        return self.read_bytes().decode("utf-8")
+
+    def read_address(self) -> str:
+        return "0x" + self.read_exact(32).hex()
+
+    def read_vector(self, read: Callable[[BcsReader], T]) -> list[T]:
+        return [read(self) for _ in range(self.read_uleb128())]
+
+    def read_option(self, read: Callable[[BcsReader], T]) -> Optional[T]:
+        return read(self) if self.read_uleb128() else None
+
+
+def decode(data: bytes, read: Callable[[BcsReader], T]) -> T:
+    """Decode a whole BCS value"""
+    return read(BcsReader(data))
+
+
+def unknown_type(name: str) -> Callable[[BcsReader], Any]:
+    """Decoder for a type whose layout is not known here; decoding it raises"""
+
+    def read(_reader: BcsReader) -> Any:
+        raise ValueError(f"No BCS layout for {name}; generate bindings for its package")
+
+    return read
+`;
+
+function encodeArgument(arg: BuilderArgument, name: string): string {
+  switch (arg.encoding.kind) {
+    case 'clock':
+      return 'ObjectID(CLOCK_ID)';
+    case 'object':
+      return `ObjectID(${name})`;
+    case 'objectVector':
+      return `[ObjectID(item) for item in ${name}]`;
+    case 'pure':
+      return name;
+  }
+}
+
+/**
+ * Expression reading a value from `r` with a decoder
+ */
+function readWith(decoder: string): string {
+  return decoder.startsWith('lambda r: ') ? decoder.slice('lambda r: '.length) : `${decoder}(r)`;
+}
+
+function toPythonName(name: string): string {
+  return PYTHON_KEYWORDS.has(name) ? `${name}_` : name;
+}
+
+/**
+ * Create a Python generator instance
+ */
+export function createPythonGenerator(): PythonGenerator {
+  return new PythonGenerator();
+}
@@ -0,0 +1,488 @@
+/**
+ * Rust generator - emits sui-sdk call and read modules plus serde bindings
+ * for a module
+ *
+ * Layout (relative to the skill directory):
+ *   scripts/mod.rs        - declares the modules below, for `#[path]` inclusion in a crate
+ *   scripts/move_types.rs - one struct per Move struct, decodable with `bcs::from_bytes`
+ *   scripts/call.rs       - one function per entry function, adding a move call to a PTB
+ *   scripts/read.rs       - one function per view function, decoding devInspect results
+ */
+
+import type { AnalyzedModule, AnalyzedFunction, AnalyzedStruct } from '../types/index.js';
+import { TypeMapper } from '../mapper/type-mapper.js';
+import { SdkGenerator, createSdkGenerator, isViewFunction, type BuilderArgument } from './sdk-generator.js';
+import {
+  LayoutResolver,
+  layoutParameters,
+  isGenericLayout,
+  collectHelpers,
+  signatureLayouts,
+  type Layout,
+  type FrameworkHelper,
+} from './layout.js';
+import { RUST_TYPES } from '../mapper/languages.js';
+import { VERSION } from '../index.js';
+
+const FRAMEWORK_STRUCTS: Record<FrameworkHelper, string> = {
+  Coin: `    #[derive(Debug, Clone, Serialize, Deserialize)]
+    pub struct Coin {
+        pub id: ObjectID,
+        pub balance: u64,
+    }`,
+  TreasuryCap: `    #[derive(Debug, Clone, Serialize, Deserialize)]
+    pub struct TreasuryCap {
+        pub id: ObjectID,
+        pub total_supply: u64,
+    }`,
+  Table: `    /// Handle of a Table, Bag or TableVec; entries are dynamic fields of \`id\`
+    #[derive(Debug, Clone, Serialize, Deserialize)]
+    pub struct Table {
+        pub id: ObjectID,
+        pub size: u64,
+    }`,
+  LinkedTable: `    #[derive(Debug, Clone, Serialize, Deserialize)]
+    pub struct LinkedTable<K> {
+        pub id: ObjectID,
+        pub size: u64,
+        pub head: Option<K>,
+        pub tail: Option<K>,
+    }`,
+  VecMap: `    #[derive(Debug, Clone, Serialize, Deserialize)]
+    pub struct VecMap<K, V> {
+        pub contents: Vec<Entry<K, V>>,
+    }
+
+    #[derive(Debug, Clone, Serialize, Deserialize)]
+    pub struct Entry<K, V> {
+        pub key: K,
+        pub value: V,
+    }`,
+};
+
+const UNKNOWN_STRUCT = `/// Placeholder for a type from another package whose layout is not known
+/// here; (de)serializing a value that contains it fails.
+#[derive(Debug, Clone)]
+pub struct Unknown;
+
+impl<'de> Deserialize<'de> for Unknown {
+    fn deserialize<D: serde::Deserializer<'de>>(_: D) -> Result<Self, D::Error> {
+        Err(serde::de::Error::custom("no BCS layout for a type of another package; generate bindings for its package"))
+    }
+}
+
+impl Serialize for Unknown {
+    fn serialize<S: serde::Serializer>(&self, _: S) -> Result<S::Ok, S::Error> {
+        Err(serde::ser::Error::custom("no BCS layout for a type of another package; generate bindings for its package"))
+    }
+}`;
+
+const RUST_KEYWORDS = new Set([
+  'as', 'break', 'const', 'continue', 'else', 'enum', 'extern', 'false', 'fn', 'for', 'if', 'impl',
+  'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'static', 'struct',
+  'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while', 'async', 'await', 'dyn', 'abstract',
+  'become', 'box', 'do', 'final', 'macro', 'override', 'priv', 'typeof', 'unsized', 'virtual',
+  'yield', 'try',
+]);
+
+/**
+ * Rust generator class
+ */
+export class RustGenerator {
+  private typeMapper: TypeMapper;
+  private sdkGenerator: SdkGenerator;
+
+  constructor() {
+    this.typeMapper = new TypeMapper('rust');
+    this.sdkGenerator = createSdkGenerator();
+  }
+
+  /**
+   * Generate the scripts and bindings of a module (path -> content)
+   */
+  generate(module: AnalyzedModule): Record<string, string> {
+    return {
+      'scripts/mod.rs': this.generateModFile(module),
+      'scripts/move_types.rs': this.generateTypes(module),
+      'scripts/call.rs': this.generateCallScript(module),
+      'scripts/read.rs': this.generateReadScript(module),
+    };
+  }
+
+  /**
+   * Generate serde structs for the module's structs
+   */
+  generateTypes(module: AnalyzedModule): string {
+    const resolver = new LayoutResolver([module]);
+    const structs = module.structs.map((struct) => ({
+      struct,
+      fields: struct.fields.map((field) => ({ name: field.name, layout: resolver.layoutOf(field.moveType) })),
+    }));
+    // read.rs decodes return values with these types too
+    const signatures = signatureLayouts(module, resolver);
+    const layouts = [...structs.flatMap((s) => s.fields.map((f) => f.layout)), ...signatures];
+    const helpers = collectHelpers(layouts);
+    const body = structs.map(({ struct, fields }) => this.generateStruct(struct, fields, module.moduleName));
+    const source = body.join('\n\n');
+    const usesUnknown = `${source} ${signatures.map((l) => this.mapLayout(l, module.moduleName)).join(' ')}`.includes('Unknown');
+
+    const lines: string[] = [
+      `//! Types of ${module.moduleName}`,
+      `//! Package: ${module.packageId}`,
+      '//!',
+      '//! Every struct derives serde, so values decode with `bcs::from_bytes`:',
+      '//!     let value: Name = bcs::from_bytes(&bytes)?;',
+      '//!',
+      `//! Generated by MoveWhisperer v${VERSION}`,
+      '',
+      'use serde::{Deserialize, Serialize};',
+    ];
+    const baseTypes = ['ObjectID', 'SuiAddress'].filter((name) => source.includes(name) || (name === 'ObjectID' && helpers.size > 0));
+    if (baseTypes.length > 0) {
+      lines.push(useList('sui_sdk::types::base_types', baseTypes));
+    }
+    if (source.includes('U256')) {
+      lines.push('use move_core_types::u256::U256;');
+    }
+    lines.push('');
+
+    if (helpers.size > 0) {
+      lines.push(
+        '/// Sui framework structs used by package structs and functions',
+        'pub mod framework {',
+        '    use super::*;',
+        '',
+        [...helpers].map((helper) => FRAMEWORK_STRUCTS[helper]).join('\n\n'),
+        '}',
+        ''
+      );
+    }
+    if (usesUnknown) {
+      lines.push(UNKNOWN_STRUCT, '');
+    }
+    lines.push(source, '');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate call.rs with one function per entry function
+   */
+  generateCallScript(module: AnalyzedModule): string {
+    const entryFunctions = module.functions.filter((f) => f.isEntry);
+    const calls = entryFunctions.map((func) => this.buildCall(func));
+    const source = calls.map((c) => c.params.join(' ')).join(' ');
+
+    const lines: string[] = [
+      `//! Transaction calls for ${module.moduleName}`,
+      `//! Package: ${module.packageId}`,
+      `//! Network: ${module.metadata.network}`,
+      '//!',
+      '//! Each function adds one move call to a programmable transaction:',
+      '//!     let mut ptb = ProgrammableTransactionBuilder::new();',
+      `//!     call::${entryFunctions[0] ? toRustName(entryFunctions[0].name) : 'some_function'}(&mut ptb, ...)?;`,
+      '//!     let pt = ptb.finish();',
+      '//! Object arguments are `ObjectArg`s carrying the version (or initial',
+      '//! shared version) the caller resolved.',
+      '//!',
+      `//! Generated by MoveWhisperer v${VERSION}`,
+      '',
+      'use anyhow::Result;',
+    ];
+    lines.push(...this.baseTypeImports(`${source} ObjectID`));
+    lines.push(
+      'use sui_sdk::types::programmable_transaction_builder::ProgrammableTransactionBuilder;',
+      'use sui_sdk::types::transaction::{Argument, ObjectArg};',
+      'use sui_sdk::types::{Identifier, TypeTag, SUI_CLOCK_OBJECT_ID, SUI_CLOCK_OBJECT_SHARED_VERSION};'
+    );
+    if (source.includes('U256')) {
+      lines.push('use move_core_types::u256::U256;');
+    }
+    lines.push(
+      '',
+      `pub const PACKAGE_ID: &str = "${module.packageId}";`,
+      `pub const MODULE_NAME: &str = "${module.moduleName}";`,
+      '',
+      '/// Add a call of a function of this module',
+      'pub fn move_call(',
+      '    ptb: &mut ProgrammableTransactionBuilder,',
+      '    function: &str,',
+      '    type_arguments: Vec<TypeTag>,',
+      '    arguments: Vec<Argument>,',
+      ') -> Result<Argument> {',
+      '    Ok(ptb.programmable_move_call(',
+      '        ObjectID::from_hex_literal(PACKAGE_ID)?,',
+      '        Identifier::new(MODULE_NAME)?,',
+      '        Identifier::new(function)?,',
+      '        type_arguments,',
+      '        arguments,',
+      '    ))',
+      '}',
+      '',
+      '/// The shared system clock (0x6)',
+      'pub fn clock() -> ObjectArg {',
+      '    ObjectArg::SharedObject {',
+      '        id: SUI_CLOCK_OBJECT_ID,',
+      '        initial_shared_version: SUI_CLOCK_OBJECT_SHARED_VERSION,',
+      '        mutable: false,',
+      '    }',
+      '}',
+      ''
+    );
+
+    entryFunctions.forEach((func, i) => {
+      const { params, body } = calls[i];
+      lines.push(
+        ...this.docComment(func),
+        `pub fn ${toRustName(func.name)}(${['ptb: &mut ProgrammableTransactionBuilder', ...params].join(', ')}) -> Result<Argument> {`,
+        ...body.map((line) => `    ${line}`),
+        `    move_call(ptb, "${func.name}", ${func.typeParameters.length > 0 ? 'type_arguments.to_vec()' : 'vec![]'}, arguments)`,
+        '}',
+        ''
+      );
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate read.rs with one devInspect-backed function per view function
+   */
+  generateReadScript(module: AnalyzedModule): string {
+    // Only view-style functions, so any sender can simulate them
+    const viewFunctions = module.functions.filter(isViewFunction);
+    const resolver = new LayoutResolver([module]);
+
+    const functions: string[] = [];
+    for (const func of viewFunctions) {
+      const { params, body } = this.buildCall(func);
+      const values = func.returns.map((r) => {
+        const layout = resolver.layoutOf(r.moveType);
+        return isGenericLayout(layout) ? null : this.mapLayout(layout, module.moduleName);
+      });
+      const types = values.map((v) => v ?? 'Vec<u8>');
+      const decoded = values.map((v, i) => (v ? `bcs::from_bytes(&values[${i}])?` : `values[${i}].clone()`));
+
+      functions.push(
+        ...this.docComment(func, values.some((v) => !v)
+          ? ['Values whose layout depends on a type argument are returned as raw BCS bytes.']
+          : []),
+        `pub async fn ${toRustName(func.name)}(${['client: &SuiClient', ...params].join(', ')}) -> Result<${types.length === 1 ? types[0] : `(${types.join(', ')})`}> {`,
+        '    let mut ptb = ProgrammableTransactionBuilder::new();',
+        ...body.map((line) => `    ${line}`),
+        `    move_call(&mut ptb, "${func.name}", ${func.typeParameters.length > 0 ? 'type_arguments.to_vec()' : 'vec![]'}, arguments)?;`,
+        '    let values = inspect(client, ptb).await?;',
+        `    Ok(${decoded.length === 1 ? decoded[0] : `(${decoded.join(', ')})`})`,
+        '}',
+        ''
+      );
+    }
+    const source = functions.join('\n');
+
+    const lines: string[] = [
+      `//! Read functions for ${module.moduleName}`,
+      `//! Package: ${module.packageId}`,
+      `//! Network: ${module.metadata.network}`,
+      '//!',
+      '//! Each function simulates a call with devInspect and decodes its BCS',
+      '//! return values; nothing is signed or executed.',
+      '//!',
+      `//! Generated by MoveWhisperer v${VERSION}`,
+      '',
+      'use anyhow::{bail, Result};',
+      'use sui_sdk::SuiClient;',
+    ];
+    lines.push(...this.baseTypeImports(`${source} SuiAddress`));
+    lines.push(
+      'use sui_sdk::types::programmable_transaction_builder::ProgrammableTransactionBuilder;',
+      `use sui_sdk::types::transaction::{${source.includes('ObjectArg') ? 'ObjectArg, ' : ''}TransactionKind};`
+    );
+    if (source.includes('TypeTag')) {
+      lines.push('use sui_sdk::types::TypeTag;');
+    }
+    if (source.includes('U256')) {
+      lines.push('use move_core_types::u256::U256;');
+    }
+    lines.push(
+      '',
+      useList('super::call', source.includes('clock()') ? ['clock', 'move_call'] : ['move_call']),
+      '#[allow(unused_imports)]',
+      'use super::move_types::*;',
+      '',
+      '/// Simulate a transaction and return the BCS return values of its last call',
+      'async fn inspect(client: &SuiClient, ptb: ProgrammableTransactionBuilder) -> Result<Vec<Vec<u8>>> {',
+      '    let kind = TransactionKind::ProgrammableTransaction(ptb.finish());',
+      '    let result = client',
+      '        .read_api()',
+      '        .dev_inspect_transaction_block(SuiAddress::ZERO, kind, None, None, None)',
+      '        .await?;',
+      '    if let Some(error) = result.error {',
+      '        bail!("devInspect failed: {error}");',
+      '    }',
+      '    let last = result.results.unwrap_or_default().pop();',
+      '    Ok(last.map(|r| r.return_values.into_iter().map(|(bytes, _)| bytes).collect()).unwrap_or_default())',
+      '}',
+      ''
+    );
+    if (viewFunctions.length === 0) {
+      lines.push('// No public read functions found in this module.', '');
+    }
+    lines.push(source);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate mod.rs declaring the generated modules
+   */
+  private generateModFile(module: AnalyzedModule): string {
+    return [
+      `//! Sui bindings for ${module.moduleName}, for inclusion in a sui-sdk crate:`,
+      `//!     #[path = "scripts/mod.rs"] mod ${toRustName(module.moduleName)};`,
+      '//!',
+      `//! Generated by MoveWhisperer v${VERSION}`,
+      '',
+      'pub mod call;',
+      'pub mod move_types;',
+      'pub mod read;',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Generate the struct of one Move struct
+   */
+  private generateStruct(
+    struct: AnalyzedStruct,
+    fields: Array<{ name: string; layout: Layout }>,
+    moduleName: string
+  ): string {
+    const params = layoutParameters(struct);
+    const generic = params.length > 0 ? `<${params.map((tp) => `T${tp.index}`).join(', ')}>` : '';
+    return [
+      `/// \`${moduleName}::${struct.name}\`${struct.isEvent ? ' (event)' : ''}`,
+      '#[derive(Debug, Clone, Serialize, Deserialize)]',
+      `pub struct ${struct.name}${generic} {`,
+      ...fields.map((field) => `    pub ${toRustName(field.name)}: ${this.mapLayout(field.layout, moduleName)},`),
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Rust type of a layout
+   */
+  private mapLayout(layout: Layout, moduleName: string): string {
+    switch (layout.kind) {
+      case 'primitive':
+        return RUST_TYPES.primitives[layout.type];
+      case 'bytes':
+        return 'Vec<u8>';
+      case 'string':
+        return 'String';
+      case 'address':
+        return 'ObjectID';
+      case 'vector':
+        return `Vec<${this.mapLayout(layout.element, moduleName)}>`;
+      case 'option':
+        return `Option<${this.mapLayout(layout.inner, moduleName)}>`;
+      case 'framework':
+        return `framework::${layout.helper}${this.mapArgs(layout.args, moduleName)}`;
+      case 'struct':
+        return layout.module === moduleName ? `${layout.name}${this.mapArgs(layout.args, moduleName)}` : 'Unknown';
+      case 'typeParameter':
+        return `T${layout.index}`;
+      case 'unknown':
+        return 'Unknown';
+    }
+  }
+
+  private mapArgs(args: Layout[], moduleName: string): string {
+    return args.length > 0 ? `<${args.map((arg) => this.mapLayout(arg, moduleName)).join(', ')}>` : '';
+  }
+
+  /**
+   * Parameters and the statements building the `arguments` vector of a function
+   */
+  private buildCall(func: AnalyzedFunction): { params: string[]; body: string[] } {
+    this.typeMapper.setTypeParameters(func.typeParameters.map((tp) => tp.name));
+    const args = this.sdkGenerator.describeArguments(func);
+    const used = new Set<string>();
+    const named = args.map((arg) => {
+      let name = toRustName(arg.parameter.name);
+      if (used.has(name)) {
+        name = `${name}_${arg.parameter.index}`;
+      }
+      used.add(name);
+      return { arg, name };
+    });
+
+    const params = named
+      .filter(({ arg }) => arg.encoding.kind !== 'clock')
+      .map(({ arg, name }) => `${name}: ${this.argumentType(arg)}`);
+    if (func.typeParameters.length > 0) {
+      params.push(`type_arguments: [TypeTag; ${func.typeParameters.length}]`);
+    }
+
+    const body = [
+      `let arguments = vec![${named.map(({ arg, name }) => encodeArgument(arg, name)).join(', ')}];`,
+    ];
+    return { params, body };
+  }
+
+  private argumentType(arg: BuilderArgument): string {
+    switch (arg.encoding.kind) {
+      case 'object':
+        return 'ObjectArg';
+      case 'objectVector':
+        return 'Vec<ObjectArg>';
+      default: {
+        const mapped = this.typeMapper.mapType(arg.parameter.moveType);
+        // Generic values can only be passed as objects
+        return /\bT\d+\b/.test(mapped.ts) ? 'ObjectArg' : mapped.ts;
+      }
+    }
+  }
+
+  private baseTypeImports(source: string): string[] {
+    const names = ['ObjectID', 'SuiAddress'].filter((name) => new RegExp(`\\b${name}\\b`).test(source));
+    return names.length > 0 ? [useList('sui_sdk::types::base_types', names)] : [];
+  }
+
+  private docComment(func: AnalyzedFunction, notes: string[] = []): string[] {
+    const visibility = func.visibility === 'public' ? 'public ' : func.visibility === 'friend' ? 'public(package) ' : '';
+    return [
+      `/// ${func.semantic.description}`,
+      '///',
+      `/// \`${visibility}${func.isEntry ? 'entry ' : ''}fun ${func.name}\``,
+      ...notes.flatMap((note) => ['///', `/// ${note}`]),
+    ];
+  }
+}
+
+function encodeArgument(arg: BuilderArgument, name: string): string {
+  switch (arg.encoding.kind) {
+    case 'clock':
+      return 'ptb.obj(clock())?';
+    case 'object':
+      return `ptb.obj(${name})?`;
+    case 'objectVector':
+      return `ptb.make_obj_vec(${name})?`;
+    case 'pure':
+      return `ptb.pure(${name})?`;
+  }
+}
+
+function useList(path: string, names: string[]): string {
+  return names.length === 1 ? `use ${path}::${names[0]};` : `use ${path}::{${names.join(', ')}};`;
+}
+
+function toRustName(name: string): string {
+  return RUST_KEYWORDS.has(name) ? `r#${name}` : name;
+}
+
+/**
+ * Create a Rust generator instance
+ */
+export function createRustGenerator(): RustGenerator {
+  return new RustGenerator();
+}
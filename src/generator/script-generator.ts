@@ -4,16 +4,37 @@
 
 import type { AnalyzedModule, AnalyzedFunction } from '../types/index.js';
 import { TemplateEngine, createTemplateEngine } from '../templates/engine.js';
+import { ownershipOf } from '../analyzer/ownership.js';
+import { SdkGenerator, createSdkGenerator, isViewFunction, type BuilderArgument } from './sdk-generator.js';
+import { TypesGenerator, createTypesGenerator } from './types-generator.js';
 import { VERSION } from '../index.js';
 
+export interface ScriptGeneratorOptions {
+  /** Types directory the read script imports struct schemas from, when types are generated */
+  typesDir?: string;
+}
+
+interface ReadFunction {
+  args: BuilderArgument[];
+  lines: string[];
+  usesBcs: boolean;
+  usesTypes: boolean;
+}
+
 /**
  * Script generator class
  */
 export class ScriptGenerator {
   private templateEngine: TemplateEngine;
+  private sdkGenerator: SdkGenerator;
+  private typesGenerator: TypesGenerator;
+  private typesDir?: string;
 
-  constructor() {
+  constructor(options: ScriptGeneratorOptions = {}) {
     this.templateEngine = createTemplateEngine();
+    this.sdkGenerator = createSdkGenerator();
+    this.typesGenerator = createTypesGenerator();
+    this.typesDir = options.typesDir;
   }
 
   /**
@@ -26,42 +47,94 @@ export class ScriptGenerator {
       packageId: module.packageId,
       moduleName: module.moduleName,
       network: module.metadata.network,
-      entryFunctions: entryFunctions.map((f) => this.mapFunction(f)),
+      entryFunctions: entryFunctions.map((f) => this.mapFunction(f, module)),
       generatorVersion: VERSION,
     });
   }
 
   /**
-   * Generate read.ts script for public view functions
+   * Generate read.ts script for public view functions; `depth` is the number of
+   * directories between the skill directory and the script
    */
-  generateReadScript(module: AnalyzedModule): string {
-    const publicFunctions = module.functions.filter(
-      (f) => !f.isEntry && f.visibility === 'public' && f.returns.length > 0
-    );
+  generateReadScript(module: AnalyzedModule, depth = 1): string {
+    // Only view-style functions, so any sender can simulate them
+    const publicFunctions = module.functions.filter(isViewFunction);
 
     if (publicFunctions.length === 0) {
       return this.generateEmptyReadScript(module);
     }
 
+    const readers = publicFunctions.map((func) => this.generateReadFunction(func, module));
+    const usesPure = readers.some((r) => r.args.some((a) => a.encoding.kind === 'pure'));
+    const usesObjects = readers.some((r) => r.args.some((a) => a.encoding.kind === 'object' || a.encoding.kind === 'objectVector'));
+    const usesBytes = readers.some((r) =>
+      r.args.some((a) => a.encoding.kind === 'pure' && a.encoding.schema.includes('bytes'))
+    );
+    const usesBcs = usesPure || readers.some((r) => r.usesBcs);
+    const usesTypes = readers.some((r) => r.usesTypes);
+
     const lines: string[] = [
       '/**',
       ` * Read functions for ${module.moduleName}`,
       ` * Package: ${module.packageId}`,
       ` * Network: ${module.metadata.network}`,
       ' *',
+      ' * Each function simulates a call with devInspect and decodes its BCS',
+      ' * return values; nothing is signed or executed.',
+      ' *',
       ` * Generated by MoveWhisperer v${VERSION}`,
       ' */',
       '',
-      "import { SuiClient } from '@mysten/sui/client';",
+    ];
+
+    if (usesBcs) {
+      lines.push(usesPure ? "import { bcs, type BcsType } from '@mysten/sui/bcs';" : "import { bcs } from '@mysten/sui/bcs';");
+    }
+    lines.push("import type { SuiClient } from '@mysten/sui/client';");
+    const transactionImports = ['Transaction'];
+    if (usesPure) {
+      transactionImports.push('isArgument', 'type Argument');
+    }
+    if (usesObjects) {
+      transactionImports.push('type TransactionObjectInput');
+    }
+    lines.push(`import { ${transactionImports.join(', ')} } from '@mysten/sui/transactions';`);
+    if (usesBytes) {
+      lines.push("import { fromHex } from '@mysten/sui/utils';");
+    }
+    if (usesTypes) {
+      lines.push(`import * as types from '${'../'.repeat(depth)}${this.typesDir}/index.js';`);
+    }
+
+    lines.push(
       '',
       `export const PACKAGE_ID = '${module.packageId}';`,
       `export const MODULE_NAME = '${module.moduleName}';`,
       '',
-    ];
+      '/** Sender of the simulated calls; view functions take no owned objects, so any address works */',
+      "const SENDER = '0x0';",
+      ''
+    );
+    if (usesPure) {
+      lines.push(this.sdkGenerator.generateHelpers('', usesBytes));
+    }
+    lines.push(
+      '/**',
+      ' * Simulate a transaction and return the BCS return values of its last call',
+      ' */',
+      'async function inspect(client: SuiClient, tx: Transaction): Promise<Uint8Array[]> {',
+      '  const result = await client.devInspectTransactionBlock({ sender: SENDER, transactionBlock: tx });',
+      "  if (result.effects.status.status !== 'success') {",
+      "    throw new Error(`devInspect failed: ${result.effects.status.error ?? result.error ?? 'unknown error'}`);",
+      '  }',
+      '  const returnValues = result.results?.at(-1)?.returnValues ?? [];',
+      '  return returnValues.map(([value]) => Uint8Array.from(value));',
+      '}',
+      ''
+    );
 
-    // Generate view function wrappers
-    for (const func of publicFunctions) {
-      lines.push(...this.generateReadFunction(func, module));
+    for (const reader of readers) {
+      lines.push(...reader.lines);
     }
 
     return lines.join('\n');
@@ -88,60 +161,81 @@ export const MODULE_NAME = '${module.moduleName}';
   }
 
   /**
-   * Generate a single read function
+   * Generate a single read function: build the call, devInspect it and
+   * decode each return value with its schema
    */
-  private generateReadFunction(
-    func: AnalyzedFunction,
-    _module: AnalyzedModule
-  ): string[] {
-    const userParams = func.parameters.filter((p) => !p.isAutoInjected);
+  private generateReadFunction(func: AnalyzedFunction, module: AnalyzedModule): ReadFunction {
+    const args = this.sdkGenerator.describeArguments(func, '');
+    const userArgs = args.filter((a) => a.encoding.kind !== 'clock');
     const camelName = this.snakeToCamel(func.name);
+    const argsType = `${camelName.charAt(0).toUpperCase()}${camelName.slice(1)}Args`;
 
-    const lines: string[] = [
-      '/**',
-      ` * ${func.semantic.description}`,
-      ' */',
-    ];
+    // Without generated types, struct values come back as raw BCS bytes
+    const decoders = func.returns.map((r) => {
+      const schema = this.typesGenerator.schemaOf(r.moveType, module, 'types.');
+      return schema && (!schema.usesTypes || this.typesDir) ? schema : null;
+    });
+
+    const lines: string[] = [];
+    if (userArgs.length > 0) {
+      lines.push(`export interface ${argsType} {`);
+      for (const arg of userArgs) {
+        lines.push(`  /** ${arg.description} */`, `  ${arg.field}: ${arg.ts};`);
+      }
+      lines.push('}', '');
+    }
 
-    // Function signature
-    const paramDefs = userParams
-      .map((p) => `${this.snakeToCamel(p.name)}: ${p.tsType}`)
-      .join(', ');
-
-    const returnType = func.returns.length === 1
-      ? func.returns[0].tsType
-      : func.returns.length > 1
-        ? `[${func.returns.map((r) => r.tsType).join(', ')}]`
-        : 'void';
-
-    lines.push(`export async function ${camelName}(`);
-    lines.push('  client: SuiClient,');
-    if (paramDefs) {
-      lines.push(`  ${paramDefs},`);
+    lines.push('/**', ` * ${func.semantic.description}`);
+    if (decoders.some((d) => !d)) {
+      lines.push(' *', ' * Values whose layout depends on a type argument or on types that were not', ' * generated are returned as raw BCS bytes.');
+    }
+    lines.push(' */');
+
+    const params = ['client: SuiClient'];
+    if (userArgs.length > 0) {
+      params.push(`args: ${argsType}`);
+    }
+    if (func.typeParameters.length > 0) {
+      params.push(`typeArguments: [${func.typeParameters.map((tp) => `${tp.name}: string`).join(', ')}]`);
+    }
+
+    const returnTypes = decoders.map((d) => d?.ts ?? 'Uint8Array');
+    const returnType = returnTypes.length === 1 ? returnTypes[0] : `[${returnTypes.join(', ')}]`;
+    const decoded = decoders.map((d, i) => (d ? `${d.schema}.parse(values[${i}])` : `values[${i}]`));
+
+    lines.push(`export async function ${camelName}(${params.join(', ')}): Promise<${returnType}> {`);
+    lines.push('  const tx = new Transaction();');
+    lines.push('  tx.moveCall({');
+    lines.push(`    target: \`\${PACKAGE_ID}::\${MODULE_NAME}::${func.name}\`,`);
+    if (func.typeParameters.length > 0) {
+      lines.push('    typeArguments,');
+    }
+    if (args.length > 0) {
+      lines.push('    arguments: [');
+      for (const arg of args) {
+        lines.push(`      ${this.sdkGenerator.encodeArgument(arg, '')},`);
+      }
+      lines.push('    ],');
     }
-    lines.push(`): Promise<${returnType}> {`);
-
-    // Function body - use devInspect
-    lines.push('  // Use devInspect to simulate the call');
-    lines.push(`  const result = await client.devInspectTransactionBlock({`);
-    lines.push("    sender: '0x0',");
-    lines.push('    transactionBlock: {');
-    lines.push(`      // Build transaction for ${func.name}`);
-    lines.push('    },');
     lines.push('  });');
     lines.push('');
-    lines.push('  // Parse and return result');
-    lines.push(`  return result as unknown as ${returnType};`);
+    lines.push('  const values = await inspect(client, tx);');
+    lines.push(`  return ${decoded.length === 1 ? decoded[0] : `[${decoded.join(', ')}]`};`);
     lines.push('}');
     lines.push('');
 
-    return lines;
+    return {
+      args,
+      lines,
+      usesBcs: decoders.some((d) => d?.schema.includes('bcs.')),
+      usesTypes: decoders.some((d) => d?.usesTypes),
+    };
   }
 
   /**
    * Map function to template context
    */
-  private mapFunction(func: AnalyzedFunction) {
+  private mapFunction(func: AnalyzedFunction, module: AnalyzedModule) {
     return {
       name: func.name,
       visibility: func.visibility,
@@ -155,6 +249,8 @@ export const MODULE_NAME = '${module.moduleName}';
         isSystemObject: p.isSystemObject,
         objectIdRequired: p.objectIdRequired,
         defaultValue: p.defaultValue,
+        ownership: ownershipOf(module.ownership, p.moveType)?.primary,
+        isMutable: typeof p.moveType === 'object' && 'MutableReference' in p.moveType,
       })),
       returns: func.returns,
       typeParameters: func.typeParameters,
@@ -173,6 +269,6 @@ export const MODULE_NAME = '${module.moduleName}';
 /**
  * Create a script generator instance
  */
-export function createScriptGenerator(): ScriptGenerator {
-  return new ScriptGenerator();
+export function createScriptGenerator(options: ScriptGeneratorOptions = {}): ScriptGenerator {
+  return new ScriptGenerator(options);
 }
@@ -0,0 +1,478 @@
+/**
+ * SDK generator - emits a typed TypeScript module per Move module, with one
+ * transaction builder per public and entry function
+ *
+ * Layout (relative to the skill directory):
+ *   sdk/_constants.ts - package ID, network and module names
+ *   sdk/_utils.ts     - argument encoding shared by the builders
+ *   sdk/<module>.ts   - builders of the module
+ *   sdk/index.ts      - constants plus every module as a namespace
+ *
+ * Helper files start with an underscore so they never clash with a module
+ * file (Move module names start with a letter).
+ */
+
+import type {
+  AnalyzedModule,
+  AnalyzedFunction,
+  AnalyzedParameter,
+  SuiMoveNormalizedType,
+} from '../types/index.js';
+import {
+  isPrimitive,
+  isVector,
+  isStruct,
+  isReference,
+  isMutableReference,
+  WELL_KNOWN_TYPES,
+} from '../types/sui.js';
+import { TypeMapper } from '../mapper/type-mapper.js';
+import { VERSION } from '../index.js';
+
+/** Directory of the generated SDK inside a skill */
+export const SDK_DIR = 'sdk';
+
+/** How a builder passes one parameter to `moveCall` */
+export type ArgumentKind =
+  | { kind: 'object' }
+  | { kind: 'objectVector' }
+  | { kind: 'pure'; schema: string }
+  | { kind: 'clock' };
+
+export interface BuilderArgument {
+  /** Property of the builder's args object */
+  field: string;
+  /** TypeScript type of the property */
+  ts: string;
+  description: string;
+  encoding: ArgumentKind;
+  parameter: AnalyzedParameter;
+}
+
+const PURE_PRIMITIVES: Record<string, string> = {
+  Bool: 'bcs.bool()',
+  U8: 'bcs.u8()',
+  U16: 'bcs.u16()',
+  U32: 'bcs.u32()',
+  U64: 'bcs.u64()',
+  U128: 'bcs.u128()',
+  U256: 'bcs.u256()',
+  Address: 'bcs.Address',
+};
+
+const MOVE_VISIBILITY: Record<AnalyzedFunction['visibility'], string> = {
+  public: 'public ',
+  friend: 'public(package) ',
+  private: '',
+};
+
+// Function names that are not valid TypeScript identifiers as is
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import',
+  'in', 'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try',
+  'typeof', 'var', 'void', 'while', 'with', 'implements', 'interface', 'let', 'package',
+  'private', 'protected', 'public', 'static', 'yield', 'await',
+]);
+
+/**
+ * SDK generator class
+ */
+export class SdkGenerator {
+  private typeMapper: TypeMapper;
+
+  constructor() {
+    this.typeMapper = new TypeMapper();
+  }
+
+  /**
+   * Generate the SDK files for modules of one package (path -> content)
+   */
+  generate(modules: AnalyzedModule[]): Record<string, string> {
+    const files: Record<string, string> = {
+      [`${SDK_DIR}/_constants.ts`]: this.generateConstants(modules),
+      [`${SDK_DIR}/_utils.ts`]: this.generateUtils(),
+    };
+    for (const module of modules) {
+      files[`${SDK_DIR}/${module.moduleName}.ts`] = this.generateModule(module);
+    }
+    files[`${SDK_DIR}/index.ts`] = this.generateIndex(modules);
+    return files;
+  }
+
+  /**
+   * Generate the builders of one module
+   */
+  generateModule(module: AnalyzedModule): string {
+    const callable = module.functions.filter((f) => f.isEntry || f.visibility === 'public');
+    const builders = callable.map((func) => this.generateBuilder(func));
+    const usesPure = builders.some((b) => b.args.some((a) => a.encoding.kind === 'pure'));
+    const usesResults = callable.some((f) => f.returns.length > 0);
+
+    const transactionTypes = ['Transaction'];
+    if (builders.some((b) => b.args.some((a) => a.encoding.kind === 'object' || a.encoding.kind === 'objectVector'))) {
+      transactionTypes.push('TransactionObjectInput');
+    }
+    if (usesPure) {
+      transactionTypes.push('Argument');
+    }
+    if (usesResults) {
+      transactionTypes.push('TransactionResult');
+    }
+
+    const lines: string[] = [
+      '/**',
+      ` * Transaction builders for ${module.moduleName}`,
+      ` * Package: ${module.packageId}`,
+      ' *',
+      ' * Each builder adds one moveCall to a transaction and returns its result',
+      ' * handles, so calls chain inside a programmable transaction block:',
+      ' *   const tx = new Transaction();',
+      ` *   ${module.moduleName}.someFunction(tx, { ... });`,
+      ' *',
+      ` * Generated by MoveWhisperer v${VERSION}`,
+      ' */',
+      '',
+    ];
+    if (usesPure) {
+      lines.push("import { bcs } from '@mysten/sui/bcs';");
+    }
+    lines.push(`import type { ${transactionTypes.join(', ')} } from '@mysten/sui/transactions';`);
+    lines.push("import { PACKAGE_ID } from './_constants.js';");
+    if (usesPure) {
+      lines.push("import * as utils from './_utils.js';");
+    }
+    lines.push('', `export const MODULE_NAME = '${module.moduleName}';`, '');
+
+    for (const builder of builders) {
+      lines.push(...builder.lines);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate the package constants
+   */
+  private generateConstants(modules: AnalyzedModule[]): string {
+    const first = modules[0];
+    return [
+      '/**',
+      ' * Package constants',
+      ' *',
+      ` * Generated by MoveWhisperer v${VERSION}`,
+      ' */',
+      '',
+      `export const PACKAGE_ID = '${first?.packageId ?? ''}';`,
+      `export const NETWORK = '${first?.metadata.network ?? ''}';`,
+      `export const MODULES = [${modules.map((m) => `'${m.moduleName}'`).join(', ')}] as const;`,
+      '',
+      'export type ModuleName = (typeof MODULES)[number];',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Generate the argument encoding helpers
+   */
+  private generateUtils(): string {
+    return `/**
+ * Argument encoding shared by the builders
+ *
+ * Generated by MoveWhisperer v${VERSION}
+ */
+
+import { bcs, type BcsType } from '@mysten/sui/bcs';
+import { isArgument, type Argument, type Transaction } from '@mysten/sui/transactions';
+import { fromHex } from '@mysten/sui/utils';
+
+${this.generateHelpers('export ')}`;
+  }
+
+  /**
+   * Source of the `bytes` schema and `pure` encoder the argument expressions use
+   * (expects `bcs`, `BcsType`, `isArgument`, `Argument`, `Transaction` and, for
+   * `bytes`, `fromHex` in scope)
+   */
+  generateHelpers(modifier = '', includeBytes = true): string {
+    return `${includeBytes ? this.generateBytesSchema(modifier) : ''}/**
+ * Pass a value as a pure argument, or a result of an earlier call as is
+ */
+${modifier}function pure<Input>(tx: Transaction, schema: BcsType<unknown, Input>, value: Input | Argument): Argument {
+  return isArgument(value) ? value : tx.pure(schema.serialize(value as Input));
+}
+`;
+  }
+
+  /**
+   * Source of the `bytes` schema (expects `bcs` and `fromHex` in scope)
+   */
+  generateBytesSchema(modifier = ''): string {
+    return `/** \`vector<u8>\` from raw bytes or a hex string */
+${modifier}const bytes = bcs.vector(bcs.u8()).transform({
+  input: (value: Uint8Array | string) => (typeof value === 'string' ? fromHex(value) : value),
+});
+
+`;
+  }
+
+  /**
+   * Generate the index re-exporting the constants and every module
+   */
+  private generateIndex(modules: AnalyzedModule[]): string {
+    return [
+      '/**',
+      ' * Typed transaction builders of every generated module',
+      ' *',
+      ` * Generated by MoveWhisperer v${VERSION}`,
+      ' */',
+      '',
+      "export * from './_constants.js';",
+      ...modules.map((m) => `export * as ${m.moduleName} from './${m.moduleName}.js';`),
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Generate the args interface and builder of one function
+   */
+  private generateBuilder(func: AnalyzedFunction): { args: BuilderArgument[]; lines: string[] } {
+    const args = this.describeArguments(func);
+    const userArgs = args.filter((a) => a.encoding.kind !== 'clock');
+    const name = toIdentifier(snakeToCamel(func.name));
+    const argsType = `${snakeToPascal(func.name)}Args`;
+    const returnType = this.resultType(func);
+
+    const lines: string[] = [];
+    if (userArgs.length > 0) {
+      lines.push(`export interface ${argsType} {`);
+      for (const arg of userArgs) {
+        lines.push(`  /** ${arg.description} */`, `  ${arg.field}: ${arg.ts};`);
+      }
+      lines.push('}', '');
+    }
+
+    lines.push('/**', ` * ${func.semantic.description}`);
+    lines.push(' *', ` * \`${MOVE_VISIBILITY[func.visibility]}${func.isEntry ? 'entry ' : ''}fun ${func.name}\``);
+    if (func.typeParameters.length > 0) {
+      lines.push(` * Type arguments: ${func.typeParameters.map((tp) => tp.name).join(', ')}`);
+    }
+    if (func.ptbConstraint?.produces.length) {
+      lines.push(` * Returns ${func.ptbConstraint.produces.join(', ')}, which must be consumed later in the same transaction.`);
+    }
+    if (func.ptbConstraint?.consumes.length) {
+      lines.push(` * Consumes ${func.ptbConstraint.consumes.join(', ')} returned by an earlier call in the same transaction.`);
+    }
+    lines.push(' */');
+
+    const params = ['tx: Transaction'];
+    if (userArgs.length > 0) {
+      params.push(`args: ${argsType}`);
+    }
+    if (func.typeParameters.length > 0) {
+      params.push(`typeArguments: [${func.typeParameters.map((tp) => `${tp.name}: string`).join(', ')}]`);
+    }
+
+    lines.push(`export function ${name}(${params.join(', ')}): ${returnType} {`);
+    lines.push(`  ${func.returns.length > 0 ? 'const result = ' : ''}tx.moveCall({`);
+    lines.push(`    target: \`\${PACKAGE_ID}::\${MODULE_NAME}::${func.name}\`,`);
+    if (func.typeParameters.length > 0) {
+      lines.push('    typeArguments,');
+    }
+    if (args.length > 0) {
+      lines.push('    arguments: [');
+      for (const arg of args) {
+        lines.push(`      ${this.encodeArgument(arg)},`);
+      }
+      lines.push('    ],');
+    }
+    lines.push('  });');
+    if (func.returns.length === 1) {
+      lines.push('  return result;');
+    } else if (func.returns.length > 1) {
+      lines.push(`  return [${func.returns.map((_, i) => `result[${i}]`).join(', ')}];`);
+    }
+    lines.push('}', '');
+
+    return { args, lines };
+  }
+
+  /**
+   * Classify a function's parameters as objects, pure values or system objects.
+   * `helpers` qualifies the `bytes` and `pure` helpers in the generated code.
+   */
+  describeArguments(func: AnalyzedFunction, helpers = 'utils.'): BuilderArgument[] {
+    this.typeMapper.setTypeParameters(func.typeParameters.map((tp) => tp.name));
+
+    const used = new Set<string>();
+    const args: BuilderArgument[] = [];
+
+    for (const param of func.parameters) {
+      if (param.isAutoInjected) {
+        continue;
+      }
+
+      let field = snakeToCamel(param.name);
+      if (used.has(field)) {
+        field = `${field}${param.index}`;
+      }
+      used.add(field);
+
+      if (param.isSystemObject) {
+        args.push({ field, ts: 'string', description: param.description, encoding: { kind: 'clock' }, parameter: param });
+        continue;
+      }
+
+      const type = derefType(param.moveType);
+      const schema = pureSchema(type, helpers);
+      if (schema) {
+        const mapped = this.typeMapper.mapType(type);
+        args.push({
+          field,
+          ts: `${mapped.ts} | Argument`,
+          description: mapped.description,
+          encoding: { kind: 'pure', schema },
+          parameter: param,
+        });
+      } else if (isVector(type)) {
+        args.push({
+          field,
+          ts: 'TransactionObjectInput[]',
+          description: param.description,
+          encoding: { kind: 'objectVector' },
+          parameter: param,
+        });
+      } else {
+        args.push({
+          field,
+          ts: 'TransactionObjectInput',
+          description: param.description,
+          encoding: { kind: 'object' },
+          parameter: param,
+        });
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Expression passing one argument to `moveCall`, reading it from `args`
+   */
+  encodeArgument(arg: BuilderArgument, helpers = 'utils.'): string {
+    switch (arg.encoding.kind) {
+      case 'clock':
+        return 'tx.object.clock()';
+      case 'object':
+        return `tx.object(args.${arg.field})`;
+      case 'objectVector':
+        return `tx.makeMoveVec({ elements: args.${arg.field}.map((item) => tx.object(item)) })`;
+      case 'pure':
+        return `${helpers}pure(tx, ${arg.encoding.schema}, args.${arg.field})`;
+    }
+  }
+
+  /**
+   * Result handles: the result itself for one return value, a tuple for several
+   */
+  private resultType(func: AnalyzedFunction): string {
+    if (func.returns.length === 0) {
+      return 'void';
+    }
+    if (func.returns.length === 1) {
+      return 'TransactionResult';
+    }
+    return `[${func.returns.map(() => 'TransactionResult[number]').join(', ')}]`;
+  }
+}
+
+/**
+ * Whether a function only reads, so devInspect can run it as any sender: it is
+ * public but not entry, returns values rather than references, takes only
+ * immutable references and pure values (and at most `&TxContext`), and neither
+ * takes nor returns a hot potato
+ */
+export function isViewFunction(func: AnalyzedFunction): boolean {
+  return (
+    !func.isEntry &&
+    func.visibility === 'public' &&
+    func.returns.length > 0 &&
+    !func.returns.some((r) => isReference(r.moveType) || isMutableReference(r.moveType)) &&
+    // `&mut TxContext` is what creating objects takes
+    func.parameters.every((p) =>
+      p.isAutoInjected ? !isMutableReference(p.moveType) : isReference(p.moveType) || pureSchema(p.moveType, '') !== null
+    ) &&
+    !func.ptbConstraint?.produces.length &&
+    !func.ptbConstraint?.consumes.length
+  );
+}
+
+/**
+ * Schema expression for a type passed as a pure value, or null for objects
+ */
+function pureSchema(type: SuiMoveNormalizedType, helpers: string): string | null {
+  if (isPrimitive(type)) {
+    return PURE_PRIMITIVES[type] ?? null;
+  }
+  if (isVector(type)) {
+    if (type.Vector === 'U8') {
+      return `${helpers}bytes`;
+    }
+    const inner = pureSchema(type.Vector, helpers);
+    return inner ? `bcs.vector(${inner})` : null;
+  }
+  if (!isStruct(type)) {
+    return null;
+  }
+
+  const struct = type.Struct;
+  if (isWellKnown(struct, WELL_KNOWN_TYPES.STRING) || isWellKnown(struct, WELL_KNOWN_TYPES.ASCII_STRING)) {
+    return 'bcs.string()';
+  }
+  if (isWellKnown(struct, WELL_KNOWN_TYPES.OBJECT_ID)) {
+    return 'bcs.Address';
+  }
+  if (isWellKnown(struct, WELL_KNOWN_TYPES.OPTION) && struct.typeArguments[0]) {
+    const inner = pureSchema(struct.typeArguments[0], helpers);
+    return inner ? `bcs.option(${inner})` : null;
+  }
+  return null;
+}
+
+function derefType(type: SuiMoveNormalizedType): SuiMoveNormalizedType {
+  if (isReference(type)) {
+    return type.Reference;
+  }
+  if (isMutableReference(type)) {
+    return type.MutableReference;
+  }
+  return type;
+}
+
+function isWellKnown(
+  struct: { address: string; module: string; name: string },
+  wellKnown: { address: string; module: string; name: string }
+): boolean {
+  const address = `0x${struct.address.replace(/^0x/, '').replace(/^0+/, '') || '0'}`;
+  return address === wellKnown.address && struct.module === wellKnown.module && struct.name === wellKnown.name;
+}
+
+function snakeToCamel(str: string): string {
+  return str.replace(/_([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function snakeToPascal(str: string): string {
+  const camel = snakeToCamel(str);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function toIdentifier(name: string): string {
+  return RESERVED_WORDS.has(name) ? `${name}_` : name;
+}
+
+/**
+ * Create an SDK generator instance
+ */
+export function createSdkGenerator(): SdkGenerator {
+  return new SdkGenerator();
+}
@@ -2,7 +2,17 @@
  * Skill generator - generates SKILL.md from analyzed module
  */
 
-import type { AnalyzedModule, AnalyzedFunction, Network, SkillScene, CustomSceneConfig } from '../types/index.js';
+import type {
+  AnalyzedModule,
+  AnalyzedPackage,
+  AnalyzedFunction,
+  AnalyzedParameter,
+  SkillScene,
+  CustomSceneConfig,
+  SuiMoveNormalizedType,
+  PackageDependencyGraph,
+  Network,
+} from '../types/index.js';
 import {
   TemplateEngine,
   createTemplateEngine,
@@ -11,8 +21,24 @@ import {
   type PrimaryFunctionContext,
   type SceneSkillMdContext,
   type StructContext,
+  type CallGraphContext,
+  type AccessControlContext,
+  type ObjectContext,
+  type PtbRecipeContext,
+  type PackageSkillMdContext,
+  type ModuleReferenceContext,
+  type ReferenceMdContext,
+  type ModuleRelationshipsContext,
+  type PackagePrimaryFunctionContext,
+  type DependsOnContext,
+  type TypeParamContext,
 } from '../templates/engine.js';
-import { NETWORK_URLS } from '../types/sui.js';
+import { callGraphToMermaid, callGraphNodeLabel } from '../analyzer/call-graph.js';
+import { dependencyGraphToMermaid, dependencyNodeLabel } from '../analyzer/dependency-graph.js';
+import { getPrimaryRpcUrl } from '../fetcher/networks.js';
+import { getKnownCoins, parseCoinAmount, type KnownCoin } from '../fetcher/coin-registry.js';
+import { TYPES_DIR } from './types-generator.js';
+import { SDK_DIR } from './sdk-generator.js';
 import { VERSION } from '../index.js';
 
 export interface SkillGeneratorOptions {
@@ -20,6 +46,10 @@ export interface SkillGeneratorOptions {
   includeExamples?: boolean;
   scene?: SkillScene;
   customScene?: CustomSceneConfig;
+  /** Link the generated TypeScript types from the skill */
+  includeTypes?: boolean;
+  /** Link the generated TypeScript SDK from the skill */
+  includeSdk?: boolean;
 }
 
 /**
@@ -29,11 +59,15 @@ export class SkillGenerator {
   private templateEngine: TemplateEngine;
   private defaultScene: SkillScene;
   private customSceneConfig?: CustomSceneConfig;
+  private includeTypes: boolean;
+  private includeSdk: boolean;
 
   constructor(options: SkillGeneratorOptions = {}) {
     this.templateEngine = createTemplateEngine();
     this.defaultScene = options.scene ?? 'sdk';
     this.customSceneConfig = options.customScene;
+    this.includeTypes = options.includeTypes ?? false;
+    this.includeSdk = options.includeSdk ?? false;
   }
 
   /**
@@ -58,6 +92,65 @@ export class SkillGenerator {
     return this.templateEngine.renderSceneSkillMd(actualScene, context);
   }
 
+  /**
+   * Generate the package-level SKILL.md, linking to each module's reference file.
+   * The package overview is the SDK view; other scenes add their view of every module.
+   */
+  generatePackageSkillMd(pkg: AnalyzedPackage): string {
+    const context = this.buildPackageSkillMdContext(pkg);
+    if (this.defaultScene !== 'sdk') {
+      context.scene = this.defaultScene;
+      context.sceneSections = pkg.modules.map((module) => embedSceneDoc(this.generateSceneSkillMd(module)));
+    }
+    return this.templateEngine.renderPackageSkillMd(context);
+  }
+
+  /**
+   * Generate the reference file of one module of a package skill
+   */
+  generateModuleReferenceMd(module: AnalyzedModule, pkg: AnalyzedPackage): string {
+    return this.templateEngine.renderModuleReference(this.buildModuleReferenceContext(module, pkg));
+  }
+
+  /**
+   * Generate a single self-contained reference document of a package
+   */
+  generateReferenceMd(pkg: AnalyzedPackage): string {
+    // Everything is inline, so drop the links to sibling files
+    const context: ReferenceMdContext = {
+      ...this.buildPackageSkillMdContext(pkg),
+      moduleReferences: pkg.modules.map((module) => ({
+        ...this.buildModuleReferenceContext(module, pkg),
+        typesDir: undefined,
+        sdkDir: undefined,
+      })),
+      typesDir: undefined,
+      sdkDir: undefined,
+    };
+    return this.templateEngine.renderReferenceMd(context);
+  }
+
+  /**
+   * Path of a module's reference file, relative to the package SKILL.md
+   */
+  moduleReferencePath(moduleName: string): string {
+    return `references/modules/${moduleName}.md`;
+  }
+
+  /**
+   * Package slug used for the skill name: the Move.toml package name, else the
+   * module name for single-module packages
+   */
+  packageSlug(pkg: AnalyzedPackage): string {
+    if (pkg.name) {
+      return pkg.name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/\W+/g, '_').toLowerCase();
+    }
+    if (pkg.modules.length === 1) {
+      return pkg.modules[0].moduleName;
+    }
+    return `package_${pkg.packageId.replace(/^0x/, '').slice(0, 8)}`;
+  }
+
   /**
    * Generate types.md content
    */
@@ -95,19 +188,19 @@ export class SkillGenerator {
     const securityNotes = this.generateSecurityNotes(module);
 
     // Find primary function for example
-    const primaryFunction = this.findPrimaryFunction(entryFunctions);
+    const primaryFunction = this.findPrimaryFunction(entryFunctions, module.metadata.network);
 
     return {
       packageName: this.formatPackageName(module.moduleName),
       packageId: module.packageId,
       moduleName: module.moduleName,
       network: module.metadata.network,
-      rpcUrl: NETWORK_URLS[module.metadata.network as Network] ?? NETWORK_URLS.mainnet,
+      rpcUrl: getPrimaryRpcUrl(module.metadata.network),
       category: module.category,
       description,
       overview,
-      entryFunctions: entryFunctions.map((f) => this.mapFunction(f)),
-      publicFunctions: publicFunctions.map((f) => this.mapFunction(f)),
+      entryFunctions: entryFunctions.map((f) => this.mapFunction(f, module)),
+      publicFunctions: publicFunctions.map((f) => this.mapFunction(f, module)),
       events: module.events.map((e) => ({
         name: e.name,
         description: e.description,
@@ -116,11 +209,159 @@ export class SkillGenerator {
       dependencies: module.dependencies,
       securityNotes,
       primaryFunction,
+      accessControl: this.buildAccessControlContext(module),
+      objects: this.buildObjectsContext(module),
+      ptbRecipes: this.buildPtbRecipes(module),
+      dependsOn: this.buildDependsOnContext(module.dependencyGraph),
+      typesDir: this.includeTypes ? TYPES_DIR : undefined,
+      sdkDir: this.includeSdk ? SDK_DIR : undefined,
       generatorVersion: VERSION,
       generatedAt: new Date().toISOString(),
     };
   }
 
+  /**
+   * Build context for the package-level SKILL.md template
+   */
+  private buildPackageSkillMdContext(pkg: AnalyzedPackage): PackageSkillMdContext {
+    const slug = this.packageSlug(pkg);
+    const modules = pkg.modules.map((module) => ({
+      name: module.moduleName,
+      category: module.category,
+      description: module.functions.length > 0 ? this.generateOverview(module) : undefined,
+      entryCount: module.metadata.entryFunctions,
+      publicCount: module.functions.filter((f) => !f.isEntry && f.visibility === 'public').length,
+      packageCount: module.functions.filter((f) => !f.isEntry && f.visibility === 'friend').length,
+      structCount: module.metadata.totalStructs,
+      referencePath: this.moduleReferencePath(module.moduleName),
+    }));
+
+    // Quick start: prefer a low-risk entry function from any module
+    const entries = pkg.modules.flatMap((m) =>
+      m.functions.filter((f) => f.isEntry).map((func) => ({ moduleName: m.moduleName, func }))
+    );
+    const chosen = entries.find((e) => e.func.semantic.risk === 'low') ?? entries[0];
+    const primary = chosen ? this.findPrimaryFunction([chosen.func], pkg.network) : undefined;
+    const primaryFunction: PackagePrimaryFunctionContext | undefined =
+      primary && { ...primary, moduleName: chosen.moduleName };
+
+    const highRiskCount = pkg.modules
+      .flatMap((m) => m.functions)
+      .filter((f) => f.semantic.risk === 'high' || f.semantic.risk === 'critical').length;
+    const securityNotes: string[] = [];
+    if (highRiskCount > 0) {
+      securityNotes.push(
+        `This package contains ${highRiskCount} high-risk function(s). Review carefully before executing.`
+      );
+    }
+    if (pkg.modules.some((m) => m.functions.some((f) => f.semantic.category === 'admin'))) {
+      securityNotes.push('Some functions require admin privileges and may be restricted.');
+    }
+    securityNotes.push('Always verify transaction parameters before signing.');
+    securityNotes.push('Test transactions on testnet before using on mainnet.');
+
+    const code = (name: string) => `\`${name}\``;
+
+    return {
+      packageName: slug.replace(/_/g, '-').toLowerCase(),
+      title: this.formatPackageName(slug),
+      packageId: pkg.packageId,
+      network: pkg.network,
+      rpcUrl: getPrimaryRpcUrl(pkg.network),
+      category: pkg.category,
+      description: `${this.formatPackageName(slug)} on Sui blockchain (${pkg.modules.length} module${pkg.modules.length !== 1 ? 's' : ''}: ${pkg.metadata.modules.join(', ')})`,
+      overview:
+        `This package has ${pkg.metadata.modules.length} module(s) with ${pkg.metadata.entryFunctions} entry ` +
+        `and ${pkg.metadata.publicFunctions} public function(s). Each module is documented in its own reference file.`,
+      modules,
+      primaryFunction,
+      sharedObjects: pkg.sharedObjects.map((o) => ({
+        name: o.name,
+        module: o.module,
+        createdBy: o.createdBy.map(code),
+      })),
+      relationships: this.buildRelationshipsContext(pkg),
+      events: pkg.events.map((e) => ({
+        name: e.name,
+        eventType: `${pkg.packageId}::${e.type}`,
+        emittedBy: e.emittedBy.map(code),
+      })),
+      errorCodes: pkg.errorCodes.map((e) => ({
+        module: e.module,
+        name: e.name,
+        code: e.code,
+        description: e.description,
+      })),
+      dependsOn: this.buildDependsOnContext(pkg.dependencyGraph),
+      securityNotes,
+      typesDir: this.includeTypes ? TYPES_DIR : undefined,
+      sdkDir: this.includeSdk ? SDK_DIR : undefined,
+      generatorVersion: VERSION,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Build context for a module reference
+   */
+  private buildModuleReferenceContext(module: AnalyzedModule, pkg: AnalyzedPackage): ModuleReferenceContext {
+    return {
+      ...this.buildSkillMdContext(module),
+      packageName: this.formatPackageName(this.packageSlug(pkg)),
+      structs: module.structs.map((s) => ({
+        name: s.name,
+        abilities: s.abilities,
+        typeParameters: s.typeParameters,
+        fields: s.fields,
+        isEvent: s.isEvent,
+      })),
+      packageFunctions: module.functions
+        .filter((f) => f.visibility === 'friend' && !f.isEntry)
+        .map((f) => this.mapFunction(f, module)),
+      friends: pkg.friendships
+        .filter((f) => f.module === module.moduleName)
+        .map((f) => `\`${f.friend}\``),
+      errorCodes: (module.errorCodes ?? []).map((e) => ({ name: e.name, code: e.code, description: e.description })),
+    };
+  }
+
+  /**
+   * Diagram and tables of how the package's modules depend on each other
+   */
+  private buildRelationshipsContext(pkg: AnalyzedPackage): ModuleRelationshipsContext | undefined {
+    if (pkg.typeReferences.length === 0 && pkg.friendships.length === 0) {
+      return undefined;
+    }
+
+    const lines = ['graph LR'];
+    for (const module of pkg.metadata.modules) {
+      lines.push(`  ${module}["${module}"]`);
+    }
+    const uses = new Map<string, string[]>();
+    for (const ref of pkg.typeReferences) {
+      const key = `${ref.from}>${ref.to}`;
+      uses.set(key, [...(uses.get(key) ?? []), ref.type.split('::')[1]]);
+    }
+    for (const [key, types] of uses) {
+      const [from, to] = key.split('>');
+      lines.push(`  ${from} -->|${types.join(', ')}| ${to}`);
+    }
+    for (const friendship of pkg.friendships) {
+      lines.push(`  ${friendship.friend} -.->|${friendship.declared ? 'friend' : 'package call'}| ${friendship.module}`);
+    }
+
+    return {
+      mermaid: lines.join('\n'),
+      typeReferences: pkg.typeReferences.map((ref) => ({ from: ref.from, type: ref.type, usages: ref.usages })),
+      friendships: pkg.friendships.map((f) => ({
+        module: f.module,
+        friend: f.friend,
+        declared: f.declared,
+        calls: f.calls.map((name) => `\`${name}\``),
+      })),
+    };
+  }
+
   /**
    * Build context for scene-specific SKILL.md template
    */
@@ -151,6 +392,12 @@ export class SkillGenerator {
         description: f.description,
       })),
       isEvent: s.isEvent,
+      ownership: module.ownership?.find(
+        (o) => o.module === module.moduleName && o.name === s.name
+      )?.primary,
+      isCapability: module.accessControl?.capabilities.some(
+        (cap) => cap.module === module.moduleName && cap.name === s.name
+      ),
     }));
 
     // Build base scene context
@@ -162,6 +409,7 @@ export class SkillGenerator {
       highRiskCount,
       structs,
       sourceCode: module.sourceCode,
+      callGraph: this.buildCallGraphContext(module),
     };
 
     // Add custom scene fields if provided
@@ -174,10 +422,222 @@ export class SkillGenerator {
     return sceneContext;
   }
 
+  /**
+   * Build permission matrix context; types from this module are shown by name only
+   */
+  private buildAccessControlContext(module: AnalyzedModule): AccessControlContext | undefined {
+    const access = module.accessControl;
+    if (!access || access.functions.length === 0) {
+      return undefined;
+    }
+
+    const display = (type: string) =>
+      type.startsWith(`${module.moduleName}::`) ? type.slice(module.moduleName.length + 2) : type;
+
+    return {
+      capabilities: access.capabilities.map((cap) => ({
+        name: display(cap.type),
+        abilities: cap.abilities,
+        mintedInInit: cap.mintedInInit,
+        transferable: cap.transferable,
+        evidence: cap.evidence,
+      })),
+      functions: access.functions.map((func) => ({
+        name: func.function,
+        isEntry: func.isEntry,
+        requirements: [
+          ...func.direct.map((type) => `\`${display(type)}\``),
+          ...func.transitive.map(
+            (gate) => `\`${display(gate.capability)}\` (via \`${display(gate.via)}\` from \`${gate.producer}\`)`
+          ),
+        ],
+      })),
+    };
+  }
+
+  /**
+   * Describe how to get hold of each object this module defines
+   */
+  private buildObjectsContext(module: AnalyzedModule): ObjectContext[] {
+    const display = (type: string) =>
+      type.startsWith(`${module.moduleName}::`) ? type.slice(module.moduleName.length + 2) : type;
+
+    return (module.ownership ?? [])
+      .filter((o) => o.module === module.moduleName)
+      .map((o) => {
+        const creators = o.createdBy.map((fn) => `\`${display(fn)}\``).join(', ');
+        const from = creators ? ` Created by ${creators}.` : '';
+        let howToObtain: string;
+        switch (o.primary) {
+          case 'shared':
+            howToObtain = `Shared: pass its ID with \`tx.object(id)\`; find the ID in the objectChanges of the creating transaction.${from}`;
+            break;
+          case 'immutable':
+            howToObtain = `Frozen: anyone can read it by ID with \`tx.object(id)\`.${from}`;
+            break;
+          case 'owned':
+            howToObtain = `Owned: query \`getOwnedObjects\` with StructType \`${module.packageId}::${o.type}\`.${from}`;
+            break;
+          case 'wrapped':
+            howToObtain = `Wrapped inside ${o.wrappedIn.map((type) => `\`${display(type)}\``).join(', ')}; not addressable on its own.`;
+            break;
+          default:
+            howToObtain = `Not determined from the available bytecode.${from}`;
+        }
+        return { name: o.name, ownership: o.primary, howToObtain };
+      });
+  }
+
+  /**
+   * Summarize resolved dependencies and the external types callers must supply
+   */
+  private buildDependsOnContext(graph?: PackageDependencyGraph): DependsOnContext | undefined {
+    if (!graph) {
+      return undefined;
+    }
+
+    const nodes = new Map(graph.nodes.map((node) => [node.packageId, node]));
+    const pins = new Map(graph.edges.filter((e) => e.from === graph.root).map((e) => [e.to, e.version]));
+
+    return {
+      mermaid: dependencyGraphToMermaid(graph),
+      packages: graph.nodes
+        .filter((node) => node.status !== 'root' && !node.isFramework)
+        .map((node) => ({
+          packageId: node.packageId,
+          depth: node.depth,
+          version: pins.get(node.packageId),
+          status: node.status,
+          modules: node.modules,
+        })),
+      requiredTypes: graph.requiredTypes.map((req) => {
+        const kind = req.ownership ?? (req.abilities.includes('key') ? 'unknown' : 'value');
+        let howToSupply: string;
+        switch (kind) {
+          case 'shared':
+            howToSupply = 'Shared object: pass its ID with `tx.object(id)`';
+            break;
+          case 'immutable':
+            howToSupply = 'Frozen object: pass its ID with `tx.object(id)`';
+            break;
+          case 'owned':
+            howToSupply = `Owned object: the sender must own one (\`getOwnedObjects\` with StructType \`${req.type}\`)`;
+            break;
+          case 'wrapped':
+            howToSupply = 'Held inside another object: obtain it through its package';
+            break;
+          case 'value':
+            howToSupply = `Value: create it with a call to \`${req.module}\` earlier in the same PTB`;
+            break;
+          default:
+            howToSupply = 'Object: pass its ID with `tx.object(id)`';
+        }
+        const owner = nodes.get(req.packageId);
+        return {
+          name: `${req.module}::${req.name}`,
+          type: req.type,
+          packageLabel: owner ? dependencyNodeLabel(owner) : req.packageId,
+          kind,
+          howToSupply,
+          requiredBy: req.requiredBy.map((fn) => `\`${fn}\``),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Chain each hot potato producer with each of its consumers
+   */
+  private buildPtbRecipes(module: AnalyzedModule): PtbRecipeContext[] {
+    const byName = new Map(module.functions.map((f) => [f.name, f]));
+    const recipes: PtbRecipeContext[] = [];
+
+    for (const potato of module.hotPotatoes ?? []) {
+      const potatoVar = potato.name.charAt(0).toLowerCase() + potato.name.slice(1);
+      for (const producerName of potato.producers) {
+        const producer = byName.get(producerName)!;
+        for (const consumerName of potato.consumers) {
+          recipes.push({
+            potato: potato.name,
+            potatoVar,
+            producer: this.mapFunction(producer, module),
+            consumer: this.mapFunction(byName.get(consumerName)!, module),
+            returnNames: producer.returns.map((ret, index) =>
+              this.isHotPotatoParam(ret.moveType, module, potato.name) ? potatoVar : `result${index}`
+            ),
+            inspectors: potato.inspectors,
+          });
+        }
+      }
+    }
+
+    return recipes;
+  }
+
+  /**
+   * Explain the PTB calls a function depends on or obliges
+   */
+  private buildPtbNote(func: AnalyzedFunction, module: AnalyzedModule): string | undefined {
+    if (!func.ptbConstraint) return undefined;
+
+    const notes: string[] = [];
+    const list = (names: string[]) => names.map((name) => `\`${name}\``).join(' or ') || 'a function in another module';
+    for (const name of func.ptbConstraint.produces) {
+      const potato = module.hotPotatoes?.find((p) => p.name === name);
+      notes.push(`Returns hot potato \`${name}\`; pass it to ${list(potato?.consumers ?? [])} in the same PTB.`);
+    }
+    for (const name of func.ptbConstraint.consumes) {
+      const potato = module.hotPotatoes?.find((p) => p.name === name);
+      notes.push(`Takes hot potato \`${name}\`; obtain it from ${list(potato?.producers ?? [])} earlier in the same PTB.`);
+    }
+    return notes.join(' ');
+  }
+
+  /**
+   * Whether a type is one of the module's hot potatoes taken by value
+   */
+  private isHotPotatoParam(type: SuiMoveNormalizedType, module: AnalyzedModule, name?: string): boolean {
+    return (
+      typeof type === 'object' &&
+      'Struct' in type &&
+      type.Struct.module === module.moduleName &&
+      (module.hotPotatoes ?? []).some((p) => p.name === type.Struct.name && (!name || p.name === name))
+    );
+  }
+
+  /**
+   * Build call graph context for this module's entry points
+   */
+  private buildCallGraphContext(module: AnalyzedModule): CallGraphContext | undefined {
+    const graph = module.callGraph;
+    if (!graph) {
+      return undefined;
+    }
+
+    const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+    const reachability = graph.reachability
+      .map((entry) => ({ entry, node: nodes.get(entry.entry)! }))
+      .filter(({ node }) => node.module === module.moduleName)
+      .map(({ entry, node }) => ({
+        name: node.function,
+        isEntry: node.isEntry,
+        internals: entry.internals.map((id) => callGraphNodeLabel(nodes.get(id)!)),
+        sensitive: entry.sensitive.map((id) => {
+          const target = nodes.get(id)!;
+          return `${callGraphNodeLabel(target)} (${target.sensitive})`;
+        }),
+      }));
+
+    return {
+      mermaid: callGraphToMermaid(graph, { module: module.moduleName }),
+      reachability,
+    };
+  }
+
   /**
    * Map analyzed function to template context
    */
-  private mapFunction(func: AnalyzedFunction): FunctionContext {
+  private mapFunction(func: AnalyzedFunction, module: AnalyzedModule): FunctionContext {
     return {
       name: func.name,
       visibility: func.visibility,
@@ -191,13 +651,47 @@ export class SkillGenerator {
         isSystemObject: p.isSystemObject,
         objectIdRequired: p.objectIdRequired,
         defaultValue: p.defaultValue,
+        isHotPotato: this.isHotPotatoParam(p.moveType, module),
+        moveType: p.moveType,
       })),
       returns: func.returns,
-      typeParameters: func.typeParameters,
+      typeParameters: this.buildTypeParams(func, module.metadata.network),
       semantic: func.semantic,
+      ptbNote: this.buildPtbNote(func, module),
+      capabilities: this.requiredCapabilities(func, module),
+      aborts: func.aborts.map((abort) => ({
+        error: abort.constant
+          ? `\`${abort.constant}\``
+          : abort.line !== undefined
+            ? `Assertion at line ${abort.line}`
+            : 'Abort',
+        code: abort.code !== undefined ? String(abort.code) : '-',
+        condition: abort.condition ? `\`${abort.condition.replace(/\s+/g, ' ').replace(/\|/g, '\\|')}\`` : undefined,
+        via: abort.via,
+      })),
+      emits: func.emits.map((e) => ({
+        name: e.structName,
+        eventType: e.name.includes('::')
+          ? `${module.packageId}::${e.name}`
+          : `${module.packageId}::${module.moduleName}::${e.name}`,
+      })),
     };
   }
 
+  /**
+   * Capabilities a function requires according to the access-control analysis;
+   * types from this module are shown by name only
+   */
+  private requiredCapabilities(func: AnalyzedFunction, module: AnalyzedModule): string[] {
+    const access = module.accessControl?.functions.find((f) => f.function === func.name);
+    if (!access) {
+      return [];
+    }
+    const display = (type: string) =>
+      type.startsWith(`${module.moduleName}::`) ? type.slice(module.moduleName.length + 2) : type;
+    return [...new Set([...access.direct, ...access.transitive.map((gate) => gate.capability)].map(display))];
+  }
+
   /**
    * Generate module description
    */
@@ -305,7 +799,8 @@ export class SkillGenerator {
    * Find primary function for quick start example
    */
   private findPrimaryFunction(
-    entryFunctions: AnalyzedFunction[]
+    entryFunctions: AnalyzedFunction[],
+    network: Network
   ): PrimaryFunctionContext | undefined {
     if (entryFunctions.length === 0) {
       return undefined;
@@ -315,6 +810,11 @@ export class SkillGenerator {
     const safe = entryFunctions.find((f) => f.semantic.risk === 'low');
     const func = safe || entryFunctions[0];
 
+    // Amounts are scaled by the decimals of the coin the function handles
+    const coins = this.exampleCoins(func, network);
+    const coinIndex = this.coinTypeParamIndex(func);
+    const coin = coins[coinIndex ?? 0];
+
     // Generate example arguments
     const userParams = func.parameters.filter((p) => !p.isAutoInjected);
     const exampleArgs = userParams.map((p) => {
@@ -332,6 +832,9 @@ export class SkillGenerator {
         case 'number':
           return 'tx.pure.u64(100)';
         case 'bigint | string':
+          if (coin && this.isCoinAmount(func, p, coinIndex)) {
+            return `tx.pure.u64('${parseCoinAmount('1', coin.decimals)}') /* 1 ${coin.symbol} */`;
+          }
           return "tx.pure.u64('1000000000')";
         case 'string':
           if (p.name.toLowerCase().includes('address')) {
@@ -346,9 +849,69 @@ export class SkillGenerator {
     return {
       name: func.name,
       exampleArgs,
+      typeArguments: coins.length > 0 ? coins.map((c) => c.coinType) : undefined,
     };
   }
 
+  /**
+   * Type parameters with an example coin type for each
+   */
+  private buildTypeParams(func: AnalyzedFunction, network: Network): TypeParamContext[] {
+    const coins = this.exampleCoins(func, network);
+    return func.typeParameters.map((tp, i) => ({
+      name: tp.name,
+      constraints: tp.constraints,
+      exampleType: coins[i].coinType,
+      exampleSymbol: coins[i].symbol,
+    }));
+  }
+
+  /**
+   * Distinct well-known coins of the network for a function's type parameters,
+   * so pool-style functions never get the same coin twice
+   */
+  private exampleCoins(func: AnalyzedFunction, network: Network): KnownCoin[] {
+    const known = getKnownCoins(network);
+    return func.typeParameters.map((_, i) => known[i % known.length]);
+  }
+
+  /**
+   * Whether a u64 argument is an amount of the function's coin: named so in
+   * Move source, or else the only u64 next to a `Coin<T>` / `Balance<T>`.
+   * Inferred ABI names (`amount`, `value1`...) say nothing about the value.
+   */
+  private isCoinAmount(func: AnalyzedFunction, param: AnalyzedParameter, coinIndex: number | undefined): boolean {
+    if (param.sourceName !== undefined) {
+      return /amount|value|qty|quantity/i.test(param.sourceName);
+    }
+    const u64s = func.parameters.filter((p) => p.moveType === 'U64');
+    return coinIndex !== undefined && u64s.length === 1 && u64s[0] === param;
+  }
+
+  /**
+   * Index of the type parameter used as a `Coin<T>` / `Balance<T>` argument
+   */
+  private coinTypeParamIndex(func: AnalyzedFunction): number | undefined {
+    for (const param of func.parameters) {
+      let type = param.moveType;
+      while (typeof type === 'object' && ('Reference' in type || 'MutableReference' in type)) {
+        type = 'Reference' in type ? type.Reference : type.MutableReference;
+      }
+      if (
+        typeof type === 'object' &&
+        'Struct' in type &&
+        ['coin', 'balance'].includes(type.Struct.module) &&
+        ['Coin', 'Balance'].includes(type.Struct.name)
+      ) {
+        const arg = type.Struct.typeArguments[0];
+        if (typeof arg === 'object' && 'TypeParameter' in arg) {
+          return arg.TypeParameter;
+        }
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Format package name for display
    */
@@ -360,6 +923,26 @@ export class SkillGenerator {
   }
 }
 
+/**
+ * Turn a scene SKILL.md into a section of the package SKILL.md: drop its
+ * frontmatter and footer and nest its headings one level deeper
+ */
+function embedSceneDoc(markdown: string): string {
+  let inCode = false;
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/(\n---\n)?\n\*Generated by MoveWhisperer[^\n]*\*\n/, '\n')
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('```')) {
+        inCode = !inCode;
+      }
+      return !inCode && /^#{1,5} /.test(line) ? `#${line}` : line;
+    })
+    .join('\n')
+    .trim();
+}
+
 /**
  * Create a skill generator instance
  */
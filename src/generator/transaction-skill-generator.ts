@@ -11,6 +11,7 @@ import type {
 import type {
   TransactionParseResult,
 } from '../analyzer/transaction-parser.js';
+import { findKnownCoin, formatCoinAmount } from '../fetcher/coin-registry.js';
 
 export interface TransactionSkillOptions {
   language: 'en' | 'zh';
@@ -79,13 +80,18 @@ export function generateTransactionSkill(
       hasTypeArgs: call.typeArguments.length > 0,
       purpose: parseResult.callSequence[i]?.purpose || inferCallPurpose(call.functionName),
     })),
-    balanceChanges: tx.balanceChanges.map(bc => ({
-      coinType: bc.coinType,
-      shortCoinType: extractCoinName(bc.coinType),
-      amount: bc.amount,
-      formattedAmount: formatAmount(bc.amount, bc.coinType),
-      isPositive: BigInt(bc.amount) > 0n,
-    })),
+    balanceChanges: tx.balanceChanges.map(bc => {
+      // Prefer metadata resolved by TransactionParser.resolveAmounts
+      const coin = parseResult.summary.valueChanges?.find(c => c.coinType === bc.coinType)
+        ?? findKnownCoin(bc.coinType, tx.network);
+      return {
+        coinType: bc.coinType,
+        shortCoinType: coin?.symbol ?? extractCoinName(bc.coinType),
+        amount: bc.amount,
+        formattedAmount: formatAmount(bc.amount, coin),
+        isPositive: BigInt(bc.amount) > 0n,
+      };
+    }),
     objectChanges: groupObjectChanges(tx.objectChanges),
     includeScripts: opts.includeScripts,
     includeReplicationGuide: opts.includeReplicationGuide,
@@ -201,26 +207,12 @@ function formatGas(gas: string): string {
   return `${value} MIST`;
 }
 
-function formatAmount(amount: string, coinType: string): string {
-  const value = BigInt(amount);
-  const absValue = value < 0n ? -value : value;
-  const sign = value < 0n ? '-' : '+';
-
-  // SUI has 9 decimals
-  if (coinType.includes('sui::SUI') || coinType.includes('0x2::sui::SUI')) {
-    const formatted = (Number(absValue) / 1_000_000_000).toFixed(4);
-    return `${sign}${formatted} SUI`;
-  }
-
-  // Most tokens have 6-9 decimals
-  if (absValue >= 1_000_000_000n) {
-    return `${sign}${(Number(absValue) / 1_000_000_000).toFixed(4)}`;
-  }
-  if (absValue >= 1_000_000n) {
-    return `${sign}${(Number(absValue) / 1_000_000).toFixed(2)}`;
+function formatAmount(amount: string, coin?: { symbol: string; decimals: number }): string {
+  if (!coin) {
+    const value = BigInt(amount);
+    return value < 0n ? `${value}` : `+${value}`;
   }
-
-  return `${sign}${absValue}`;
+  return `${formatCoinAmount(amount, coin.decimals, { signed: true })} ${coin.symbol}`;
 }
 
 function extractCoinName(coinType: string): string {
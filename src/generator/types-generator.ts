@@ -0,0 +1,491 @@
+/**
+ * Types generator - emits TypeScript interfaces and `@mysten/sui/bcs` schemas
+ * for every struct, so object contents and event payloads decode with full types
+ *
+ * Layout (relative to the skill directory):
+ *   types/framework.ts  - schemas for the Sui framework types package structs embed
+ *   types/<module>.ts   - one interface and one schema per struct of the module
+ *   types/index.ts      - every module re-exported as a namespace
+ */
+
+import type {
+  AnalyzedModule,
+  AnalyzedStruct,
+  SuiMoveNormalizedType,
+  SuiMoveNormalizedStructType,
+} from '../types/index.js';
+import { VERSION } from '../index.js';
+
+/** Directory of the generated type files inside a skill */
+export const TYPES_DIR = 'types';
+
+interface MappedBcs {
+  /** Schema expression, e.g. `bcs.vector(bcs.u64())` */
+  schema: string;
+  /** Decoded TypeScript type, e.g. `string[]` */
+  ts: string;
+}
+
+interface FrameworkType {
+  /** Helper exported by framework.ts; types without one are mapped inline */
+  helper?: string;
+  inline?: (args: MappedBcs[]) => MappedBcs;
+  /** Type arguments that affect the layout (the others are phantom) */
+  args: number[];
+}
+
+interface ModuleScope {
+  packageId: string;
+  moduleName: string;
+  /** Structs of the generated modules, keyed by `module::name` */
+  structs: Map<string, AnalyzedStruct>;
+  /** Sibling modules referenced by this module */
+  imports: Set<string>;
+  usesFramework: boolean;
+  usesGenerics: boolean;
+  /** Whether a mapped type's layout depends on a type parameter */
+  usesTypeParameters: boolean;
+  /** Prefix of references to other type files, e.g. `types.` */
+  qualifier: string;
+}
+
+/** Schema of a value for code outside the types directory */
+export interface QualifiedSchema extends MappedBcs {
+  /** Whether the expressions reference the types index */
+  usesTypes: boolean;
+}
+
+const STRING: MappedBcs = { schema: 'bcs.string()', ts: 'string' };
+const ADDRESS: MappedBcs = { schema: 'bcs.Address', ts: 'string' };
+
+const PRIMITIVES: Record<string, MappedBcs> = {
+  Bool: { schema: 'bcs.bool()', ts: 'boolean' },
+  U8: { schema: 'bcs.u8()', ts: 'number' },
+  U16: { schema: 'bcs.u16()', ts: 'number' },
+  U32: { schema: 'bcs.u32()', ts: 'number' },
+  // 64-bit and wider integers decode to decimal strings
+  U64: { schema: 'bcs.u64()', ts: 'string' },
+  U128: { schema: 'bcs.u128()', ts: 'string' },
+  U256: { schema: 'bcs.u256()', ts: 'string' },
+  Address: ADDRESS,
+  Signer: ADDRESS,
+};
+
+const FRAMEWORK_TYPES: Record<string, FrameworkType> = {
+  '0x1::string::String': { args: [], inline: () => STRING },
+  '0x1::ascii::String': { args: [], inline: () => STRING },
+  '0x1::option::Option': {
+    args: [0],
+    inline: ([inner]) => ({ schema: `bcs.option(${inner.schema})`, ts: `${inner.ts} | null` }),
+  },
+  '0x1::type_name::TypeName': { helper: 'TypeName', args: [] },
+  // UID and ID serialize as a bare 32-byte address
+  '0x2::object::UID': { args: [], inline: () => ADDRESS },
+  '0x2::object::ID': { args: [], inline: () => ADDRESS },
+  '0x2::url::Url': { helper: 'Url', args: [] },
+  '0x2::balance::Balance': { helper: 'Balance', args: [] },
+  '0x2::balance::Supply': { helper: 'Supply', args: [] },
+  '0x2::coin::Coin': { helper: 'Coin', args: [] },
+  '0x2::coin::TreasuryCap': { helper: 'TreasuryCap', args: [] },
+  '0x2::table::Table': { helper: 'Table', args: [] },
+  '0x2::object_table::ObjectTable': { helper: 'Table', args: [] },
+  '0x2::bag::Bag': { helper: 'Bag', args: [] },
+  '0x2::object_bag::ObjectBag': { helper: 'Bag', args: [] },
+  '0x2::table_vec::TableVec': { helper: 'TableVec', args: [] },
+  '0x2::linked_table::LinkedTable': { helper: 'LinkedTable', args: [0] },
+  '0x2::vec_map::VecMap': { helper: 'VecMap', args: [0, 1] },
+  '0x2::vec_set::VecSet': { helper: 'VecSet', args: [0] },
+};
+
+// Module aliases must not shadow the generated files' own imports
+const RESERVED_ALIASES = new Set(['bcs', 'BcsType', 'framework']);
+
+/**
+ * Types generator class
+ */
+export class TypesGenerator {
+  /**
+   * Generate the type files for modules of one package (path -> content).
+   * References between the given modules become imports; structs of other
+   * packages decode as `framework.unknownType`.
+   */
+  generate(modules: AnalyzedModule[]): Record<string, string> {
+    const files: Record<string, string> = {
+      [`${TYPES_DIR}/framework.ts`]: this.generateFramework(),
+    };
+    for (const module of modules) {
+      files[`${TYPES_DIR}/${module.moduleName}.ts`] = this.generateModule(module, modules);
+    }
+    files[`${TYPES_DIR}/index.ts`] = this.generateIndex(modules);
+    return files;
+  }
+
+  /**
+   * Generate the interfaces and schemas of one module
+   */
+  generateModule(module: AnalyzedModule, modules: AnalyzedModule[] = [module]): string {
+    const scope: ModuleScope = {
+      packageId: normalizeAddress(module.packageId),
+      moduleName: module.moduleName,
+      structs: new Map(
+        modules.flatMap((m) => m.structs.map((s) => [`${m.moduleName}::${s.name}`, s] as const))
+      ),
+      imports: new Set(),
+      usesFramework: false,
+      usesGenerics: false,
+      usesTypeParameters: false,
+      qualifier: '',
+    };
+
+    const body = this.orderStructs(module.structs, module.moduleName)
+      .flatMap((struct) => this.generateStruct(struct, scope));
+
+    const lines: string[] = [
+      '/**',
+      ` * Types and BCS schemas for ${module.moduleName}`,
+      ` * Package: ${module.packageId}`,
+      ' *',
+      ' * Each struct has an interface and a schema of the same name:',
+      ' *   const pool: Pool = Pool.parse(bytes);',
+      ' * Generic structs take the schemas of their type arguments:',
+      ' *   const box = Box(bcs.u64()).fromBase64(data);',
+      ' *',
+      ` * Generated by MoveWhisperer v${VERSION}`,
+      ' */',
+      '',
+      scope.usesGenerics
+        ? "import { bcs, type BcsType } from '@mysten/sui/bcs';"
+        : "import { bcs } from '@mysten/sui/bcs';",
+    ];
+    if (scope.usesFramework) {
+      lines.push("import * as framework from './framework.js';");
+    }
+    for (const name of [...scope.imports].sort()) {
+      lines.push(`import * as ${moduleAlias(name)} from './${name}.js';`);
+    }
+    lines.push('', ...body);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Schema and decoded type of a Move value for code that imports the types
+   * index as `qualifier` (e.g. `types.`). Returns null when the layout
+   * depends on a type parameter, which only the caller knows.
+   */
+  schemaOf(
+    type: SuiMoveNormalizedType,
+    module: AnalyzedModule,
+    qualifier: string,
+    modules: AnalyzedModule[] = [module]
+  ): QualifiedSchema | null {
+    // No module name, so even same-module structs are referenced through the index
+    const scope: ModuleScope = {
+      packageId: normalizeAddress(module.packageId),
+      moduleName: '',
+      structs: new Map(
+        modules.flatMap((m) => m.structs.map((s) => [`${m.moduleName}::${s.name}`, s] as const))
+      ),
+      imports: new Set(),
+      usesFramework: false,
+      usesGenerics: false,
+      usesTypeParameters: false,
+      qualifier,
+    };
+    const mapped = this.mapType(type, scope);
+    if (scope.usesTypeParameters) {
+      return null;
+    }
+    return { ...mapped, usesTypes: scope.usesFramework || scope.imports.size > 0 };
+  }
+
+  /**
+   * Generate schemas for the framework types that package structs embed
+   */
+  generateFramework(): string {
+    return `/**
+ * BCS schemas for Sui framework types embedded in package structs
+ *
+ * Table, Bag and friends decode to their handle only: the entries are
+ * dynamic fields of \`id\` and must be fetched separately.
+ *
+ * Generated by MoveWhisperer v${VERSION}
+ */
+
+import { bcs, BcsType } from '@mysten/sui/bcs';
+
+export interface TypeName {
+  name: string;
+}
+export const TypeName = bcs.struct('TypeName', { name: bcs.string() });
+
+export interface Url {
+  url: string;
+}
+export const Url = bcs.struct('Url', { url: bcs.string() });
+
+export interface Balance {
+  value: string;
+}
+export const Balance = bcs.struct('Balance', { value: bcs.u64() });
+
+export interface Supply {
+  value: string;
+}
+export const Supply = bcs.struct('Supply', { value: bcs.u64() });
+
+export interface Coin {
+  id: string;
+  balance: Balance;
+}
+export const Coin = bcs.struct('Coin', { id: bcs.Address, balance: Balance });
+
+export interface TreasuryCap {
+  id: string;
+  total_supply: Supply;
+}
+export const TreasuryCap = bcs.struct('TreasuryCap', { id: bcs.Address, total_supply: Supply });
+
+/** Handle of a Table or ObjectTable */
+export interface Table {
+  id: string;
+  size: string;
+}
+export const Table = bcs.struct('Table', { id: bcs.Address, size: bcs.u64() });
+
+/** Handle of a Bag or ObjectBag */
+export interface Bag {
+  id: string;
+  size: string;
+}
+export const Bag = bcs.struct('Bag', { id: bcs.Address, size: bcs.u64() });
+
+export interface TableVec {
+  contents: Table;
+}
+export const TableVec = bcs.struct('TableVec', { contents: Table });
+
+export interface LinkedTable<K> {
+  id: string;
+  size: string;
+  head: K | null;
+  tail: K | null;
+}
+export function LinkedTable<K extends BcsType<any>>(k: K) {
+  return bcs.struct('LinkedTable', { id: bcs.Address, size: bcs.u64(), head: bcs.option(k), tail: bcs.option(k) });
+}
+
+export interface VecMap<K, V> {
+  contents: Array<{ key: K; value: V }>;
+}
+export function VecMap<K extends BcsType<any>, V extends BcsType<any>>(k: K, v: V) {
+  return bcs.struct('VecMap', { contents: bcs.vector(bcs.struct('Entry', { key: k, value: v })) });
+}
+
+export interface VecSet<K> {
+  contents: K[];
+}
+export function VecSet<K extends BcsType<any>>(k: K) {
+  return bcs.struct('VecSet', { contents: bcs.vector(k) });
+}
+
+/**
+ * Placeholder for a type from another package whose layout is not known here.
+ * Decoding a value that contains it throws.
+ */
+export function unknownType(name: string): BcsType<unknown, unknown> {
+  const fail = (): never => {
+    throw new Error(\`No BCS schema for \${name}; generate types for its package and use that schema\`);
+  };
+  return new BcsType<unknown, unknown>({ name, read: fail, write: fail });
+}
+`;
+  }
+
+  /**
+   * Generate the index re-exporting every module
+   */
+  private generateIndex(modules: AnalyzedModule[]): string {
+    return [
+      '/**',
+      ' * Types and BCS schemas of every generated module',
+      ' *',
+      ` * Generated by MoveWhisperer v${VERSION}`,
+      ' */',
+      '',
+      "export * as framework from './framework.js';",
+      ...modules.map((m) => `export * as ${moduleAlias(m.moduleName)} from './${m.moduleName}.js';`),
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Generate the interface and schema of one struct
+   */
+  private generateStruct(struct: AnalyzedStruct, scope: ModuleScope): string[] {
+    const params = struct.typeParameters.filter((tp) => !tp.isPhantom);
+    const fields = struct.fields.map((field) => ({ name: field.name, ...this.mapType(field.moveType, scope) }));
+
+    const tags = [struct.isEvent ? 'event' : '', struct.abilities.map((a) => a.toLowerCase()).join(', ')].filter(Boolean);
+    const lines: string[] = [
+      `/** \`${scope.moduleName}::${struct.name}\`${tags.length > 0 ? ` (${tags.join('; ')})` : ''} */`,
+      `export interface ${struct.name}${params.length > 0 ? `<${params.map((tp) => tp.name).join(', ')}>` : ''} {`,
+      ...fields.map((field) => `  ${field.name}: ${field.ts};`),
+      '}',
+    ];
+
+    if (params.length === 0) {
+      lines.push(
+        `export const ${struct.name} = bcs.struct('${struct.name}', {`,
+        ...fields.map((field) => `  ${field.name}: ${field.schema},`),
+        '});',
+        ''
+      );
+      return lines;
+    }
+
+    scope.usesGenerics = true;
+    const generics = params.map((tp) => `${tp.name} extends BcsType<any>`).join(', ');
+    const args = params.map((tp) => `${tp.name.toLowerCase()}: ${tp.name}`).join(', ');
+    lines.push(
+      `export function ${struct.name}<${generics}>(${args}) {`,
+      `  return bcs.struct('${struct.name}', {`,
+      ...fields.map((field) => `    ${field.name}: ${field.schema},`),
+      '  });',
+      '}',
+      ''
+    );
+    return lines;
+  }
+
+  /**
+   * Map a Move type to its schema expression and decoded TypeScript type
+   */
+  private mapType(type: SuiMoveNormalizedType, scope: ModuleScope): MappedBcs {
+    if (typeof type === 'string') {
+      return PRIMITIVES[type];
+    }
+    if ('Vector' in type) {
+      const inner = this.mapType(type.Vector, scope);
+      return { schema: `bcs.vector(${inner.schema})`, ts: `${wrapUnion(inner.ts)}[]` };
+    }
+    if ('TypeParameter' in type) {
+      scope.usesTypeParameters = true;
+      return { schema: `t${type.TypeParameter}`, ts: `T${type.TypeParameter}` };
+    }
+    if ('Reference' in type) {
+      return this.mapType(type.Reference, scope);
+    }
+    if ('MutableReference' in type) {
+      return this.mapType(type.MutableReference, scope);
+    }
+    return this.mapStruct(type.Struct, scope);
+  }
+
+  private mapStruct(struct: SuiMoveNormalizedStructType, scope: ModuleScope): MappedBcs {
+    const address = normalizeAddress(struct.address);
+    const framework = FRAMEWORK_TYPES[`${address}::${struct.module}::${struct.name}`];
+    if (framework) {
+      const args = framework.args.map((i) => this.mapType(struct.typeArguments[i], scope));
+      if (framework.inline) {
+        return framework.inline(args);
+      }
+      scope.usesFramework = true;
+      return args.length > 0
+        ? {
+            schema: `${scope.qualifier}framework.${framework.helper}(${args.map((a) => a.schema).join(', ')})`,
+            ts: `${scope.qualifier}framework.${framework.helper}<${args.map((a) => a.ts).join(', ')}>`,
+          }
+        : { schema: `${scope.qualifier}framework.${framework.helper}`, ts: `${scope.qualifier}framework.${framework.helper}` };
+    }
+
+    const local = address === scope.packageId ? scope.structs.get(`${struct.module}::${struct.name}`) : undefined;
+    if (!local) {
+      scope.usesFramework = true;
+      return {
+        schema: `${scope.qualifier}framework.unknownType('${address}::${struct.module}::${struct.name}')`,
+        ts: 'unknown',
+      };
+    }
+
+    let name = struct.name;
+    if (struct.module !== scope.moduleName) {
+      scope.imports.add(struct.module);
+      name = `${scope.qualifier}${moduleAlias(struct.module)}.${struct.name}`;
+    }
+
+    const args = local.typeParameters
+      .filter((tp) => !tp.isPhantom)
+      .map((tp) => this.mapType(struct.typeArguments[tp.index], scope));
+    return args.length > 0
+      ? { schema: `${name}(${args.map((a) => a.schema).join(', ')})`, ts: `${name}<${args.map((a) => a.ts).join(', ')}>` }
+      : { schema: name, ts: name };
+  }
+
+  /**
+   * Order structs so every schema is declared before the schemas that embed it
+   */
+  private orderStructs(structs: AnalyzedStruct[], moduleName: string): AnalyzedStruct[] {
+    const byName = new Map(structs.map((s) => [s.name, s]));
+    const ordered: AnalyzedStruct[] = [];
+    const visited = new Set<string>();
+
+    const visit = (struct: AnalyzedStruct) => {
+      if (visited.has(struct.name)) {
+        return;
+      }
+      visited.add(struct.name);
+      for (const field of struct.fields) {
+        for (const ref of localStructRefs(field.moveType, moduleName)) {
+          const dependency = byName.get(ref);
+          if (dependency) {
+            visit(dependency);
+          }
+        }
+      }
+      ordered.push(struct);
+    };
+
+    structs.forEach(visit);
+    return ordered;
+  }
+}
+
+/**
+ * Names of same-module structs a type refers to, including type arguments
+ */
+function localStructRefs(type: SuiMoveNormalizedType, moduleName: string): string[] {
+  if (typeof type === 'string' || 'TypeParameter' in type) {
+    return [];
+  }
+  if ('Vector' in type) {
+    return localStructRefs(type.Vector, moduleName);
+  }
+  if ('Reference' in type) {
+    return localStructRefs(type.Reference, moduleName);
+  }
+  if ('MutableReference' in type) {
+    return localStructRefs(type.MutableReference, moduleName);
+  }
+  const nested = type.Struct.typeArguments.flatMap((arg) => localStructRefs(arg, moduleName));
+  return type.Struct.module === moduleName ? [type.Struct.name, ...nested] : nested;
+}
+
+function moduleAlias(moduleName: string): string {
+  return RESERVED_ALIASES.has(moduleName) ? `${moduleName}_` : moduleName;
+}
+
+function wrapUnion(ts: string): string {
+  return ts.includes('|') ? `(${ts})` : ts;
+}
+
+function normalizeAddress(address: string): string {
+  return `0x${address.replace(/^0x/, '').replace(/^0+/, '') || '0'}`;
+}
+
+/**
+ * Create a types generator instance
+ */
+export function createTypesGenerator(): TypesGenerator {
+  return new TypesGenerator();
+}
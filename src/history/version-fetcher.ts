@@ -8,6 +8,7 @@ import { SuiClient } from '@mysten/sui/client';
 import type { Network, SuiNormalizedModule } from '../types/index.js';
 import { SuiClientWrapper, createSuiClient } from '../fetcher/sui-client.js';
 import { NetworkError } from '../core/errors.js';
+import { getDiskCache, type DiskCache } from '../fetcher/disk-cache.js';
 import {
   versionHistoryCache,
   versionedSourceCache,
@@ -30,12 +31,14 @@ export class VersionFetcher {
   private suiClient: SuiClient;
   private network: Network;
   private useCache: boolean;
+  private diskCache: DiskCache | null;
 
   constructor(options: VersionFetcherOptions) {
     this.network = options.network;
     this.client = createSuiClient(options.network, options.rpcUrl);
     this.suiClient = this.client.getClient();
     this.useCache = options.useCache ?? true;
+    this.diskCache = this.useCache ? getDiskCache() : null;
   }
 
   /**
@@ -50,6 +53,17 @@ export class VersionFetcher {
       if (cached) {
         return cached;
       }
+
+      // Version chains can grow with upgrades, so the disk entry has a short TTL
+      const diskCached = await this.diskCache?.get<PackageVersionHistory>({
+        network: this.network,
+        packageId,
+        kind: 'history',
+      });
+      if (diskCached) {
+        versionHistoryCache.set(cacheKey, diskCached);
+        return diskCached;
+      }
     }
 
     // Primary method: trace through UpgradeCap
@@ -64,6 +78,7 @@ export class VersionFetcher {
     // Cache the result
     if (this.useCache) {
       versionHistoryCache.set(cacheKey, history);
+      await this.diskCache?.set({ network: this.network, packageId, kind: 'history' }, history);
     }
 
     return history;
@@ -92,12 +107,26 @@ export class VersionFetcher {
     const targetPackageId = versionInfo.packageId;
     const cacheKey = getVersionedSourceCacheKey(this.network, targetPackageId, version);
 
+    const diskKey = {
+      network: this.network,
+      packageId: targetPackageId,
+      kind: 'versioned-source' as const,
+      name: `v${version}`,
+    };
+
     // Check cache
     if (this.useCache) {
       const cached = versionedSourceCache.get(cacheKey);
       if (cached) {
         return cached;
       }
+
+      // A specific version is immutable; reuse it unless decompiled code is missing
+      const diskCached = await this.diskCache?.get<VersionedSourceResult>(diskKey);
+      if (diskCached && !options.modules && (diskCached.decompiled || !options.includeDecompiled)) {
+        versionedSourceCache.set(cacheKey, diskCached);
+        return diskCached;
+      }
     }
 
     // Fetch source data
@@ -106,6 +135,10 @@ export class VersionFetcher {
     // Cache the result
     if (this.useCache) {
       versionedSourceCache.set(cacheKey, result);
+      // Only complete results are persisted
+      if (!options.modules) {
+        await this.diskCache?.set(diskKey, result);
+      }
     }
 
     return result;
@@ -390,18 +423,11 @@ export class VersionFetcher {
     // Get bytecode (base64 encoded module map)
     const bytecode: Record<string, string> = {};
 
-    // Get ABIs for all modules
+    // Get ABIs for all modules in one package-level request
     const moduleNames = options.modules ?? Object.keys(disassembled);
-    const abi: Record<string, SuiNormalizedModule> = {};
-
-    for (const moduleName of moduleNames) {
-      try {
-        const moduleAbi = await this.client.getNormalizedMoveModule(packageId, moduleName);
-        abi[moduleName] = moduleAbi;
-      } catch (error) {
-        console.warn(`Could not fetch ABI for ${packageId}::${moduleName}: ${error}`);
-      }
-    }
+    const abi: Record<string, SuiNormalizedModule> = moduleNames.length > 0
+      ? await this.client.getNormalizedMoveModules(packageId, moduleNames)
+      : {};
 
     return {
       packageId,
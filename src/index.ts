@@ -21,9 +21,15 @@ export * from './utils/index.js';
 // Scene exports
 export * from './scenes/index.js';
 
+// Parser exports
+export * from './parser/index.js';
+
 // Analyzer exports
 export * from './analyzer/index.js';
 
+// LLM provider exports
+export * from './llm/index.js';
+
 // Template exports
 export * from './templates/index.js';
 
@@ -0,0 +1,111 @@
+/**
+ * Anthropic Messages API provider
+ */
+
+import { LLMError } from '../core/errors.js';
+import { BaseLLMProvider, readServerSentEvents } from './base.js';
+import type { LLMConfig, LLMDeltaHandler, LLMRequest, LLMResponse } from './types.js';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+const API_VERSION = '2023-06-01';
+
+/** The subset of Messages API stream events used here */
+interface StreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+export class AnthropicProvider extends BaseLLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(config: LLMConfig) {
+    super(config, DEFAULT_MODEL);
+  }
+
+  /**
+   * Available when an API key is configured
+   */
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.config.apiKey);
+  }
+
+  protected async generate(request: LLMRequest, onDelta?: LLMDeltaHandler): Promise<LLMResponse> {
+    if (!this.config.apiKey) {
+      throw LLMError.unavailable(this.name, 'ANTHROPIC_API_KEY is not set');
+    }
+
+    const response = await this.post(
+      `${(this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')}/v1/messages`,
+      { 'x-api-key': this.config.apiKey, 'anthropic-version': API_VERSION },
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+        ...(request.system ? { system: request.system } : {}),
+        messages: request.messages,
+        stream: Boolean(onDelta),
+      },
+      request
+    );
+
+    if (!onDelta) {
+      const data = await response.json() as {
+        content?: Array<{ type: string; text?: string }>;
+        usage?: { input_tokens?: number; output_tokens?: number };
+        stop_reason?: string;
+      };
+      return {
+        text: (data.content ?? []).filter((block) => block.type === 'text').map((block) => block.text ?? '').join(''),
+        provider: this.name,
+        model: this.model,
+        usage: { inputTokens: data.usage?.input_tokens ?? 0, outputTokens: data.usage?.output_tokens ?? 0 },
+        stopReason: data.stop_reason,
+      };
+    }
+
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let stopReason: string | undefined;
+
+    for await (const event of readServerSentEvents(response.body!)) {
+      const data = JSON.parse(event.data) as StreamEvent;
+      switch (data.type) {
+        case 'message_start':
+          inputTokens = data.message?.usage?.input_tokens ?? 0;
+          outputTokens = data.message?.usage?.output_tokens ?? 0;
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta' && data.delta.text) {
+            text += data.delta.text;
+            onDelta(data.delta.text);
+          }
+          break;
+        case 'message_delta':
+          outputTokens = data.usage?.output_tokens ?? outputTokens;
+          stopReason = data.delta?.stop_reason ?? stopReason;
+          break;
+        case 'error':
+          throw LLMError.requestFailed(this.name, data.error?.message ?? 'stream error');
+      }
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: { inputTokens, outputTokens },
+      stopReason,
+    };
+  }
+}
+
+/**
+ * Create an Anthropic Messages API provider
+ */
+export function createAnthropicProvider(config: LLMConfig): AnthropicProvider {
+  return new AnthropicProvider(config);
+}
@@ -0,0 +1,174 @@
+/**
+ * Shared plumbing for LLM providers: usage totals, timeouts and SSE parsing
+ */
+
+import { LLMError } from '../core/errors.js';
+import type {
+  LLMConfig,
+  LLMDeltaHandler,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage,
+} from './types.js';
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  readonly model: string;
+  protected config: LLMConfig;
+  private totals = { inputTokens: 0, outputTokens: 0, estimated: false, requests: 0 };
+
+  constructor(config: LLMConfig, defaultModel: string) {
+    this.config = config;
+    this.model = config.model || defaultModel;
+  }
+
+  abstract isAvailable(): Promise<boolean>;
+
+  protected abstract generate(request: LLMRequest, onDelta?: LLMDeltaHandler): Promise<LLMResponse>;
+
+  /**
+   * Generate a complete response
+   */
+  complete(request: LLMRequest): Promise<LLMResponse> {
+    return this.run(request);
+  }
+
+  /**
+   * Generate a response, reporting text deltas as they arrive
+   */
+  stream(request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse> {
+    return this.run(request, onDelta);
+  }
+
+  /**
+   * Tokens used by every request made through this provider
+   */
+  getUsage(): LLMUsage & { requests: number } {
+    return { ...this.totals };
+  }
+
+  /**
+   * Apply the timeout and caller signal, then record the usage
+   */
+  private async run(request: LLMRequest, onDelta?: LLMDeltaHandler): Promise<LLMResponse> {
+    const timeoutMs = request.timeoutMs ?? this.config.timeoutMs;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort);
+
+    try {
+      const response = await this.generate({ ...request, timeoutMs, signal: controller.signal }, onDelta);
+      this.totals.inputTokens += response.usage.inputTokens;
+      this.totals.outputTokens += response.usage.outputTokens;
+      this.totals.estimated ||= Boolean(response.usage.estimated);
+      this.totals.requests++;
+      return response;
+    } catch (error) {
+      if (controller.signal.aborted && !request.signal?.aborted) {
+        throw LLMError.timeout(this.name, timeoutMs);
+      }
+      throw error instanceof LLMError ? error : LLMError.requestFailed(this.name, (error as Error).message);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * POST JSON to an HTTP provider (`request.signal` carries the timeout)
+   */
+  protected async post(url: string, headers: Record<string, string>, body: unknown, request: LLMRequest): Promise<Response> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw LLMError.requestFailed(this.name, detail.slice(0, 500) || response.statusText, response.status);
+    }
+    return response;
+  }
+}
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a `text/event-stream` body into events
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+
+      // A blank line ends the event
+      if (line === '') {
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        event = undefined;
+        data = [];
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (done) break;
+  }
+
+  if (data.length > 0) yield { event, data: data.join('\n') };
+}
+
+/**
+ * Rough token count for providers that do not report usage (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Flatten a system prompt and conversation into one prompt, for single-turn backends
+ */
+export function renderTranscript(system: string | undefined, messages: LLMMessage[]): string {
+  const parts: string[] = system ? [system, '', '---', ''] : [];
+
+  if (messages.length === 1) {
+    parts.push(messages[0].content);
+    return parts.join('\n');
+  }
+
+  const transcript = messages
+    .slice(0, -1)
+    .map((m) => `${m.role === 'user' ? 'Human' : 'Assistant'}: ${m.content}`)
+    .join('\n\n');
+  const last = messages[messages.length - 1];
+
+  parts.push(
+    'Previous conversation:',
+    transcript,
+    '',
+    `Human: ${last.content}`,
+    '',
+    'Respond to the latest message based on the context and conversation history.'
+  );
+  return parts.join('\n');
+}
@@ -0,0 +1,63 @@
+/**
+ * Local Claude CLI provider (`claude --print`)
+ * The CLI is single-turn, so the conversation is sent as one transcript prompt
+ * and token usage is estimated from text length.
+ */
+
+import { LLMError } from '../core/errors.js';
+import { runProgram, commandExists } from '../server/terminal.js';
+import { BaseLLMProvider, estimateTokens, renderTranscript } from './base.js';
+import type { LLMConfig, LLMDeltaHandler, LLMRequest, LLMResponse } from './types.js';
+
+const DEFAULT_MODEL = 'default';
+
+export class ClaudeCliProvider extends BaseLLMProvider {
+  readonly name = 'claude-cli' as const;
+
+  constructor(config: LLMConfig) {
+    super(config, DEFAULT_MODEL);
+  }
+
+  /**
+   * Available when `claude` is on the PATH
+   */
+  async isAvailable(): Promise<boolean> {
+    return commandExists('claude');
+  }
+
+  protected async generate(request: LLMRequest, onDelta?: LLMDeltaHandler): Promise<LLMResponse> {
+    if (!(await this.isAvailable())) {
+      throw LLMError.unavailable(this.name, 'Claude Code CLI not found on PATH');
+    }
+
+    const prompt = renderTranscript(request.system, request.messages);
+    const args = ['--print', ...(this.model !== DEFAULT_MODEL ? ['--model', this.model] : []), prompt];
+    const result = await runProgram('claude', args, {
+      cwd: this.config.cwd,
+      timeout: request.timeoutMs ?? this.config.timeoutMs,
+      onStdout: onDelta,
+    });
+
+    if (!result.success) {
+      throw LLMError.requestFailed(this.name, result.stderr || `exit code ${result.exitCode}`);
+    }
+
+    return {
+      text: result.stdout,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(result.stdout),
+        estimated: true,
+      },
+    };
+  }
+}
+
+/**
+ * Create a Claude CLI provider
+ */
+export function createClaudeCliProvider(config: LLMConfig): ClaudeCliProvider {
+  return new ClaudeCliProvider(config);
+}
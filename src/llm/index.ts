@@ -0,0 +1,102 @@
+/**
+ * LLM providers - one interface over the Anthropic Messages API, the local
+ * Claude CLI, OpenAI-compatible endpoints and a deterministic mock
+ *
+ * Environment:
+ *   MOVE_WHISPERER_LLM_PROVIDER    anthropic | claude-cli | openai | mock
+ *                                  (default: anthropic when ANTHROPIC_API_KEY is set, else claude-cli)
+ *   MOVE_WHISPERER_LLM_MODEL       model id
+ *   MOVE_WHISPERER_LLM_BASE_URL    API base URL (e.g. http://localhost:11434/v1 for Ollama)
+ *   MOVE_WHISPERER_LLM_TIMEOUT_MS  request timeout (default 120000)
+ *   MOVE_WHISPERER_LLM_MAX_TOKENS  generated token limit (default 4096)
+ *   ANTHROPIC_API_KEY / OPENAI_API_KEY
+ */
+
+import { LLMError } from '../core/errors.js';
+import { createAnthropicProvider } from './anthropic.js';
+import { createClaudeCliProvider } from './claude-cli.js';
+import { createOpenAICompatibleProvider } from './openai-compatible.js';
+import { createMockProvider } from './mock.js';
+import { LLM_PROVIDERS, type LLMConfig, type LLMProvider, type LLMProviderName } from './types.js';
+
+export * from './types.js';
+export * from './base.js';
+export * from './anthropic.js';
+export * from './claude-cli.js';
+export * from './openai-compatible.js';
+export * from './mock.js';
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Parse a provider name, rejecting unknown values
+ */
+export function parseLLMProviderName(name: string): LLMProviderName {
+  const normalized = name.trim().toLowerCase();
+  if (!LLM_PROVIDERS.includes(normalized as LLMProviderName)) {
+    throw LLMError.unknownProvider(name, LLM_PROVIDERS);
+  }
+  return normalized as LLMProviderName;
+}
+
+/**
+ * Load LLM configuration from environment, with overrides
+ */
+export function loadLLMConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+  const env = process.env;
+  const provider = overrides.provider
+    ?? (env.MOVE_WHISPERER_LLM_PROVIDER
+      ? parseLLMProviderName(env.MOVE_WHISPERER_LLM_PROVIDER)
+      : env.ANTHROPIC_API_KEY ? 'anthropic' : 'claude-cli');
+
+  const apiKey = provider === 'anthropic'
+    ? env.ANTHROPIC_API_KEY
+    : provider === 'openai' ? env.OPENAI_API_KEY : undefined;
+
+  return {
+    provider,
+    model: env.MOVE_WHISPERER_LLM_MODEL || undefined,
+    apiKey,
+    baseUrl: env.MOVE_WHISPERER_LLM_BASE_URL || (provider === 'openai' ? env.OPENAI_BASE_URL : undefined) || undefined,
+    timeoutMs: Number(env.MOVE_WHISPERER_LLM_TIMEOUT_MS) || 120000,
+    maxTokens: Number(env.MOVE_WHISPERER_LLM_MAX_TOKENS) || 4096,
+    ...overrides,
+  };
+}
+
+/**
+ * Create a provider for the given configuration
+ */
+export function createLLMProvider(config: LLMConfig = loadLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'claude-cli':
+      return createClaudeCliProvider(config);
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+    default:
+      throw LLMError.unknownProvider(String(config.provider), LLM_PROVIDERS);
+  }
+}
+
+/**
+ * Set the provider used by the analyzer, chat and review flows
+ * (a config creates a new provider; null resets to the environment default)
+ */
+export function configureLLM(config: LLMConfig | LLMProvider | null): LLMProvider | null {
+  activeProvider = config && 'complete' in config ? config : config ? createLLMProvider(config) : null;
+  return activeProvider;
+}
+
+/**
+ * Get the active provider, creating one from the environment on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider();
+  }
+  return activeProvider;
+}
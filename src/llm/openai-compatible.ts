@@ -0,0 +1,102 @@
+/**
+ * Provider for any OpenAI-compatible `/chat/completions` endpoint
+ * (OpenAI, OpenRouter, vLLM, Ollama, LM Studio, ...)
+ */
+
+import { LLMError } from '../core/errors.js';
+import { BaseLLMProvider, readServerSentEvents } from './base.js';
+import type { LLMConfig, LLMDeltaHandler, LLMRequest, LLMResponse } from './types.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(config: LLMConfig) {
+    super(config, DEFAULT_MODEL);
+  }
+
+  /**
+   * Available when an API key is set or a custom (e.g. local) endpoint is configured
+   */
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.config.apiKey || this.config.baseUrl);
+  }
+
+  protected async generate(request: LLMRequest, onDelta?: LLMDeltaHandler): Promise<LLMResponse> {
+    if (!(await this.isAvailable())) {
+      throw LLMError.unavailable(this.name, 'set OPENAI_API_KEY or MOVE_WHISPERER_LLM_BASE_URL');
+    }
+
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages,
+    ];
+    const response = await this.post(
+      `${(this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')}/chat/completions`,
+      this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+        messages,
+        stream: Boolean(onDelta),
+        ...(onDelta ? { stream_options: { include_usage: true } } : {}),
+      },
+      request
+    );
+
+    if (!onDelta) {
+      const data = await response.json() as {
+        choices?: Array<{ message?: { content?: string }; finish_reason?: string }>;
+        usage?: ChatCompletionUsage;
+      };
+      return {
+        text: data.choices?.[0]?.message?.content ?? '',
+        provider: this.name,
+        model: this.model,
+        usage: { inputTokens: data.usage?.prompt_tokens ?? 0, outputTokens: data.usage?.completion_tokens ?? 0 },
+        stopReason: data.choices?.[0]?.finish_reason,
+      };
+    }
+
+    let text = '';
+    let usage: ChatCompletionUsage = {};
+    let stopReason: string | undefined;
+
+    for await (const event of readServerSentEvents(response.body!)) {
+      if (event.data === '[DONE]') break;
+      const data = JSON.parse(event.data) as {
+        choices?: Array<{ delta?: { content?: string }; finish_reason?: string | null }>;
+        usage?: ChatCompletionUsage | null;
+      };
+      const delta = data.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      stopReason = data.choices?.[0]?.finish_reason ?? stopReason;
+      usage = data.usage ?? usage;
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 },
+      stopReason,
+    };
+  }
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ */
+export function createOpenAICompatibleProvider(config: LLMConfig): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(config);
+}
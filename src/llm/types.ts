@@ -0,0 +1,73 @@
+/**
+ * LLM provider types shared by the analyzer, chat and review flows
+ */
+
+export type LLMProviderName = 'anthropic' | 'claude-cli' | 'openai' | 'mock';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['anthropic', 'claude-cli', 'openai', 'mock'];
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  /** System prompt (context the conversation is grounded in) */
+  system?: string;
+  /** Conversation so far, ending with the user turn to answer */
+  messages: LLMMessage[];
+  /** Upper bound on generated tokens (defaults to the provider config) */
+  maxTokens?: number;
+  /** Request timeout in ms (defaults to the provider config) */
+  timeoutMs?: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Counts were estimated from text length rather than reported by the provider */
+  estimated?: boolean;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  /** Why generation stopped, as reported by the provider */
+  stopReason?: string;
+}
+
+/** Receives generated text as it arrives */
+export type LLMDeltaHandler = (text: string) => void;
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /** Whether the provider can be used (credentials set, CLI installed, ...) */
+  isAvailable(): Promise<boolean>;
+  /** Generate a complete response */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /** Generate a response, reporting text deltas as they arrive */
+  stream(request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse>;
+  /** Tokens used by every request made through this provider */
+  getUsage(): LLMUsage & { requests: number };
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  /** Model id (provider default when omitted) */
+  model?: string;
+  /** API key for HTTP providers */
+  apiKey?: string;
+  /** Base URL for HTTP providers */
+  baseUrl?: string;
+  /** Default request timeout in ms */
+  timeoutMs: number;
+  /** Default upper bound on generated tokens */
+  maxTokens: number;
+  /** Working directory for the Claude CLI */
+  cwd?: string;
+}
@@ -3,3 +3,4 @@
  */
 
 export * from './type-mapper.js';
+export * from './languages.js';
@@ -0,0 +1,123 @@
+/**
+ * Per-language type tables for the TypeMapper
+ */
+
+import type { SuiMovePrimitiveType } from '../types/sui.js';
+
+/** Languages scripts and bindings can be generated in */
+export type TargetLanguage = 'typescript' | 'python' | 'rust';
+
+export const TARGET_LANGUAGES: TargetLanguage[] = ['typescript', 'python', 'rust'];
+
+/**
+ * How Move argument types are spelled in a target language
+ */
+export interface LanguageTypeTable {
+  primitives: Record<SuiMovePrimitiveType, string>;
+  /** `vector<u8>` */
+  bytes: string;
+  vector: (inner: string) => string;
+  option: (inner: string) => string;
+  /** `std::string::String` and `std::ascii::String` */
+  string: string;
+  /** `sui::object::ID` */
+  objectId: string;
+  /** An object passed by ID (owned, shared or by value) */
+  objectRef: string;
+  /** `sui::clock::Clock` */
+  clock: string;
+  /** `sui::tx_context::TxContext`, which callers never pass */
+  txContext: string;
+  typeParameter: (name: string) => string;
+}
+
+export const TYPESCRIPT_TYPES: LanguageTypeTable = {
+  primitives: {
+    Bool: 'boolean',
+    U8: 'number',
+    U16: 'number',
+    U32: 'number',
+    U64: 'bigint | string',
+    U128: 'bigint | string',
+    U256: 'bigint | string',
+    Address: 'string',
+    Signer: 'string',
+  },
+  bytes: 'Uint8Array | string',
+  vector: (inner) => (inner.includes('|') ? `(${inner})[]` : `${inner}[]`),
+  option: (inner) => `${inner} | null`,
+  string: 'string',
+  objectId: 'string',
+  objectRef: 'string',
+  clock: "'0x6'",
+  txContext: 'void',
+  typeParameter: (name) => name,
+};
+
+/** Types of pysui scripts (Python 3.10+) */
+export const PYTHON_TYPES: LanguageTypeTable = {
+  primitives: {
+    Bool: 'bool',
+    U8: 'int',
+    U16: 'int',
+    U32: 'int',
+    U64: 'int',
+    U128: 'int',
+    U256: 'int',
+    Address: 'str',
+    Signer: 'str',
+  },
+  bytes: 'bytes',
+  vector: (inner) => `list[${inner}]`,
+  option: (inner) => `Optional[${inner}]`,
+  string: 'str',
+  objectId: 'str',
+  objectRef: 'str',
+  clock: 'str',
+  txContext: 'None',
+  typeParameter: () => 'Any',
+};
+
+/** Types of sui-sdk programs */
+export const RUST_TYPES: LanguageTypeTable = {
+  primitives: {
+    Bool: 'bool',
+    U8: 'u8',
+    U16: 'u16',
+    U32: 'u32',
+    U64: 'u64',
+    U128: 'u128',
+    U256: 'U256',
+    Address: 'SuiAddress',
+    Signer: 'SuiAddress',
+  },
+  bytes: 'Vec<u8>',
+  vector: (inner) => `Vec<${inner}>`,
+  option: (inner) => `Option<${inner}>`,
+  string: 'String',
+  objectId: 'ObjectID',
+  objectRef: 'ObjectArg',
+  clock: 'ObjectArg',
+  txContext: '()',
+  typeParameter: (name) => name,
+};
+
+const TABLES: Record<TargetLanguage, LanguageTypeTable> = {
+  typescript: TYPESCRIPT_TYPES,
+  python: PYTHON_TYPES,
+  rust: RUST_TYPES,
+};
+
+/**
+ * Get the type table of a target language
+ */
+export function getLanguageTypeTable(language: TargetLanguage): LanguageTypeTable {
+  return TABLES[language];
+}
+
+/**
+ * Check if a string names a target language
+ */
+export function isTargetLanguage(value: string): value is TargetLanguage {
+  return (TARGET_LANGUAGES as string[]).includes(value);
+}
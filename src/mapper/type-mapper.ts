@@ -1,10 +1,11 @@
 /**
- * Move to TypeScript type mapper
+ * Move to TypeScript (or Python / Rust) type mapper
  */
 
 import type {
   SuiMoveNormalizedType,
   SuiMoveNormalizedStructType,
+  SuiMovePrimitiveType,
 } from '../types/sui.js';
 import type { MappedType } from '../types/skill.js';
 import {
@@ -17,15 +18,19 @@ import {
   WELL_KNOWN_TYPES,
 } from '../types/sui.js';
 import { TypeMappingError } from '../core/errors.js';
+import { getLanguageTypeTable, type LanguageTypeTable, type TargetLanguage } from './languages.js';
 
 /**
- * Type mapper for converting Move types to TypeScript
+ * Type mapper for converting Move types to TypeScript, or to another
+ * target language through its type table
  */
 export class TypeMapper {
   private typeParamNames: Map<number, string>;
+  private types: LanguageTypeTable;
 
-  constructor() {
+  constructor(language: TargetLanguage = 'typescript') {
     this.typeParamNames = new Map();
+    this.types = getLanguageTypeTable(language);
   }
 
   /**
@@ -86,51 +91,27 @@ export class TypeMapper {
    * Map primitive types
    */
   private mapPrimitive(type: string): MappedType {
-    const PRIMITIVE_MAP: Record<string, MappedType> = {
-      Bool: {
-        ts: 'boolean',
-        description: 'Boolean value',
-      },
-      U8: {
-        ts: 'number',
-        description: 'Unsigned 8-bit integer (0-255)',
-      },
-      U16: {
-        ts: 'number',
-        description: 'Unsigned 16-bit integer (0-65535)',
-      },
-      U32: {
-        ts: 'number',
-        description: 'Unsigned 32-bit integer',
-      },
-      U64: {
-        ts: 'bigint | string',
-        description: 'Unsigned 64-bit integer (use string for large values)',
-      },
-      U128: {
-        ts: 'bigint | string',
-        description: 'Unsigned 128-bit integer (use string)',
-      },
-      U256: {
-        ts: 'bigint | string',
-        description: 'Unsigned 256-bit integer (use string)',
-      },
-      Address: {
-        ts: 'string',
-        description: 'Sui address (0x...)',
-      },
-      Signer: {
-        ts: 'string',
-        description: 'Transaction signer address',
-      },
+    const PRIMITIVE_DESCRIPTIONS: Record<string, string> = {
+      Bool: 'Boolean value',
+      U8: 'Unsigned 8-bit integer (0-255)',
+      U16: 'Unsigned 16-bit integer (0-65535)',
+      U32: 'Unsigned 32-bit integer',
+      U64: 'Unsigned 64-bit integer (use string for large values)',
+      U128: 'Unsigned 128-bit integer (use string)',
+      U256: 'Unsigned 256-bit integer (use string)',
+      Address: 'Sui address (0x...)',
+      Signer: 'Transaction signer address',
     };
 
-    const mapped = PRIMITIVE_MAP[type];
-    if (!mapped) {
+    const description = PRIMITIVE_DESCRIPTIONS[type];
+    if (!description) {
       throw TypeMappingError.unsupportedType(type);
     }
 
-    return mapped;
+    return {
+      ts: this.types.primitives[type as SuiMovePrimitiveType],
+      description,
+    };
   }
 
   /**
@@ -140,14 +121,14 @@ export class TypeMapper {
     // Special case: vector<u8> is often bytes
     if (isPrimitive(innerType) && innerType === 'U8') {
       return {
-        ts: 'Uint8Array | string',
+        ts: this.types.bytes,
         description: 'Byte array or hex string',
       };
     }
 
     const inner = this.mapTypeInternal(innerType);
     return {
-      ts: `${inner.ts}[]`,
+      ts: this.types.vector(inner.ts),
       description: `Array of ${inner.description.toLowerCase()}`,
     };
   }
@@ -171,7 +152,7 @@ export class TypeMapper {
     const typeArgsStr = typeArgs.length > 0 ? `<${typeArgs.join(', ')}>` : '';
 
     return {
-      ts: 'string',
+      ts: this.types.objectRef,
       description: `${struct.name}${typeArgsStr} object ID`,
       isObjectRef: true,
       moveType: `${struct.module}::${struct.name}${typeArgsStr}`,
@@ -191,7 +172,7 @@ export class TypeMapper {
       const coinType = struct.typeArguments[0];
       const coinTypeStr = coinType ? this.formatMoveType(coinType) : 'unknown';
       return {
-        ts: 'string',
+        ts: this.types.objectRef,
         description: `Coin<${coinTypeStr}> object ID - pass the object ID of a Coin you own`,
         isObjectRef: true,
         moveType: `coin::Coin<${coinTypeStr}>`,
@@ -201,7 +182,7 @@ export class TypeMapper {
     // Clock type
     if (this.isType(struct, WELL_KNOWN_TYPES.CLOCK)) {
       return {
-        ts: "'0x6'",
+        ts: this.types.clock,
         description: 'System clock object - always pass "0x6"',
         isSystemObject: true,
         defaultValue: '0x6',
@@ -211,7 +192,7 @@ export class TypeMapper {
     // TxContext type
     if (this.isType(struct, WELL_KNOWN_TYPES.TX_CONTEXT)) {
       return {
-        ts: 'void',
+        ts: this.types.txContext,
         description: 'Transaction context - automatically injected, do not pass',
         isAutoInjected: true,
       };
@@ -220,7 +201,7 @@ export class TypeMapper {
     // Object ID type
     if (this.isType(struct, WELL_KNOWN_TYPES.OBJECT_ID)) {
       return {
-        ts: 'string',
+        ts: this.types.objectId,
         description: 'Object ID (0x...)',
       };
     }
@@ -231,7 +212,7 @@ export class TypeMapper {
       this.isType(struct, WELL_KNOWN_TYPES.ASCII_STRING)
     ) {
       return {
-        ts: 'string',
+        ts: this.types.string,
         description: 'UTF-8 string',
       };
     }
@@ -242,12 +223,12 @@ export class TypeMapper {
       if (innerType) {
         const inner = this.mapTypeInternal(innerType);
         return {
-          ts: `${inner.ts} | null`,
+          ts: this.types.option(inner.ts),
           description: `Optional ${inner.description.toLowerCase()}`,
         };
       }
       return {
-        ts: 'unknown | null',
+        ts: this.types.option(this.types.typeParameter('T')),
         description: 'Optional value',
       };
     }
@@ -261,7 +242,7 @@ export class TypeMapper {
   private mapTypeParameter(index: number): MappedType {
     const name = this.typeParamNames.get(index) ?? `T${index}`;
     return {
-      ts: name,
+      ts: this.types.typeParameter(name),
       description: `Type parameter ${name}`,
     };
   }
@@ -424,8 +405,8 @@ export class TypeMapper {
 /**
  * Create a type mapper instance
  */
-export function createTypeMapper(): TypeMapper {
-  return new TypeMapper();
+export function createTypeMapper(language: TargetLanguage = 'typescript'): TypeMapper {
+  return new TypeMapper(language);
 }
 
 /**
@@ -0,0 +1,8 @@
+/**
+ * Move source parser
+ * Tokenizer and typed AST shared by the CLI analyzers and the web API routes
+ */
+
+export * from './types.js';
+export * from './tokenizer.js';
+export * from './parser.js';
@@ -0,0 +1,975 @@
+/**
+ * Move 2024 parser
+ * Recursive-descent parser for module declarations. It is error tolerant:
+ * unrecognised items are skipped and reported as diagnostics, so it also
+ * copes with disassembled bytecode listings returned by the RPC.
+ */
+
+import { tokenize } from './tokenizer.js';
+import type {
+  Token,
+  Span,
+  ParseDiagnostic,
+  TypeNode,
+  TypeParameter,
+  MoveAbility,
+  FunctionVisibility,
+  Attribute,
+  UseDecl,
+  UseMember,
+  UseFunDecl,
+  FriendDecl,
+  FieldDecl,
+  StructDecl,
+  EnumDecl,
+  EnumVariant,
+  ParamDecl,
+  FunctionDecl,
+  FunctionBody,
+  CallSite,
+  AbortSite,
+  ConstantDecl,
+  ModuleDecl,
+  MoveFile,
+} from './types.js';
+
+const ABILITIES = new Set<string>(['copy', 'drop', 'store', 'key']);
+
+const ITEM_KEYWORDS = new Set([
+  'use', 'friend', 'const', 'struct', 'enum', 'fun', 'public', 'entry', 'native', 'macro', 'spec', 'module',
+]);
+
+// Identifiers followed by `(` that are control flow, not calls
+const EXPRESSION_KEYWORDS = new Set([
+  'if', 'else', 'while', 'loop', 'return', 'abort', 'let', 'mut', 'match', 'move', 'copy', 'break', 'continue', 'as',
+]);
+
+interface Modifiers {
+  visibility: FunctionVisibility;
+  isEntry: boolean;
+  isNative: boolean;
+  isMacro: boolean;
+}
+
+/**
+ * Parse a Move source file (or disassembled module listing) into an AST
+ */
+export function parseMoveFile(source: string): MoveFile {
+  return new Parser(source, tokenize(source)).parseFile();
+}
+
+class Parser {
+  private pos = 0;
+  private diagnostics: ParseDiagnostic[] = [];
+
+  constructor(private source: string, private tokens: Token[]) {}
+
+  parseFile(): MoveFile {
+    const modules: ModuleDecl[] = [];
+
+    while (!this.atEof()) {
+      const first = this.peek();
+      const attributes = this.parseAttributes();
+
+      if (this.isIdent('module')) {
+        modules.push(this.parseModule('', attributes, first));
+      } else if (this.isIdent('address')) {
+        modules.push(...this.parseAddressBlock());
+      } else {
+        this.error(`Expected module declaration, found "${this.peek().value}"`);
+        this.recover();
+      }
+    }
+
+    return { modules, diagnostics: this.diagnostics };
+  }
+
+  // ============ Modules ============
+
+  /**
+   * Legacy `address 0x2 { module a { ... } ... }` block
+   */
+  private parseAddressBlock(): ModuleDecl[] {
+    this.next(); // address
+    const address = this.next().value;
+    const modules: ModuleDecl[] = [];
+
+    if (!this.eatPunct('{')) {
+      this.error('Expected "{" after address');
+      return modules;
+    }
+
+    while (!this.atEof() && !this.isPunct('}')) {
+      const first = this.peek();
+      const attributes = this.parseAttributes();
+      if (this.isIdent('module')) {
+        modules.push(this.parseModule(address, attributes, first));
+      } else {
+        this.error(`Expected module declaration, found "${this.peek().value}"`);
+        this.recover();
+      }
+    }
+    this.eatPunct('}');
+
+    return modules;
+  }
+
+  private parseModule(enclosingAddress: string, attributes: Attribute[], first: Token): ModuleDecl {
+    this.next(); // module
+
+    // `addr::name`, `name` (inside an address block) or `addr.name` (disassembly)
+    let address = enclosingAddress;
+    let name = this.next().value;
+    if (this.isPunct('::') || this.isPunct('.')) {
+      this.next();
+      address = name;
+      name = this.next().value;
+    }
+
+    const module: ModuleDecl = {
+      address,
+      name,
+      isLabel: false,
+      attributes,
+      doc: first.doc,
+      uses: [],
+      useFuns: [],
+      friends: [],
+      structs: [],
+      enums: [],
+      functions: [],
+      constants: [],
+      span: { start: first.start, end: first.end, line: first.line },
+    };
+
+    if (this.eatPunct(';')) {
+      module.isLabel = true;
+    } else if (!this.eatPunct('{')) {
+      this.error(`Expected "{" or ";" after module ${name}`);
+    }
+
+    for (;;) {
+      if (this.atEof()) {
+        if (!module.isLabel) this.error(`Unclosed module ${name}`);
+        break;
+      }
+      if (!module.isLabel && this.eatPunct('}')) break;
+      // A label module runs until the next module declaration
+      if (module.isLabel && this.isIdent('module')) break;
+
+      const itemStart = this.peek();
+      const itemAttributes = this.parseAttributes();
+      if (!this.parseItem(module, itemAttributes, itemStart)) {
+        this.error(`Unexpected "${this.peek().value}" in module ${name}`);
+        this.recover();
+      }
+    }
+
+    module.span = this.spanFrom(first);
+    return module;
+  }
+
+  /**
+   * Parse one module member; returns false when nothing was recognised
+   */
+  private parseItem(module: ModuleDecl, attributes: Attribute[], first: Token): boolean {
+    if (this.isIdent('use')) {
+      if (this.peekAt(1).value === 'fun') {
+        module.useFuns.push(this.parseUseFun(false, first));
+      } else {
+        module.uses.push(this.parseUse(first));
+      }
+      return true;
+    }
+
+    if (this.isIdent('friend')) {
+      module.friends.push(this.parseFriend(first));
+      return true;
+    }
+
+    if (this.isIdent('const')) {
+      module.constants.push(this.parseConstant(attributes, first));
+      return true;
+    }
+
+    if (this.isIdent('spec')) {
+      // Prover specifications carry no ABI information
+      while (!this.atEof() && !this.isPunct('{') && !this.isPunct(';')) this.next();
+      if (this.isPunct('{')) this.skipBalanced();
+      else this.next();
+      return true;
+    }
+
+    // Disassembly listings end with a `Constants [ ... ]` table
+    if (this.isIdent('Constants') && this.peekAt(1).value === '[') {
+      this.next();
+      this.skipBalanced();
+      return true;
+    }
+
+    const modifiers = this.parseModifiers();
+
+    if (this.isIdent('fun')) {
+      module.functions.push(this.parseFunction(modifiers, attributes, first));
+      return true;
+    }
+    if (this.isIdent('struct')) {
+      module.structs.push(this.parseStruct(modifiers, attributes, first));
+      return true;
+    }
+    if (this.isIdent('enum')) {
+      module.enums.push(this.parseEnum(modifiers, attributes, first));
+      return true;
+    }
+    if (this.isIdent('use') && this.peekAt(1).value === 'fun') {
+      module.useFuns.push(this.parseUseFun(modifiers.visibility !== 'private', first));
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Parse `public`, `public(package)`, `public(friend)`, `entry`, `native`, `macro` in any order
+   */
+  private parseModifiers(): Modifiers {
+    const modifiers: Modifiers = { visibility: 'private', isEntry: false, isNative: false, isMacro: false };
+
+    for (;;) {
+      if (this.isIdent('public')) {
+        this.next();
+        modifiers.visibility = 'public';
+        if (this.isPunct('(')) {
+          this.next();
+          const scope = this.next().value;
+          modifiers.visibility = scope === 'package' ? 'package' : scope === 'friend' ? 'friend' : 'public';
+          this.expectPunct(')');
+        }
+      } else if (this.isIdent('entry')) {
+        this.next();
+        modifiers.isEntry = true;
+      } else if (this.isIdent('native')) {
+        this.next();
+        modifiers.isNative = true;
+      } else if (this.isIdent('macro')) {
+        this.next();
+        modifiers.isMacro = true;
+      } else {
+        return modifiers;
+      }
+    }
+  }
+
+  // ============ Attributes ============
+
+  private parseAttributes(): Attribute[] {
+    const attributes: Attribute[] = [];
+
+    while (this.isPunct('#') && this.peekAt(1).value === '[') {
+      this.next();
+      this.next();
+      while (!this.atEof() && !this.isPunct(']')) {
+        const name = this.next().value;
+        let args: string | undefined;
+        if (this.isPunct('(')) {
+          const open = this.peek();
+          this.skipBalanced();
+          args = this.source.slice(open.end, this.tokens[this.pos - 1].start).trim();
+        } else if (this.eatPunct('=')) {
+          args = this.next().value;
+        }
+        attributes.push(args !== undefined ? { name, args } : { name });
+        if (!this.eatPunct(',')) break;
+      }
+      this.expectPunct(']');
+    }
+
+    return attributes;
+  }
+
+  // ============ Uses and friends ============
+
+  /**
+   * `use addr::module;`, `use addr::module::{Self, Member as Alias};`, `use addr::{a, b::C};`
+   */
+  private parseUse(first: Token): UseDecl {
+    this.next(); // use
+    const address = this.next().value;
+    const members: UseMember[] = [];
+    this.expectPunct('::');
+
+    if (this.isPunct('{')) {
+      this.next();
+      while (!this.atEof() && !this.isPunct('}')) {
+        members.push(...this.parseUseModule());
+        if (!this.eatPunct(',')) break;
+      }
+      this.expectPunct('}');
+    } else {
+      members.push(...this.parseUseModule());
+    }
+    this.expectPunct(';');
+
+    return { kind: 'use', address, members, span: this.spanFrom(first) };
+  }
+
+  private parseUseModule(): UseMember[] {
+    const module = this.next().value;
+
+    if (!this.eatPunct('::')) {
+      return [{ module, alias: this.parseAlias() ?? module }];
+    }
+
+    const members: UseMember[] = [];
+    const pushMember = () => {
+      const member = this.next().value;
+      const alias = this.parseAlias();
+      if (member === 'Self') {
+        members.push({ module, alias: alias ?? module });
+      } else {
+        members.push({ module, member, alias: alias ?? member });
+      }
+    };
+
+    if (this.isPunct('{')) {
+      this.next();
+      while (!this.atEof() && !this.isPunct('}')) {
+        pushMember();
+        if (!this.eatPunct(',')) break;
+      }
+      this.expectPunct('}');
+    } else {
+      pushMember();
+    }
+
+    return members;
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.isIdent('as')) {
+      this.next();
+      return this.next().value;
+    }
+    return undefined;
+  }
+
+  /**
+   * `use fun path::to::fn as Type.method;`
+   */
+  private parseUseFun(isPublic: boolean, first: Token): UseFunDecl {
+    this.next(); // use
+    this.next(); // fun
+    const path = this.parsePath();
+    let type = '';
+    let method = '';
+    if (this.isIdent('as')) {
+      this.next();
+      type = this.parsePath().join('::');
+      if (this.eatPunct('.')) {
+        method = this.next().value;
+      }
+    }
+    this.expectPunct(';');
+
+    return { kind: 'use-fun', path, type, method, isPublic, span: this.spanFrom(first) };
+  }
+
+  private parseFriend(first: Token): FriendDecl {
+    this.next(); // friend
+    const path = this.parsePath();
+    this.expectPunct(';');
+    return { path, span: this.spanFrom(first) };
+  }
+
+  // ============ Constants ============
+
+  private parseConstant(attributes: Attribute[], first: Token): ConstantDecl {
+    this.next(); // const
+    const name = this.next().value;
+    this.expectPunct(':');
+    const type = this.parseType();
+    this.expectPunct('=');
+
+    const valueStart = this.pos;
+    this.skipUntilTopLevel(';');
+    const valueTokens = this.tokens.slice(valueStart, this.pos);
+    this.expectPunct(';');
+
+    const valueText = valueTokens.length > 0
+      ? this.source.slice(valueTokens[0].start, valueTokens[valueTokens.length - 1].end)
+      : '';
+    const numericValue = valueTokens.length === 1 && valueTokens[0].kind === 'number'
+      ? parseIntegerLiteral(valueTokens[0].value)
+      : undefined;
+
+    return {
+      name,
+      attributes,
+      doc: first.doc,
+      type,
+      valueText,
+      numericValue,
+      span: this.spanFrom(first),
+    };
+  }
+
+  // ============ Structs and enums ============
+
+  private parseStruct(modifiers: Modifiers, attributes: Attribute[], first: Token): StructDecl {
+    this.next(); // struct
+    const name = this.next().value;
+    const typeParams = this.parseTypeParams();
+    let abilities = this.parseAbilities();
+    let fields: FieldDecl[] = [];
+    let isPositional = false;
+
+    if (this.isPunct('{')) {
+      fields = this.parseNamedFields();
+    } else if (this.isPunct('(')) {
+      fields = this.parsePositionalFields();
+      isPositional = true;
+    }
+
+    // Postfix abilities (Move 2024): `struct S(u64) has copy, drop;`
+    if (this.isIdent('has')) {
+      abilities = this.parseAbilities();
+    }
+    this.eatPunct(';');
+
+    return {
+      name,
+      attributes,
+      doc: first.doc,
+      isPublic: modifiers.visibility !== 'private',
+      typeParams,
+      abilities,
+      fields,
+      isPositional,
+      isNative: modifiers.isNative,
+      span: this.spanFrom(first),
+    };
+  }
+
+  private parseEnum(modifiers: Modifiers, attributes: Attribute[], first: Token): EnumDecl {
+    this.next(); // enum
+    const name = this.next().value;
+    const typeParams = this.parseTypeParams();
+    const abilities = this.parseAbilities();
+    const variants: EnumVariant[] = [];
+
+    if (this.eatPunct('{')) {
+      while (!this.atEof() && !this.isPunct('}')) {
+        const variantName = this.next().value;
+        let fields: FieldDecl[] = [];
+        let isPositional = false;
+        if (this.isPunct('{')) {
+          fields = this.parseNamedFields();
+        } else if (this.isPunct('(')) {
+          fields = this.parsePositionalFields();
+          isPositional = true;
+        }
+        variants.push({ name: variantName, fields, isPositional });
+        if (!this.eatPunct(',')) break;
+      }
+      this.expectPunct('}');
+    }
+
+    return {
+      name,
+      attributes,
+      doc: first.doc,
+      isPublic: modifiers.visibility !== 'private',
+      typeParams,
+      abilities,
+      variants,
+      span: this.spanFrom(first),
+    };
+  }
+
+  private parseNamedFields(): FieldDecl[] {
+    const fields: FieldDecl[] = [];
+    this.expectPunct('{');
+    while (!this.atEof() && !this.isPunct('}')) {
+      const name = this.next().value;
+      this.expectPunct(':');
+      fields.push({ name, type: this.parseType() });
+      if (!this.eatPunct(',')) break;
+    }
+    this.expectPunct('}');
+    return fields;
+  }
+
+  private parsePositionalFields(): FieldDecl[] {
+    const fields: FieldDecl[] = [];
+    this.expectPunct('(');
+    while (!this.atEof() && !this.isPunct(')')) {
+      fields.push({ name: `pos${fields.length}`, type: this.parseType() });
+      if (!this.eatPunct(',')) break;
+    }
+    this.expectPunct(')');
+    return fields;
+  }
+
+  private parseAbilities(): MoveAbility[] {
+    if (!this.isIdent('has')) return [];
+    this.next();
+
+    const abilities: MoveAbility[] = [];
+    do {
+      const ability = this.next().value;
+      if (ABILITIES.has(ability)) {
+        abilities.push(ability as MoveAbility);
+      } else {
+        this.error(`Unknown ability "${ability}"`);
+      }
+    } while (this.eatPunct(','));
+
+    return abilities;
+  }
+
+  // ============ Functions ============
+
+  private parseFunction(modifiers: Modifiers, attributes: Attribute[], first: Token): FunctionDecl {
+    this.next(); // fun
+    const name = this.next().value;
+    const typeParams = this.parseTypeParams();
+
+    const params: ParamDecl[] = [];
+    this.expectPunct('(');
+    while (!this.atEof() && !this.isPunct(')')) {
+      const isMut = this.isIdent('mut');
+      if (isMut) this.next();
+      const paramName = this.next().value;
+      this.expectPunct(':');
+      params.push({ name: paramName, type: this.parseType(), isMut });
+      if (!this.eatPunct(',')) break;
+    }
+    this.expectPunct(')');
+
+    let returns: TypeNode[] = [];
+    if (this.eatPunct(':')) {
+      const returnType = this.parseType();
+      returns = returnType.kind === 'tuple' ? returnType.elements : [returnType];
+    }
+
+    let body: FunctionBody | undefined;
+    if (this.isPunct('{')) {
+      body = this.parseBody();
+    } else {
+      this.expectPunct(';');
+    }
+
+    return {
+      name,
+      attributes,
+      doc: first.doc,
+      visibility: modifiers.visibility,
+      isEntry: modifiers.isEntry,
+      isNative: modifiers.isNative,
+      isMacro: modifiers.isMacro,
+      typeParams,
+      params,
+      returns,
+      body,
+      span: this.spanFrom(first),
+    };
+  }
+
+  /**
+   * Skip a function body, collecting call and abort sites on the way
+   */
+  private parseBody(): FunctionBody {
+    const open = this.peek();
+    const startIndex = this.pos;
+    this.skipBalanced();
+    const endIndex = this.pos;
+
+    const calls: CallSite[] = [];
+    const aborts: AbortSite[] = [];
+    const tokens = this.tokens;
+
+    for (let i = startIndex + 1; i < endIndex - 1; i++) {
+      const token = tokens[i];
+      if (token.kind !== 'ident') continue;
+      const prev = tokens[i - 1];
+      if (prev.value === '::') continue; // middle of a path
+
+      if (token.value === 'abort') {
+        const code = tokens[i + 1];
+        const guard = readIfCondition(this.source, tokens, i);
+        aborts.push({
+          kind: 'abort',
+          code: code.kind === 'ident' || code.kind === 'number' ? readPath(tokens, i + 1).join('::') : undefined,
+          condition: guard === undefined ? undefined : `!(${guard})`,
+          line: token.line,
+        });
+        continue;
+      }
+
+      // Macro invocation: name!(...)
+      if (tokens[i + 1].value === '!' && tokens[i + 2].value === '(') {
+        calls.push({ path: [token.value], isMethod: prev.value === '.', isMacro: true, line: token.line });
+        if (token.value === 'assert') {
+          const [condition, code] = readArguments(this.source, tokens, i + 2);
+          aborts.push({ kind: 'assert', code, condition, line: token.line });
+        }
+        continue;
+      }
+
+      if (EXPRESSION_KEYWORDS.has(token.value)) continue;
+
+      const path = readPath(tokens, i);
+      let after = i + path.length * 2 - 1;
+      if (tokens[after].value === '<') {
+        after = skipTypeArguments(tokens, after);
+      }
+      if (after === -1 || tokens[after].value !== '(') continue;
+
+      // Uppercase names are struct/variant constructors, not calls
+      if (/^[A-Z]/.test(path[path.length - 1])) continue;
+
+      if (prev.value === '.') {
+        calls.push({ path, isMethod: true, receiver: readReceiver(tokens, i - 1), isMacro: false, line: token.line });
+      } else {
+        calls.push({ path, isMethod: false, isMacro: false, line: token.line });
+      }
+    }
+
+    return {
+      text: this.source.slice(open.start, tokens[endIndex - 1].end),
+      calls,
+      aborts,
+      span: { start: open.start, end: tokens[endIndex - 1].end, line: open.line },
+    };
+  }
+
+  // ============ Types ============
+
+  private parseTypeParams(): TypeParameter[] {
+    const params: TypeParameter[] = [];
+    if (!this.eatPunct('<')) return params;
+
+    while (!this.atEof() && !this.isPunct('>')) {
+      const isPhantom = this.isIdent('phantom');
+      if (isPhantom) this.next();
+      const name = this.next().value;
+      const constraints: string[] = [];
+      if (this.eatPunct(':')) {
+        do {
+          constraints.push(this.next().value);
+        } while (this.eatPunct('+'));
+      }
+      params.push({ name, constraints, isPhantom });
+      if (!this.eatPunct(',')) break;
+    }
+    this.expectPunct('>');
+
+    return params;
+  }
+
+  private parseType(): TypeNode {
+    if (this.eatPunct('&')) {
+      const mutable = this.isIdent('mut');
+      if (mutable) this.next();
+      return { kind: 'ref', mutable, inner: this.parseType() };
+    }
+
+    if (this.eatPunct('(')) {
+      const elements: TypeNode[] = [];
+      let trailingComma = false;
+      while (!this.atEof() && !this.isPunct(')')) {
+        elements.push(this.parseType());
+        trailingComma = this.eatPunct(',');
+        if (!trailingComma) break;
+      }
+      this.expectPunct(')');
+      return elements.length === 1 && !trailingComma ? elements[0] : { kind: 'tuple', elements };
+    }
+
+    if (this.isPunct('|') || this.isPunct('||')) {
+      const params: TypeNode[] = [];
+      if (this.next().value === '|') {
+        while (!this.atEof() && !this.isPunct('|')) {
+          params.push(this.parseType());
+          if (!this.eatPunct(',')) break;
+        }
+        this.expectPunct('|');
+      }
+      const returns: TypeNode = this.eatPunct('->') ? this.parseType() : { kind: 'tuple', elements: [] };
+      return { kind: 'lambda', params, returns };
+    }
+
+    const path = this.parsePath();
+    const typeArgs: TypeNode[] = [];
+    if (this.eatPunct('<')) {
+      while (!this.atEof() && !this.isPunct('>')) {
+        typeArgs.push(this.parseType());
+        if (!this.eatPunct(',')) break;
+      }
+      this.expectPunct('>');
+    }
+
+    return { kind: 'path', path, typeArgs };
+  }
+
+  private parsePath(): string[] {
+    const path = [this.next().value];
+    while (this.isPunct('::')) {
+      this.next();
+      path.push(this.next().value);
+    }
+    return path;
+  }
+
+  // ============ Token helpers ============
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
+
+  private atEof(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  private isIdent(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'ident' && token.value === value;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.value === value;
+  }
+
+  private eatPunct(value: string): boolean {
+    if (this.isPunct(value)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.eatPunct(value)) {
+      this.error(`Expected "${value}", found "${this.peek().value || 'end of file'}"`);
+    }
+  }
+
+  private isItemStart(): boolean {
+    const token = this.peek();
+    if (token.kind === 'punct') return token.value === '#' && this.peekAt(1).value === '[';
+    return token.kind === 'ident' && ITEM_KEYWORDS.has(token.value);
+  }
+
+  /**
+   * Skip a balanced (), [] or {} group starting at the current token
+   */
+  private skipBalanced(): void {
+    let depth = 0;
+    do {
+      const token = this.next();
+      if (token.kind === 'eof') return;
+      if (token.kind !== 'punct') continue;
+      if (token.value === '{' || token.value === '(' || token.value === '[') depth++;
+      else if (token.value === '}' || token.value === ')' || token.value === ']') depth--;
+    } while (depth > 0);
+  }
+
+  /**
+   * Advance to the next `terminator` that is not nested in brackets
+   */
+  private skipUntilTopLevel(terminator: string): void {
+    while (!this.atEof() && !this.isPunct(terminator)) {
+      if (this.isPunct('{') || this.isPunct('(') || this.isPunct('[')) {
+        this.skipBalanced();
+      } else if (this.isPunct('}')) {
+        return;
+      } else {
+        this.next();
+      }
+    }
+  }
+
+  /**
+   * Skip past an unrecognised item: to the end of its statement or block,
+   * the next item keyword, or the closing brace of the enclosing module
+   */
+  private recover(): void {
+    const startPos = this.pos;
+    let depth = 0;
+
+    while (!this.atEof()) {
+      const token = this.peek();
+      if (depth === 0 && this.pos > startPos && (this.isPunct('}') || this.isItemStart())) {
+        return;
+      }
+
+      if (token.kind === 'punct' && (token.value === '{' || token.value === '(' || token.value === '[')) {
+        depth++;
+      } else if (token.kind === 'punct' && (token.value === '}' || token.value === ')' || token.value === ']')) {
+        depth--;
+        if (depth < 0) {
+          if (this.pos === startPos) this.pos++;
+          return;
+        }
+      }
+
+      this.pos++;
+      if (depth === 0 && (token.value === ';' || token.value === '}')) {
+        return;
+      }
+    }
+  }
+
+  private spanFrom(first: Token): Span {
+    const last = this.tokens[Math.max(this.pos - 1, 0)];
+    return { start: first.start, end: Math.max(last.end, first.end), line: first.line };
+  }
+
+  private error(message: string): void {
+    const token = this.peek();
+    this.diagnostics.push({ message, line: token.line, column: token.column });
+  }
+}
+
+/**
+ * Read `a::b::c` starting at token index `start`
+ */
+function readPath(tokens: Token[], start: number): string[] {
+  const path = [tokens[start].value];
+  let i = start + 1;
+  while (tokens[i].value === '::' && tokens[i + 1].kind === 'ident') {
+    path.push(tokens[i + 1].value);
+    i += 2;
+  }
+  return path;
+}
+
+/**
+ * Receiver before the `.` of a method call as a chain of names
+ * (`pool.reserve` in `pool.reserve.join(b)`), or undefined for other
+ * expressions such as call results
+ */
+function readReceiver(tokens: Token[], dot: number): string[] | undefined {
+  const chain: string[] = [];
+  let i = dot - 1;
+  for (;;) {
+    if (tokens[i]?.kind !== 'ident') return undefined;
+    chain.unshift(tokens[i].value);
+    if (tokens[i - 1]?.value !== '.') break;
+    i -= 2;
+  }
+  return tokens[i - 1]?.value === '::' ? undefined : chain;
+}
+
+/**
+ * Given the index of a `<`, return the index after the matching `>` if the
+ * group only contains type syntax, or -1 when it is a comparison
+ */
+function skipTypeArguments(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.value === '<') depth++;
+    else if (token.value === '>') {
+      depth--;
+      if (depth === 0) return i + 1;
+    } else if (token.kind !== 'ident' && !['::', ',', '&'].includes(token.value)) {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Text of each top-level argument of the call whose `(` is at `open`
+ */
+function readArguments(source: string, tokens: Token[], open: number): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let argStart = open + 1;
+  for (let i = open; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'eof') break;
+    if (token.value === '(' || token.value === '[' || token.value === '{') depth++;
+    else if (token.value === ')' || token.value === ']' || token.value === '}') {
+      depth--;
+      if (depth === 0) {
+        if (i > argStart) args.push(source.slice(tokens[argStart].start, tokens[i - 1].end).trim());
+        break;
+      }
+    } else if (token.value === ',' && depth === 1) {
+      args.push(source.slice(tokens[argStart].start, tokens[i - 1].end).trim());
+      argStart = i + 1;
+    }
+  }
+  return args;
+}
+
+/**
+ * Condition text of an `if (cond) abort` / `if (cond) { abort` guarding the `abort` at `index`
+ */
+function readIfCondition(source: string, tokens: Token[], index: number): string | undefined {
+  let i = index - 1;
+  if (tokens[i]?.value === '{') i--;
+  if (tokens[i]?.value !== ')') return undefined;
+
+  const close = i;
+  let depth = 0;
+  for (; i >= 0; i--) {
+    if (tokens[i].value === ')') depth++;
+    else if (tokens[i].value === '(' && --depth === 0) break;
+  }
+  if (i <= 0 || tokens[i - 1].value !== 'if') return undefined;
+  return source.slice(tokens[i + 1].start, tokens[close - 1].end).trim();
+}
+
+/**
+ * Parse a Move integer literal (`42`, `0x2a`, `1_000u64`)
+ */
+export function parseIntegerLiteral(text: string): bigint | undefined {
+  const clean = text.replace(/_/g, '').replace(/u(8|16|32|64|128|256)$/, '');
+  if (/^0x[0-9a-fA-F]+$/.test(clean) || /^[0-9]+$/.test(clean)) {
+    return BigInt(clean);
+  }
+  return undefined;
+}
+
+/**
+ * Render a type node back to Move syntax
+ */
+export function typeToString(type: TypeNode): string {
+  switch (type.kind) {
+    case 'ref':
+      return `&${type.mutable ? 'mut ' : ''}${typeToString(type.inner)}`;
+    case 'tuple':
+      return `(${type.elements.map(typeToString).join(', ')})`;
+    case 'lambda': {
+      const returns = type.returns.kind === 'tuple' && type.returns.elements.length === 0
+        ? ''
+        : ` -> ${typeToString(type.returns)}`;
+      return `|${type.params.map(typeToString).join(', ')}|${returns}`;
+    }
+    case 'path': {
+      const args = type.typeArgs.length > 0 ? `<${type.typeArgs.map(typeToString).join(', ')}>` : '';
+      return `${type.path.join('::')}${args}`;
+    }
+  }
+}
+
+/**
+ * Whether an item is compiled only for tests
+ */
+export function isTestOnly(item: { attributes: Attribute[] }): boolean {
+  return item.attributes.some((a) => a.name === 'test_only' || a.name === 'test');
+}
@@ -0,0 +1,139 @@
+/**
+ * Move tokenizer
+ * Produces identifiers, numbers, strings and punctuation; comments are dropped
+ * and doc comments are attached to the token that follows them.
+ */
+
+import type { Token } from './types.js';
+
+// Longest first so `::` wins over `:`
+const MULTI_CHAR_PUNCT = ['::', '->', '=>', '==', '!=', '&&', '||', '..'];
+
+const IDENT_START = /[A-Za-z_$]/;
+const IDENT_PART = /[A-Za-z0-9_]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * Split Move source into tokens (always ends with an `eof` token)
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  let pendingDoc: string[] = [];
+
+  const advanceTo = (target: number) => {
+    for (let i = pos; i < target; i++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    pos = target;
+  };
+
+  const push = (kind: Token['kind'], start: number, end: number, startLine: number, startColumn: number) => {
+    const token: Token = {
+      kind,
+      value: source.slice(start, end),
+      start,
+      end,
+      line: startLine,
+      column: startColumn,
+    };
+    if (pendingDoc.length > 0) {
+      token.doc = pendingDoc.join('\n');
+      pendingDoc = [];
+    }
+    tokens.push(token);
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const next = source[pos + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      advanceTo(pos + 1);
+      continue;
+    }
+
+    // Line comments (`///` is a doc comment)
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', pos);
+      const stop = end === -1 ? source.length : end;
+      if (source[pos + 2] === '/' && source[pos + 3] !== '/') {
+        pendingDoc.push(source.slice(pos + 3, stop).trim());
+      }
+      advanceTo(stop);
+      continue;
+    }
+
+    // Block comments (`/** */` is a doc comment)
+    if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', pos + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      if (source[pos + 2] === '*' && source[pos + 3] !== '/') {
+        const text = source
+          .slice(pos + 3, end === -1 ? source.length : end)
+          .split('\n')
+          .map((l) => l.replace(/^\s*\*?\s?/, '').trimEnd())
+          .join('\n')
+          .trim();
+        if (text) pendingDoc.push(text);
+      }
+      advanceTo(stop);
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+    const startColumn = pos - lineStart + 1;
+
+    // Byte strings (b"..."), hex strings (x"...") and plain strings
+    if (ch === '"' || ((ch === 'b' || ch === 'x') && next === '"')) {
+      let i = ch === '"' ? pos + 1 : pos + 2;
+      while (i < source.length && source[i] !== '"') {
+        i += source[i] === '\\' ? 2 : 1;
+      }
+      advanceTo(Math.min(i + 1, source.length));
+      push('string', start, pos, startLine, startColumn);
+      continue;
+    }
+
+    // Identifiers (including `$name` macro parameters)
+    if (IDENT_START.test(ch)) {
+      let i = pos + 1;
+      while (i < source.length && IDENT_PART.test(source[i])) i++;
+      advanceTo(i);
+      push('ident', start, pos, startLine, startColumn);
+      continue;
+    }
+
+    // Numbers: decimal, hex, type suffixes (100u64) and the zero-padded
+    // hex addresses printed by the disassembler (000...0dee9)
+    if (DIGIT.test(ch)) {
+      let i = pos + 1;
+      while (i < source.length && IDENT_PART.test(source[i])) i++;
+      advanceTo(i);
+      push('number', start, pos, startLine, startColumn);
+      continue;
+    }
+
+    const multi = MULTI_CHAR_PUNCT.find((p) => source.startsWith(p, pos));
+    advanceTo(pos + (multi ? multi.length : 1));
+    push('punct', start, pos, startLine, startColumn);
+  }
+
+  tokens.push({
+    kind: 'eof',
+    value: '',
+    start: source.length,
+    end: source.length,
+    line,
+    column: source.length - lineStart + 1,
+  });
+
+  return tokens;
+}
@@ -0,0 +1,207 @@
+/**
+ * Move source AST types
+ * Covers the declaration-level syntax of Move 2024 (and legacy Move);
+ * function bodies are kept as text with their call and abort sites.
+ */
+
+export type TokenKind = 'ident' | 'number' | 'string' | 'punct' | 'eof';
+
+export interface Token {
+  kind: TokenKind;
+  value: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+  line: number;
+  column: number;
+  /** Doc comment (`///` or `/** *\/`) directly preceding the token */
+  doc?: string;
+}
+
+export interface Span {
+  start: number;
+  end: number;
+  line: number;
+}
+
+export interface ParseDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+}
+
+// ============ Types ============
+
+export type TypeNode =
+  | { kind: 'path'; path: string[]; typeArgs: TypeNode[] }
+  | { kind: 'ref'; mutable: boolean; inner: TypeNode }
+  | { kind: 'tuple'; elements: TypeNode[] }
+  /** Lambda type used by macro parameters: `|T, U| -> R` */
+  | { kind: 'lambda'; params: TypeNode[]; returns: TypeNode };
+
+export interface TypeParameter {
+  name: string;
+  constraints: string[];
+  isPhantom: boolean;
+}
+
+// ============ Declarations ============
+
+export type MoveAbility = 'copy' | 'drop' | 'store' | 'key';
+
+export type FunctionVisibility = 'public' | 'package' | 'friend' | 'private';
+
+export interface Attribute {
+  /** Attribute name, e.g. `test_only`, `allow`, `error` */
+  name: string;
+  /** Raw argument text, e.g. `unused_const` for `#[allow(unused_const)]` */
+  args?: string;
+}
+
+interface ItemBase {
+  name: string;
+  attributes: Attribute[];
+  doc?: string;
+  span: Span;
+}
+
+export interface UseMember {
+  /** Module name (`Self` members resolve to the module itself) */
+  module: string;
+  /** Member name when the use imports a struct, function or constant */
+  member?: string;
+  /** Local alias the use introduces */
+  alias: string;
+}
+
+export interface UseDecl {
+  kind: 'use';
+  /** Address or named address, e.g. `sui` or `0x2` */
+  address: string;
+  members: UseMember[];
+  span: Span;
+}
+
+/** Method alias: `use fun path as Type.method;` */
+export interface UseFunDecl {
+  kind: 'use-fun';
+  path: string[];
+  type: string;
+  method: string;
+  isPublic: boolean;
+  span: Span;
+}
+
+export interface FriendDecl {
+  path: string[];
+  span: Span;
+}
+
+export interface FieldDecl {
+  name: string;
+  type: TypeNode;
+}
+
+export interface StructDecl extends ItemBase {
+  isPublic: boolean;
+  typeParams: TypeParameter[];
+  abilities: MoveAbility[];
+  fields: FieldDecl[];
+  /** Positional struct (Move 2024); fields are named pos0, pos1, ... */
+  isPositional: boolean;
+  isNative: boolean;
+}
+
+export interface EnumVariant {
+  name: string;
+  fields: FieldDecl[];
+  isPositional: boolean;
+}
+
+export interface EnumDecl extends ItemBase {
+  isPublic: boolean;
+  typeParams: TypeParameter[];
+  abilities: MoveAbility[];
+  variants: EnumVariant[];
+}
+
+export interface ParamDecl {
+  name: string;
+  type: TypeNode;
+  isMut: boolean;
+}
+
+/** Call site inside a function body */
+export interface CallSite {
+  /** Path as written, e.g. ['transfer', 'share_object'] or ['vector', 'empty'] */
+  path: string[];
+  /** Method-call syntax (`x.foo()`): path holds just the method name */
+  isMethod: boolean;
+  /** Receiver of a method call when it is a name or field chain, e.g. ['pool', 'reserve'] */
+  receiver?: string[];
+  /** Macro invocation (`assert!`, `vector[]` excluded) */
+  isMacro: boolean;
+  line: number;
+}
+
+/** `abort` expression or `assert!` call inside a function body */
+export interface AbortSite {
+  kind: 'abort' | 'assert';
+  /** Abort code expression text (constant name or literal), if present */
+  code?: string;
+  /** Condition that must hold to avoid the abort: the asserted expression, or the negated `if` guard */
+  condition?: string;
+  line: number;
+}
+
+export interface FunctionBody {
+  /** Body text including the enclosing braces */
+  text: string;
+  calls: CallSite[];
+  aborts: AbortSite[];
+  span: Span;
+}
+
+export interface FunctionDecl extends ItemBase {
+  visibility: FunctionVisibility;
+  isEntry: boolean;
+  isNative: boolean;
+  isMacro: boolean;
+  typeParams: TypeParameter[];
+  params: ParamDecl[];
+  /** Return types; a tuple return is flattened, `()` is empty */
+  returns: TypeNode[];
+  body?: FunctionBody;
+}
+
+export interface ConstantDecl extends ItemBase {
+  type: TypeNode;
+  /** Value expression text */
+  valueText: string;
+  /** Numeric value when the expression is a single integer literal */
+  numericValue?: bigint;
+}
+
+export interface ModuleDecl {
+  /** Address or named address, empty when declared inside an `address` block without one */
+  address: string;
+  name: string;
+  /** Move 2024 label form: `module a::m;` */
+  isLabel: boolean;
+  attributes: Attribute[];
+  doc?: string;
+  uses: UseDecl[];
+  useFuns: UseFunDecl[];
+  friends: FriendDecl[];
+  structs: StructDecl[];
+  enums: EnumDecl[];
+  functions: FunctionDecl[];
+  constants: ConstantDecl[];
+  span: Span;
+}
+
+export interface MoveFile {
+  modules: ModuleDecl[];
+  diagnostics: ParseDiagnostic[];
+}
@@ -2,6 +2,9 @@
  * Server configuration with security settings
  */
 
+import { parseFixtureMode, type FixtureOptions } from '../fetcher/fixtures.js';
+import type { LLMConfig } from '../llm/index.js';
+
 export interface SecurityConfig {
   // Authentication
   apiKeys: string[];        // API keys (env: API_KEYS)
@@ -25,6 +28,12 @@ export interface ServerConfig {
   port: number;
   host: string;
   security: SecurityConfig;
+  /** RPC record/replay fixtures (env: MOVE_WHISPERER_FIXTURES, MOVE_WHISPERER_FIXTURES_MODE) */
+  fixtures?: FixtureOptions;
+  /** LLM provider overrides, applied over MOVE_WHISPERER_LLM_* environment settings */
+  llm?: Partial<LLMConfig>;
+  /** Re-run every contract analysis instead of serving cached results */
+  freshAnalysis?: boolean;
 }
 
 /**
@@ -76,6 +85,18 @@ export function loadSecurityConfig(): SecurityConfig {
   };
 }
 
+/**
+ * Load RPC fixture configuration from environment
+ */
+export function loadFixtureConfig(): FixtureOptions | undefined {
+  const dir = process.env.MOVE_WHISPERER_FIXTURES;
+  if (!dir) return undefined;
+  return {
+    dir,
+    mode: parseFixtureMode(process.env.MOVE_WHISPERER_FIXTURES_MODE),
+  };
+}
+
 /**
  * Default server configuration
  */
@@ -83,6 +104,7 @@ export const DEFAULT_SERVER_CONFIG: ServerConfig = {
   port: parseEnvInt(process.env.PORT, 3456),
   host: process.env.HOST || '0.0.0.0',
   security: loadSecurityConfig(),
+  fixtures: loadFixtureConfig(),
 };
 
 /**
@@ -1,6 +1,6 @@
 /**
  * MoveWhisperer - Local Server
- * Bridges web UI with local CLI tools (move-decompiler, claude, sui)
+ * Bridges web UI with local CLI tools (move-decompiler, claude, sui) and LLM providers
  *
  * Security features:
  * - API key authentication (X-API-Key header)
@@ -25,6 +25,8 @@ import { handleTransaction, handleTransactionSkill } from './routes/transaction-
 import { handleListSkills, handleSaveSkill, handleReadSkill } from './routes/skills.js';
 import { createSecurityMiddleware, type SecurityMiddleware } from './middleware.js';
 import { createServerConfig, type ServerConfig } from './config.js';
+import { configureFixtures, getFixtureStore } from '../fetcher/fixtures.js';
+import { configureLLM, loadLLMConfig } from '../llm/index.js';
 import {
   DecompileRequestSchema,
   ChatRequestSchema,
@@ -206,7 +208,7 @@ async function handleRequest(
           sendError(req, res, 'Method not allowed', 405);
           return;
         }
-        await handleAnalyzeContract(body, res, legacySendJson, legacySendError);
+        await handleAnalyzeContract(body, res, legacySendJson, legacySendError, { fresh: config.freshAnalysis });
         break;
 
       case '/api/analyze-changes':
@@ -345,6 +347,14 @@ export function startServer(configOverrides: Partial<ServerConfig> = {}) {
   // Initialize security middleware
   security = createSecurityMiddleware(config.security);
 
+  // Route RPC traffic through fixtures unless the CLI already configured them
+  if (config.fixtures && !getFixtureStore()) {
+    configureFixtures(config.fixtures);
+  }
+
+  // Provider for the chat, analysis and review endpoints
+  const llm = configureLLM(loadLLMConfig({ cwd: process.cwd(), ...config.llm }))!;
+
   // Create HTTP server
   const server = createServer((req, res) => handleRequest(req, res, config));
 
@@ -491,6 +501,8 @@ export function startServer(configOverrides: Partial<ServerConfig> = {}) {
   // Start listening
   server.listen(port, host, () => {
     const securityStatus = security.getStatus();
+    const fixtures = getFixtureStore();
+    const fixtureStatus = fixtures ? `${fixtures.getMode()} (${fixtures.getDir()})` : 'Disabled';
     console.log(`
 ╔═══════════════════════════════════════════════════════════╗
 ║                                                           ║
@@ -504,6 +516,8 @@ export function startServer(configOverrides: Partial<ServerConfig> = {}) {
 ║   → Auth: ${securityStatus.authEnabled ? 'Enabled (API key required)' : 'Disabled (open access)'}          ║
 ║   → Rate Limit: Enabled                                   ║
 ║   → Input Validation: Enabled                             ║
+║   → RPC Fixtures: ${fixtureStatus}                                ║
+║   → LLM Provider: ${llm.name} (${llm.model})                      ║
 ║                                                           ║
 ║   Available endpoints:                                    ║
 ║   • GET  /health             - Server health check        ║
@@ -1,17 +1,19 @@
 /**
  * Contract analysis endpoint
- * Analyzes Sui Move contracts using AI (Claude) with regex fallback
+ * Analyzes Sui Move contracts using the configured LLM provider with regex fallback
  */
 
 import { ServerResponse } from 'http';
 import { createAIAnalyzer } from '../../analyzer/ai-analyzer.js';
-import { executeCommand } from '../terminal.js';
+import { getLLMProvider } from '../../llm/index.js';
 
 interface AnalyzeContractRequest {
   packageId: string;
   moduleName: string;
   sourceCode: string;
   network?: string;
+  /** Bypass the analysis cache */
+  fresh?: boolean;
 }
 
 interface VersionChange {
@@ -47,9 +49,10 @@ export async function handleAnalyzeContract(
   body: unknown,
   res: ServerResponse,
   sendJson: (res: ServerResponse, data: unknown, status?: number) => void,
-  sendError: (res: ServerResponse, message: string, status?: number) => void
+  sendError: (res: ServerResponse, message: string, status?: number) => void,
+  options: { fresh?: boolean } = {}
 ) {
-  const { packageId, moduleName, sourceCode, network } = body as AnalyzeContractRequest;
+  const { packageId, moduleName, sourceCode, network, fresh } = body as AnalyzeContractRequest;
 
   if (!packageId) {
     sendError(res, 'packageId is required', 400);
@@ -69,11 +72,11 @@ export async function handleAnalyzeContract(
   try {
     console.log(`[Analyze] Starting analysis for ${packageId}::${moduleName}`);
 
-    // Create analyzer with Claude enabled
+    // Create analyzer with the LLM enabled
     const analyzer = createAIAnalyzer({
       useClaude: true,
       timeout: 120000,
-      cwd: process.cwd(),
+      fresh: fresh ?? options.fresh,
     });
 
     // Perform analysis
@@ -83,7 +86,7 @@ export async function handleAnalyzeContract(
       network,
     });
 
-    console.log(`[Analyze] Analysis complete. Source: ${analysis.analysisSource}, Confidence: ${analysis.confidence}`);
+    console.log(`[Analyze] Analysis complete. Source: ${analysis.analysisSource}${analysis.cachedAt ? ' (cached)' : ''}, Confidence: ${analysis.confidence}`);
 
     sendJson(res, {
       success: true,
@@ -99,7 +102,7 @@ export async function handleAnalyzeContract(
 }
 
 /**
- * Handle version changes analysis request using Claude CLI
+ * Handle version changes analysis request using the configured LLM provider
  */
 export async function handleAnalyzeVersionChanges(
   body: unknown,
@@ -117,7 +120,7 @@ export async function handleAnalyzeVersionChanges(
   try {
     console.log(`[AnalyzeChanges] Analyzing ${changes.length} changes from v${fromVersion} to v${toVersion}`);
 
-    // Build a prompt for Claude to analyze the changes
+    // Build a prompt for the LLM to analyze the changes
     const changesDescription = changes.map(c => {
       const prefix = c.type === 'added' ? '+' : c.type === 'removed' ? '-' : '~';
       return `${prefix} [${c.category}] ${c.name}${c.risk === 'breaking' ? ' (BREAKING)' : ''}`;
@@ -144,22 +147,27 @@ Please provide a concise analysis (2-4 paragraphs) covering:
 
 Keep the response focused and actionable. Use plain text, no markdown headers.`;
 
-    // Try to use Claude CLI for analysis
-    const result = await executeCommand(`claude -p "${prompt.replace(/"/g, '\\"')}" --output-format text`, {
-      cwd: process.cwd(),
-      timeout: 60000,
-    });
-
-    if (result.success && result.stdout.trim()) {
-      console.log('[AnalyzeChanges] Claude analysis complete');
+    // Try the LLM provider for analysis
+    const provider = getLLMProvider();
+    const result = await provider.isAvailable()
+      ? await provider.complete({ messages: [{ role: 'user', content: prompt }], timeoutMs: 60000 }).catch((error: Error) => {
+        console.error(`[AnalyzeChanges] ${provider.name} failed:`, error.message);
+        return null;
+      })
+      : null;
+
+    if (result?.text.trim()) {
+      console.log(`[AnalyzeChanges] ${result.provider} analysis complete`);
       sendJson(res, {
         success: true,
-        analysis: result.stdout.trim(),
+        analysis: result.text.trim(),
         source: 'claude',
+        provider: `${result.provider}/${result.model}`,
+        usage: result.usage,
       });
     } else {
-      // Fallback to a basic analysis if Claude is not available
-      console.log('[AnalyzeChanges] Claude not available, using fallback');
+      // Fallback to a basic analysis if no LLM is available
+      console.log('[AnalyzeChanges] LLM not available, using fallback');
       const fallbackAnalysis = generateFallbackAnalysis(fromVersion, toVersion, changes, summary);
       sendJson(res, {
         success: true,
@@ -186,7 +194,7 @@ Keep the response focused and actionable. Use plain text, no markdown headers.`;
 }
 
 /**
- * Generate a basic analysis without Claude
+ * Generate a basic analysis without an LLM
  */
 function generateFallbackAnalysis(
   fromVersion: number,
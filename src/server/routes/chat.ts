@@ -1,11 +1,11 @@
 /**
  * Chat endpoint for AI conversational contract exploration.
- * Uses Claude CLI with conversation transcript as context.
+ * Uses the configured LLM provider with the contract as system context.
  */
 
 import { ServerResponse } from 'http';
 import { WebSocket } from 'ws';
-import { commandExists, streamCommand, executeCommand } from '../terminal.js';
+import { getLLMProvider, type LLMResponse } from '../../llm/index.js';
 
 interface ChatMessage {
   role: 'user' | 'assistant';
@@ -29,11 +29,9 @@ interface ChatRequest {
 }
 
 /**
- * Build a single prompt for Claude CLI from conversation history + context.
- * Since Claude CLI --print doesn't support multi-turn natively,
- * we embed the full conversation as a transcript in one prompt.
+ * Build the system prompt grounding the conversation in the contract
  */
-function buildClaudePrompt(messages: ChatMessage[], context: ChatContext): string {
+function buildSystemPrompt(context: ChatContext): string {
   const systemParts: string[] = [
     'You are a Sui Move smart contract expert assistant.',
     'Answer questions based on the contract context below. Use code examples when helpful.',
@@ -53,25 +51,7 @@ function buildClaudePrompt(messages: ChatMessage[], context: ChatContext): strin
     systemParts.push('', '## Source Code (excerpt)', '```move', context.sourceCodeSnippet.slice(0, 4000), '```');
   }
 
-  const systemContext = systemParts.join('\n');
-
-  // Build conversation transcript for multi-turn
-  const lastMessages = messages.slice(-20);
-
-  if (lastMessages.length === 1) {
-    // Single message — just prepend context
-    return `${systemContext}\n\n---\n\nUser question: ${lastMessages[0].content}`;
-  }
-
-  // Multi-turn — embed as transcript
-  const transcript = lastMessages
-    .slice(0, -1) // All except the last
-    .map(m => `${m.role === 'user' ? 'Human' : 'Assistant'}: ${m.content}`)
-    .join('\n\n');
-
-  const lastMsg = lastMessages[lastMessages.length - 1];
-
-  return `${systemContext}\n\n---\n\nPrevious conversation:\n${transcript}\n\nHuman: ${lastMsg.content}\n\nRespond to the latest question based on the contract context and conversation history.`;
+  return systemParts.join('\n');
 }
 
 /**
@@ -92,53 +72,49 @@ export async function handleChat(
     return;
   }
 
-  // Check if claude CLI is available
-  const hasClaude = await commandExists('claude');
-  if (!hasClaude) {
+  const provider = getLLMProvider();
+  if (!(await provider.isAvailable())) {
     sendError(
       res,
-      'Claude Code CLI not found. Install it or set ANTHROPIC_API_KEY for direct API access.',
+      `LLM provider "${provider.name}" is not available. Install the Claude Code CLI, set ANTHROPIC_API_KEY, or choose another provider with MOVE_WHISPERER_LLM_PROVIDER.`,
       503
     );
     return;
   }
 
-  const prompt = buildClaudePrompt(messages, context);
-  const escapedPrompt = prompt.replace(/'/g, "'\\''");
-  const command = `claude --print '${escapedPrompt}'`;
+  const llmRequest = {
+    system: buildSystemPrompt(context),
+    messages: messages.slice(-20),
+    timeoutMs: 300000,
+  };
 
   const ws = streamId ? wsConnections.get(streamId) : null;
 
   try {
+    let result: LLMResponse;
     if (ws) {
       ws.send(JSON.stringify({ type: 'start', source: 'chat' }));
-
-      const result = await streamCommand(command, {
-        timeout: 300000,
-        onStdout: (chunk) => {
+      try {
+        result = await provider.stream(llmRequest, (chunk) => {
           ws.send(JSON.stringify({ type: 'stdout', data: chunk }));
-        },
-        onStderr: (chunk) => {
-          ws.send(JSON.stringify({ type: 'stderr', data: chunk }));
-        },
-        onExit: (code) => {
-          ws.send(JSON.stringify({ type: 'exit', code }));
-        },
-      });
-
-      sendJson(res, {
-        success: result.success,
-        output: result.stdout,
-        error: result.success ? undefined : result.stderr,
-      });
+        });
+      } catch (error) {
+        ws.send(JSON.stringify({ type: 'stderr', data: error instanceof Error ? error.message : String(error) }));
+        ws.send(JSON.stringify({ type: 'exit', code: 1 }));
+        throw error;
+      }
+      ws.send(JSON.stringify({ type: 'exit', code: 0 }));
     } else {
-      const result = await executeCommand(command, { timeout: 300000 });
-      sendJson(res, {
-        success: result.success,
-        output: result.stdout,
-        error: result.success ? undefined : result.stderr,
-      });
+      result = await provider.complete(llmRequest);
     }
+
+    sendJson(res, {
+      success: true,
+      output: result.text,
+      provider: result.provider,
+      model: result.model,
+      usage: result.usage,
+    });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Chat execution failed';
     sendError(res, message);
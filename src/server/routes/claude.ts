@@ -6,6 +6,7 @@
 import { ServerResponse } from 'http';
 import { WebSocket } from 'ws';
 import { commandExists, streamCommand, executeCommand } from '../terminal.js';
+import { getLLMProvider } from '../../llm/index.js';
 
 interface ClaudeRequest {
   prompt: string;
@@ -138,13 +139,12 @@ export async function handleClaude(
 }
 
 /**
- * Generate skill using Claude Code
+ * Generate skill using the configured LLM provider
  */
 export async function generateSkillWithClaude(
   packageId: string,
   decompiledSource: string,
-  scene: string,
-  cwd: string
+  scene: string
 ): Promise<{ success: boolean; skillMd: string; error?: string }> {
   const prompt = `
 You are generating a Claude Code skill for a Sui Move smart contract.
@@ -166,14 +166,17 @@ Please analyze this Move contract and generate a comprehensive skill markdown fi
 Output the skill in markdown format.
 `;
 
-  const result = await executeCommand(
-    `claude --print '${prompt.replace(/'/g, "'\\''")}'`,
-    { cwd, timeout: 120000 }
-  );
-
-  return {
-    success: result.success,
-    skillMd: result.stdout,
-    error: result.success ? undefined : result.stderr,
-  };
+  try {
+    const result = await getLLMProvider().complete({
+      messages: [{ role: 'user', content: prompt }],
+      timeoutMs: 120000,
+    });
+    return { success: true, skillMd: result.text };
+  } catch (error) {
+    return {
+      success: false,
+      skillMd: '',
+      error: error instanceof Error ? error.message : 'Skill generation failed',
+    };
+  }
 }
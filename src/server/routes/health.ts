@@ -1,10 +1,11 @@
 /**
  * Health check endpoint
- * Reports server status and available CLI tools
+ * Reports server status, available CLI tools and the active LLM provider
  */
 
 import { IncomingMessage, ServerResponse } from 'http';
 import { commandExists, getToolVersion } from '../terminal.js';
+import { getLLMProvider, type LLMProviderName, type LLMUsage } from '../../llm/index.js';
 
 export interface ToolStatus {
   name: string;
@@ -13,11 +14,20 @@ export interface ToolStatus {
   path?: string;
 }
 
+export interface LLMStatus {
+  provider: LLMProviderName;
+  model: string;
+  available: boolean;
+  /** Tokens used since the server started */
+  usage: LLMUsage & { requests: number };
+}
+
 export interface HealthResponse {
   status: 'ok' | 'degraded';
   timestamp: string;
   version: string;
   tools: ToolStatus[];
+  llm: LLMStatus;
 }
 
 // Cache tool status for 60 seconds
@@ -68,12 +78,19 @@ async function checkTools(): Promise<ToolStatus[]> {
 export async function getHealthData(): Promise<HealthResponse> {
   const tools = await checkTools();
   const allAvailable = tools.every((t) => t.available);
+  const provider = getLLMProvider();
 
   return {
     status: allAvailable ? 'ok' : 'degraded',
     timestamp: new Date().toISOString(),
     version: '0.1.0',
     tools,
+    llm: {
+      provider: provider.name,
+      model: provider.model,
+      available: await provider.isAvailable(),
+      usage: provider.getUsage(),
+    },
   };
 }
 
@@ -7,6 +7,7 @@
 import { ServerResponse } from 'http';
 import type { Network } from '../../types/index.js';
 import { createVersionFetcher } from '../../history/index.js';
+import { resolveNetwork } from '../../fetcher/networks.js';
 import {
   createStructuralDiffer,
   createSourceDiffer,
@@ -62,12 +63,8 @@ interface CompareResponse {
  * Validate network
  */
 function validateNetwork(network: string | undefined): Network {
-  const valid: Network[] = ['mainnet', 'testnet', 'devnet'];
   if (!network) return 'mainnet';
-  if (!valid.includes(network as Network)) {
-    throw new Error(`Invalid network: ${network}. Valid options: ${valid.join(', ')}`);
-  }
-  return network as Network;
+  return resolveNetwork(network);
 }
 
 /**
@@ -5,6 +5,7 @@
 
 import type { ServerResponse } from 'http';
 import { TransactionFetcher } from '../../fetcher/transaction-fetcher.js';
+import { isKnownNetwork, listNetworks } from '../../fetcher/networks.js';
 import { TransactionParser } from '../../analyzer/transaction-parser.js';
 import { generateTransactionSkill } from '../../generator/transaction-skill-generator.js';
 import type { Network } from '../../types/index.js';
@@ -43,9 +44,8 @@ export async function handleTransaction(
       return;
     }
 
-    const validNetworks = ['mainnet', 'testnet', 'devnet'];
-    if (!validNetworks.includes(network)) {
-      sendError(res, 'Invalid network. Use mainnet, testnet, or devnet', 400);
+    if (!isKnownNetwork(network)) {
+      sendError(res, `Invalid network. Use one of: ${listNetworks().join(', ')}`, 400);
       return;
     }
 
@@ -118,9 +118,8 @@ export async function handleTransactionSkill(
       return;
     }
 
-    const validNetworks = ['mainnet', 'testnet', 'devnet'];
-    if (!validNetworks.includes(network)) {
-      sendError(res, 'Invalid network. Use mainnet, testnet, or devnet', 400);
+    if (!isKnownNetwork(network)) {
+      sendError(res, `Invalid network. Use one of: ${listNetworks().join(', ')}`, 400);
       return;
     }
 
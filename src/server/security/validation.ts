@@ -4,10 +4,13 @@
  */
 
 import { z } from 'zod';
+import { isKnownNetwork, listNetworks } from '../../fetcher/networks.js';
 
 // Common validators
 const packageIdSchema = z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid package ID format');
-const networkSchema = z.enum(['mainnet', 'testnet', 'devnet']);
+const networkSchema = z.string().refine(isKnownNetwork, (network) => ({
+  message: `Unknown network "${network}". Available: ${listNetworks().join(', ')}`,
+}));
 const streamIdSchema = z.string().max(20).optional();
 
 // Safe path pattern - no path traversal, no shell metacharacters
@@ -84,6 +87,7 @@ export const AnalyzeContractSchema = z.object({
   moduleName: z.string().min(1).max(100),
   sourceCode: z.string().min(1).max(500000), // Max 500KB source
   network: networkSchema.optional(),
+  fresh: z.boolean().optional(), // Bypass the analysis cache
 });
 
 export type AnalyzeContractRequest = z.infer<typeof AnalyzeContractSchema>;
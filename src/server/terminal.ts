@@ -68,21 +68,48 @@ export function streamCommand(
   command: string,
   options: StreamOptions = {}
 ): Promise<ExecuteResult> {
-  const { cwd, timeout = 300000, env, onStdout, onStderr, onExit } = options;
-
-  return new Promise((resolve) => {
-    // Parse command into program and args
-    const parts = command.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
-    const program = parts[0] || 'echo';
-    const args = parts.slice(1).map(arg => arg.replace(/^"|"$/g, ''));
-
-    const child: ChildProcess = spawn(program, args, {
-      cwd,
-      env: { ...process.env, ...env },
+  // Parse command into program and args
+  const parts = command.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+  const program = parts[0] || 'echo';
+  const args = parts.slice(1).map(arg => arg.replace(/^"|"$/g, ''));
+
+  return collectOutput(
+    spawn(program, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
       shell: true,
       stdio: ['ignore', 'pipe', 'pipe'],
-    });
+    }),
+    { ...options, timeout: options.timeout ?? 300000 }
+  );
+}
+
+/**
+ * Run a program with an argument list, without a shell, so arguments are
+ * passed through verbatim. Output is streamed like `streamCommand`.
+ */
+export function runProgram(
+  program: string,
+  args: string[],
+  options: StreamOptions = {}
+): Promise<ExecuteResult> {
+  return collectOutput(
+    spawn(program, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }),
+    { ...options, timeout: options.timeout ?? 300000 }
+  );
+}
 
+/**
+ * Collect a child's output until it exits or times out
+ */
+function collectOutput(child: ChildProcess, options: StreamOptions): Promise<ExecuteResult> {
+  const { timeout, onStdout, onStderr, onExit } = options;
+
+  return new Promise((resolve) => {
     let stdout = '';
     let stderr = '';
     let timeoutId: NodeJS.Timeout | null = null;
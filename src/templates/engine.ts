@@ -4,7 +4,7 @@
 
 import Handlebars from 'handlebars';
 import { registerHelpers } from './helpers.js';
-import type { SkillScene } from '../types/index.js';
+import type { SkillScene, OwnershipKind, SuiMoveNormalizedType } from '../types/index.js';
 import { SCENE_TEMPLATES } from './scenes/index.js';
 
 // Embedded templates
@@ -37,6 +37,9 @@ const tx = new Transaction();
 // Example: {{primaryFunction.name}}
 tx.moveCall({
   target: \`{{packageId}}::{{moduleName}}::{{primaryFunction.name}}\`,
+{{#if primaryFunction.typeArguments}}
+  typeArguments: [{{#each primaryFunction.typeArguments}}'{{this}}'{{#unless @last}}, {{/unless}}{{/each}}],
+{{/if}}
   arguments: [
 {{#each primaryFunction.exampleArgs}}
     {{{this}}},
@@ -49,38 +52,7 @@ tx.moveCall({
 ## Entry Functions
 
 {{#each entryFunctions}}
-### \`{{name}}\`
-
-{{semantic.description}}
-
-{{#if (length (filterUserParams parameters))}}
-| Parameter | Type | Description |
-|-----------|------|-------------|
-{{#each (filterUserParams parameters)}}
-| \`{{name}}\` | \`{{tsType}}\` | {{description}} |
-{{/each}}
-{{/if}}
-
-{{#if (length returns)}}
-**Returns:**
-{{#each returns}}
-- \`{{tsType}}\`: {{description}}
-{{/each}}
-{{/if}}
-
-{{#if (isHighRisk semantic.risk)}}
-> **Warning**: {{riskBadge semantic.risk}} - {{#each semantic.warnings}}{{this}} {{/each}}
-{{/if}}
-
-{{#if (length typeParameters)}}
-**Type Parameters:**
-{{#each typeParameters}}
-- \`{{name}}\`{{#if (length constraints)}}: {{join constraints ", "}}{{/if}}
-{{/each}}
-{{/if}}
-
----
-
+{{> functionReference}}
 {{/each}}
 
 {{#if (length publicFunctions)}}
@@ -91,6 +63,10 @@ tx.moveCall({
 
 {{semantic.description}}
 
+{{#if ptbNote}}
+> ⚠️ **Not callable standalone** - {{{ptbNote}}}
+
+{{/if}}
 {{#if (length (filterUserParams parameters))}}
 | Parameter | Type | Description |
 |-----------|------|-------------|
@@ -114,6 +90,14 @@ tx.moveCall({
 ## Types
 
 See [references/types.md](references/types.md) for detailed type definitions.
+{{#if typesDir}}
+
+TypeScript interfaces and BCS schemas for decoding objects and events are in [{{typesDir}}/]({{typesDir}}/index.ts).
+{{/if}}
+{{#if sdkDir}}
+
+Typed transaction builders for every public and entry function are in [{{sdkDir}}/]({{sdkDir}}/index.ts).
+{{/if}}
 
 {{#if (length events)}}
 ## Events
@@ -145,6 +129,24 @@ This contract depends on:
 {{/each}}
 {{/if}}
 
+{{#if dependsOn}}
+## Depends On
+
+{{> dependsOn}}
+
+{{/if}}
+{{#if (length objects)}}
+## Objects
+
+{{> objectAcquisition}}
+
+{{/if}}
+{{#if accessControl}}
+## Permission Matrix
+
+{{> permissionMatrix}}
+
+{{/if}}
 ## Security Notes
 
 {{#each securityNotes}}
@@ -226,6 +228,19 @@ import { Transaction } from '@mysten/sui/transactions';
 export const PACKAGE_ID = '{{packageId}}';
 export const MODULE_NAME = '{{moduleName}}';
 
+/** Shared object reference; skips the object lookup when building the transaction */
+export interface SharedObjectRef {
+  objectId: string;
+  initialSharedVersion: number | string;
+}
+
+/** Owned or immutable object reference at a specific version */
+export interface ObjectRef {
+  objectId: string;
+  version: number | string;
+  digest: string;
+}
+
 /**
  * Build target string for move calls
  */
@@ -243,7 +258,7 @@ function target(functionName: string): \`\${string}::\${string}::\${string}\` {
 export function {{snakeToCamel name}}(
   tx: Transaction,
 {{#each (filterUserParams parameters)}}
-  {{snakeToCamel name}}: {{tsType}},
+  {{snakeToCamel name}}: {{#if (eq ownership "shared")}}string | SharedObjectRef{{else if (eq ownership "owned")}}string | ObjectRef{{else if (eq ownership "immutable")}}string | ObjectRef{{else}}{{tsType}}{{/if}},
 {{/each}}
 {{#if (length typeParameters)}}
   typeArgs: [{{#each typeParameters}}string{{#unless @last}}, {{/unless}}{{/each}}],
@@ -258,6 +273,14 @@ export function {{snakeToCamel name}}(
 {{#each (filterUserParams parameters)}}
 {{#if isSystemObject}}
       tx.object('{{defaultValue}}'),
+{{else if (eq ownership "shared")}}
+      typeof {{snakeToCamel name}} === 'string'
+        ? tx.object({{snakeToCamel name}})
+        : tx.sharedObjectRef({ ...{{snakeToCamel name}}, mutable: {{#if isMutable}}true{{else}}false{{/if}} }),
+{{else if (eq ownership "owned")}}
+      typeof {{snakeToCamel name}} === 'string' ? tx.object({{snakeToCamel name}}) : tx.objectRef({{snakeToCamel name}}),
+{{else if (eq ownership "immutable")}}
+      typeof {{snakeToCamel name}} === 'string' ? tx.object({{snakeToCamel name}}) : tx.objectRef({{snakeToCamel name}}),
 {{else if objectIdRequired}}
       tx.object({{snakeToCamel name}}),
 {{else}}
@@ -271,6 +294,453 @@ export function {{snakeToCamel name}}(
 {{/each}}
 `;
 
+// Package-level SKILL.md; per-module details live in references/modules/<module>.md
+const PACKAGE_SKILL_MD_TEMPLATE = `---
+name: {{packageName}}
+description: "{{description}}"
+{{#if scene}}
+scene: {{scene}}
+{{/if}}
+---
+
+# {{title}}
+
+## Overview
+
+{{overview}}
+
+- **Package ID**: \`{{packageId}}\`
+- **Network**: {{network}}
+- **Category**: {{category}}
+- **Modules**: {{length modules}}
+
+## Modules
+
+| Module | Category | Entry | Public | Package-only | Structs | Reference |
+|--------|----------|-------|--------|--------------|---------|-----------|
+{{#each modules}}
+| \`{{name}}\` | {{category}} | {{entryCount}} | {{publicCount}} | {{packageCount}} | {{structCount}} | [{{referencePath}}]({{referencePath}}) |
+{{/each}}
+
+{{#each modules}}
+{{#if description}}
+- **{{name}}**: {{description}}
+{{/if}}
+{{/each}}
+{{#if typesDir}}
+
+TypeScript interfaces and BCS schemas for every module's structs are in [{{typesDir}}/]({{typesDir}}/index.ts).
+{{/if}}
+{{#if sdkDir}}
+
+Typed transaction builders for every module are in [{{sdkDir}}/]({{sdkDir}}/index.ts), one namespace per module.
+{{/if}}
+
+## Quick Start
+
+\`\`\`typescript
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+
+const client = new SuiClient({ url: '{{rpcUrl}}' });
+const tx = new Transaction();
+
+{{#if primaryFunction}}
+// Example: {{primaryFunction.moduleName}}::{{primaryFunction.name}}
+tx.moveCall({
+  target: \`{{packageId}}::{{primaryFunction.moduleName}}::{{primaryFunction.name}}\`,
+{{#if primaryFunction.typeArguments}}
+  typeArguments: [{{#each primaryFunction.typeArguments}}'{{this}}'{{#unless @last}}, {{/unless}}{{/each}}],
+{{/if}}
+  arguments: [
+{{#each primaryFunction.exampleArgs}}
+    {{{this}}},
+{{/each}}
+  ],
+});
+{{/if}}
+\`\`\`
+
+{{> packageSections}}
+{{#each sceneSections}}
+{{{this}}}
+
+{{/each}}
+## Security Notes
+
+{{#each securityNotes}}
+- {{this}}
+{{/each}}
+
+---
+
+*Generated by MoveWhisperer v{{generatorVersion}} on {{generatedAt}}*
+`;
+
+// Package-wide sections (shared objects through error codes) shared as `{{> packageSections}}`
+const PACKAGE_SECTIONS_PARTIAL = `{{#if (length sharedObjects)}}
+## Shared Objects
+
+Pass these by ID with \`tx.object(id)\`; find the IDs in the objectChanges of the creating transaction.
+
+| Object | Module | Created By |
+|--------|--------|------------|
+{{#each sharedObjects}}
+| \`{{name}}\` | \`{{module}}\` | {{#if (length createdBy)}}{{{join createdBy ", "}}}{{else}}-{{/if}} |
+{{/each}}
+
+{{/if}}
+{{#if relationships}}
+## Module Relationships
+
+\`\`\`mermaid
+{{{relationships.mermaid}}}
+\`\`\`
+
+{{#if (length relationships.typeReferences)}}
+### Shared Types
+
+| Module | Uses | Where |
+|--------|------|-------|
+{{#each relationships.typeReferences}}
+| \`{{from}}\` | \`{{type}}\` | {{join usages ", "}} |
+{{/each}}
+
+{{/if}}
+{{#if (length relationships.friendships)}}
+### Package-Internal Access
+
+\`public(package)\` / friend functions can only be called from these modules, never from a transaction.
+
+| Module | Called By | Functions |
+|--------|-----------|-----------|
+{{#each relationships.friendships}}
+| \`{{module}}\` | \`{{friend}}\`{{#if declared}} (friend){{/if}} | {{#if (length calls)}}{{{join calls ", "}}}{{else}}-{{/if}} |
+{{/each}}
+
+{{/if}}
+{{/if}}
+{{#if dependsOn}}
+## Depends On
+
+{{> dependsOn}}
+
+{{/if}}
+{{#if (length events)}}
+## Events
+
+| Event | Type | Emitted By |
+|-------|------|------------|
+{{#each events}}
+| \`{{name}}\` | \`{{eventType}}\` | {{#if (length emittedBy)}}{{{join emittedBy ", "}}}{{else}}-{{/if}} |
+{{/each}}
+
+{{/if}}
+{{#if (length errorCodes)}}
+## Error Codes
+
+Abort codes are only unique within a module: match both the module and the code.
+
+| Module | Error | Code | Description |
+|--------|-------|------|-------------|
+{{#each errorCodes}}
+| \`{{module}}\` | \`{{name}}\` | {{code}} | {{description}} |
+{{/each}}
+
+{{/if}}
+`;
+
+// Single self-contained reference document (`--format markdown`)
+const REFERENCE_MD_TEMPLATE = `# {{title}} Reference
+
+{{description}}
+
+- **Package ID**: \`{{packageId}}\`
+- **Network**: {{network}}
+- **Category**: {{category}}
+- **Modules**: {{length modules}}
+
+## Contents
+
+{{#each moduleReferences}}
+- [Module \`{{moduleName}}\`](#module-{{lowercase moduleName}})
+{{/each}}
+
+## Modules
+
+| Module | Category | Entry | Public | Package-only | Structs |
+|--------|----------|-------|--------|--------------|---------|
+{{#each modules}}
+| \`{{name}}\` | {{category}} | {{entryCount}} | {{publicCount}} | {{packageCount}} | {{structCount}} |
+{{/each}}
+
+{{> packageSections}}
+## Security Notes
+
+{{#each securityNotes}}
+- {{this}}
+{{/each}}
+
+{{#each moduleReferences}}
+---
+
+# Module \`{{moduleName}}\`
+
+\`{{packageId}}::{{moduleName}}\`
+
+{{> moduleSections}}
+{{/each}}
+---
+
+*Generated by MoveWhisperer v{{generatorVersion}} on {{generatedAt}}*
+`;
+
+// Per-module reference file of a package skill
+const MODULE_REFERENCE_TEMPLATE = `# Module \`{{moduleName}}\`
+
+Part of [{{packageName}}](../../SKILL.md) - \`{{packageId}}::{{moduleName}}\`
+
+{{> moduleSections}}
+---
+
+*Generated by MoveWhisperer v{{generatorVersion}}*
+`;
+
+// Body of a module reference (overview through error codes) shared as `{{> moduleSections}}`
+const MODULE_SECTIONS_PARTIAL = `{{overview}}
+
+{{#if (length entryFunctions)}}
+## Entry Functions
+
+{{#each entryFunctions}}
+{{> functionReference}}
+{{/each}}
+{{/if}}
+{{#if (length publicFunctions)}}
+## Public Functions
+
+{{#each publicFunctions}}
+{{> functionReference}}
+{{/each}}
+{{/if}}
+{{#if (length packageFunctions)}}
+## Package-Only Functions
+
+Declared \`public(package)\` or \`public(friend)\`: callable from {{#if (length friends)}}{{{join friends ", "}}}{{else}}other modules of this package{{/if}}, not from transactions.
+
+{{#each packageFunctions}}
+- \`{{name}}\`: {{semantic.description}}
+{{/each}}
+
+{{/if}}
+{{#if (length ptbRecipes)}}
+## PTB Recipes
+
+{{> ptbRecipes}}
+{{/if}}
+{{#if (length objects)}}
+## Objects
+
+{{> objectAcquisition}}
+
+{{/if}}
+{{#if accessControl}}
+## Permission Matrix
+
+{{> permissionMatrix}}
+
+{{/if}}
+{{#if (length structs)}}
+## Types
+
+{{#if typesDir}}
+Decode these with the schemas in [{{typesDir}}/{{moduleName}}.ts](../../{{typesDir}}/{{moduleName}}.ts).
+
+{{/if}}{{#each structs}}
+### \`{{name}}\`
+
+{{#if (length abilities)}}
+**Abilities**: {{join abilities ", "}}
+{{/if}}
+
+{{#if (length fields)}}
+| Field | Type | Description |
+|-------|------|-------------|
+{{#each fields}}
+| \`{{name}}\` | \`{{tsType}}\` | {{description}} |
+{{/each}}
+{{/if}}
+
+{{/each}}
+{{/if}}
+{{#if (length errorCodes)}}
+## Error Codes
+
+| Error | Code | Description |
+|-------|------|-------------|
+{{#each errorCodes}}
+| \`{{name}}\` | {{code}} | {{description}} |
+{{/each}}
+
+{{/if}}
+`;
+
+// Function section (signature table, returns, risk, aborts) shared as `{{> functionReference}}`
+const FUNCTION_REFERENCE_PARTIAL = `### \`{{name}}\`
+
+{{semantic.description}}
+
+{{#if ptbNote}}
+> ⚠️ **Not callable standalone** - {{{ptbNote}}}
+
+{{/if}}
+{{#if (length (filterUserParams parameters))}}
+| Parameter | Type | Description |
+|-----------|------|-------------|
+{{#each (filterUserParams parameters)}}
+| \`{{name}}\` | \`{{tsType}}\` | {{description}} |
+{{/each}}
+{{/if}}
+
+{{#if (length returns)}}
+**Returns:**
+{{#each returns}}
+- \`{{tsType}}\`: {{description}}
+{{/each}}
+{{/if}}
+
+{{#if (isHighRisk semantic.risk)}}
+> **Warning**: {{riskBadge semantic.risk}} - {{#each semantic.warnings}}{{this}} {{/each}}
+{{/if}}
+
+{{#if (length aborts)}}
+{{> abortTable}}
+
+{{/if}}
+{{#if (length typeParameters)}}
+**Type Parameters:**
+{{#each typeParameters}}
+- \`{{name}}\`{{#if (length constraints)}}: {{join constraints ", "}}{{/if}}
+{{/each}}
+{{/if}}
+
+---
+
+`;
+
+// Per-function abort table shared by templates as `{{> abortTable}}`
+const ABORT_TABLE_PARTIAL = `**Can fail with:**
+
+| Error | Code | Must Hold | Raised In |
+|-------|------|-----------|-----------|
+{{#each aborts}}
+| {{{error}}} | {{code}} | {{#if condition}}{{{condition}}}{{else}}-{{/if}} | {{#if via}}\`{{via}}\`{{else}}-{{/if}} |
+{{/each}}
+`;
+
+// Argument list of a PTB call, shared as `{{> ptbArguments}}`; hot potatoes are passed as `potatoVar`
+const PTB_ARGUMENTS_PARTIAL = `{{#each (filterUserParams parameters)}}
+{{#if isHotPotato}}
+    {{../potatoVar}},
+{{else if isSystemObject}}
+    tx.object('{{defaultValue}}'),
+{{else if objectIdRequired}}
+    tx.object({{snakeToCamel name}}Id),
+{{else}}
+    tx.pure.{{mapToPureType tsType}}({{snakeToCamel name}}),
+{{/if}}
+{{/each}}`;
+
+// Hot potato PTB recipes shared by templates as `{{> ptbRecipes}}`
+const PTB_RECIPES_PARTIAL = `{{#each ptbRecipes}}
+#### \`{{producer.name}}\` → \`{{consumer.name}}\`
+
+\`{{potato}}\` has no abilities: it cannot be stored or dropped, so the transaction fails
+unless \`{{consumer.name}}\` consumes it before the PTB ends.
+
+\`\`\`typescript
+const tx = new Transaction();
+
+const [{{join returnNames ", "}}] = tx.moveCall({
+  target: \`{{@root.packageId}}::{{@root.moduleName}}::{{producer.name}}\`,
+{{#if (length producer.typeParameters)}}
+  typeArguments: typeArgs,
+{{/if}}
+  arguments: [
+{{> ptbArguments producer potatoVar=potatoVar}}
+  ],
+});
+
+{{#if (length inspectors)}}
+// Read it if needed: {{join inspectors ", "}}
+{{/if}}
+// ... use the other results here ...
+
+tx.moveCall({
+  target: \`{{@root.packageId}}::{{@root.moduleName}}::{{consumer.name}}\`,
+{{#if (length consumer.typeParameters)}}
+  typeArguments: typeArgs,
+{{/if}}
+  arguments: [
+{{> ptbArguments consumer potatoVar=potatoVar}}
+  ],
+});
+\`\`\`
+
+{{/each}}`;
+
+// External packages and the types callers must supply, shared as `{{> dependsOn}}`
+const DEPENDS_ON_PARTIAL = `{{#if (length dependsOn.requiredTypes)}}
+Callers must supply these objects and values from other packages:
+
+| Type | Package | Kind | How to Supply | Used By |
+|------|---------|------|---------------|---------|
+{{#each dependsOn.requiredTypes}}
+| \`{{name}}\` | \`{{packageLabel}}\` | {{kind}} | {{{howToSupply}}} | {{{join requiredBy ", "}}} |
+{{/each}}
+
+{{/if}}
+| Package | Depth | Pinned Version | Status | Modules |
+|---------|-------|----------------|--------|---------|
+{{#each dependsOn.packages}}
+| \`{{packageId}}\` | {{depth}} | {{#if version}}v{{version}}{{else}}-{{/if}} | {{status}} | {{#if (length modules)}}{{join modules ", "}}{{else}}-{{/if}} |
+{{/each}}
+
+\`\`\`mermaid
+{{{dependsOn.mermaid}}}
+\`\`\`
+`;
+
+// Object ownership table shared by templates as `{{> objectAcquisition}}`
+const OBJECT_ACQUISITION_PARTIAL = `| Object | Ownership | How to Obtain |
+|--------|-----------|---------------|
+{{#each objects}}
+| \`{{name}}\` | {{ownership}} | {{{howToObtain}}} |
+{{/each}}
+`;
+
+// Permission matrix section shared by templates as `{{> permissionMatrix}}`
+const PERMISSION_MATRIX_PARTIAL = `### Capabilities
+
+{{#if (length accessControl.capabilities)}}
+| Capability | Abilities | Created in init | Transferable | Evidence |
+|------------|-----------|-----------------|--------------|----------|
+{{#each accessControl.capabilities}}
+| \`{{name}}\` | {{join abilities ", "}} | {{#if mintedInInit}}✓{{else}}-{{/if}} | {{#if transferable}}✓{{else}}-{{/if}} | {{join evidence "; "}} |
+{{/each}}
+{{else}}
+No capability objects detected.
+{{/if}}
+
+### Function Access
+
+| Function | Entry | Required Capabilities | Who Can Call |
+|----------|-------|-----------------------|--------------|
+{{#each accessControl.functions}}
+| \`{{name}}\` | {{#if isEntry}}✓{{else}}-{{/if}} | {{#if (length requirements)}}{{{join requirements ", "}}}{{else}}-{{/if}} | {{#if (length requirements)}}Capability holders{{else}}Anyone{{/if}} |
+{{/each}}
+`;
+
 /**
  * Template engine class
  */
@@ -291,6 +761,18 @@ export class TemplateEngine {
     this.templates.set('skill.md', this.handlebars.compile(SKILL_MD_TEMPLATE));
     this.templates.set('types.md', this.handlebars.compile(TYPES_MD_TEMPLATE));
     this.templates.set('call.ts', this.handlebars.compile(CALL_TS_TEMPLATE));
+    this.templates.set('package-skill.md', this.handlebars.compile(PACKAGE_SKILL_MD_TEMPLATE));
+    this.templates.set('module-reference.md', this.handlebars.compile(MODULE_REFERENCE_TEMPLATE));
+    this.templates.set('reference.md', this.handlebars.compile(REFERENCE_MD_TEMPLATE));
+    this.handlebars.registerPartial('moduleSections', MODULE_SECTIONS_PARTIAL);
+    this.handlebars.registerPartial('packageSections', PACKAGE_SECTIONS_PARTIAL);
+    this.handlebars.registerPartial('functionReference', FUNCTION_REFERENCE_PARTIAL);
+    this.handlebars.registerPartial('permissionMatrix', PERMISSION_MATRIX_PARTIAL);
+    this.handlebars.registerPartial('objectAcquisition', OBJECT_ACQUISITION_PARTIAL);
+    this.handlebars.registerPartial('dependsOn', DEPENDS_ON_PARTIAL);
+    this.handlebars.registerPartial('abortTable', ABORT_TABLE_PARTIAL);
+    this.handlebars.registerPartial('ptbArguments', PTB_ARGUMENTS_PARTIAL);
+    this.handlebars.registerPartial('ptbRecipes', PTB_RECIPES_PARTIAL);
 
     // Register scene-specific templates
     for (const [scene, template] of Object.entries(SCENE_TEMPLATES)) {
@@ -316,6 +798,27 @@ export class TemplateEngine {
     return this.render('skill.md', context);
   }
 
+  /**
+   * Render the package-level SKILL.md
+   */
+  renderPackageSkillMd(context: PackageSkillMdContext): string {
+    return this.render('package-skill.md', context);
+  }
+
+  /**
+   * Render a module reference file of a package skill
+   */
+  renderModuleReference(context: ModuleReferenceContext): string {
+    return this.render('module-reference.md', context);
+  }
+
+  /**
+   * Render the single-document package reference
+   */
+  renderReferenceMd(context: ReferenceMdContext): string {
+    return this.render('reference.md', context);
+  }
+
   /**
    * Render types.md
    */
@@ -373,6 +876,16 @@ export interface SkillMdContext {
   dependencies: DependencyContext[];
   securityNotes: string[];
   primaryFunction?: PrimaryFunctionContext;
+  /** Capabilities and the functions they gate */
+  accessControl?: AccessControlContext;
+  objects?: ObjectContext[];
+  ptbRecipes?: PtbRecipeContext[];
+  /** Resolved package dependencies, when dependency analysis was requested */
+  dependsOn?: DependsOnContext;
+  /** Directory of the generated TypeScript types, when generated */
+  typesDir?: string;
+  /** Directory of the generated TypeScript SDK, when generated */
+  sdkDir?: string;
   generatorVersion: string;
   generatedAt: string;
 }
@@ -385,6 +898,39 @@ export interface FunctionContext {
   returns: ReturnContext[];
   typeParameters: TypeParamContext[];
   semantic: SemanticContext;
+  emits?: EmittedEventContext[];
+  aborts?: AbortContext[];
+  /** Why the function cannot be called on its own, if it passes hot potatoes */
+  ptbNote?: string;
+  /** Capabilities the caller must hold, directly or through a gated value */
+  capabilities?: string[];
+}
+
+export interface PtbRecipeContext {
+  potato: string;
+  /** Variable holding the potato between the calls */
+  potatoVar: string;
+  producer: FunctionContext;
+  consumer: FunctionContext;
+  /** Destructured results of the producer call */
+  returnNames: string[];
+  /** Functions that can read the potato before it is consumed */
+  inspectors: string[];
+}
+
+export interface AbortContext {
+  /** Error constant in backticks, or a fallback description */
+  error: string;
+  code: string;
+  /** Guard in backticks, escaped for table cells */
+  condition?: string;
+  via?: string;
+}
+
+export interface EmittedEventContext {
+  name: string;
+  /** Full Move event type, for `MoveEventType` filters */
+  eventType: string;
 }
 
 export interface ParameterContext {
@@ -396,6 +942,14 @@ export interface ParameterContext {
   isSystemObject: boolean;
   objectIdRequired: boolean;
   defaultValue?: string;
+  /** Inferred ownership of the object passed in, if it is a package object */
+  ownership?: OwnershipKind;
+  /** Whether the object is taken by `&mut` */
+  isMutable?: boolean;
+  /** Hot potato taken by value; passed from an earlier result in the PTB */
+  isHotPotato?: boolean;
+  /** Move type of the parameter */
+  moveType?: SuiMoveNormalizedType;
 }
 
 export interface ReturnContext {
@@ -406,6 +960,9 @@ export interface ReturnContext {
 export interface TypeParamContext {
   name: string;
   constraints: string[];
+  /** Coin type to pass in examples, e.g. 0x2::sui::SUI */
+  exampleType?: string;
+  exampleSymbol?: string;
 }
 
 export interface SemanticContext {
@@ -434,9 +991,50 @@ export interface DependencyContext {
   implications: string[];
 }
 
+export interface AccessControlContext {
+  capabilities: CapabilityContext[];
+  functions: FunctionAccessContext[];
+}
+
+export interface CapabilityContext {
+  name: string;
+  abilities: string[];
+  mintedInInit: boolean;
+  transferable: boolean;
+  evidence: string[];
+}
+
+export interface FunctionAccessContext {
+  name: string;
+  isEntry: boolean;
+  /** Required capabilities as inline markdown, e.g. `AdminCap` (via `Ticket` from `begin`) */
+  requirements: string[];
+}
+
+export interface DependsOnContext {
+  /** Mermaid flowchart of the non-framework dependency graph */
+  mermaid: string;
+  packages: Array<{ packageId: string; depth: number; version?: number; status: string; modules: string[] }>;
+  requiredTypes: RequiredTypeContext[];
+}
+
+export interface RequiredTypeContext {
+  name: string;
+  /** Full Move type */
+  type: string;
+  packageLabel: string;
+  /** shared, owned, immutable, wrapped or value */
+  kind: string;
+  howToSupply: string;
+  /** Functions taking it, as inline code */
+  requiredBy: string[];
+}
+
 export interface PrimaryFunctionContext {
   name: string;
   exampleArgs: string[];
+  /** Example coin types, for generic functions */
+  typeArguments?: string[];
 }
 
 export interface TypesMdContext {
@@ -452,6 +1050,15 @@ export interface StructContext {
   typeParameters: TypeParamContext[];
   fields: FieldContext[];
   isEvent: boolean;
+  ownership?: OwnershipKind;
+  /** Identified as a capability by the access-control analysis */
+  isCapability?: boolean;
+}
+
+export interface ObjectContext {
+  name: string;
+  ownership: OwnershipKind;
+  howToObtain: string;
 }
 
 export interface ScriptContext {
@@ -474,12 +1081,119 @@ export interface SceneSkillMdContext extends SkillMdContext {
   structs: StructContext[];
   /** Disassembled Move source code */
   sourceCode?: string;
+  /** Call graph of this module's functions */
+  callGraph?: CallGraphContext;
   // Custom scene fields (only used when scene === 'custom')
   customSceneName?: string;
   customSceneDescription?: string;
   customFocusAreas?: string[];
 }
 
+/**
+ * Context for the package-level SKILL.md
+ */
+export interface PackageSkillMdContext {
+  packageName: string;
+  /** Scene of the skill, when it is not the SDK overview */
+  scene?: string;
+  /** The scene's view of each module, appended after the package overview */
+  sceneSections?: string[];
+  title: string;
+  packageId: string;
+  network: string;
+  rpcUrl: string;
+  category: string;
+  description: string;
+  overview: string;
+  modules: ModuleSummaryContext[];
+  primaryFunction?: PackagePrimaryFunctionContext;
+  sharedObjects: SharedObjectContext[];
+  relationships?: ModuleRelationshipsContext;
+  events: PackageEventContext[];
+  errorCodes: PackageErrorCodeContext[];
+  dependsOn?: DependsOnContext;
+  securityNotes: string[];
+  typesDir?: string;
+  sdkDir?: string;
+  generatorVersion: string;
+  generatedAt: string;
+}
+
+export interface ModuleSummaryContext {
+  name: string;
+  category: string;
+  description?: string;
+  entryCount: number;
+  publicCount: number;
+  /** `public(package)` / `public(friend)` functions */
+  packageCount: number;
+  structCount: number;
+  /** Path of the module's reference file, relative to SKILL.md */
+  referencePath: string;
+}
+
+export interface PackagePrimaryFunctionContext extends PrimaryFunctionContext {
+  moduleName: string;
+}
+
+export interface SharedObjectContext {
+  name: string;
+  module: string;
+  /** Creating functions as inline code */
+  createdBy: string[];
+}
+
+export interface ModuleRelationshipsContext {
+  /** Mermaid flowchart of type references and package-internal calls between modules */
+  mermaid: string;
+  typeReferences: Array<{ from: string; type: string; usages: string[] }>;
+  friendships: Array<{ module: string; friend: string; declared: boolean; calls: string[] }>;
+}
+
+export interface PackageEventContext {
+  name: string;
+  /** Full Move event type */
+  eventType: string;
+  /** Emitting functions as inline code */
+  emittedBy: string[];
+}
+
+export interface PackageErrorCodeContext {
+  module: string;
+  name: string;
+  code: number;
+  description: string;
+}
+
+/**
+ * Context for a module reference file of a package skill
+ */
+export interface ModuleReferenceContext extends SkillMdContext {
+  structs: StructContext[];
+  /** `public(package)` / `public(friend)` functions */
+  packageFunctions: FunctionContext[];
+  /** Modules allowed to call the package functions, as inline code */
+  friends: string[];
+  errorCodes: Array<{ name: string; code: number; description: string }>;
+}
+
+export interface ReferenceMdContext extends PackageSkillMdContext {
+  moduleReferences: ModuleReferenceContext[];
+}
+
+export interface CallGraphContext {
+  /** Mermaid flowchart of calls made by this module */
+  mermaid: string;
+  reachability: ReachabilityContext[];
+}
+
+export interface ReachabilityContext {
+  name: string;
+  isEntry: boolean;
+  internals: string[];
+  sensitive: string[];
+}
+
 /**
  * Create a template engine instance
  */
@@ -300,13 +300,6 @@ export function registerHelpers(handlebars: typeof Handlebars): void {
     return category === target;
   });
 
-  // Check if struct name indicates a capability
-  handlebars.registerHelper('isCapability', (name: string) => {
-    if (typeof name !== 'string') return false;
-    const capPatterns = ['Cap', 'AdminCap', 'OwnerCap', 'Capability', 'Auth'];
-    return capPatterns.some(p => name.includes(p));
-  });
-
   // Check if parameters handle coins
   handlebars.registerHelper('handlesCoin', (params: Array<{tsType?: string}>) => {
     if (!Array.isArray(params)) return false;
@@ -345,6 +338,14 @@ export function registerHelpers(handlebars: typeof Handlebars): void {
     return category === 'admin' || category === 'config';
   });
 
+  // Check if any function emits events
+  handlebars.registerHelper('hasEmittingFunctions', (
+    functions: Array<{emits?: unknown[]}>
+  ) => {
+    if (!Array.isArray(functions)) return false;
+    return functions.some(f => (f.emits?.length ?? 0) > 0);
+  });
+
   // Check if functions have admin functions
   handlebars.registerHelper('hasAdminFunctions', (
     functions: Array<{semantic?: {category?: string}}>
@@ -390,88 +391,62 @@ export function registerHelpers(handlebars: typeof Handlebars): void {
   });
 
   // Check if structs have shared objects (excluding capabilities and events)
-  handlebars.registerHelper('hasSharedObjects', (structs: Array<{
-    name?: string;
-    abilities?: string[];
-    fields?: Array<{name: string; tsType: string}>;
-  }>) => {
+  handlebars.registerHelper('hasSharedObjects', (structs: StructInfo[]) => {
     if (!Array.isArray(structs)) return false;
     return structs.some(s => isSharedObjectStruct(s));
   });
 
   // Identify actual shared objects (not capabilities, not events)
-  handlebars.registerHelper('identifySharedObjects', (structs: Array<{
-    name?: string;
-    abilities?: string[];
-    fields?: Array<{name: string; tsType: string}>;
-  }>) => {
+  handlebars.registerHelper('identifySharedObjects', (structs: StructInfo[]) => {
     if (!Array.isArray(structs)) return [];
     return structs.filter(s => isSharedObjectStruct(s));
   });
 
-  // Find functions that mutate a specific struct type (take &mut StructName)
+  // Find entry and public functions that mutate a struct (take &mut StructName)
   handlebars.registerHelper('findMutationFunctions', (
-    functions: Array<{name?: string; parameters?: Array<{name?: string; tsType?: string; moveType?: unknown}>}>,
+    entryFunctions: FunctionInfo[],
+    publicFunctions: FunctionInfo[],
     structName: string
   ) => {
-    if (!Array.isArray(functions) || !structName) return [];
-    return functions
-      .filter(f => f.parameters?.some(p => {
-        const isMutRef = p.moveType && typeof p.moveType === 'object' &&
-          'MutableReference' in (p.moveType as object);
-        const matchesType = p.tsType?.includes(structName);
-        return isMutRef && matchesType;
-      }))
-      .map(f => {
-        const guardParam = f.parameters?.find(p => isCapabilityParam(p));
-        return {
-          funcName: f.name,
-          hasCapabilityGuard: !!guardParam,
-          guardName: guardParam?.tsType || '',
-        };
-      });
+    if (!structName) return [];
+    return callable(entryFunctions, publicFunctions)
+      .filter(f => mutates(f, structName))
+      .map(f => ({
+        funcName: f.name,
+        hasCapabilityGuard: (f.capabilities?.length ?? 0) > 0,
+        guardName: (f.capabilities ?? []).map(c => `\`${c}\``).join(', '),
+      }));
   });
 
   // Analyze shared object mutation protection status
   handlebars.registerHelper('sharedObjectMutationStatus', (
-    functions: Array<{name?: string; parameters?: Array<{name?: string; tsType?: string; moveType?: unknown}>}>,
-    structs: Array<{name?: string; abilities?: string[]; fields?: Array<{name: string; tsType: string}>}>
+    entryFunctions: FunctionInfo[],
+    publicFunctions: FunctionInfo[],
+    structs: StructInfo[]
   ) => {
     const sharedObjects = (structs || []).filter(s => isSharedObjectStruct(s));
     if (sharedObjects.length === 0) return 'N/A: No shared objects';
 
-    let unprotectedCount = 0;
-    for (const obj of sharedObjects) {
-      const mutators = (functions || []).filter(f =>
-        f.parameters?.some(p => {
-          const isMut = p.moveType && typeof p.moveType === 'object' &&
-            'MutableReference' in (p.moveType as object);
-          return isMut && p.tsType?.includes(obj.name || '');
-        })
-      );
-      for (const mutator of mutators) {
-        if (!mutator.parameters?.some(p => isCapabilityParam(p))) {
-          unprotectedCount++;
-        }
-      }
-    }
+    const unprotected = callable(entryFunctions, publicFunctions).filter(f =>
+      sharedObjects.some(obj => mutates(f, obj.name || '')) && !f.capabilities?.length
+    );
 
-    if (unprotectedCount > 0) return `Review: ${unprotectedCount} unprotected mutation path(s)`;
+    if (unprotected.length > 0) {
+      return `Review: ${unprotected.length} mutation path(s) without a capability (${unprotected.map(f => f.name).join(', ')})`;
+    }
     return 'Pass: All mutation paths are capability-guarded';
   });
 
   // Check access control status for admin/config functions
   handlebars.registerHelper('accessControlStatus', (
-    functions: Array<{name?: string; parameters?: Array<{name?: string; tsType?: string}>; semantic?: {category?: string}}>
+    entryFunctions: FunctionInfo[],
+    publicFunctions: FunctionInfo[]
   ) => {
-    if (!Array.isArray(functions)) return 'N/A';
-    const adminFuncs = functions.filter(f =>
+    const adminFuncs = callable(entryFunctions, publicFunctions).filter(f =>
       f.semantic?.category === 'admin' || f.semantic?.category === 'config'
     );
     if (adminFuncs.length === 0) return 'N/A: No admin functions';
-    const unprotected = adminFuncs.filter(f =>
-      !f.parameters?.some(p => isCapabilityParam(p))
-    );
+    const unprotected = adminFuncs.filter(f => !f.capabilities?.length);
     if (unprotected.length > 0) {
       const names = unprotected.map(f => f.name).join(', ');
       return `Review: ${unprotected.length} admin function(s) without capability checks (${names})`;
@@ -501,31 +476,6 @@ export function registerHelpers(handlebars: typeof Handlebars): void {
     );
   });
 
-  // Check if parameter requires capability (broad detection)
-  handlebars.registerHelper('requiresCapability', (
-    params: Array<{name?: string; tsType?: string}>
-  ) => {
-    if (!Array.isArray(params)) return false;
-    return params.some(p => isCapabilityParam(p));
-  });
-
-  // Broader capability detection (alias for template clarity)
-  handlebars.registerHelper('requiresCapabilityDeep', (
-    params: Array<{name?: string; tsType?: string; moveType?: unknown}>
-  ) => {
-    if (!Array.isArray(params)) return false;
-    return params.some(p => isCapabilityParam(p));
-  });
-
-  // Get the capability parameter name for display
-  handlebars.registerHelper('capabilityParamName', (
-    params: Array<{name?: string; tsType?: string}>
-  ) => {
-    if (!Array.isArray(params)) return '';
-    const cap = params.find(p => isCapabilityParam(p));
-    return cap ? `${cap.name}: ${cap.tsType}` : '';
-  });
-
   // Check if function modifies state
   handlebars.registerHelper('modifiesState', (
     params: Array<{objectIdRequired?: boolean}>
@@ -626,15 +576,45 @@ function hasAbility(abilities: string[], ability: string): boolean {
   return abilities.some(a => a.toLowerCase() === lower);
 }
 
-// Check if a struct is likely a shared object (not a capability, not an event)
-function isSharedObjectStruct(s: {
+// Function context fields the access helpers read
+interface FunctionInfo {
+  name?: string;
+  parameters?: Array<{moveType?: unknown}>;
+  semantic?: {category?: string};
+  /** Capabilities required directly or transitively, from the access-control analysis */
+  capabilities?: string[];
+}
+
+// Struct context fields the shared object helpers read
+interface StructInfo {
   name?: string;
   abilities?: string[];
   fields?: Array<{name: string; tsType: string}>;
-}): boolean {
+  ownership?: string;
+  isCapability?: boolean;
+}
+
+function callable(entryFunctions: FunctionInfo[], publicFunctions: FunctionInfo[]): FunctionInfo[] {
+  return [...(Array.isArray(entryFunctions) ? entryFunctions : []), ...(Array.isArray(publicFunctions) ? publicFunctions : [])];
+}
+
+// Whether a function takes a struct of this module by mutable reference
+function mutates(f: FunctionInfo, structName: string): boolean {
+  return !!f.parameters?.some(p => {
+    const inner = p.moveType && typeof p.moveType === 'object'
+      ? (p.moveType as {MutableReference?: {Struct?: {name?: string}}}).MutableReference
+      : undefined;
+    return inner?.Struct?.name === structName;
+  });
+}
+
+// Check if a struct is likely a shared object (not a capability, not an event)
+function isSharedObjectStruct(s: StructInfo): boolean {
+  // Prefer ownership inferred from the transfer calls when available
+  if (s.ownership && s.ownership !== 'unknown') return s.ownership === 'shared';
   if (!s.abilities || !hasAbility(s.abilities, 'key')) return false;
   // Exclude capability objects
-  if (isCapabilityName(s.name || '')) return false;
+  if (s.isCapability) return false;
   // Exclude event structs (Copy+Drop)
   if (hasAbility(s.abilities, 'copy') && hasAbility(s.abilities, 'drop')) return false;
   // Must have UID field (indicates a Sui object)
@@ -642,18 +622,6 @@ function isSharedObjectStruct(s: {
   return !!hasUid;
 }
 
-// Check if a name matches capability patterns
-function isCapabilityName(name: string): boolean {
-  return /Cap$|Capability$|AdminCap|OwnerCap|Auth$|Ticket$|Witness$/i.test(name);
-}
-
-// Check if a parameter is a capability parameter (broad detection)
-function isCapabilityParam(p: {name?: string; tsType?: string}): boolean {
-  const nameMatch = /cap$|_cap$|admin_cap|owner_cap|auth$|_auth$|ticket$|witness$/i.test(p.name || '');
-  const typeMatch = /Cap>?$|AdminCap|OwnerCap|Auth>?$|Ticket|Witness/i.test(p.tsType || '');
-  return nameMatch || typeMatch;
-}
-
 // Helper function for recursive move type formatting
 function formatMoveTypeHelper(moveType: unknown): string {
   if (!moveType) return 'unknown';
@@ -24,6 +24,10 @@ scene: audit
 
 ## Permission Model
 
+{{#if accessControl}}
+{{> permissionMatrix}}
+
+{{else}}
 ### Access Control Matrix
 
 | Function | Visibility | Entry | Risk | Who Can Call |
@@ -38,7 +42,7 @@ scene: audit
 ### Capability Objects
 
 {{#each structs}}
-{{#if (isCapability name)}}
+{{#if isCapability}}
 #### {{name}}
 **Type:** Capability Object
 **Purpose:** Controls access to privileged operations
@@ -54,6 +58,7 @@ scene: audit
 {{/if}}
 {{/each}}
 
+{{/if}}
 ## Asset Flow Analysis
 
 ### Token Handling Functions
@@ -76,8 +81,8 @@ scene: audit
 {{/each}}
 {{/if}}
 
-{{#if (requiresCapabilityDeep parameters)}}
-**Note:** Capability-gated operation (\`{{capabilityParamName parameters}}\`)
+{{#if (length capabilities)}}
+**Note:** Capability-gated operation (requires \`{{{join capabilities "\`, \`"}}}\`)
 {{else}}
 **Audit Points:**
 - Verify amount calculations maintain invariants
@@ -177,8 +182,8 @@ No medium risk functions identified.
 
 | Check | Status | Evidence |
 |-------|--------|----------|
-| Shared Object Mutation Guard | {{sharedObjectMutationStatus entryFunctions structs}} | Trace all \`&mut\` paths for shared objects |
-| Access Control | {{accessControlStatus entryFunctions}} | Verify capability checks on admin functions |
+| Shared Object Mutation Guard | {{sharedObjectMutationStatus entryFunctions publicFunctions structs}} | Trace all \`&mut\` paths for shared objects |
+| Access Control | {{accessControlStatus entryFunctions publicFunctions}} | Verify capability checks on admin functions |
 | Financial Arithmetic | {{arithmeticRiskStatus entryFunctions}} | Check intermediate overflow and precision loss |
 | Reentrancy | ✅ Sui Prevents | Sui's object-locking model prevents reentrancy |
 | Flash Loan Attack | {{#if (hasCategory category "dex")}}Review: DEX operations present{{else}}✅ N/A: Not a DEX{{/if}} | Check single-PTB price manipulation |
@@ -192,16 +197,32 @@ No medium risk functions identified.
 #### {{name}}
 
 **Mutation Functions:**
-{{#each (findMutationFunctions ../entryFunctions name)}}
-- \`{{funcName}}\`: {{#if hasCapabilityGuard}}PROTECTED (requires \`{{guardName}}\`){{else}}**UNPROTECTED** - no capability check detected{{/if}}
+{{#each (findMutationFunctions ../entryFunctions ../publicFunctions name)}}
+- \`{{funcName}}\`: {{#if hasCapabilityGuard}}PROTECTED (requires {{{guardName}}}){{else}}**UNPROTECTED** - no capability check detected{{/if}}
 {{/each}}
-{{#unless (length (findMutationFunctions ../entryFunctions name))}}
+{{#unless (length (findMutationFunctions ../entryFunctions ../publicFunctions name))}}
 - No direct mutation functions found (read-only or accessed via other modules)
 {{/unless}}
 
 {{/each}}
 {{/if}}
 
+{{#if callGraph}}
+## Call Graph Reachability
+
+Internal functions and sensitive framework operations each entry point can reach, directly or through other calls:
+
+| Function | Entry | Reaches Internals | Sensitive Operations |
+|----------|-------|-------------------|----------------------|
+{{#each callGraph.reachability}}
+| \`{{name}}\` | {{#if isEntry}}✓{{else}}-{{/if}} | {{#if (length internals)}}{{join internals ", "}}{{else}}-{{/if}} | {{#if (length sensitive)}}{{join sensitive ", "}}{{else}}-{{/if}} |
+{{/each}}
+
+\`\`\`mermaid
+{{{callGraph.mermaid}}}
+\`\`\`
+
+{{/if}}
 ## Admin Functions
 
 {{#each entryFunctions}}
@@ -216,7 +237,7 @@ No medium risk functions identified.
 {{/each}}
 
 **Security Assessment:**
-- Requires capability: {{#if (requiresCapabilityDeep parameters)}}Yes (\`{{capabilityParamName parameters}}\`){{else}}**No capability check detected**{{/if}}
+- Requires capability: {{#if (length capabilities)}}Yes (\`{{{join capabilities "\`, \`"}}}\`){{else}}**No capability check detected**{{/if}}
 - Modifies state: {{#if (modifiesState parameters)}}Yes{{else}}No{{/if}}
 
 ---
@@ -37,6 +37,10 @@ scene: bot
 
 {{semantic.description}}
 
+{{#if ptbNote}}
+> ⚠️ **Not callable standalone** - {{{ptbNote}}}
+
+{{/if}}
 {{#if (isHighRisk semantic.risk)}}
 > ⚠️ **{{riskBadge semantic.risk}}** - {{#each semantic.warnings}}{{this}} {{/each}}
 {{/if}}
@@ -60,7 +64,7 @@ async function {{snakeToCamel name}}Bot(
   tx.moveCall({
     target: \`{{../packageId}}::{{../moduleName}}::{{name}}\`,
 {{#if (length typeParameters)}}
-    typeArguments: [/* type args */],
+    typeArguments: [{{#each typeParameters}}'{{exampleType}}'{{#unless @last}}, {{/unless}}{{/each}}],
 {{/if}}
     arguments: [
 {{#each (filterUserParams parameters)}}
@@ -231,6 +235,14 @@ async function parallelExecute(
   );
 }
 \`\`\`
+{{#if (length ptbRecipes)}}
+
+### Hot Potato Flows
+
+These calls must run in one PTB; batch them together, never across transactions.
+
+{{> ptbRecipes}}
+{{/if}}
 
 ## State Monitoring
 
@@ -309,6 +321,39 @@ async function subscribeToEvents(
 {{/if}}
 }
 \`\`\`
+{{#if (hasEmittingFunctions entryFunctions)}}
+
+### Events per Action
+
+\`\`\`typescript
+// Events each entry function emits, directly or through internal calls
+const ACTION_EVENTS: Record<string, string[]> = {
+{{#each entryFunctions}}
+{{#if (length emits)}}
+  {{name}}: [{{#each emits}}'{{eventType}}'{{#unless @last}}, {{/unless}}{{/each}}],
+{{/if}}
+{{/each}}
+};
+
+// Confirm an executed action from its events (needs showEvents: true)
+function actionEvents(action: string, result: SuiTransactionBlockResponse) {
+  const types = ACTION_EVENTS[action] ?? [];
+  return (result.events ?? []).filter((event) => types.includes(event.type));
+}
+
+// Watch every execution of an action, whoever sends it
+async function subscribeToAction(
+  client: SuiClient,
+  action: string,
+  onEvent: (event: any) => void,
+) {
+  return client.subscribeEvent({
+    filter: { Any: (ACTION_EVENTS[action] ?? []).map((type) => ({ MoveEventType: type })) },
+    onMessage: (event) => onEvent(event.parsedJson),
+  });
+}
+\`\`\`
+{{/if}}
 
 ## Price/Data Fetching
 
@@ -71,7 +71,7 @@ custom_scene_name: "{{customSceneName}}"
 tx.moveCall({
   target: \`{{../packageId}}::{{../moduleName}}::{{name}}\`,
 {{#if (length typeParameters)}}
-  typeArguments: [{{#each typeParameters}}'0x2::sui::SUI'{{#unless @last}}, {{/unless}}{{/each}}],
+  typeArguments: [{{#each typeParameters}}'{{exampleType}}'{{#unless @last}}, {{/unless}}{{/each}}],
 {{/if}}
   arguments: [
 {{#each (filterUserParams parameters)}}
@@ -182,7 +182,7 @@ tx.moveCall({
 {{#if (length typeParameters)}}
   typeArguments: [
 {{#each typeParameters}}
-    '0x2::sui::SUI',
+    '{{exampleType}}', // {{name}}: {{exampleSymbol}}
 {{/each}}
   ],
 {{/if}}
@@ -160,7 +160,7 @@ async function {{snakeToCamel name}}(
   tx.moveCall({
     target: \`{{../packageId}}::{{../moduleName}}::{{name}}\`,
 {{#if (length typeParameters)}}
-    typeArguments: [/* coin types */],
+    typeArguments: [{{#each typeParameters}}'{{exampleType}}'{{#unless @last}}, {{/unless}}{{/each}}],
 {{/if}}
     arguments: [
 {{#each (filterUserParams parameters)}}
@@ -178,6 +178,26 @@ async function {{snakeToCamel name}}(
   return tx;
 }
 \`\`\`
+{{#if (length emits)}}
+
+**Events Emitted:** {{#each emits}}\`{{name}}\`{{#unless @last}}, {{/unless}}{{/each}}
+
+\`\`\`typescript
+// Update the UI from the events {{snakeToCamel name}} produces
+const unsubscribe = await client.subscribeEvent({
+  filter: {
+    Any: [
+{{#each emits}}
+      { MoveEventType: '{{eventType}}' },
+{{/each}}
+    ],
+  },
+  onMessage: (event) => {
+    updateState(event.parsedJson);
+  },
+});
+\`\`\`
+{{/if}}
 
 ---
 
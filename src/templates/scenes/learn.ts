@@ -135,6 +135,16 @@ sequenceDiagram
 {{/with}}
 \`\`\`
 
+{{#if callGraph}}
+## Call Graph
+
+How this module's functions call each other, other packages and the Sui framework (entry points in blue, sensitive framework calls in red):
+
+\`\`\`mermaid
+{{{callGraph.mermaid}}}
+\`\`\`
+
+{{/if}}
 ## Design Patterns
 
 {{#if (hasCategory category "dex")}}
@@ -167,7 +177,7 @@ This module handles non-fungible tokens:
 |-------------|-----------|----------------|
 {{#each structs}}
 {{#unless isEvent}}
-| {{name}} | {{#if (hasAbility abilities "key")}}Owned/Shared{{else}}Embedded{{/if}} | {{#if (hasAbility abilities "store")}}Transferable{{else}}Fixed{{/if}} |
+| {{name}} | {{#if ownership}}{{ownership}}{{else if (hasAbility abilities "key")}}Owned/Shared{{else}}Embedded{{/if}} | {{#if (hasAbility abilities "store")}}Transferable{{else}}Fixed{{/if}} |
 {{/unless}}
 {{/each}}
 
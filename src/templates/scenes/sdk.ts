@@ -59,6 +59,10 @@ const result = await client.signAndExecuteTransaction({
 
 {{semantic.description}}
 
+{{#if ptbNote}}
+> ⚠️ **Not callable standalone** - {{{ptbNote}}}
+
+{{/if}}
 {{#if (isHighRisk semantic.risk)}}
 > ⚠️ **{{riskBadge semantic.risk}}** - {{#each semantic.warnings}}{{this}} {{/each}}
 {{/if}}
@@ -87,12 +91,16 @@ const result = await client.signAndExecuteTransaction({
 {{/each}}
 {{/if}}
 
+{{#if (length aborts)}}
+{{> abortTable}}
+
+{{/if}}
 **Example:**
 \`\`\`typescript
 tx.moveCall({
   target: \`{{../packageId}}::{{../moduleName}}::{{name}}\`,
 {{#if (length typeParameters)}}
-  typeArguments: [{{#each typeParameters}}'0x2::sui::SUI'{{#unless @last}}, {{/unless}}{{/each}}],
+  typeArguments: [{{#each typeParameters}}'{{exampleType}}'{{#unless @last}}, {{/unless}}{{/each}}],
 {{/if}}
   arguments: [
 {{#each (filterUserParams parameters)}}
@@ -122,6 +130,10 @@ These functions can be used in PTB compositions:
 
 {{semantic.description}}
 
+{{#if ptbNote}}
+> ⚠️ **Not callable standalone** - {{{ptbNote}}}
+
+{{/if}}
 {{#if (length (filterUserParams parameters))}}
 | Parameter | Type | Description |
 |-----------|------|-------------|
@@ -171,9 +183,25 @@ tx.moveCall({
 
 await client.signAndExecuteTransaction({ transaction: tx, signer });
 \`\`\`
+{{#if (length ptbRecipes)}}
+
+### Hot Potato Flows
+
+{{> ptbRecipes}}
+{{/if}}
 
 ## Object Acquisition
 
+{{#if (length objects)}}
+{{> objectAcquisition}}
+
+{{/if}}
+{{#if dependsOn}}
+### Objects From Other Packages
+
+{{> dependsOn}}
+
+{{/if}}
 {{#if (length dependencies)}}
 Common objects needed for this module:
 
@@ -221,6 +249,12 @@ try {
 }
 \`\`\`
 
+{{#if accessControl}}
+## Permission Matrix
+
+{{> permissionMatrix}}
+
+{{/if}}
 ## Security Notes
 
 {{#each securityNotes}}
@@ -230,6 +264,12 @@ try {
 ## Related Resources
 
 - [Type Definitions](references/types.md)
+{{#if typesDir}}
+- [TypeScript Types and BCS Schemas]({{typesDir}}/index.ts)
+{{/if}}
+{{#if sdkDir}}
+- [Typed Transaction Builders]({{sdkDir}}/index.ts)
+{{/if}}
 {{#if (length events)}}
 - [Events Reference](references/events.md)
 {{/if}}
@@ -0,0 +1,179 @@
+/**
+ * JSON analysis document (`generate --format json`)
+ *
+ * The document is versioned with `schemaVersion` (semver): minor versions only
+ * add optional properties, major versions rename or remove them. Its JSON
+ * Schema is written next to every document as `analysis.schema.json`.
+ */
+
+import type { Network, SuiMoveNormalizedType } from './sui.js';
+import type {
+  ModuleCategory,
+  SemanticCategory,
+  RiskLevel,
+  FunctionAbort,
+  PtbConstraint,
+  ErrorCodeCategory,
+  CapabilityInfo,
+  FunctionAccess,
+  ObjectOwnership,
+  HotPotato,
+  CallGraph,
+  CrossModuleTypeRef,
+  ModuleFriendship,
+  PackageDependencyGraph,
+  DetectedDependency,
+} from './skill.js';
+
+export interface AnalysisDocument {
+  /** Path of the JSON Schema file, relative to the document */
+  $schema: string;
+  schemaVersion: string;
+  generator: {
+    name: string;
+    version: string;
+  };
+  generatedAt: string;
+  package: AnalysisPackageSummary;
+  modules: AnalysisModuleEntry[];
+  /** Types of one module used in another module's signatures or fields */
+  typeReferences: CrossModuleTypeRef[];
+  /** Modules allowed to call another module's package-visible functions */
+  friendships: ModuleFriendship[];
+  /** Events of every module and the functions emitting them */
+  events: AnalysisPackageEvent[];
+  /** Error constants of every module; codes are only unique within a module */
+  errors: AnalysisPackageError[];
+  /** Package-wide call graph, when source or bytecode was available */
+  callGraph: CallGraph | null;
+  /** Packages it depends on, when dependency analysis was requested */
+  dependencies: PackageDependencyGraph | null;
+}
+
+export interface AnalysisPackageSummary {
+  packageId: string;
+  network: Network;
+  category: ModuleCategory;
+  modules: string[];
+  totals: {
+    functions: number;
+    entryFunctions: number;
+    publicFunctions: number;
+    structs: number;
+    events: number;
+  };
+}
+
+export interface AnalysisModuleEntry {
+  name: string;
+  category: ModuleCategory;
+  /** Whether Move source (or decompiled bytecode) backed the analysis */
+  hasSource: boolean;
+  functions: AnalysisFunctionEntry[];
+  structs: AnalysisStructEntry[];
+  events: AnalysisEventEntry[];
+  errors: AnalysisErrorEntry[];
+  capabilities: CapabilityInfo[];
+  /** Capabilities gating every public and entry function */
+  access: FunctionAccess[];
+  /** Ownership of every `key` struct */
+  objects: ObjectOwnership[];
+  hotPotatoes: HotPotato[];
+  /** Types and functions of other packages used by the module */
+  externalDependencies: DetectedDependency[];
+}
+
+/** `package` is Move's `public(package)` (formerly `public(friend)`) */
+export type AnalysisVisibility = 'public' | 'package' | 'private';
+
+export interface AnalysisFunctionEntry {
+  name: string;
+  visibility: AnalysisVisibility;
+  isEntry: boolean;
+  /** Move signature, e.g. `public entry fun swap<T0>(pool: &mut 0x...::pool::Pool<T0>, ...)` */
+  signature: string;
+  typeParameters: AnalysisTypeParameter[];
+  parameters: AnalysisParameter[];
+  returns: AnalysisValue[];
+  semantics: {
+    category: SemanticCategory;
+    risk: RiskLevel;
+    description: string;
+    warnings: string[];
+    tags: string[];
+  };
+  /** Event structs emitted directly or through the package functions it calls */
+  emits: string[];
+  aborts: FunctionAbort[];
+  /** Hot potatoes it returns or takes */
+  ptbConstraint?: PtbConstraint;
+  documentation?: string;
+}
+
+export interface AnalysisTypeParameter {
+  name: string;
+  constraints: string[];
+  isPhantom?: boolean;
+}
+
+export interface AnalysisValue {
+  /** Fully qualified Move type, e.g. `0x2::coin::Coin<T0>` */
+  type: string;
+  /** Normalized Move type as returned by the Sui RPC */
+  moveType: SuiMoveNormalizedType;
+  /** TypeScript type of the value in the generated scripts */
+  tsType: string;
+  description: string;
+}
+
+export interface AnalysisParameter extends AnalysisValue {
+  name: string;
+  /** Clock, Random and the like: passed as a well-known object ID */
+  isSystemObject: boolean;
+  /** TxContext: supplied by the runtime, never by the caller */
+  isAutoInjected: boolean;
+}
+
+export interface AnalysisStructEntry {
+  name: string;
+  abilities: string[];
+  typeParameters: AnalysisTypeParameter[];
+  fields: AnalysisField[];
+  isEvent: boolean;
+}
+
+export interface AnalysisField extends AnalysisValue {
+  name: string;
+}
+
+export interface AnalysisEventEntry {
+  name: string;
+  fields: AnalysisField[];
+  description: string;
+}
+
+export interface AnalysisErrorEntry {
+  name: string;
+  code: number;
+  description: string;
+  category: ErrorCodeCategory;
+  possibleCauses: string[];
+  solutions: string[];
+  /** Functions of the module that can abort with it */
+  raisedBy: string[];
+}
+
+export interface AnalysisPackageEvent {
+  module: string;
+  name: string;
+  /** Fully qualified event type, for event queries */
+  type: string;
+  /** Functions emitting it (`module::function`), from any module */
+  emittedBy: string[];
+}
+
+export interface AnalysisPackageError {
+  module: string;
+  name: string;
+  code: number;
+}
@@ -4,3 +4,4 @@
 
 export * from './sui.js';
 export * from './skill.js';
+export * from './analysis.js';
@@ -2,7 +2,7 @@
  * Skill output type definitions
  */
 
-import type { Network, SuiMoveNormalizedType } from './sui.js';
+import type { Network, SuiMoveNormalizedType, SuiMoveAbility } from './sui.js';
 
 // Predefined skill scene types
 export type PredefinedScene = 'sdk' | 'learn' | 'audit' | 'frontend' | 'bot' | 'docs';
@@ -40,11 +40,17 @@ export interface ProtocolPreset {
   description?: string;
 }
 
+// Output formats: a skill directory, a JSON analysis document or a single markdown reference
+export type OutputFormat = 'skill' | 'json' | 'markdown';
+
+// Generation targets: an agent skill or an MCP server exposing the package as tools
+export type GenerateTarget = 'skill' | 'mcp';
+
 // Generation options
 export interface GenerationOptions {
   network: Network;
   output: string;
-  format: 'skill' | 'json' | 'markdown';
+  format: OutputFormat;
   language: 'en' | 'zh';
   includeScripts: boolean;
   includeExamples: boolean;
@@ -62,8 +68,8 @@ export interface GenerationOptions {
 // Input source types
 export type InputSource =
   | { type: 'packageId'; packageId: string; module?: string }
-  | { type: 'github'; url: string; path?: string }
-  | { type: 'local'; path: string };
+  | { type: 'github'; url: string; path?: string; module?: string }
+  | { type: 'local'; path: string; module?: string };
 
 export interface ParsedInput {
   source: InputSource;
@@ -83,6 +89,95 @@ export interface AnalyzedModule {
   metadata: ModuleMetadata;
   /** Disassembled Move source code */
   sourceCode?: string;
+  /** Package-wide call graph, when source or bytecode was available */
+  callGraph?: CallGraph;
+  /** Capabilities and the functions they gate */
+  accessControl?: AccessControlMap;
+  /** Ownership of every `key` struct in the package */
+  ownership?: ObjectOwnership[];
+  /** Error constants and the functions raising them (needs Move source) */
+  errorCodes?: ErrorCodeEntry[];
+  /** Ability-less structs and the functions passing them along */
+  hotPotatoes?: HotPotato[];
+  /** Packages it depends on, when dependency analysis was requested */
+  dependencyGraph?: PackageDependencyGraph;
+}
+
+/**
+ * A whole package: every analyzed module plus what ties the modules together
+ */
+export interface AnalyzedPackage {
+  packageId: string;
+  /** Package name from Move.toml, when analyzed from source */
+  name?: string;
+  network: Network;
+  modules: AnalyzedModule[];
+  /** Types of one module used in another module's signatures or fields */
+  typeReferences: CrossModuleTypeRef[];
+  /** Modules allowed to call another module's package-visible functions */
+  friendships: ModuleFriendship[];
+  /** Every shared object type of the package */
+  sharedObjects: ObjectOwnership[];
+  /** Error constants of every module; codes are only unique within a module */
+  errorCodes: PackageErrorCode[];
+  /** Events of every module and the functions emitting them */
+  events: PackageEvent[];
+  /** Dominant category of the modules */
+  category: ModuleCategory;
+  metadata: PackageMetadata;
+  /** Packages it depends on, when dependency analysis was requested */
+  dependencyGraph?: PackageDependencyGraph;
+}
+
+export interface CrossModuleTypeRef {
+  /** Module using the type */
+  from: string;
+  /** Module declaring the type */
+  to: string;
+  /** `module::Name` */
+  type: string;
+  /** Where it is used, e.g. `swap (parameter)` or `Vault.pool (field)` */
+  usages: string[];
+}
+
+/**
+ * `friend` declarations and `public(package)` calls between modules
+ */
+export interface ModuleFriendship {
+  module: string;
+  /** Module that may call `module`'s package-visible functions */
+  friend: string;
+  /** Declared with `friend` (pre-2024 Move); otherwise seen in the call graph */
+  declared: boolean;
+  /** Package-visible functions of `module` that `friend` calls, when source is available */
+  calls: string[];
+}
+
+export interface PackageErrorCode extends ErrorCodeEntry {
+  module: string;
+}
+
+export interface PackageEvent {
+  module: string;
+  name: string;
+  /** `module::Name` */
+  type: string;
+  fields: AnalyzedField[];
+  description: string;
+  /** Functions emitting it (`module::function`), from any module */
+  emittedBy: string[];
+}
+
+export interface PackageMetadata {
+  packageId: string;
+  network: Network;
+  modules: string[];
+  totalFunctions: number;
+  entryFunctions: number;
+  publicFunctions: number;
+  totalStructs: number;
+  totalEvents: number;
+  fetchedAt: string;
 }
 
 export interface AnalyzedFunction {
@@ -94,11 +189,58 @@ export interface AnalyzedFunction {
   typeParameters: TypeParameterInfo[];
   semantic: SemanticInfo;
   documentation?: string;
+  /** Events emitted directly or through the package functions it calls */
+  emits: AnalyzedEvent[];
+  /** Aborts it can hit directly or through the package functions it calls */
+  aborts: FunctionAbort[];
+  /** Hot potatoes it returns or takes, which tie it to other calls in the same PTB */
+  ptbConstraint?: PtbConstraint;
+}
+
+export interface PtbConstraint {
+  /** Hot potato struct names it returns */
+  produces: string[];
+  /** Hot potato struct names it takes by value */
+  consumes: string[];
+}
+
+/**
+ * A struct without abilities: it cannot be stored, copied or dropped, so it
+ * must be consumed in the transaction that produced it
+ */
+export interface HotPotato {
+  /** `module::Name` */
+  type: string;
+  name: string;
+  /** Functions returning it */
+  producers: string[];
+  /** Functions taking it by value */
+  consumers: string[];
+  /** Functions reading it by reference */
+  inspectors: string[];
+}
+
+/**
+ * An abort a function can hit, resolved back to its error constant
+ */
+export interface FunctionAbort {
+  /** Error constant name, when known (bytecode carries only the code) */
+  constant?: string;
+  /** Numeric abort code; absent for Move 2024 `#[error]` constants */
+  code?: number;
+  /** Source line, decoded from a Move 2024 clever abort code */
+  line?: number;
+  /** Condition that must hold to avoid the abort */
+  condition?: string;
+  /** Package function (`module::function`) raising it, when not the function itself */
+  via?: string;
 }
 
 export interface AnalyzedParameter {
   index: number;
   name: string;
+  /** Name declared in Move source, when the source is available */
+  sourceName?: string;
   moveType: SuiMoveNormalizedType;
   tsType: string;
   description: string;
@@ -119,6 +261,8 @@ export interface TypeParameterInfo {
   index: number;
   name: string;
   constraints: string[];
+  /** Struct type parameter that only appears in phantom positions */
+  isPhantom?: boolean;
 }
 
 export interface AnalyzedStruct {
@@ -189,6 +333,162 @@ export interface DetectedDependency {
   implications: string[];
 }
 
+// Call graph
+export type CallEdgeKind = 'intra-package' | 'cross-package' | 'framework';
+
+export interface CallGraphNode {
+  /** Fully qualified name: `address::module::function` */
+  id: string;
+  address: string;
+  module: string;
+  function: string;
+  /** Declared in the analyzed package (callees in other packages are external) */
+  isPackageFunction: boolean;
+  /** Only known for package functions */
+  visibility?: 'public' | 'private' | 'friend';
+  isEntry: boolean;
+  /** Why the function is security-sensitive (fund movement, object transfer, ...) */
+  sensitive?: string;
+}
+
+export interface CallGraphEdge {
+  from: string;
+  to: string;
+  kind: CallEdgeKind;
+  /** Number of call sites from `from` to `to` */
+  count: number;
+}
+
+/** What an entry point (entry or public function) can reach */
+export interface EntryReachability {
+  entry: string;
+  /** Non-public package functions reachable from the entry point */
+  internals: string[];
+  /** Sensitive functions reachable from the entry point */
+  sensitive: string[];
+}
+
+export interface CallGraph {
+  packageId: string;
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+  reachability: EntryReachability[];
+}
+
+// Access control
+export interface CapabilityInfo {
+  /** `module::Name` */
+  type: string;
+  module: string;
+  name: string;
+  abilities: SuiMoveAbility[];
+  /** Defined by the Sui framework (TreasuryCap, Publisher, ...) */
+  isFramework: boolean;
+  /** Created in the module initializer */
+  mintedInInit: boolean;
+  /** Has `store`, so holders can transfer or wrap it without the module's involvement */
+  transferable: boolean;
+  /** Why the struct is considered a capability */
+  evidence: string[];
+}
+
+/** A capability required indirectly, by exchanging it for a value only cap holders can obtain */
+export interface TransitiveCapabilityGate {
+  capability: string;
+  /** The gated value (`module::Name`) */
+  via: string;
+  /** Function that produces the gated value */
+  producer: string;
+}
+
+export interface FunctionAccess {
+  function: string;
+  visibility: 'public' | 'private' | 'friend';
+  isEntry: boolean;
+  /** Capabilities taken as parameters */
+  direct: string[];
+  transitive: TransitiveCapabilityGate[];
+}
+
+export interface AccessControlMap {
+  capabilities: CapabilityInfo[];
+  /** Every public and entry function of the module */
+  functions: FunctionAccess[];
+}
+
+// Object ownership
+export type OwnershipKind = 'shared' | 'owned' | 'immutable' | 'wrapped' | 'unknown';
+
+export interface ObjectOwnership {
+  /** `module::Name` */
+  type: string;
+  module: string;
+  name: string;
+  /** Kind that decides how the object is passed to calls: shared > immutable > owned > wrapped */
+  primary: OwnershipKind;
+  /** Every kind observed; e.g. an object may be owned until a function shares it */
+  kinds: OwnershipKind[];
+  /** Functions that create the object (`module::function`) */
+  createdBy: string[];
+  /** Structs that hold the object in a field (`module::Name`) */
+  wrappedIn: string[];
+  /** What the kinds were inferred from, e.g. `transfer::share_object in pool::create` */
+  evidence: string[];
+}
+
+// Package dependencies
+export type DependencyStatus = 'root' | 'resolved' | 'skipped' | 'depth-limit' | 'failed';
+
+export interface DependencyNode {
+  /** Original (first published) package ID; types and linkage tables use this */
+  packageId: string;
+  /** Distance from the analyzed package */
+  depth: number;
+  /** Sui framework package (0x1, 0x2, 0x3, ...) */
+  isFramework: boolean;
+  status: DependencyStatus;
+  /** Modules of the fetched package (resolved nodes only) */
+  modules: string[];
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  /** Version of `to` pinned in `from`'s linkage table */
+  version?: number;
+  /** Package ID of that pinned version, when it differs from the original ID */
+  linkedId?: string;
+  /** Types of `to` used in `from`'s signatures and fields (`module::Name`) */
+  types: string[];
+  /** Functions of `to` called by `from` (`module::function`), when source is available */
+  calls: string[];
+}
+
+/**
+ * An object or value from another package that callers of the analyzed package must pass in
+ */
+export interface ExternalTypeRequirement {
+  /** `0x...::module::Name` */
+  type: string;
+  packageId: string;
+  module: string;
+  name: string;
+  abilities: string[];
+  /** How the object is held, when the dependency was analyzed */
+  ownership?: OwnershipKind;
+  /** Public and entry functions taking it (`module::function`) */
+  requiredBy: string[];
+}
+
+export interface PackageDependencyGraph {
+  root: string;
+  /** Resolution depth used (1 = direct dependencies only) */
+  maxDepth: number;
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  requiredTypes: ExternalTypeRequirement[];
+}
+
 // Module metadata
 export interface ModuleMetadata {
   packageId: string;
@@ -210,7 +510,13 @@ export interface SkillOutput {
     abi: string;
     types: string;
     events: string;
+    /** Per-module reference docs of a package skill (module name -> markdown) */
+    modules?: Record<string, string>;
+    /** Graphviz DOT of the package dependency graph */
+    dependencies?: string;
   };
+  /** Generated TypeScript sources (path relative to the skill directory -> content) */
+  code?: Record<string, string>;
   scripts: {
     call: string;
     read: string;
@@ -237,6 +543,7 @@ export interface SkillMetadata {
 
 // Mapped type result
 export interface MappedType {
+  /** Type in the mapper's target language (TypeScript unless configured otherwise) */
   ts: string;
   description: string;
   isObjectRef?: boolean;
@@ -254,6 +561,45 @@ export type ProgressCallback = (stage: string, message: string, progress?: numbe
 // AI-Enhanced Analysis Types (v3)
 // ============================================
 
+/**
+ * Where an analyzed fact came from:
+ * abi (declared signatures, abilities and constants - never overridden), source (doc comments),
+ * user (review corrections), llm (model output), regex (name and pattern heuristics)
+ */
+export type FactSource = 'abi' | 'source' | 'user' | 'llm' | 'regex';
+
+/**
+ * Source, confidence and evidence of one analyzed fact
+ */
+export interface FactProvenance {
+  source: FactSource;
+  /** Confidence score (0-1) */
+  confidence: number;
+  /** What the fact was derived from, e.g. "doc comment", "name matches /^get/" */
+  evidence: string[];
+}
+
+/**
+ * Provenance of an item's fields, keyed by field name (e.g. purpose, category)
+ */
+export type FieldProvenance = Record<string, FactProvenance>;
+
+/**
+ * A disagreement between analysis sources and how it was resolved
+ */
+export interface AnalysisConflict {
+  /** What the fact is about, e.g. "function:swap", "type:AdminCap", "error:EPaused", "generic:T0" */
+  subject: string;
+  /** Field in disagreement, e.g. "category" */
+  field: string;
+  /** Value kept */
+  chosen: { value: unknown; source: FactSource };
+  /** Values that were overridden */
+  rejected: Array<{ value: unknown; source: FactSource }>;
+  /** Why the chosen value won */
+  reason: string;
+}
+
 /**
  * Error code category for classification
  */
@@ -275,6 +621,10 @@ export interface ErrorCodeEntry {
   solutions: string[];
   /** Error category */
   category: ErrorCodeCategory;
+  /** Functions of the module that can abort with this error */
+  raisedBy?: string[];
+  /** Provenance of code, description and category */
+  provenance?: FieldProvenance;
 }
 
 /**
@@ -287,6 +637,8 @@ export interface GenericMeaning {
   description: string;
   /** Common concrete types, e.g., ["SUI", "USDC"] */
   commonTypes: string[];
+  /** Coin type strings for the known `commonTypes` on the analyzed network, e.g. ["0x2::sui::SUI"] */
+  coinTypes?: string[];
 }
 
 /**
@@ -299,6 +651,8 @@ export interface GenericSemantics {
   confidence: number;
   /** Sources used for inference, e.g., ["function:swap", "param:base_coin"] */
   inferredFrom: string[];
+  /** Provenance of each generic's meaning, keyed by generic name */
+  provenance?: FieldProvenance;
 }
 
 /**
@@ -317,6 +671,12 @@ export interface AIAnalyzedFunction {
   genericUsage?: Record<string, 'input' | 'output' | 'both'>;
   /** Code example */
   example?: string;
+  /** Declared visibility (from the ABI) */
+  visibility?: 'public' | 'package' | 'friend' | 'private';
+  /** Declared `entry` (from the ABI) */
+  isEntry?: boolean;
+  /** Provenance of purpose, category, risk, visibility and isEntry */
+  provenance?: FieldProvenance;
 }
 
 /**
@@ -333,6 +693,10 @@ export interface AIAnalyzedType {
   isSharedObject: boolean;
   /** Field descriptions */
   fields: Array<{ name: string; purpose: string }>;
+  /** Declared abilities (from the ABI) */
+  abilities?: string[];
+  /** Provenance of purpose, isCapability, isSharedObject and abilities */
+  provenance?: FieldProvenance;
 }
 
 /**
@@ -376,8 +740,22 @@ export interface ContractAnalysis {
   confidence: number;
   /** Whether fallback regex analysis was used */
   fallbackUsed: boolean;
-  /** Source of analysis: 'claude' | 'regex' | 'hybrid' */
+  /** Source of analysis: 'claude' (any LLM provider) | 'regex' | 'hybrid' */
   analysisSource: 'claude' | 'regex' | 'hybrid';
+  /** LLM provider and model that produced the analysis, e.g. "anthropic/claude-sonnet-4-5" */
+  analysisProvider?: string;
+  /** SHA-256 of the analyzed source */
+  sourceHash?: string;
+  /** When the analysis was cached, if it was served from the cache */
+  cachedAt?: string;
+  /** Disagreements between the LLM, regex fallbacks and ABI facts, as resolved */
+  conflicts?: AnalysisConflict[];
+  /** Tokens spent on the LLM analysis */
+  tokenUsage?: {
+    inputTokens: number;
+    outputTokens: number;
+    estimated?: boolean;
+  };
 }
 
 /**
@@ -4,14 +4,34 @@
  */
 
 // Network types
-export type Network = 'mainnet' | 'testnet' | 'devnet';
+export type BuiltinNetwork = 'mainnet' | 'testnet' | 'devnet' | 'localnet';
 
-export const NETWORK_URLS: Record<Network, string> = {
+// Custom network profiles (from the config file) may use any name
+export type Network = BuiltinNetwork | (string & {});
+
+export const NETWORK_URLS: Record<BuiltinNetwork, string> = {
   mainnet: 'https://fullnode.mainnet.sui.io',
   testnet: 'https://fullnode.testnet.sui.io',
   devnet: 'https://fullnode.devnet.sui.io',
+  localnet: 'http://127.0.0.1:9000',
+};
+
+export const GRAPHQL_URLS: Record<BuiltinNetwork, string> = {
+  mainnet: 'https://sui-mainnet.mystenlabs.com/graphql',
+  testnet: 'https://sui-testnet.mystenlabs.com/graphql',
+  devnet: 'https://sui-devnet.mystenlabs.com/graphql',
+  localnet: 'http://127.0.0.1:9125/graphql',
 };
 
+// Named network profile with endpoints in priority order
+export interface NetworkProfile {
+  name: string;
+  rpc: string[];
+  graphql: string[];
+  /** Public chain the profile points at (e.g. a private mainnet fullnode) */
+  chain?: BuiltinNetwork;
+}
+
 // Module identifier
 export interface SuiModuleId {
   address: string;
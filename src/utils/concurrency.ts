@@ -0,0 +1,57 @@
+/**
+ * Concurrency helpers: bounded parallel map and in-flight request coalescing
+ */
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Shares one in-flight promise between concurrent callers asking for the same key.
+ * Settled results are not kept; caching is left to the caller.
+ */
+export class RequestCoalescer {
+  private inflight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run `fn` for `key`, or join the call already in flight for it
+   */
+  run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = fn().finally(() => {
+      this.inflight.delete(key);
+    });
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Number of distinct requests currently in flight
+   */
+  get size(): number {
+    return this.inflight.size;
+  }
+}
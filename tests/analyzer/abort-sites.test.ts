@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { findFunctionAborts } from '../../src/analyzer/abort-sites.js';
+import { buildCallGraph } from '../../src/analyzer/call-graph.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+
+const SOURCES = {
+  errors: `
+module demo::errors;
+
+const ENotOwner: u64 = 7;
+
+public fun not_owner(): u64 { ENotOwner }
+`,
+  vault: `
+module demo::vault;
+
+use demo::errors;
+
+const EEmpty: u64 = 1;
+#[error]
+const EPaused: vector<u8> = b"Vault is paused";
+
+public struct Vault has key { id: UID, total: u64, owner: address, paused: bool }
+
+entry fun withdraw(vault: &mut Vault, amount: u64, ctx: &TxContext) {
+    check(vault);
+    assert!(vault.owner == ctx.sender(), errors::ENotOwner);
+    if (vault.total < amount) abort EEmpty;
+    vault.total = vault.total - amount;
+}
+
+fun check(vault: &Vault) {
+    assert!(!vault.paused, EPaused);
+}
+
+entry fun fail() { abort 42 }
+`,
+};
+
+const parsed = Object.fromEntries(
+  Object.entries(SOURCES).map(([name, source]) => [
+    name,
+    parseMoveSource(source, { addresses: { demo: '0x0' }, packageNamedAddress: 'demo' })[0],
+  ])
+);
+const sources = Object.fromEntries(Object.entries(parsed).map(([name, module]) => [name, module.source]));
+
+describe('abort sites', () => {
+  it('resolves abort codes to constants across the package', () => {
+    const aborts = findFunctionAborts(sources);
+
+    expect(aborts['vault::withdraw']).toEqual([
+      { constant: 'ENotOwner', code: 7, condition: 'vault.owner == ctx.sender()' },
+      { constant: 'EEmpty', code: 1, condition: '!(vault.total < amount)' },
+    ]);
+    // `#[error]` constants get their code from the compiler
+    expect(aborts['vault::check']).toEqual([{ constant: 'EPaused', condition: '!vault.paused' }]);
+    expect(aborts['vault::fail']).toEqual([{ code: 42 }]);
+  });
+
+  it('includes aborts of called package functions', () => {
+    const aborts = findFunctionAborts(sources, buildCallGraph('0x0', sources));
+
+    expect(aborts['vault::withdraw']).toContainEqual({
+      constant: 'EPaused',
+      condition: '!vault.paused',
+      via: 'vault::check',
+    });
+  });
+
+  it('records which functions raise each error constant', () => {
+    const analyzed = createModuleAnalyzer().analyzeModule(parsed.vault.abi, 'testnet', parsed.vault.source, sources);
+
+    expect(analyzed.errorCodes?.find((e) => e.name === 'EEmpty')?.raisedBy).toEqual(['withdraw']);
+    expect(analyzed.functions.find((f) => f.name === 'withdraw')?.aborts).toHaveLength(3);
+  });
+});
+
+describe('abort tables', () => {
+  const analyzed = createModuleAnalyzer().analyzeModule(parsed.vault.abi, 'testnet', parsed.vault.source, sources);
+  const table = [
+    '| Error | Code | Must Hold | Raised In |',
+    '|-------|------|-----------|-----------|',
+    '| `ENotOwner` | 7 | `vault.owner == ctx.sender()` | - |',
+    '| `EEmpty` | 1 | `!(vault.total < amount)` | - |',
+    '| `EPaused` | - | `!vault.paused` | `vault::check` |',
+  ].join('\n');
+
+  it('lists what an entry function can fail with in SKILL.md', () => {
+    const md = createSkillGenerator().generateSkillMd(analyzed);
+
+    expect(md).toContain(table);
+    expect(md).toContain('| Abort | 42 | - | - |');
+  });
+
+  it('lists them in the sdk scene', () => {
+    expect(createSkillGenerator({ scene: 'sdk' }).generateSceneSkillMd(analyzed)).toContain(table);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { analyzeAccessControl } from '../../src/analyzer/access-control.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+
+// The admin gates `vault` through a cap-only `Ticket`; `touch` mutates it freely
+const SOURCE = `
+module demo::vault;
+
+public struct AdminCap has key, store { id: UID }
+
+public struct Ticket { amount: u64 }
+
+public struct Vault has key { id: UID, total: u64 }
+
+fun init(ctx: &mut TxContext) {
+    transfer::transfer(AdminCap { id: object::new(ctx) }, ctx.sender());
+    transfer::share_object(Vault { id: object::new(ctx), total: 0 });
+}
+
+public fun issue(_: &AdminCap, amount: u64): Ticket { Ticket { amount } }
+
+public fun redeem(vault: &mut Vault, ticket: Ticket) {
+    let Ticket { amount } = ticket;
+    vault.total = vault.total + amount;
+}
+
+public fun touch(vault: &mut Vault, amount: u64) { vault.total = amount; }
+
+entry fun admin_reset(_: &AdminCap, vault: &mut Vault) { vault.total = 0; }
+`;
+
+const [{ abi, source }] = parseMoveSource(SOURCE, { addresses: { demo: '0x0' }, packageNamedAddress: 'demo' });
+
+describe('access control analysis', () => {
+  it('recognizes the capability minted in init', () => {
+    const access = analyzeAccessControl(abi, { vault: source });
+
+    expect(access.capabilities.map((c) => c.type)).toEqual(['vault::AdminCap']);
+    expect(access.capabilities[0].mintedInInit).toBe(true);
+  });
+
+  it('records direct and transitive gates per function', () => {
+    const byName = new Map(analyzeAccessControl(abi, { vault: source }).functions.map((f) => [f.function, f]));
+
+    expect(byName.get('admin_reset')?.direct).toEqual(['vault::AdminCap']);
+    expect(byName.get('redeem')?.direct).toEqual([]);
+    expect(byName.get('redeem')?.transitive).toEqual([
+      { capability: 'vault::AdminCap', via: 'vault::Ticket', producer: 'issue' },
+    ]);
+    expect(byName.get('touch')?.direct).toEqual([]);
+    expect(byName.get('touch')?.transitive).toEqual([]);
+  });
+});
+
+describe('audit scene', () => {
+  const analyzed = createModuleAnalyzer().analyzeModule(abi, 'testnet', source);
+  const audit = createSkillGenerator({ scene: 'audit' }).generateSceneSkillMd(analyzed);
+
+  it('reads required capabilities from the analysis', () => {
+    expect(audit).toContain('Requires capability: Yes (`AdminCap`)');
+    expect(audit).not.toContain('No capability check detected**');
+  });
+
+  it('reports shared object mutations without a capability', () => {
+    expect(audit).toContain('- `admin_reset`: PROTECTED (requires `AdminCap`)');
+    expect(audit).toContain('- `redeem`: PROTECTED (requires `AdminCap`)');
+    expect(audit).toContain('- `touch`: **UNPROTECTED**');
+    expect(audit).toContain('Review: 1 mutation path(s) without a capability (touch)');
+    expect(audit).not.toContain('Pass: All mutation paths are capability-guarded');
+  });
+});
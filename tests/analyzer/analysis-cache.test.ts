@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiskCache } from '../../src/fetcher/disk-cache.js';
+import { AnalysisCache, hashSource } from '../../src/analyzer/analysis-cache.js';
+import { createAIAnalyzer } from '../../src/analyzer/ai-analyzer.js';
+import { createMockProvider, type LLMProvider } from '../../src/llm/index.js';
+
+const SOURCE = readFileSync(new URL('../fixtures/demo/sources/pool.move', import.meta.url), 'utf-8');
+
+const MODULE = { packageId: '0x0', moduleName: 'pool', network: 'testnet' };
+
+describe('analysis cache', () => {
+  let root: string;
+  let disk: DiskCache;
+  let cache: AnalysisCache;
+  let provider: LLMProvider;
+
+  const analyze = (options: { fresh?: boolean } = {}, module = MODULE) =>
+    createAIAnalyzer({ provider, cache, ...options }).analyzeContract(SOURCE, module);
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mw-analysis-'));
+    disk = new DiskCache(root);
+    cache = new AnalysisCache(disk);
+    provider = createMockProvider({ provider: 'mock', timeoutMs: 5000, maxTokens: 256 });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('analyzes the same source once per model', async () => {
+    const first = await analyze();
+    const second = await analyze();
+
+    expect(provider.getUsage().requests).toBe(1);
+    expect(first.sourceHash).toBe(hashSource(SOURCE));
+    expect(second.cachedAt).toBeDefined();
+    expect(second.purpose).toEqual(first.purpose);
+  });
+
+  it('shares analyses across packages and networks publishing the same source', async () => {
+    await analyze();
+    await analyze({}, { packageId: '0xabc', moduleName: 'pool', network: 'mainnet' });
+
+    expect(provider.getUsage().requests).toBe(1);
+    expect((await disk.list({ kind: 'analysis' })).map((e) => e.name).sort()).toEqual([
+      `p1.mock.mock-1.${hashSource(SOURCE).slice(0, 32)}`,
+      'pool',
+    ]);
+  });
+
+  it('re-runs the model when asked for a fresh analysis', async () => {
+    await analyze();
+    await analyze({ fresh: true });
+    await analyze();
+
+    expect(provider.getUsage().requests).toBe(2);
+  });
+
+  it('invalidates the analyses a module used', async () => {
+    await analyze();
+
+    expect(await cache.invalidate(MODULE)).toBe(1);
+    await analyze();
+    expect(provider.getUsage().requests).toBe(2);
+  });
+
+  it('misses when the source changes', async () => {
+    await analyze();
+    await createAIAnalyzer({ provider, cache }).analyzeContract(`${SOURCE}\n// v2\n`, MODULE);
+
+    expect(provider.getUsage().requests).toBe(2);
+  });
+
+  it('hashes source independently of line endings', () => {
+    expect(hashSource('module a::b;\r\n')).toBe(hashSource('module a::b;\n'));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { buildCallGraph, callGraphToMermaid, packageCallees } from '../../src/analyzer/call-graph.js';
+import type { CallGraph } from '../../src/types/index.js';
+
+const POOL = readFileSync(new URL('../fixtures/demo/sources/pool.move', import.meta.url), 'utf-8');
+
+/**
+ * Callees of a package function, as `address::module::function`
+ */
+function calleesOf(graph: CallGraph, fn: string): string[] {
+  return graph.edges
+    .filter((edge) => edge.from === `0x0::${fn}`)
+    .map((edge) => edge.to)
+    .sort();
+}
+
+describe('call graph from Move source', () => {
+  const graph = buildCallGraph('0x0', { pool: POOL });
+
+  it('resolves module-qualified calls through use aliases and implicit modules', () => {
+    expect(calleesOf(graph, 'pool::create')).toEqual([
+      '0x2::balance::zero',
+      '0x2::object::new',
+      '0x2::transfer::share_object',
+    ]);
+  });
+
+  it('resolves method calls by the receiver type', () => {
+    // `c.value()`, `c.into_balance()` on a `Coin<T>` parameter and `pool.reserve.join(..)` on a field
+    expect(calleesOf(graph, 'pool::deposit')).toEqual([
+      '0x2::balance::join',
+      '0x2::coin::into_balance',
+      '0x2::coin::value',
+      '0x2::event::emit',
+    ]);
+    expect(calleesOf(graph, 'pool::reserve')).toEqual(['0x2::balance::value']);
+    // `ctx.sender()` on the implicitly imported TxContext
+    expect(calleesOf(graph, 'pool::init')).toContain('0x2::tx_context::sender');
+  });
+
+  it('links package functions and computes what entry points reach', () => {
+    expect(packageCallees(graph).get('pool::admin_set_fee')).toEqual(['pool::set_fee']);
+
+    const borrow = graph.reachability.find((r) => r.entry === '0x0::pool::borrow');
+    expect(borrow?.sensitive).toEqual(['0x2::coin::take']);
+    const adminSetFee = graph.reachability.find((r) => r.entry === '0x0::pool::admin_set_fee');
+    expect(adminSetFee?.internals).toEqual(['0x0::pool::set_fee']);
+  });
+
+  it('follows let bindings, package struct fields and use fun aliases', () => {
+    const graph = buildCallGraph('0x0', {
+      vault: `
+module demo::vault;
+
+use sui::balance::Balance;
+use demo::ledger::{Self, Ledger};
+
+use fun ledger::record as Ledger.log;
+
+public struct Vault<phantom T> has key { id: UID, funds: Balance<T>, ledger: Ledger }
+
+public fun drain<T>(vault: &mut Vault<T>, ctx: &mut TxContext) {
+    let mut out: Balance<T> = vault.funds.withdraw_all();
+    vault.ledger.log(out.value());
+    out.destroy_zero();
+    let id: UID = object::new(ctx);
+    id.delete();
+}
+`,
+      ledger: `
+module demo::ledger;
+
+public struct Ledger has store { total: u64 }
+
+public fun record(ledger: &mut Ledger, amount: u64) { ledger.total = ledger.total + amount; }
+`,
+    });
+
+    expect(calleesOf(graph, 'vault::drain')).toEqual([
+      '0x0::ledger::record',
+      '0x2::balance::destroy_zero',
+      '0x2::balance::value',
+      '0x2::balance::withdraw_all',
+      '0x2::object::delete',
+      '0x2::object::new',
+    ]);
+  });
+
+  it('renders entry and sensitive functions in Mermaid', () => {
+    const mermaid = callGraphToMermaid(graph, { includeExternal: false });
+
+    expect(mermaid).toMatch(/^graph LR/);
+    expect(mermaid).toContain('["pool::admin_set_fee"]');
+    expect(mermaid).not.toContain('coin::take');
+  });
+});
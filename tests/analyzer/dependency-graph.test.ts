@@ -0,0 +1,163 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { createSuiClient, type PackageLinkage, type SuiClientWrapper } from '../../src/fetcher/sui-client.js';
+import {
+  DependencyResolver,
+  dependencyGraphToDot,
+  dependencyGraphToMermaid,
+} from '../../src/analyzer/dependency-graph.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+import type { SuiNormalizedModule } from '../../src/types/index.js';
+
+const ADDRESSES = { demo: '0xa', dep: '0xb0', lib: '0xc0' };
+
+const parse = (source: string, packageNamedAddress: string) =>
+  parseMoveSource(source, { addresses: ADDRESSES, packageNamedAddress })[0];
+
+// `app` takes a shared `Pool` of `dep`, which in turn stores a `lib` type
+const app = parse(
+  `
+module demo::app;
+use dep::pool::Pool;
+public fun use_pool(pool: &mut Pool, amount: u64) {}
+`,
+  'demo'
+);
+const pool = parse(
+  `
+module dep::pool;
+use lib::math::Fraction;
+public struct Pool has key { id: UID, fee: Fraction }
+fun init(ctx: &mut TxContext) { transfer::share_object(Pool { id: object::new(ctx), fee: lib::math::zero() }) }
+`,
+  'dep'
+);
+
+const [ROOT, DEP, DEP_V2, LIB] = ['0xa', '0xb0', '0xb1', '0xc0'].map((a) => normalizeSuiAddress(a));
+
+/**
+ * Client serving `dep` at its upgraded ID `0xb1`, where `app` links against version 2
+ */
+function client(packages: Record<string, SuiNormalizedModule[]> = { [DEP_V2]: [pool.abi] }): SuiClientWrapper {
+  const linkage: Record<string, PackageLinkage> = {
+    [ROOT]: { packageId: ROOT, version: 3, dependencies: { [DEP]: { upgradedId: DEP_V2, version: 2 } } },
+  };
+  return {
+    getPackageLinkage: async (id: string) => linkage[normalizeSuiAddress(id)] ?? Promise.reject(new Error('not found')),
+    getNormalizedMoveModulesByPackage: async (id: string) => {
+      const modules = packages[normalizeSuiAddress(id)];
+      if (!modules) throw new Error('not found');
+      return Object.fromEntries(modules.map((m) => [m.name, m]));
+    },
+    getDisassembledSource: async () => ({ pool: pool.source }),
+  } as unknown as SuiClientWrapper;
+}
+
+const resolve = (maxDepth: number, packages?: Record<string, SuiNormalizedModule[]>) =>
+  new DependencyResolver(client(packages), { maxDepth }).resolve({
+    packageId: '0xa',
+    modules: [app.abi],
+    sources: { app: app.source },
+  });
+
+describe('dependency resolution', () => {
+  it('fetches dependencies at the version the package links against', async () => {
+    const graph = await resolve(1);
+
+    expect(graph.nodes.map((n) => [n.packageId, n.depth, n.status, n.modules])).toEqual([
+      [ROOT, 0, 'root', ['app']],
+      [DEP, 1, 'resolved', ['pool']],
+      [normalizeSuiAddress('0x2'), 2, 'skipped', []],
+      [LIB, 2, 'depth-limit', []],
+    ]);
+    expect(graph.edges[0]).toEqual({ from: ROOT, to: DEP, version: 2, linkedId: DEP_V2, types: ['pool::Pool'], calls: [] });
+    expect(graph.edges.find((e) => e.to === normalizeSuiAddress('0x2'))?.calls).toEqual([
+      'object::new',
+      'transfer::share_object',
+    ]);
+  });
+
+  it('keeps packages that cannot be fetched as failed', async () => {
+    const graph = await resolve(2);
+
+    expect(graph.nodes.find((n) => n.packageId === LIB)?.status).toBe('failed');
+    expect((await resolve(1, {})).nodes.find((n) => n.packageId === DEP)?.status).toBe('failed');
+  });
+
+  it('lists the external objects callers must supply, with their ownership', async () => {
+    expect((await resolve(1)).requiredTypes).toEqual([
+      {
+        type: `${DEP}::pool::Pool`,
+        packageId: DEP,
+        module: 'pool',
+        name: 'Pool',
+        abilities: ['key'],
+        ownership: 'shared',
+        requiredBy: ['app::use_pool'],
+      },
+    ]);
+    // Ownership is unknown when the defining package was not fetched
+    expect((await resolve(1, {})).requiredTypes[0].ownership).toBeUndefined();
+  });
+});
+
+describe('dependency diagrams', () => {
+  it('renders Mermaid and DOT without framework packages', async () => {
+    const graph = await resolve(1);
+
+    expect(dependencyGraphToMermaid(graph)).toBe(
+      ['graph LR', '  p0[["0xa"]]', '  p1["0xb0"]', '  p2["0xc0 (depth-limit)"]', '  p0 -->|v2| p1', '  p1 --> p2'].join('\n')
+    );
+    expect(dependencyGraphToMermaid(graph, { includeFramework: true })).toContain('"0x2 (skipped)"');
+    expect(dependencyGraphToDot(graph)).toContain(`  p2 [label="0xc0 (depth-limit)", tooltip="${LIB}", style=dashed];`);
+    expect(dependencyGraphToDot(graph)).toContain('  p0 -> p1 [label="v2"];');
+  });
+
+  it('adds a Depends On section to SKILL.md', async () => {
+    const analyzed = createModuleAnalyzer().analyzeModule(app.abi, 'testnet', app.source);
+    analyzed.dependencyGraph = await resolve(1);
+    const md = createSkillGenerator().generateSkillMd(analyzed);
+
+    expect(md).toContain('## Depends On');
+    expect(md).toContain(
+      '| `pool::Pool` | `0xb0` | shared | Shared object: pass its ID with `tx.object(id)` | `app::use_pool` |'
+    );
+    expect(md).toContain(`| \`${DEP}\` | 1 | v2 | resolved | pool |`);
+    expect(md).toContain(`| \`${LIB}\` | 2 | - | depth-limit | - |`);
+  });
+});
+
+describe('package linkage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the version and linkage table of a package object', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        const { id } = JSON.parse(String(init?.body));
+        const bcs = {
+          dataType: 'package',
+          id: ROOT,
+          version: 3,
+          moduleMap: {},
+          typeOriginTable: [],
+          linkageTable: { '0xb0': { upgraded_id: '0xb1', upgraded_version: 2 } },
+        };
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: { data: { objectId: ROOT, bcs } } }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      })
+    );
+
+    expect(await createSuiClient('testnet', 'http://linkage.test').getPackageLinkage(ROOT)).toEqual({
+      packageId: ROOT,
+      version: 3,
+      dependencies: { [DEP]: { upgradedId: DEP_V2, version: 2 } },
+    });
+  });
+});
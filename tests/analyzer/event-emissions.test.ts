@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { findEventEmissions } from '../../src/analyzer/event-emissions.js';
+import { buildCallGraph } from '../../src/analyzer/call-graph.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+
+// `relist` only emits through `list` and `sell`, and `sell` through `record`
+const SOURCE = `
+module demo::market;
+
+use sui::event;
+
+public struct Listed has copy, drop { price: u64 }
+public struct Sold<phantom T> has copy, drop { price: u64 }
+
+public fun list(price: u64) { event::emit(Listed { price }); }
+
+public fun sell<T>(price: u64) { record<T>(price) }
+
+fun record<T>(price: u64) {
+    let sold = Sold<T> { price };
+    event::emit(sold);
+}
+
+entry fun relist(price: u64) { list(price); sell<u64>(price); }
+
+#[test_only]
+fun fake() { event::emit(Listed { price: 0 }) }
+`;
+
+const [{ abi, source }] = parseMoveSource(SOURCE, { addresses: { demo: '0x0' }, packageNamedAddress: 'demo' });
+
+describe('event emissions', () => {
+  it('finds direct emissions from struct literals and let bindings', () => {
+    expect(findEventEmissions({ market: source })).toEqual({
+      'market::list': ['market::Listed'],
+      'market::record': ['market::Sold'],
+    });
+  });
+
+  it('follows package calls through the call graph', () => {
+    const emissions = findEventEmissions({ market: source }, buildCallGraph('0x0', { market: source }));
+
+    expect(emissions['market::sell']).toEqual(['market::Sold']);
+    expect(emissions['market::relist']).toEqual(['market::Listed', 'market::Sold']);
+    expect(emissions['market::fake']).toBeUndefined();
+  });
+
+  it('attaches the emitted events to analyzed functions', () => {
+    const analyzed = createModuleAnalyzer().analyzeModule(abi, 'testnet', source);
+
+    expect(analyzed.functions.map((f) => [f.name, f.emits.map((e) => e.structName)])).toEqual([
+      ['relist', ['Listed', 'Sold']],
+      ['list', ['Listed']],
+      ['sell', ['Sold']],
+    ]);
+  });
+});
+
+describe('per-action event snippets', () => {
+  const analyzed = createModuleAnalyzer().analyzeModule(abi, 'testnet', source);
+
+  it('maps entry functions to their events in the bot scene', () => {
+    const bot = createSkillGenerator({ scene: 'bot' }).generateSceneSkillMd(analyzed);
+
+    expect(bot).toContain('### Events per Action');
+    expect(bot).toContain("  relist: ['0x0::market::Listed', '0x0::market::Sold'],\n};");
+  });
+
+  it('subscribes to the events of an action in the frontend scene', () => {
+    const frontend = createSkillGenerator({ scene: 'frontend' }).generateSceneSkillMd(analyzed);
+
+    expect(frontend).toContain('**Events Emitted:** `Listed`, `Sold`');
+    expect(frontend).toContain("      { MoveEventType: '0x0::market::Listed' },\n      { MoveEventType: '0x0::market::Sold' },");
+  });
+});
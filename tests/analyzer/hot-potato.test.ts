@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { createLocalFetcher } from '../../src/fetcher/local-fetcher.js';
+import { detectHotPotatoes } from '../../src/analyzer/hot-potato.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+
+const FIXTURE = new URL('../fixtures/demo', import.meta.url).pathname;
+
+/**
+ * The demo pool, whose `borrow` returns a `Receipt` that only `repay` takes
+ */
+async function analyzePool() {
+  const [pool] = (await createLocalFetcher('testnet').loadPackage(FIXTURE)).modules;
+  return { abi: pool.abi, analyzed: createModuleAnalyzer().analyzeModule(pool.abi, 'testnet', pool.sourceCode) };
+}
+
+describe('hot potato detection', () => {
+  it('pairs the functions producing and consuming an ability-less struct', async () => {
+    const { abi } = await analyzePool();
+
+    expect(detectHotPotatoes(abi)).toEqual([
+      { type: 'pool::Receipt', name: 'Receipt', producers: ['borrow'], consumers: ['repay'], inspectors: [] },
+    ]);
+  });
+
+  it('records inspectors and ignores friend functions and unused structs', () => {
+    const [{ abi }] = parseMoveSource(
+      `
+module demo::flash;
+
+public struct Loan { amount: u64 }
+public struct Marker {}
+
+public fun take(amount: u64): Loan { Loan { amount } }
+public fun amount(loan: &Loan): u64 { loan.amount }
+public(package) fun settle(loan: Loan) { let Loan { amount: _ } = loan; }
+`,
+      { addresses: { demo: '0x0' }, packageNamedAddress: 'demo' }
+    );
+
+    expect(detectHotPotatoes(abi)).toEqual([
+      { type: 'flash::Loan', name: 'Loan', producers: ['take'], consumers: [], inspectors: ['amount'] },
+    ]);
+  });
+
+  it('marks the functions tied to other calls in the same PTB', async () => {
+    const { analyzed } = await analyzePool();
+    const constraint = (name: string) => analyzed.functions.find((f) => f.name === name)?.ptbConstraint;
+
+    expect(constraint('borrow')).toEqual({ produces: ['Receipt'], consumes: [] });
+    expect(constraint('repay')).toEqual({ produces: [], consumes: ['Receipt'] });
+    expect(constraint('deposit')).toBeUndefined();
+  });
+});
+
+describe('PTB guidance', () => {
+  it('warns that hot potato functions are not callable standalone', async () => {
+    const { analyzed } = await analyzePool();
+    const md = createSkillGenerator().generateSkillMd(analyzed);
+
+    expect(md).toContain('> ⚠️ **Not callable standalone** - Returns hot potato `Receipt`; pass it to `repay` in the same PTB.');
+    expect(md).toContain(
+      '> ⚠️ **Not callable standalone** - Takes hot potato `Receipt`; obtain it from `borrow` earlier in the same PTB.'
+    );
+  });
+
+  it('generates a PTB recipe passing the potato from producer to consumer', async () => {
+    const { analyzed } = await analyzePool();
+
+    for (const scene of ['sdk', 'bot'] as const) {
+      const md = createSkillGenerator({ scene }).generateSceneSkillMd(analyzed);
+      expect(md).toContain('#### `borrow` → `repay`');
+      expect(md).toContain('const [result0, receipt] = tx.moveCall({');
+      expect(md).toContain('    tx.object(coinId),\n    receipt,\n  ],');
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { inferOwnership, ownershipOf } from '../../src/analyzer/ownership.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+
+const SOURCE = `
+module demo::market;
+
+public struct Config has key { id: UID, fee: u64 }
+public struct Market has key { id: UID }
+public struct Listing has key, store { id: UID, price: u64 }
+public struct Vault has key { id: UID, listing: Listing }
+public struct Ticket has key, store { id: UID }
+
+fun init(ctx: &mut TxContext) {
+    transfer::freeze_object(Config { id: object::new(ctx), fee: 1 });
+    let market = Market { id: object::new(ctx) };
+    transfer::share_object(market);
+}
+
+public fun list(price: u64, ctx: &mut TxContext): Listing { Listing { id: object::new(ctx), price } }
+
+public fun lock(listing: Listing, ctx: &mut TxContext) {
+    transfer::share_object(Vault { id: object::new(ctx), listing });
+}
+
+public fun issue(ctx: &mut TxContext) {
+    let t = Ticket { id: object::new(ctx) };
+    transfer::public_transfer(t, ctx.sender());
+}
+
+entry fun buy(market: &mut Market, config: &Config, ticket: Ticket) { abort 0 }
+`;
+
+const [{ abi, source }] = parseMoveSource(SOURCE, { addresses: { demo: '0x0' }, packageNamedAddress: 'demo' });
+
+describe('ownership inference', () => {
+  const ownership = inferOwnership(abi, { market: source });
+  const byName = new Map(ownership.map((o) => [o.name, o]));
+
+  it('classifies objects by the transfer call that receives them', () => {
+    expect(ownership.map((o) => [o.name, o.primary])).toEqual([
+      ['Config', 'immutable'],
+      ['Listing', 'owned'],
+      ['Market', 'shared'],
+      ['Ticket', 'owned'],
+      ['Vault', 'shared'],
+    ]);
+    // Resolved through a struct literal, a `let` binding and an explicit transfer
+    expect(byName.get('Config')?.evidence).toEqual(['transfer::freeze_object in market::init']);
+    expect(byName.get('Market')?.evidence).toEqual(['transfer::share_object in market::init']);
+    expect(byName.get('Ticket')?.createdBy).toEqual(['market::issue']);
+  });
+
+  it('records returned and wrapped objects', () => {
+    expect(byName.get('Listing')).toMatchObject({
+      kinds: ['owned', 'wrapped'],
+      createdBy: ['market::list'],
+      wrappedIn: ['market::Vault'],
+    });
+  });
+
+  it('only sees returned objects from the ABI alone', () => {
+    expect(inferOwnership(abi).map((o) => [o.name, o.primary])).toEqual([
+      ['Config', 'unknown'],
+      ['Listing', 'owned'],
+      ['Market', 'unknown'],
+      ['Ticket', 'unknown'],
+      ['Vault', 'unknown'],
+    ]);
+  });
+
+  it('looks up the ownership of a parameter through references', () => {
+    const [market, config] = abi.exposedFunctions.buy.parameters;
+
+    expect(ownershipOf(ownership, market)?.primary).toBe('shared');
+    expect(ownershipOf(ownership, config)?.primary).toBe('immutable');
+    expect(ownershipOf(ownership, 'U64')).toBeUndefined();
+  });
+});
+
+describe('SKILL.md object table', () => {
+  it('tells how to obtain each object', () => {
+    const analyzed = createModuleAnalyzer().analyzeModule(abi, 'testnet', source);
+    const md = createSkillGenerator().generateSkillMd(analyzed);
+
+    expect(md).toContain('| `Config` | immutable | Frozen: anyone can read it by ID with `tx.object(id)`. Created by `init`. |');
+    expect(md).toContain(
+      '| `Ticket` | owned | Owned: query `getOwnedObjects` with StructType `0x0::market::Ticket`. Created by `issue`. |'
+    );
+    expect(md).toContain('| `Market` | shared | Shared: pass its ID with `tx.object(id)`;');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { collectDeclaredFacts, reconcileAnalysis, fact } from '../../src/analyzer/reconcile.js';
+import type { ContractAnalysis } from '../../src/types/index.js';
+
+const SOURCE = `
+module demo::vault;
+
+const EPaused: u64 = 3;
+
+public struct AdminCap has key, store { id: UID }
+public struct Receipt { amount: u64 }
+
+public fun deposit<T>(amount: u64): Receipt { Receipt { amount } }
+fun update_fee() {}
+entry fun set_fee(_: &AdminCap) {}
+
+#[test_only]
+fun setup() {}
+`;
+
+const facts = collectDeclaredFacts(SOURCE);
+
+function analysis(source: 'claude' | 'regex', overrides: Partial<ContractAnalysis> = {}): ContractAnalysis {
+  return {
+    purpose: { summary: 'A vault', category: 'defi', protocols: [] },
+    functions: [],
+    types: [],
+    generics: { mapping: {}, confidence: 0.5, inferredFrom: [] },
+    errorCodes: [],
+    security: { riskLevel: 'low', concerns: [], adminFunctions: [] },
+    suggestedName: 'vault',
+    confidence: 0.8,
+    fallbackUsed: source === 'regex',
+    analysisSource: source,
+    ...overrides,
+  };
+}
+
+const error = (name: string, code: number) => ({
+  name,
+  code,
+  description: '',
+  possibleCauses: [],
+  solutions: [],
+  category: 'state' as const,
+});
+
+describe('declared facts', () => {
+  it('reads visibility, abilities, constants and type parameters from source', () => {
+    expect(facts.known).toBe(true);
+    expect(Object.fromEntries(facts.functions)).toEqual({
+      deposit: { visibility: 'public', isEntry: false },
+      update_fee: { visibility: 'private', isEntry: false },
+      set_fee: { visibility: 'private', isEntry: true },
+    });
+    expect(facts.structs.get('AdminCap')).toEqual({ abilities: ['key', 'store'] });
+    expect(facts.constants.get('EPaused')).toBe(3);
+    expect([...facts.typeParams]).toEqual(['T']);
+  });
+
+  it('knows nothing about unreadable input', () => {
+    const unknown = collectDeclaredFacts('not move at all');
+
+    expect(unknown.known).toBe(false);
+    expect(unknown.constantsKnown).toBe(false);
+  });
+});
+
+describe('reconciliation', () => {
+  it('lets declarations override the LLM and records the conflict', () => {
+    const llm = analysis('claude', {
+      functions: [
+        { name: 'update_fee', purpose: 'Updates the fee', category: 'admin', risk: 'high' },
+        { name: 'steal', purpose: 'Invented', category: 'user', risk: 'low' },
+      ],
+      types: [{ name: 'Receipt', purpose: 'Shared receipt', isCapability: false, isSharedObject: true, fields: [] }],
+      errorCodes: [error('EPaused', 1)],
+      security: { riskLevel: 'high', concerns: [], adminFunctions: ['update_fee', 'steal'] },
+    });
+
+    const result = reconcileAnalysis(llm, analysis('regex'), facts);
+
+    expect(result.functions.map((f) => [f.name, f.category, f.visibility])).toEqual([
+      ['update_fee', 'internal', 'private'],
+    ]);
+    expect(result.functions[0].provenance?.category).toEqual(fact('abi', ['declared private']));
+    expect(result.types[0]).toMatchObject({ isSharedObject: false, abilities: [] });
+    expect(result.errorCodes[0].code).toBe(3);
+    expect(result.security.adminFunctions).toEqual(['update_fee']);
+    expect(result.analysisSource).toBe('hybrid');
+    expect(result.conflicts).toContainEqual({
+      subject: 'function:steal',
+      field: 'exists',
+      chosen: { value: false, source: 'abi' },
+      rejected: [{ value: true, source: 'llm' }],
+      reason: 'not declared in the module',
+    });
+    expect(result.conflicts).toContainEqual({
+      subject: 'error:EPaused',
+      field: 'code',
+      chosen: { value: 3, source: 'abi' },
+      rejected: [{ value: 1, source: 'llm' }],
+      reason: 'declared `const EPaused: u64 = 3`',
+    });
+    expect(result.conflicts?.find((c) => c.subject === 'type:Receipt')?.reason).toBe(
+      'declared without `key` (abilities: none), so it is not an object'
+    );
+  });
+
+  it('prefers the LLM over name heuristics and fills in what it left out', () => {
+    const llm = analysis('claude', {
+      functions: [{ name: 'set_fee', purpose: 'Sets the fee', category: 'user', risk: 'medium' }],
+    });
+    const regex = analysis('regex', {
+      functions: [
+        {
+          name: 'set_fee',
+          purpose: 'Entry function: set fee',
+          category: 'admin',
+          risk: 'high',
+          provenance: { category: fact('regex', ['admin-like name']) },
+        },
+        { name: 'deposit', purpose: 'Public function: deposit', category: 'user', risk: 'low' },
+      ],
+      generics: { mapping: { T: { name: 'Coin', description: '', commonTypes: [] } }, confidence: 0.5, inferredFrom: ['param:coin'] },
+    });
+
+    const result = reconcileAnalysis(llm, regex, facts);
+
+    expect(result.functions.map((f) => [f.name, f.category])).toEqual([
+      ['set_fee', 'user'],
+      ['deposit', 'user'],
+    ]);
+    expect(result.functions[0].provenance?.category.source).toBe('llm');
+    expect(result.functions[0].provenance?.isEntry).toEqual(fact('abi', ['declared entry']));
+    expect(result.functions[1].provenance?.purpose.source).toBe('regex');
+    expect(result.generics.provenance?.T).toEqual(fact('regex', ['param:coin']));
+    expect(result.conflicts).toEqual([
+      {
+        subject: 'function:set_fee',
+        field: 'category',
+        chosen: { value: 'user', source: 'llm' },
+        rejected: [{ value: 'admin', source: 'regex' }],
+        reason: 'LLM reading of the contract preferred over name heuristics',
+      },
+    ]);
+    expect(result.analysisSource).toBe('hybrid');
+  });
+
+  it('keeps an LLM analysis that agrees with the declarations as is', () => {
+    const llm = analysis('claude', {
+      functions: [{ name: 'deposit', purpose: 'Deposits', category: 'user', risk: 'low' }],
+    });
+
+    const result = reconcileAnalysis(llm, analysis('regex'), facts);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.analysisSource).toBe('claude');
+  });
+
+  it('checks the regex analysis alone when there is no LLM', () => {
+    const regex = analysis('regex', {
+      functions: [{ name: 'setup', purpose: 'Test setup', category: 'internal', risk: 'low' }],
+      errorCodes: [error('EPaused', 3)],
+    });
+
+    const result = reconcileAnalysis(null, regex, facts);
+
+    expect(result.functions).toEqual([]);
+    expect(result.conflicts?.map((c) => c.subject)).toEqual(['function:setup']);
+    expect(result.errorCodes[0].provenance?.code).toEqual(fact('abi', ['declared `const EPaused: u64 = 3`']));
+    expect(result.analysisSource).toBe('regex');
+  });
+
+  it('trusts everything when declarations cannot be read', () => {
+    const llm = analysis('claude', {
+      functions: [{ name: 'anything', purpose: '', category: 'user', risk: 'low' }],
+    });
+
+    expect(reconcileAnalysis(llm, analysis('regex'), collectDeclaredFacts('')).functions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AbiFetcher } from '../../src/fetcher/abi-fetcher.js';
+import { RequestCoalescer, mapWithConcurrency } from '../../src/utils/concurrency.js';
+
+const MODULES = ['oracle', 'pool', 'vault'];
+
+const abi = (packageId: string, name: string) => ({
+  fileFormatVersion: 6,
+  address: packageId,
+  name,
+  friends: [],
+  structs: {},
+  exposedFunctions: {},
+});
+
+/**
+ * Fullnode serving one package, counting JSON-RPC calls per method
+ */
+function fullnode(packageId: string) {
+  const calls: string[] = [];
+  const result = (method: string, params: unknown[]): unknown => {
+    switch (method) {
+      case 'sui_getObject':
+        return {
+          data: {
+            objectId: packageId,
+            content: {
+              dataType: 'package',
+              disassembled: Object.fromEntries(MODULES.map((name) => [name, `module ${packageId}::${name} {}`])),
+            },
+          },
+        };
+      case 'sui_getNormalizedMoveModulesByPackage':
+        return Object.fromEntries(MODULES.map((name) => [name, abi(packageId, name)]));
+      case 'sui_getNormalizedMoveModule':
+        return abi(packageId, params[1] as string);
+    }
+  };
+  const fetchFn = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const { id, method, params } = JSON.parse(String(init?.body));
+    calls.push(method);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: result(method, params) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+  return { fetchFn, calls };
+}
+
+const fetcher = (rpcUrl: string) => new AbiFetcher({ network: 'testnet', rpcUrl, useCache: false });
+
+describe('package-level ABI fetch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches every module of a package in one ABI and one source request', async () => {
+    const packageId = '0x' + '1'.repeat(64);
+    const node = fullnode(packageId);
+    vi.stubGlobal('fetch', node.fetchFn);
+
+    const modules = await fetcher('https://batch.fixture.test').fetchPackage(packageId);
+
+    expect(modules.map((m) => m.moduleName)).toEqual(MODULES);
+    expect(modules[1].sourceCode).toBe(`module ${packageId}::pool {}`);
+    expect(node.calls.sort()).toEqual(['sui_getNormalizedMoveModulesByPackage', 'sui_getObject']);
+  });
+
+  it('joins concurrent requests for the same module', async () => {
+    const packageId = '0x' + '2'.repeat(64);
+    const node = fullnode(packageId);
+    vi.stubGlobal('fetch', node.fetchFn);
+
+    const [first, second] = await Promise.all([
+      fetcher('https://coalesce.fixture.test').fetchModule(packageId, 'pool', false),
+      fetcher('https://coalesce.fixture.test').fetchModule(packageId, 'pool', false),
+    ]);
+
+    expect(first.abi).toEqual(second.abi);
+    expect(node.calls).toEqual(['sui_getNormalizedMoveModule']);
+  });
+});
+
+describe('concurrency helpers', () => {
+  it('maps in input order with a bounded number of calls in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it('shares a call only while it is in flight', async () => {
+    const coalescer = new RequestCoalescer();
+    const fn = vi.fn(async () => 'abi');
+
+    const shared = await Promise.all([coalescer.run('pool', fn), coalescer.run('pool', fn)]);
+    expect(shared).toEqual(['abi', 'abi']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(coalescer.size).toBe(0);
+
+    await coalescer.run('pool', fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
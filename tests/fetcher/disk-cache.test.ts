@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiskCache, SYSTEM_PACKAGE_TTL, getDefaultTtl, type DiskCacheKey } from '../../src/fetcher/disk-cache.js';
+
+const PACKAGE_ID = '0x' + 'ab'.repeat(32);
+
+const moduleKey = (name: string, packageId = PACKAGE_ID): DiskCacheKey => ({
+  network: 'testnet',
+  packageId,
+  kind: 'module',
+  name,
+});
+
+describe('disk cache', () => {
+  let root: string;
+  let cache: DiskCache;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mw-cache-'));
+    cache = new DiskCache(root);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('stores identical content once and keeps published modules forever', async () => {
+    await cache.set(moduleKey('pool'), { abi: 'same' });
+    await cache.set(moduleKey('vault'), { abi: 'same' });
+
+    expect(await cache.get(moduleKey('pool'))).toEqual({ abi: 'same' });
+    expect(await cache.stats()).toMatchObject({ entries: 2, objects: 1, expired: 0 });
+    expect((await cache.list()).map((entry) => entry.expiresAt)).toEqual([null, null]);
+  });
+
+  it('expires mutable and system package entries', async () => {
+    expect(getDefaultTtl({ network: 'testnet', packageId: PACKAGE_ID, kind: 'history' })).toBe(10 * 60 * 1000);
+    expect(getDefaultTtl(moduleKey('coin', '0x2'))).toBe(SYSTEM_PACKAGE_TTL);
+
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), toFake: ['Date'] });
+    await cache.set(moduleKey('coin', '0x2'), { abi: 'coin' });
+    vi.setSystemTime(Date.now() + SYSTEM_PACKAGE_TTL + 1);
+
+    expect(await cache.get(moduleKey('coin', '0x2'))).toBeUndefined();
+    expect(await cache.list()).toEqual([]);
+  });
+
+  it('computes a missing value once', async () => {
+    const factory = vi.fn(async () => ['pool', 'vault']);
+    const key: DiskCacheKey = { network: 'testnet', packageId: PACKAGE_ID, kind: 'modules' };
+
+    expect(await cache.getOrSet(key, factory)).toEqual(['pool', 'vault']);
+    expect(await cache.getOrSet(key, factory)).toEqual(['pool', 'vault']);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('prunes matching entries and only the objects nothing points to', async () => {
+    await cache.set(moduleKey('pool'), { abi: 'pool' });
+    await cache.set(moduleKey('vault'), { abi: 'vault' });
+    await cache.set(moduleKey('coin', '0x2'), { abi: 'pool' });
+
+    expect(await cache.prune({ packageId: PACKAGE_ID })).toEqual({ removedEntries: 2, removedObjects: 1 });
+    expect(await cache.get(moduleKey('coin', '0x2'))).toEqual({ abi: 'pool' });
+  });
+
+  it('exports entries with their content', async () => {
+    await cache.set(moduleKey('pool'), { abi: 'pool' });
+
+    const bundle = await cache.export({ network: 'testnet' });
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.entries).toMatchObject([{ kind: 'module', name: 'pool', data: { abi: 'pool' } }]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureStore, configureFixtures, parseFixtureMode } from '../../src/fetcher/fixtures.js';
+import { createSuiClient } from '../../src/fetcher/sui-client.js';
+import { ErrorCode } from '../../src/core/errors.js';
+
+const RPC_URL = 'https://fullnode.fixture.test';
+
+const MODULE = { fileFormatVersion: 6, address: '0x2', name: 'coin', friends: [], structs: {}, exposedFunctions: {} };
+
+/**
+ * Fullnode answering every JSON-RPC request with the same module
+ */
+function fullnode() {
+  return vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const { id } = JSON.parse(String(init?.body));
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: MODULE }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+}
+
+const rpc = (id: number, method = 'sui_getNormalizedMoveModule') => ({
+  method: 'POST',
+  body: JSON.stringify({ jsonrpc: '2.0', id, method, params: ['0x2', 'coin'] }),
+});
+
+describe('fixture store', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    configureFixtures(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('records exchanges without the JSON-RPC id and replays them for any id', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'mw-fixtures-'));
+    const upstream = fullnode();
+
+    await new FixtureStore({ dir, mode: 'record' }, upstream).fetch(RPC_URL, rpc(1));
+    const [file] = readdirSync(dir);
+    expect(file).toMatch(/^sui_getNormalizedMoveModule-[0-9a-f]{16}\.json$/);
+    expect(JSON.parse(readFileSync(join(dir, file), 'utf-8'))).toMatchObject({
+      url: RPC_URL,
+      request: { jsonrpc: '2.0', method: 'sui_getNormalizedMoveModule', params: ['0x2', 'coin'] },
+      status: 200,
+      response: { jsonrpc: '2.0', result: MODULE },
+    });
+
+    const replayed = await new FixtureStore({ dir, mode: 'replay' }, upstream).fetch(RPC_URL, rpc(7));
+    expect(await replayed.json()).toEqual({ jsonrpc: '2.0', result: MODULE, id: 7 });
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails in replay mode when a request was never recorded', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'mw-fixtures-'));
+    const store = new FixtureStore({ dir, mode: 'replay' }, fullnode());
+
+    await expect(store.fetch(RPC_URL, rpc(1, 'sui_getObject'))).rejects.toMatchObject({
+      code: ErrorCode.FIXTURE_MISSING,
+      message: expect.stringContaining('No recorded fixture for sui_getObject'),
+    });
+  });
+
+  it('routes clients created afterwards through the store', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'mw-fixtures-'));
+    vi.stubGlobal('fetch', fullnode());
+    configureFixtures({ dir, mode: 'record' });
+    await createSuiClient('testnet', RPC_URL).getNormalizedMoveModule('0x2', 'coin');
+
+    const offline = vi.fn(async () => {
+      throw new Error('offline');
+    });
+    vi.stubGlobal('fetch', offline);
+    configureFixtures({ dir, mode: 'replay' });
+
+    expect(await createSuiClient('testnet', RPC_URL).getNormalizedMoveModule('0x2', 'coin')).toEqual(MODULE);
+    expect(offline).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseFixtureMode', () => {
+  it('defaults to replay and rejects unknown modes', () => {
+    expect(parseFixtureMode(undefined)).toBe('replay');
+    expect(parseFixtureMode('record')).toBe('record');
+    expect(() => parseFixtureMode('live')).toThrow(/Valid modes are: replay, record/);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGitHubFetcher,
+  discoverPackageRoots,
+  parseGitHubUrl,
+  resolveRefPath,
+  type GitHubRepoRef,
+  type RepositorySource,
+} from '../../src/fetcher/github-fetcher.js';
+
+const manifest = (name: string, address: string) => `
+[package]
+name = "${name}"
+edition = "2024.beta"
+
+[addresses]
+${address} = "0x0"
+`;
+
+const poolModule = (address: string, field: string) => `
+module ${address}::pool;
+
+public struct Pool has key { id: UID, ${field}: u64 }
+
+public fun ${field}(pool: &Pool): u64 { pool.${field} }
+`;
+
+// Two packages that both declare a `pool` module
+const FILES: Record<string, string> = {
+  'README.md': '# Markets',
+  'packages/alpha/Move.toml': manifest('Alpha', 'alpha'),
+  'packages/alpha/sources/pool.move': poolModule('alpha', 'reserve'),
+  'packages/beta/Move.toml': manifest('BetaMarket', 'beta'),
+  'packages/beta/sources/pool.move': poolModule('beta', 'liquidity'),
+  'packages/beta/build/Beta/Move.toml': manifest('Beta', 'beta'),
+};
+
+/**
+ * In-memory repository with the given branches and tags, recording what was asked of it
+ */
+function fixtureRepository(refs: string[] = []) {
+  const requested: GitHubRepoRef[] = [];
+  const factory = (repo: GitHubRepoRef): RepositorySource => {
+    requested.push(repo);
+    return {
+      listFiles: async () => Object.keys(FILES),
+      readFile: async (path) => FILES[path],
+      listRefs: async (prefix) => refs.filter((ref) => ref.startsWith(prefix)),
+    };
+  };
+  return { factory, requested };
+}
+
+describe('parseGitHubUrl', () => {
+  it('splits owner, repo, ref and path', () => {
+    expect(parseGitHubUrl('https://github.com/org/markets/tree/main/packages/alpha/')).toEqual({
+      owner: 'org',
+      repo: 'markets',
+      ref: 'main',
+      path: 'packages/alpha',
+    });
+  });
+
+  it('uses the directory of a blob URL', () => {
+    expect(parseGitHubUrl('github.com/org/markets.git/blob/v1/packages/beta/Move.toml')).toMatchObject({
+      repo: 'markets',
+      ref: 'v1',
+      path: 'packages/beta',
+    });
+  });
+
+  it('rejects other hosts', () => {
+    expect(() => parseGitHubUrl('https://gitlab.com/org/markets')).toThrow(/Invalid GitHub URL/);
+  });
+});
+
+describe('resolveRefPath', () => {
+  const parsed = parseGitHubUrl('https://github.com/org/markets/tree/feature/amm/packages/alpha');
+
+  it('matches slashed refs against the source, longest first', async () => {
+    const source = fixtureRepository(['feature', 'feature/amm', 'main']).factory(parsed);
+
+    expect(await resolveRefPath(parsed, source)).toMatchObject({ ref: 'feature/amm', path: 'packages/alpha' });
+  });
+
+  it('keeps the first-segment split without a matching ref', async () => {
+    const source = fixtureRepository(['main']).factory(parsed);
+
+    expect(await resolveRefPath(parsed, source)).toEqual(parsed);
+  });
+
+  it('keeps the split when the source cannot list refs', async () => {
+    const source: RepositorySource = { listFiles: async () => [], readFile: async () => '' };
+
+    expect(await resolveRefPath(parsed, source)).toEqual(parsed);
+  });
+});
+
+describe('GitHub package fetcher', () => {
+  it('reads the package at the resolved ref from the repository source', async () => {
+    const repository = fixtureRepository(['feature/amm']);
+    const fetcher = createGitHubFetcher('testnet', { sourceFactory: repository.factory });
+
+    const packages = await fetcher.loadPackages('https://github.com/org/markets/tree/feature/amm/packages/alpha');
+
+    expect(packages.map((pkg) => pkg.manifest.package.name)).toEqual(['Alpha']);
+    expect(repository.requested.at(-1)).toMatchObject({ ref: 'feature/amm', path: 'packages/alpha' });
+  });
+
+  it('keeps same-named modules of different packages apart', async () => {
+    const fetcher = createGitHubFetcher('testnet', { sourceFactory: fixtureRepository().factory });
+
+    const packages = await fetcher.loadPackages('https://github.com/org/markets');
+
+    expect(packages.map((pkg) => [pkg.path, pkg.modules.map((m) => m.moduleName)])).toEqual([
+      ['packages/alpha', ['pool']],
+      ['packages/beta', ['pool']],
+    ]);
+    expect(packages[0].modules[0].sourceCode).toContain('reserve');
+    expect(packages[1].modules[0].sourceCode).toContain('liquidity');
+  });
+
+  it('fails when no package is found under the path', async () => {
+    const fetcher = createGitHubFetcher('testnet', { sourceFactory: fixtureRepository().factory });
+
+    await expect(fetcher.loadPackages('https://github.com/org/markets/tree/main/docs')).rejects.toThrow(
+      /No Move.toml found in org\/markets under "docs"/
+    );
+  });
+});
+
+describe('discoverPackageRoots', () => {
+  it('skips build output and stops at a package base path', () => {
+    const files = Object.keys(FILES);
+
+    expect(discoverPackageRoots(files)).toEqual(['packages/alpha', 'packages/beta']);
+    expect(discoverPackageRoots([...files, 'packages/alpha/examples/Move.toml'], 'packages/alpha')).toEqual([
+      'packages/alpha',
+    ]);
+  });
+});
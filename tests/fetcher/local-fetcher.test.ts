@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createLocalFetcher } from '../../src/fetcher/local-fetcher.js';
+import { parseInputSource } from '../../src/fetcher/input-source.js';
+import { parseMoveManifest } from '../../src/fetcher/move-manifest.js';
+import { ErrorCode } from '../../src/core/errors.js';
+
+const FIXTURE = new URL('../fixtures/demo', import.meta.url).pathname;
+
+describe('local package fetcher', () => {
+  const fetcher = createLocalFetcher('testnet');
+
+  it('reads the manifest and parses every module under sources/', async () => {
+    const local = await fetcher.loadPackage(FIXTURE);
+
+    expect(local.manifest.package).toMatchObject({ name: 'Demo', edition: '2024.beta' });
+    expect(local.manifest.addresses).toEqual({ demo: '0x0' });
+    expect(local.manifest.dependencies).toMatchObject([{ name: 'Sui', rev: 'framework/testnet' }]);
+    expect(local.modules.map((m) => [m.packageId, m.moduleName])).toEqual([['0x0', 'pool']]);
+    expect(local.modules[0].sourceCode).toContain('module demo::pool;');
+  });
+
+  it('builds an ABI from the source', async () => {
+    const { abi } = await fetcher.fetchModule(FIXTURE, 'pool');
+
+    expect(Object.keys(abi.structs)).toEqual(['AdminCap', 'Pool', 'Receipt', 'Deposited']);
+    expect(abi.exposedFunctions.admin_set_fee).toMatchObject({ visibility: 'Private', isEntry: true });
+    expect(abi.exposedFunctions.borrow.parameters).toEqual([
+      {
+        MutableReference: {
+          Struct: { address: '0x0', module: 'pool', name: 'Pool', typeArguments: [{ TypeParameter: 0 }] },
+        },
+      },
+      'U64',
+      { MutableReference: { Struct: { address: '0x2', module: 'tx_context', name: 'TxContext', typeArguments: [] } } },
+    ]);
+    expect(abi.exposedFunctions.borrow.return).toEqual([
+      { Struct: { address: '0x2', module: 'coin', name: 'Coin', typeArguments: [{ TypeParameter: 0 }] } },
+      { Struct: { address: '0x0', module: 'pool', name: 'Receipt', typeArguments: [] } },
+    ]);
+  });
+
+  it('reports a missing manifest or module', async () => {
+    await expect(fetcher.loadPackage(new URL('../fixtures', import.meta.url).pathname)).rejects.toMatchObject({
+      code: ErrorCode.CONFIG_NOT_FOUND,
+    });
+    await expect(fetcher.fetchModule(FIXTURE, 'vault')).rejects.toMatchObject({
+      code: ErrorCode.MODULE_NOT_FOUND,
+    });
+  });
+});
+
+describe('parseMoveManifest', () => {
+  it('requires a package name', () => {
+    expect(() => parseMoveManifest('[package]\nversion = "1.0.0"\n')).toThrow(/\[package\] name is required/);
+  });
+
+  it('reads published-at and local dependencies', () => {
+    const manifest = parseMoveManifest(`
+[package]
+name = "Market"
+published-at = "0xabc"
+
+[dependencies]
+Oracle = { local = "../oracle" }
+`);
+
+    expect(manifest.package.publishedAt).toBe('0xabc');
+    expect(manifest.dependencies).toMatchObject([{ name: 'Oracle', local: '../oracle' }]);
+  });
+});
+
+describe('parseInputSource', () => {
+  it('tells local paths, GitHub URLs and package IDs apart', () => {
+    expect(parseInputSource('./packages/demo::pool')).toEqual({
+      type: 'local',
+      path: './packages/demo',
+      module: 'pool',
+    });
+    expect(parseInputSource('https://github.com/org/markets')).toMatchObject({
+      type: 'github',
+      url: 'https://github.com/org/markets',
+    });
+    expect(parseInputSource('0x2::coin')).toEqual({ type: 'packageId', packageId: '0x2', module: 'coin' });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EndpointPool } from '../../src/fetcher/endpoint-pool.js';
+import {
+  getRpcEndpoints,
+  loadNetworkConfig,
+  resolveNetwork,
+  setNetworkConfig,
+} from '../../src/fetcher/networks.js';
+import { ErrorCode } from '../../src/core/errors.js';
+
+const PRIMARY = 'https://rpc-1.example.com';
+const BACKUP = 'https://rpc-2.example.com';
+
+/**
+ * Fetch answering each endpoint with its own status, recording the order of calls
+ */
+function endpoints(statuses: Record<string, number | Error>) {
+  const calls: string[] = [];
+  const fetchFn = vi.fn(async (input: RequestInfo | URL) => {
+    const url = String(input);
+    calls.push(url);
+    const status = statuses[url];
+    if (status instanceof Error) {
+      throw status;
+    }
+    return new Response(url, { status });
+  });
+  return { fetchFn, calls };
+}
+
+describe('endpoint pool', () => {
+  it('fails over on 5xx and prefers the healthy endpoint afterwards', async () => {
+    const pool = new EndpointPool([PRIMARY, BACKUP]);
+    const { fetchFn, calls } = endpoints({ [PRIMARY]: 503, [BACKUP]: 200 });
+    const poolFetch = pool.createFetch(fetchFn);
+
+    expect(await (await poolFetch(PRIMARY, { method: 'POST' })).text()).toBe(BACKUP);
+    expect(pool.getPrimary()).toBe(BACKUP);
+
+    await poolFetch(PRIMARY, { method: 'POST' });
+    expect(calls).toEqual([PRIMARY, BACKUP, BACKUP]);
+    expect(pool.getHealth().map((h) => [h.url, h.successes, h.failures])).toEqual([
+      [BACKUP, 2, 0],
+      [PRIMARY, 0, 1],
+    ]);
+  });
+
+  it('fails over on connection errors but not on request errors', async () => {
+    const pool = new EndpointPool([PRIMARY, BACKUP]);
+    const { fetchFn, calls } = endpoints({ [PRIMARY]: new TypeError('fetch failed'), [BACKUP]: 400 });
+
+    const response = await pool.createFetch(fetchFn)(PRIMARY, { method: 'POST' });
+
+    expect(response.status).toBe(400);
+    expect(calls).toEqual([PRIMARY, BACKUP]);
+    expect(pool.getPrimary()).toBe(BACKUP);
+  });
+
+  it('returns the last response when every endpoint fails', async () => {
+    const pool = new EndpointPool([PRIMARY, BACKUP]);
+    const { fetchFn } = endpoints({ [PRIMARY]: 429, [BACKUP]: 502 });
+
+    expect((await pool.createFetch(fetchFn)(PRIMARY, { method: 'POST' })).status).toBe(502);
+  });
+
+  it('lets an endpoint back in after its cooldown', () => {
+    vi.useFakeTimers({ now: 0, toFake: ['Date'] });
+    const pool = new EndpointPool([PRIMARY, BACKUP], { baseCooldownMs: 1000 });
+
+    pool.recordFailure(PRIMARY);
+    expect(pool.getOrdered()).toEqual([BACKUP, PRIMARY]);
+
+    vi.setSystemTime(1001);
+    pool.recordFailure(BACKUP);
+    pool.recordFailure(BACKUP);
+    expect(pool.getOrdered()).toEqual([PRIMARY, BACKUP]);
+    vi.useRealTimers();
+  });
+});
+
+describe('network profiles', () => {
+  let dir: string;
+
+  afterEach(() => {
+    setNetworkConfig(null);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown) => {
+    dir = mkdtempSync(join(tmpdir(), 'mw-networks-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify(config));
+    return path;
+  };
+
+  it('adds custom networks and overrides built-in endpoints', () => {
+    const path = writeConfig({
+      networks: {
+        'private-mainnet': { rpc: [PRIMARY, BACKUP], chain: 'mainnet' },
+        testnet: { rpc: PRIMARY },
+      },
+    });
+    setNetworkConfig(loadNetworkConfig(path));
+
+    expect(resolveNetwork('private-mainnet')).toBe('private-mainnet');
+    expect(getRpcEndpoints('private-mainnet')).toEqual([PRIMARY, BACKUP]);
+    expect(getRpcEndpoints('testnet')).toEqual([PRIMARY]);
+    expect(getRpcEndpoints('testnet', BACKUP)).toEqual([BACKUP]);
+    expect(getRpcEndpoints('localnet')).toEqual(['http://127.0.0.1:9000']);
+  });
+
+  it('rejects unknown networks and invalid profiles', () => {
+    setNetworkConfig(loadNetworkConfig(writeConfig({})));
+    expect(() => resolveNetwork('staging')).toThrow(/staging/);
+
+    expect(() => loadNetworkConfig(writeConfig({ networks: { staging: { rpc: [] } } }))).toThrow(
+      expect.objectContaining({ code: ErrorCode.CONFIG_ERROR })
+    );
+  });
+});
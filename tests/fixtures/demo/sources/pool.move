@@ -0,0 +1,52 @@
+module demo::pool;
+
+use sui::coin::{Self, Coin};
+use sui::balance::{Self, Balance};
+use sui::event;
+
+const EZero: u64 = 1;
+const EInsufficient: u64 = 2;
+
+public struct AdminCap has key, store { id: UID }
+
+public struct Pool<phantom T> has key {
+    id: UID,
+    reserve: Balance<T>,
+    fee: u64,
+}
+
+public struct Receipt { amount: u64 }
+
+public struct Deposited has copy, drop { amount: u64 }
+
+fun init(ctx: &mut TxContext) {
+    transfer::transfer(AdminCap { id: object::new(ctx) }, ctx.sender());
+}
+
+public fun create<T>(_: &AdminCap, ctx: &mut TxContext) {
+    transfer::share_object(Pool<T> { id: object::new(ctx), reserve: balance::zero(), fee: 0 });
+}
+
+public fun deposit<T>(pool: &mut Pool<T>, c: Coin<T>) {
+    let amount = c.value();
+    assert!(amount > 0, EZero);
+    event::emit(Deposited { amount });
+    pool.reserve.join(c.into_balance());
+}
+
+public fun borrow<T>(pool: &mut Pool<T>, amount: u64, ctx: &mut TxContext): (Coin<T>, Receipt) {
+    assert!(pool.reserve.value() >= amount, EInsufficient);
+    (coin::take(&mut pool.reserve, amount, ctx), Receipt { amount })
+}
+
+public fun repay<T>(pool: &mut Pool<T>, c: Coin<T>, r: Receipt) {
+    let Receipt { amount } = r;
+    assert!(c.value() >= amount, EInsufficient);
+    pool.reserve.join(c.into_balance());
+}
+
+public fun reserve<T>(pool: &Pool<T>): u64 { pool.reserve.value() }
+
+public(package) fun set_fee<T>(pool: &mut Pool<T>, fee: u64) { pool.fee = fee; }
+
+entry fun admin_set_fee<T>(_: &AdminCap, pool: &mut Pool<T>, fee: u64) { set_fee(pool, fee) }
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { bcs } from '@mysten/sui/bcs';
+import { createLocalFetcher } from '../../src/fetcher/local-fetcher.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createPythonGenerator } from '../../src/generator/python-generator.js';
+import { createRustGenerator } from '../../src/generator/rust-generator.js';
+import type { SuiMoveNormalizedType, SuiNormalizedModule } from '../../src/types/index.js';
+
+const PACKAGE_ID = '0xabc';
+
+const struct = (address: string, module: string, name: string, typeArguments: SuiMoveNormalizedType[] = []) => ({
+  Struct: { address, module, name, typeArguments },
+});
+
+// A pool whose reserves are Balances (flattened to u64), so no struct field needs the Coin helper
+const poolModule = {
+  fileFormatVersion: 6,
+  address: PACKAGE_ID,
+  name: 'pool',
+  friends: [],
+  structs: {
+    Pool: {
+      abilities: { abilities: ['Key'] },
+      typeParameters: [{ constraints: { abilities: [] }, isPhantom: true }],
+      fields: [
+        { name: 'id', type: struct('0x2', 'object', 'UID') },
+        { name: 'reserve', type: struct('0x2', 'balance', 'Balance', [{ TypeParameter: 0 }]) },
+      ],
+    },
+  },
+  exposedFunctions: {
+    preview_withdraw: {
+      visibility: 'Public',
+      isEntry: false,
+      typeParameters: [{ abilities: [] }],
+      parameters: [{ Reference: struct(PACKAGE_ID, 'pool', 'Pool', [{ TypeParameter: 0 }]) }],
+      return: [struct('0x2', 'coin', 'Coin', [{ TypeParameter: 0 }])],
+    },
+  },
+} as unknown as SuiNormalizedModule;
+
+const analyzed = createModuleAnalyzer().analyzeModule(poolModule, 'testnet');
+
+describe('framework helpers of bindings', () => {
+  it('declares Python helpers used only by function returns', () => {
+    const files = createPythonGenerator().generate(analyzed);
+
+    expect(files['scripts/read.py']).toContain('framework.Coin');
+    expect(files['scripts/move_types.py']).toContain('class framework:');
+    expect(files['scripts/move_types.py']).toContain('class Coin');
+  });
+
+  it('declares Rust helpers used only by function returns', () => {
+    const files = createRustGenerator().generate(analyzed);
+
+    expect(files['scripts/read.rs']).toContain('framework::Coin');
+    expect(files['scripts/move_types.rs']).toContain('pub mod framework');
+    expect(files['scripts/move_types.rs']).toContain('pub struct Coin');
+  });
+});
+
+const FIXTURE = new URL('../fixtures/demo', import.meta.url).pathname;
+
+const [demo] = (await createLocalFetcher('testnet').loadPackage(FIXTURE)).modules;
+const demoPool = createModuleAnalyzer().analyzeModule(demo.abi, 'testnet', demo.sourceCode);
+
+const hasPython = (() => {
+  try {
+    execFileSync('python3', ['--version']);
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe('Python bindings', () => {
+  const files = createPythonGenerator().generate(demoPool);
+
+  it('adds a call function per entry function and a read function per view function', () => {
+    expect(Object.keys(files).sort()).toEqual(['scripts/call.py', 'scripts/move_types.py', 'scripts/read.py']);
+    expect(files['scripts/call.py']).toContain(
+      'def admin_set_fee(txn: SyncTransaction, admin: str, pool: str, value2: int, type_arguments: tuple[str]) -> Any:'
+    );
+    expect(files['scripts/read.py']).toContain(
+      'def reserve(client: SyncClient, pool: str, type_arguments: tuple[str]) -> int:'
+    );
+    expect(files['scripts/read.py']).toContain('    return decode(values[0], BcsReader.read_u64)');
+    // `borrow` hands out a hot potato, so it cannot be simulated alone
+    expect(files['scripts/read.py']).not.toContain('def borrow');
+  });
+
+  it.skipIf(!hasPython)('decodes struct contents with the generated dataclasses', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mw-python-'));
+    try {
+      writeFileSync(join(dir, 'move_types.py'), files['scripts/move_types.py']);
+      const bytes = bcs
+        .struct('Pool', { id: bcs.Address, reserve: bcs.u64(), fee: bcs.u64() })
+        .serialize({ id: '0x' + '1'.repeat(64), reserve: 500, fee: 3 })
+        .toHex();
+      const script = `from move_types import *\nprint(decode(bytes.fromhex("${bytes}"), Pool.decode))`;
+
+      expect(execFileSync('python3', ['-c', script], { cwd: dir, encoding: 'utf-8' }).trim()).toBe(
+        `Pool(id='0x${'1'.repeat(64)}', reserve=500, fee=3)`
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Rust bindings', () => {
+  const files = createRustGenerator().generate(demoPool);
+
+  it('declares serde structs and sui-sdk call and read functions', () => {
+    expect(Object.keys(files).sort()).toEqual([
+      'scripts/call.rs',
+      'scripts/mod.rs',
+      'scripts/move_types.rs',
+      'scripts/read.rs',
+    ]);
+    expect(files['scripts/mod.rs']).toContain('pub mod call;\npub mod move_types;\npub mod read;');
+    expect(files['scripts/move_types.rs']).toContain(
+      'pub struct Pool {\n    pub id: ObjectID,\n    pub reserve: u64,\n    pub fee: u64,\n}'
+    );
+    expect(files['scripts/call.rs']).toContain(
+      '    let arguments = vec![ptb.obj(admin)?, ptb.obj(pool)?, ptb.pure(value2)?];\n    move_call(ptb, "admin_set_fee", type_arguments.to_vec(), arguments)'
+    );
+    expect(files['scripts/read.rs']).toContain(
+      'pub async fn reserve(client: &SuiClient, pool: ObjectArg, type_arguments: [TypeTag; 1]) -> Result<u64> {'
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+
+/**
+ * Quick Start of a module with a single entry function, analyzed from
+ * its ABI alone or together with its source
+ */
+function quickStart(fn: string, withSource: boolean): string {
+  const source = `
+module demo::market;
+
+use sui::coin::Coin;
+
+public struct Pool<phantom T> has key { id: UID, fee: u64 }
+
+${fn}
+`;
+  const [{ abi }] = parseMoveSource(source, { addresses: { demo: '0x0' }, packageNamedAddress: 'demo' });
+  const module = createModuleAnalyzer().analyzeModule(abi, 'testnet', withSource ? source : undefined);
+  return createSkillGenerator().generateSkillMd(module);
+}
+
+describe('Quick Start coin amounts', () => {
+  it('scales u64s that Move source names as amounts', () => {
+    const md = quickStart(
+      'entry fun deposit<T>(pool: &mut Pool<T>, c: Coin<T>, min_amount: u64, fee: u64) { abort 0 }',
+      true
+    );
+
+    expect(md).toContain("tx.pure.u64('1000000000') /* 1 SUI */,\n    tx.pure.u64('1000000000'),\n");
+  });
+
+  it('leaves other u64s unscaled', () => {
+    const md = quickStart('entry fun set_fee<T>(pool: &mut Pool<T>, fee: u64) { abort 0 }', true);
+
+    expect(md).toContain("tx.pure.u64('1000000000')");
+    expect(md).not.toContain('/* 1 SUI */');
+  });
+
+  it('scales the only u64 paired with a Coin of the same type without source', () => {
+    const md = quickStart('entry fun deposit<T>(pool: &mut Pool<T>, c: Coin<T>, amount: u64) { abort 0 }', false);
+
+    expect(md).toContain('/* 1 SUI */');
+  });
+
+  it('does not trust inferred ABI parameter names', () => {
+    // Without source the u64s are named `value1`, `value2`
+    const md = quickStart('entry fun set_fees<T>(pool: &mut Pool<T>, maker: u64, taker: u64) { abort 0 }', false);
+
+    expect(md).toContain('value1');
+    expect(md).not.toContain('/* 1 SUI */');
+  });
+});
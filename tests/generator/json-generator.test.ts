@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'url';
+import { createLocalFetcher } from '../../src/fetcher/local-fetcher.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createPackageAnalyzer } from '../../src/analyzer/package-analyzer.js';
+import { createJsonGenerator } from '../../src/generator/json-generator.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+import { ANALYSIS_JSON_SCHEMA, ANALYSIS_SCHEMA_VERSION } from '../../src/generator/analysis-schema.js';
+import type { AnalyzedPackage } from '../../src/types/index.js';
+
+const FIXTURE = fileURLToPath(new URL('../fixtures/demo', import.meta.url));
+
+async function analyzeFixture(): Promise<AnalyzedPackage> {
+  const local = await createLocalFetcher('testnet').loadPackage(FIXTURE);
+  const sources = Object.fromEntries(local.modules.map((m) => [m.moduleName, m.sourceCode ?? '']));
+  const pkg = createPackageAnalyzer(createModuleAnalyzer()).analyzePackage(
+    local.modules.map((m) => m.abi),
+    'testnet',
+    sources
+  );
+  pkg.name = local.manifest.package.name;
+  return pkg;
+}
+
+type Schema = Record<string, any>;
+
+const DEFS: Record<string, Schema> = ANALYSIS_JSON_SCHEMA.$defs;
+
+/**
+ * Errors of a value against the subset of JSON Schema the analysis schema uses
+ */
+function validate(schema: Schema, value: unknown, path = '$'): string[] {
+  if (schema.$ref) {
+    return validate(DEFS[schema.$ref.replace('#/$defs/', '')], value, path);
+  }
+  if (schema.allOf) {
+    return schema.allOf.flatMap((s: Schema) => validate(s, value, path));
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((s: Schema) => validate(s, value, path).length === 0).length;
+    return matches === 1 ? [] : [`${path}: matches ${matches} of oneOf`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) return [`${path}: ${JSON.stringify(value)} not in enum`];
+  if ('const' in schema && schema.const !== value) return [`${path}: expected ${schema.const}`];
+
+  const type = value === null ? 'null' : Array.isArray(value) ? 'array' : Number.isInteger(value) ? 'integer' : typeof value;
+  if (schema.type && schema.type !== type && !(schema.type === 'number' && type === 'integer')) {
+    return [`${path}: expected ${schema.type}, got ${type}`];
+  }
+  if (schema.pattern && !new RegExp(schema.pattern).test(value as string)) return [`${path}: does not match ${schema.pattern}`];
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) return [`${path}: below ${schema.minimum}`];
+
+  if (type === 'array' && schema.items) {
+    return (value as unknown[]).flatMap((item, i) => validate(schema.items, item, `${path}[${i}]`));
+  }
+  if (type === 'object' && schema.properties) {
+    const object = value as Record<string, unknown>;
+    const missing = (schema.required ?? []).filter((key: string) => !(key in object)).map((key: string) => `${path}.${key}: missing`);
+    return [
+      ...missing,
+      ...Object.entries(schema.properties as Record<string, Schema>)
+        .filter(([key]) => key in object)
+        .flatMap(([key, s]) => validate(s, object[key], `${path}.${key}`)),
+    ];
+  }
+  return [];
+}
+
+describe('analysis document', () => {
+  it('follows the published schema', async () => {
+    const document = JSON.parse(createJsonGenerator().generateJson(await analyzeFixture()));
+
+    expect(validate(ANALYSIS_JSON_SCHEMA, document)).toEqual([]);
+    expect(validate(ANALYSIS_JSON_SCHEMA, { ...document, modules: [{ name: 'pool' }] })).toContain('$.modules[0].category: missing');
+  });
+
+  it('records the schema version and the package summary', async () => {
+    const document = createJsonGenerator().generate(await analyzeFixture());
+
+    expect(document.$schema).toBe('./analysis.schema.json');
+    expect(document.schemaVersion).toBe(ANALYSIS_SCHEMA_VERSION);
+    expect(document.package).toMatchObject({ packageId: '0x0', network: 'testnet', modules: ['pool'] });
+    expect(document.errors).toEqual([
+      { module: 'pool', name: 'EZero', code: 1 },
+      { module: 'pool', name: 'EInsufficient', code: 2 },
+    ]);
+    expect(document.dependencies).toBeNull();
+  });
+
+  it('describes functions with their Move signature and analysis', async () => {
+    const [pool] = createJsonGenerator().generate(await analyzeFixture()).modules;
+    const borrow = pool.functions.find((f) => f.name === 'borrow');
+
+    expect(borrow?.signature).toBe(
+      'public fun borrow<T0>(pool: &mut 0x0::pool::Pool<T0>, value1: u64, tx: &mut 0x2::tx_context::TxContext): (0x2::coin::Coin<T0>, 0x0::pool::Receipt)'
+    );
+    expect(borrow?.ptbConstraint).toEqual({ produces: ['Receipt'], consumes: [] });
+    expect(pool.functions.find((f) => f.name === 'set_fee')?.visibility).toBe('package');
+    expect(pool.hotPotatoes.map((h) => h.name)).toEqual(['Receipt']);
+  });
+
+  it('serializes the document and schema as JSON files', async () => {
+    const generator = createJsonGenerator();
+    const json = generator.generateJson(await analyzeFixture());
+
+    expect(json.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(json).schemaVersion).toBe(ANALYSIS_SCHEMA_VERSION);
+    expect(JSON.parse(generator.generateSchema())).toEqual(ANALYSIS_JSON_SCHEMA);
+  });
+});
+
+describe('markdown reference', () => {
+  it('inlines every module reference in one document', async () => {
+    const md = createSkillGenerator().generateReferenceMd(await analyzeFixture());
+
+    expect(md.match(/^# /gm)).toEqual(['# ', '# ']);
+    expect(md).toContain('- [Module `pool`](#module-pool)');
+    expect(md).toContain('# Module `pool`\n\n`0x0::pool`');
+    expect(md).toContain('## Security Notes');
+    // Nothing links to files the markdown format does not write
+    expect(md).not.toContain('](../');
+    expect(md).not.toContain('SKILL.md');
+  });
+});
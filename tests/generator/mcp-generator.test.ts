@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { createLocalFetcher } from '../../src/fetcher/local-fetcher.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createPackageAnalyzer } from '../../src/analyzer/package-analyzer.js';
+import { createMcpGenerator } from '../../src/generator/mcp-generator.js';
+
+const FIXTURE = new URL('../fixtures/demo', import.meta.url).pathname;
+
+/**
+ * Files of the MCP server of the demo package
+ */
+async function generateDemoServer(): Promise<Record<string, string>> {
+  const local = await createLocalFetcher('testnet').loadPackage(FIXTURE);
+  const sources = Object.fromEntries(local.modules.map((m) => [m.moduleName, m.sourceCode ?? '']));
+  const pkg = createPackageAnalyzer(createModuleAnalyzer()).analyzePackage(
+    local.modules.map((m) => m.abi),
+    'testnet',
+    sources
+  );
+  return createMcpGenerator().generate(pkg, 'demo-mcp');
+}
+
+/**
+ * Names of the tools in the generated tools.ts
+ */
+function toolNames(tools: string): string[] {
+  return [...tools.matchAll(/^ {4}name: '(\w+)',$/gm)].map((match) => match[1]);
+}
+
+describe('MCP server generator', () => {
+  it('generates transaction, read and event tools', async () => {
+    const files = await generateDemoServer();
+
+    expect(toolNames(files['src/tools.ts'])).toEqual([
+      'pool_admin_set_fee',
+      'pool_create',
+      'pool_deposit',
+      'pool_reserve',
+      'pool_deposited_events',
+    ]);
+  });
+
+  it('leaves hot potato functions to PTB recipes', async () => {
+    const files = await generateDemoServer();
+
+    // `borrow` returns a Receipt that only `repay` consumes
+    expect(files['src/tools.ts']).not.toContain('pool::borrow');
+    expect(files['src/tools.ts']).not.toContain('pool::repay');
+    expect(files['README.md']).toContain('## Not exposed');
+    expect(files['README.md']).toContain('- `pool::borrow`\n- `pool::repay`');
+  });
+
+  it('narrows tool arguments instead of typing them as any', async () => {
+    const files = await generateDemoServer();
+    const tools = files['src/tools.ts'];
+
+    expect(tools).toContain('export type ToolArguments = Record<string, unknown>;');
+    expect(tools).not.toMatch(/\bany\b/);
+    expect(tools).toContain("tx.object(stringArg(args, 'pool')),");
+    expect(tools).toContain("typeArguments: stringsArg(args, 'typeArguments'),");
+    expect(files['src/index.ts']).toContain("tx.setSender(stringArg(args, 'sender'));");
+    expect(files['src/index.ts']).not.toContain('as EventId');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'url';
+import { createLocalFetcher } from '../../src/fetcher/local-fetcher.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createPackageAnalyzer } from '../../src/analyzer/package-analyzer.js';
+import { createSkillGenerator } from '../../src/generator/skill-generator.js';
+import type { AnalyzedPackage } from '../../src/types/index.js';
+
+const FIXTURE = fileURLToPath(new URL('../fixtures/demo', import.meta.url));
+
+async function analyzeFixture(): Promise<AnalyzedPackage> {
+  const local = await createLocalFetcher('testnet').loadPackage(FIXTURE);
+  const sources = Object.fromEntries(local.modules.map((m) => [m.moduleName, m.sourceCode ?? '']));
+  const pkg = createPackageAnalyzer(createModuleAnalyzer()).analyzePackage(
+    local.modules.map((m) => m.abi),
+    'testnet',
+    sources
+  );
+  pkg.name = local.manifest.package.name;
+  return pkg;
+}
+
+describe('package SKILL.md', () => {
+  it('renders the chosen scene for a package input', async () => {
+    const pkg = await analyzeFixture();
+
+    const sdk = createSkillGenerator({ scene: 'sdk' }).generatePackageSkillMd(pkg);
+    const audit = createSkillGenerator({ scene: 'audit' }).generatePackageSkillMd(pkg);
+
+    expect(audit).not.toBe(sdk);
+    expect(audit).toContain('scene: audit');
+    expect(audit).toContain('## Pool - Security Analysis');
+    expect(sdk).not.toContain('Security Analysis');
+  });
+
+  it('nests the scene view below the package overview', async () => {
+    const pkg = await analyzeFixture();
+    const learn = createSkillGenerator({ scene: 'learn' }).generatePackageSkillMd(pkg);
+
+    // One frontmatter block and one document title
+    expect(learn.match(/^name: /gm)).toHaveLength(1);
+    expect(learn.match(/^# /gm)).toHaveLength(1);
+    expect(learn).toContain('## Pool - Protocol Deep Dive');
+  });
+
+  it('is named after the Move.toml package', async () => {
+    const pkg = await analyzeFixture();
+    const generator = createSkillGenerator();
+
+    expect(pkg.name).toBe('Demo');
+    expect(generator.packageSlug(pkg)).toBe('demo');
+    expect(generator.generatePackageSkillMd(pkg)).toMatch(/^name: demo$/m);
+    expect(generator.packageSlug({ ...pkg, name: 'BetaMarket' })).toBe('beta_market');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { posix } from 'path';
+import ts from 'typescript';
+import * as sdkBcs from '@mysten/sui/bcs';
+import * as sdkTransactions from '@mysten/sui/transactions';
+import * as sdkUtils from '@mysten/sui/utils';
+import { bcs } from '@mysten/sui/bcs';
+import type { Transaction } from '@mysten/sui/transactions';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createScriptGenerator } from '../../src/generator/script-generator.js';
+import { createTypesGenerator } from '../../src/generator/types-generator.js';
+
+const SOURCE = `
+module demo::market;
+use std::string::String;
+
+public struct Market has key { id: UID, fee: u64 }
+public struct Stats has copy, drop { volume: u64, last: Option<address> }
+
+public fun fee(market: &Market): u64 { market.fee }
+public fun quote(market: &Market, amount: u64): (u64, Option<String>) { (amount, option::none()) }
+public fun stats(market: &Market): Stats { abort 0 }
+public fun peek<T: copy + drop>(market: &Market): Option<T> { option::none() }
+public fun set_fee(market: &mut Market, fee: u64) { market.fee = fee }
+`;
+
+const MARKET_ID = '0x' + 'cd'.repeat(32);
+
+const [{ abi, source }] = parseMoveSource(SOURCE, { addresses: { demo: '0x0' }, packageNamedAddress: 'demo' });
+const module = createModuleAnalyzer().analyzeModule(abi, 'testnet', source);
+
+const PACKAGES: Record<string, unknown> = {
+  '@mysten/sui/bcs': sdkBcs,
+  '@mysten/sui/transactions': sdkTransactions,
+  '@mysten/sui/utils': sdkUtils,
+};
+
+/**
+ * Evaluate a generated file, resolving relative imports against the other files
+ */
+function load(files: Record<string, string>, path: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(files[path], {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const require = (specifier: string) =>
+    PACKAGES[specifier] ?? load(files, posix.join(posix.dirname(path), specifier).replace(/\.js$/, '.ts'));
+  const exports = {};
+  new Function('require', 'module', 'exports', outputText)(require, { exports }, exports);
+  return exports;
+}
+
+/**
+ * Client whose devInspect returns the given BCS values for the last call
+ */
+function client(returnValues: Uint8Array[], error?: string) {
+  const inspected: Transaction[] = [];
+  return {
+    inspected,
+    devInspectTransactionBlock: async ({ transactionBlock }: { transactionBlock: Transaction }) => {
+      inspected.push(transactionBlock);
+      return {
+        effects: { status: error ? { status: 'failure', error } : { status: 'success' } },
+        results: [{ returnValues: returnValues.map((value) => [Array.from(value), 'unused']) }],
+      };
+    },
+  };
+}
+
+describe('read script', () => {
+  const files = {
+    'scripts/read.ts': createScriptGenerator({ typesDir: 'types' }).generateReadScript(module),
+    ...createTypesGenerator().generate([module]),
+  };
+  const read = load(files, 'scripts/read.ts');
+
+  it('only exposes view functions', () => {
+    expect(Object.keys(read).filter((name) => typeof read[name] === 'function').sort()).toEqual([
+      'fee',
+      'peek',
+      'quote',
+      'stats',
+    ]);
+  });
+
+  it('simulates the call and decodes primitive return values', async () => {
+    const fake = client([bcs.u64().serialize(25).toBytes()]);
+
+    expect(await read.fee(fake, { market: MARKET_ID })).toBe('25');
+    const [call] = fake.inspected[0].getData().commands;
+    expect(call.MoveCall).toMatchObject({ module: 'market', function: 'fee' });
+  });
+
+  it('decodes every return value of a call', async () => {
+    const fake = client([bcs.u64().serialize(7).toBytes(), bcs.option(bcs.string()).serialize('ok').toBytes()]);
+
+    expect(await read.quote(fake, { market: MARKET_ID, value1: 7n })).toEqual(['7', 'ok']);
+  });
+
+  it('decodes structs with the generated types', async () => {
+    const last = sdkUtils.normalizeSuiAddress('0x99');
+    const bytes = bcs.struct('Stats', { volume: bcs.u64(), last: bcs.option(bcs.Address) }).serialize({ volume: 10, last }).toBytes();
+
+    expect(await read.stats(client([bytes]), { market: MARKET_ID })).toEqual({ volume: '10', last });
+  });
+
+  it('returns raw bytes when the layout depends on a type argument', async () => {
+    const bytes = bcs.option(bcs.u8()).serialize(1).toBytes();
+
+    expect(await read.peek(client([bytes]), { market: MARKET_ID }, ['u8'])).toEqual(bytes);
+  });
+
+  it('reports aborted simulations', async () => {
+    await expect(read.fee(client([], 'MoveAbort(1)'), { market: MARKET_ID })).rejects.toThrow('devInspect failed: MoveAbort(1)');
+  });
+
+  it('returns structs as raw bytes when types were not generated', () => {
+    const script = createScriptGenerator().generateReadScript(module);
+
+    expect(script).toContain('export async function stats(client: SuiClient, args: StatsArgs): Promise<Uint8Array> {');
+    expect(script).not.toContain('types/index.js');
+  });
+});
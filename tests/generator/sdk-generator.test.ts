@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import * as sdkBcs from '@mysten/sui/bcs';
+import * as sdkTransactions from '@mysten/sui/transactions';
+import * as sdkUtils from '@mysten/sui/utils';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { Transaction } from '@mysten/sui/transactions';
+import { bcs } from '@mysten/sui/bcs';
+import { createLocalFetcher } from '../../src/fetcher/local-fetcher.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createSdkGenerator } from '../../src/generator/sdk-generator.js';
+
+const FIXTURE = new URL('../fixtures/demo', import.meta.url).pathname;
+const SUI = '0x2::sui::SUI';
+const POOL_ID = '0x' + 'ab'.repeat(32);
+
+const pkg = await createLocalFetcher('testnet').loadPackage(FIXTURE);
+const modules = pkg.modules.map((m) => createModuleAnalyzer().analyzeModule(m.abi, 'testnet', m.sourceCode));
+const files = createSdkGenerator().generate(modules);
+
+const PACKAGES: Record<string, unknown> = {
+  '@mysten/sui/bcs': sdkBcs,
+  '@mysten/sui/transactions': sdkTransactions,
+  '@mysten/sui/utils': sdkUtils,
+};
+
+/**
+ * Evaluate a generated SDK file, resolving its imports against the other files
+ */
+function load(path: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(files[path], {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const require = (specifier: string) =>
+    PACKAGES[specifier] ?? load(`sdk/${specifier.replace(/^\.\/|\.js$/g, '')}.ts`);
+  const module = { exports: {} as Record<string, any> };
+  new Function('require', 'module', 'exports', outputText)(require, module, module.exports);
+  return module.exports;
+}
+
+describe('SDK generator', () => {
+  it('writes a builder module per Move module with shared constants and helpers', () => {
+    expect(Object.keys(files)).toEqual(['sdk/_constants.ts', 'sdk/_utils.ts', 'sdk/pool.ts', 'sdk/index.ts']);
+    expect(files['sdk/_constants.ts']).toContain("export const MODULES = ['pool'] as const;");
+    expect(files['sdk/index.ts']).toContain("export * as pool from './pool.js';");
+  });
+
+  it('builds only public and entry functions, with typed arguments', () => {
+    const source = files['sdk/pool.ts'];
+
+    expect(source).toContain('export function adminSetFee(tx: Transaction, args: AdminSetFeeArgs, typeArguments: [T0: string]): void {');
+    expect(source).toContain('  pool: TransactionObjectInput;');
+    expect(source).toContain('  value2: bigint | string | Argument;');
+    expect(source).not.toContain('setFee(');
+  });
+
+  it('adds move calls that chain inside one transaction', () => {
+    const pool = load('sdk/pool.ts');
+    const tx = new Transaction();
+
+    const [coin, receipt] = pool.borrow(tx, { pool: POOL_ID, value1: 100n }, [SUI]);
+    pool.repay(tx, { pool: POOL_ID, coin, receipt }, [SUI]);
+
+    const { commands, inputs } = tx.getData();
+    expect(commands.map((c) => c.MoveCall?.function)).toEqual(['borrow', 'repay']);
+    expect(commands[0].MoveCall).toMatchObject({ package: normalizeSuiAddress('0x0'), module: 'pool', typeArguments: [SUI] });
+    expect(commands[1].MoveCall?.arguments.slice(1)).toEqual([
+      { $kind: 'NestedResult', NestedResult: [0, 0] },
+      { $kind: 'NestedResult', NestedResult: [0, 1] },
+    ]);
+    expect(inputs[1].Pure?.bytes).toBe(bcs.u64().serialize(100n).toBase64());
+  });
+
+  it('passes results of earlier calls as pure arguments as is', () => {
+    const pool = load('sdk/pool.ts');
+    const tx = new Transaction();
+
+    const [amount] = pool.reserve(tx, { pool: POOL_ID }, [SUI]);
+    pool.borrow(tx, { pool: POOL_ID, value1: amount }, [SUI]);
+
+    expect(tx.getData().commands[1].MoveCall?.arguments[1]).toEqual({ $kind: 'NestedResult', NestedResult: [0, 0] });
+  });
+});
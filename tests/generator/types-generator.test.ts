@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import * as sdkBcs from '@mysten/sui/bcs';
+import { bcs } from '@mysten/sui/bcs';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { parseMoveSource } from '../../src/fetcher/move-source-parser.js';
+import { createModuleAnalyzer } from '../../src/analyzer/module-analyzer.js';
+import { createTypesGenerator } from '../../src/generator/types-generator.js';
+
+const SOURCES = [
+  `
+module demo::shapes;
+public struct Point has copy, drop, store { x: u64, y: u64 }
+`,
+  `
+module demo::vault;
+use std::string::String;
+use demo::shapes::Point;
+use sui::balance::Balance;
+use sui::table::Table;
+use other::oracle::Price;
+
+public struct Entry<T: store> has store { value: T, label: Option<String> }
+public struct Vault<phantom C> has key {
+    id: UID,
+    owner: address,
+    origin: Point,
+    entries: vector<Entry<u8>>,
+    reserve: Balance<C>,
+    index: Table<u64, u64>,
+}
+public struct Quote has copy, drop { price: Price }
+`,
+];
+
+const modules = SOURCES.map((source) => {
+  const [{ abi, source: code }] = parseMoveSource(source, {
+    addresses: { demo: '0x0', other: '0x5' },
+    packageNamedAddress: 'demo',
+  });
+  return createModuleAnalyzer().analyzeModule(abi, 'testnet', code);
+});
+const files = createTypesGenerator().generate(modules);
+
+/**
+ * Evaluate the generated type files, resolving their imports against each other
+ */
+function load(path: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(files[path], {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const require = (specifier: string) =>
+    specifier === '@mysten/sui/bcs' ? sdkBcs : load(`types/${specifier.replace(/^\.\/|\.js$/g, '')}.ts`);
+  const module = { exports: {} as Record<string, any> };
+  new Function('require', 'module', 'exports', outputText)(require, module, module.exports);
+  return module.exports;
+}
+
+describe('types generator', () => {
+  it('writes one file per module, the framework helpers and an index', () => {
+    expect(Object.keys(files)).toEqual(['types/framework.ts', 'types/shapes.ts', 'types/vault.ts', 'types/index.ts']);
+    expect(files['types/index.ts']).toContain("export * as vault from './vault.js';");
+  });
+
+  it('declares an interface next to each schema', () => {
+    expect(files['types/vault.ts']).toContain(
+      [
+        'export interface Vault {',
+        '  id: string;',
+        '  owner: string;',
+        '  origin: shapes.Point;',
+        '  entries: Entry<number>[];',
+        '  reserve: framework.Balance;',
+        '  index: framework.Table;',
+        '}',
+      ].join('\n')
+    );
+    expect(files['types/vault.ts']).toContain("import * as shapes from './shapes.js';");
+    expect(files['types/vault.ts']).toContain('export function Entry<T0 extends BcsType<any>>(t0: T0) {');
+  });
+
+  it('decodes object contents with the generated schemas', () => {
+    const { Vault } = load('types/vault.ts');
+    const owner = normalizeSuiAddress('0x42');
+    const value = {
+      id: normalizeSuiAddress('0x1d'),
+      owner,
+      origin: { x: '1', y: '2' },
+      entries: [
+        { value: 7, label: 'seven' },
+        { value: 8, label: null },
+      ],
+      reserve: { value: '1000' },
+      index: { id: normalizeSuiAddress('0x7ab'), size: '3' },
+    };
+
+    const bytes = bcs
+      .struct('Vault', {
+        id: bcs.Address,
+        owner: bcs.Address,
+        origin: bcs.struct('Point', { x: bcs.u64(), y: bcs.u64() }),
+        entries: bcs.vector(bcs.struct('Entry', { value: bcs.u8(), label: bcs.option(bcs.string()) })),
+        reserve: bcs.u64(),
+        index: bcs.struct('Table', { id: bcs.Address, size: bcs.u64() }),
+      })
+      .serialize({ ...value, reserve: value.reserve.value })
+      .toBytes();
+
+    expect(Vault.parse(bytes)).toEqual(value);
+  });
+
+  it('refuses to decode types of packages it has no layout for', () => {
+    const { Quote } = load('types/vault.ts');
+
+    expect(files['types/vault.ts']).toContain("price: framework.unknownType('0x5::oracle::Price'),");
+    expect(() => Quote.parse(new Uint8Array(8))).toThrow('No BCS schema for 0x5::oracle::Price');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { delimiter, join } from 'path';
+import {
+  createAnthropicProvider,
+  createClaudeCliProvider,
+  createMockProvider,
+  loadLLMConfig,
+  parseLLMProviderName,
+  type LLMConfig,
+} from '../../src/llm/index.js';
+import { ErrorCode, LLMError } from '../../src/core/errors.js';
+
+const config = (overrides: Partial<LLMConfig> = {}): LLMConfig => ({
+  provider: 'mock',
+  timeoutMs: 5000,
+  maxTokens: 256,
+  ...overrides,
+});
+
+describe('claude-cli provider', () => {
+  let bin: string;
+  const path = process.env.PATH;
+
+  // A `claude` that prints the arguments it received
+  beforeAll(() => {
+    bin = mkdtempSync(join(tmpdir(), 'mw-claude-'));
+    const script = join(bin, 'claude');
+    writeFileSync(script, '#!/usr/bin/env node\nprocess.stdout.write(JSON.stringify(process.argv.slice(2)));\n');
+    chmodSync(script, 0o755);
+    process.env.PATH = `${bin}${delimiter}${path}`;
+  });
+
+  afterAll(() => {
+    process.env.PATH = path;
+    rmSync(bin, { recursive: true, force: true });
+  });
+
+  it('passes the model and prompt as arguments, not through a shell', async () => {
+    const model = 'opus; echo injected';
+    const provider = createClaudeCliProvider(config({ provider: 'claude-cli', model }));
+
+    const response = await provider.complete({ messages: [{ role: 'user', content: "it's $(whoami)" }] });
+
+    expect(JSON.parse(response.text)).toEqual(['--print', '--model', model, "it's $(whoami)"]);
+    expect(response.usage.estimated).toBe(true);
+  });
+
+  it('omits --model for the default model and streams stdout', async () => {
+    const provider = createClaudeCliProvider(config({ provider: 'claude-cli' }));
+    const deltas: string[] = [];
+
+    const response = await provider.stream({ messages: [{ role: 'user', content: 'hi' }] }, (d) => deltas.push(d));
+
+    expect(JSON.parse(response.text)).toEqual(['--print', 'hi']);
+    expect(deltas.join('')).toBe(response.text);
+  });
+});
+
+describe('anthropic provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads text deltas and usage from the event stream', async () => {
+    const events = [
+      { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hello' } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: ' there' } },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } },
+    ];
+    const body = events.map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join('');
+    const fetchMock = vi.fn(async () => new Response(body, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createAnthropicProvider(config({ provider: 'anthropic', apiKey: 'sk-test' }));
+    const deltas: string[] = [];
+    const response = await provider.stream({ messages: [{ role: 'user', content: 'hi' }] }, (d) => deltas.push(d));
+
+    expect(deltas).toEqual(['Hello', ' there']);
+    expect(response).toMatchObject({ text: 'Hello there', stopReason: 'end_turn' });
+    expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 5 });
+    expect(provider.getUsage()).toMatchObject({ inputTokens: 12, outputTokens: 5, requests: 1 });
+  });
+
+  it('turns HTTP errors into LLMError', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('overloaded', { status: 529 })));
+    const provider = createAnthropicProvider(config({ provider: 'anthropic', apiKey: 'sk-test' }));
+
+    await expect(provider.complete({ messages: [{ role: 'user', content: 'hi' }] })).rejects.toThrow(
+      /HTTP 529.*overloaded/
+    );
+  });
+
+  it('is unavailable without an API key', async () => {
+    const provider = createAnthropicProvider(config({ provider: 'anthropic' }));
+
+    expect(await provider.isAvailable()).toBe(false);
+    await expect(provider.complete({ messages: [{ role: 'user', content: 'hi' }] })).rejects.toMatchObject({
+      code: ErrorCode.LLM_UNAVAILABLE,
+    });
+  });
+});
+
+describe('mock provider', () => {
+  it('answers the same request the same way', async () => {
+    const provider = createMockProvider(config());
+    const request = { messages: [{ role: 'user' as const, content: 'What does deposit do?' }] };
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first.text).toBe(second.text);
+    expect(provider.getUsage().requests).toBe(2);
+  });
+
+  it('reports a timeout when the provider does not answer in time', async () => {
+    const provider = createMockProvider(config({ timeoutMs: 10 }));
+    Object.assign(provider, {
+      generate: (request: { signal: AbortSignal }) =>
+        new Promise((_, reject) => request.signal.addEventListener('abort', () => reject(new Error('aborted')))),
+    });
+
+    const error = await provider.complete({ messages: [{ role: 'user', content: 'hi' }] }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.code).toBe(ErrorCode.LLM_TIMEOUT);
+  });
+});
+
+describe('LLM configuration', () => {
+  it('rejects unknown provider names', () => {
+    expect(parseLLMProviderName(' Mock ')).toBe('mock');
+    expect(() => parseLLMProviderName('gpt')).toThrow(/Valid providers are/);
+  });
+
+  it('lets overrides win over the environment', () => {
+    expect(loadLLMConfig({ provider: 'mock', timeoutMs: 10 })).toMatchObject({ provider: 'mock', timeoutMs: 10 });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { parseIntegerLiteral, parseMoveFile, tokenize, typeToString } from '../../src/parser/index.js';
+
+const SOURCE = `
+/// Shared counter
+#[allow(unused_const)]
+module demo::counter {
+    use sui::table::{Self, Table as Tbl};
+    use std::string::String;
+    friend demo::admin;
+
+    const EMax: u64 = 0x10;
+    #[error]
+    const ENotOwner: vector<u8> = b"not owner";
+
+    /// A counter
+    public struct Counter<phantom T: store + drop> has key, store {
+        id: UID,
+        values: Tbl<address, vector<u64>>,
+    }
+    public struct Pair(u64, bool) has copy, drop;
+    public enum Action has drop { Add { amount: u64 }, Reset }
+
+    public(package) fun bump<T: store + drop>(c: &mut Counter<T>, mut n: u64): (u64, bool) {
+        // not a call: foo()
+        let _s = b"abort(1)";
+        assert!(n < EMax, EMax);
+        if (n == 0) abort ENotOwner;
+        c.values.add(@0x1, vector[n]);
+        (table::length(&c.values), true)
+    }
+
+    public entry fun run(ctx: &mut TxContext) {}
+    #[test_only]
+    fun helper() {}
+    native fun hash(x: &vector<u8>): vector<u8>;
+    public macro fun each<$T>($v: vector<$T>, $f: |$T| -> ()) {}
+}
+`;
+
+const { modules, diagnostics } = parseMoveFile(SOURCE);
+const [module] = modules;
+const fn = (name: string) => module.functions.find((f) => f.name === name)!;
+
+describe('Move source parser', () => {
+  it('parses the module header, uses and friends', () => {
+    expect(diagnostics).toEqual([]);
+    expect(module).toMatchObject({
+      address: 'demo',
+      name: 'counter',
+      isLabel: false,
+      doc: 'Shared counter',
+      attributes: [{ name: 'allow', args: 'unused_const' }],
+    });
+    expect(module.uses.flatMap((use) => use.members)).toEqual([
+      { module: 'table', alias: 'table' },
+      { module: 'table', member: 'Table', alias: 'Tbl' },
+      { module: 'string', member: 'String', alias: 'String' },
+    ]);
+    expect(module.friends.map((friend) => friend.path)).toEqual([['demo', 'admin']]);
+  });
+
+  it('parses structs, positional structs and enums', () => {
+    const [counter, pair] = module.structs;
+
+    expect(counter).toMatchObject({
+      name: 'Counter',
+      doc: 'A counter',
+      abilities: ['key', 'store'],
+      typeParams: [{ name: 'T', constraints: ['store', 'drop'], isPhantom: true }],
+    });
+    expect(counter.fields.map((f) => [f.name, typeToString(f.type)])).toEqual([
+      ['id', 'UID'],
+      ['values', 'Tbl<address, vector<u64>>'],
+    ]);
+    expect(pair).toMatchObject({ isPositional: true, abilities: ['copy', 'drop'] });
+    expect(pair.fields.map((f) => f.name)).toEqual(['pos0', 'pos1']);
+    expect(module.enums[0].variants.map((v) => [v.name, v.fields.map((f) => f.name)])).toEqual([
+      ['Add', ['amount']],
+      ['Reset', []],
+    ]);
+  });
+
+  it('evaluates integer constants and keeps attributes', () => {
+    expect(module.constants.map((c) => [c.name, typeToString(c.type), c.numericValue])).toEqual([
+      ['EMax', 'u64', 16n],
+      ['ENotOwner', 'vector<u8>', undefined],
+    ]);
+    expect(module.constants[1].attributes).toEqual([{ name: 'error' }]);
+  });
+
+  it('parses function signatures', () => {
+    expect(fn('bump')).toMatchObject({ visibility: 'package', isEntry: false });
+    expect(fn('bump').params.map((p) => [p.name, p.isMut, typeToString(p.type)])).toEqual([
+      ['c', false, '&mut Counter<T>'],
+      ['n', true, 'u64'],
+    ]);
+    expect(fn('bump').returns.map(typeToString)).toEqual(['u64', 'bool']);
+    expect(fn('run')).toMatchObject({ visibility: 'public', isEntry: true });
+    expect(fn('helper').attributes).toEqual([{ name: 'test_only' }]);
+    expect(fn('hash')).toMatchObject({ isNative: true, body: undefined });
+    expect(fn('each')).toMatchObject({ isMacro: true, typeParams: [{ name: '$T' }] });
+  });
+
+  it('finds calls and aborts in bodies, ignoring comments and strings', () => {
+    const body = fn('bump').body!;
+
+    expect(body.calls.map((c) => [c.path.join('::'), c.isMethod, c.isMacro])).toEqual([
+      ['assert', false, true],
+      ['add', true, false],
+      ['table::length', false, false],
+    ]);
+    expect(body.aborts.map((a) => [a.kind, a.code])).toEqual([
+      ['assert', 'EMax'],
+      ['abort', 'ENotOwner'],
+    ]);
+  });
+
+  it('reports syntax errors as diagnostics instead of throwing', () => {
+    const result = parseMoveFile('module a::b; fun f( {');
+
+    expect(result.modules).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ line: 1, message: expect.stringContaining('Expected') });
+  });
+});
+
+describe('tokenizer', () => {
+  it('attaches doc comments to the next token', () => {
+    expect(tokenize('x // note\n/// Docs\nfun').map((t) => [t.kind, t.value, t.doc, t.line])).toEqual([
+      ['ident', 'x', undefined, 1],
+      ['ident', 'fun', 'Docs', 3],
+      ['eof', '', undefined, 3],
+    ]);
+  });
+
+  it('reads integer literals with separators and suffixes', () => {
+    expect(parseIntegerLiteral('0xff_u64')).toBe(255n);
+    expect(parseIntegerLiteral('1_000u64')).toBe(1000n);
+  });
+});
@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import { createSuiClient, isValidNetwork } from '@/lib/networks';
 
 export const runtime = 'edge';
 
-const NETWORK_URLS: Record<string, string> = {
-  mainnet: 'https://fullnode.mainnet.sui.io',
-  testnet: 'https://fullnode.testnet.sui.io',
-  devnet: 'https://fullnode.devnet.sui.io',
-};
-
 interface AnalyzeRequest {
   packageId: string;
-  network: 'mainnet' | 'testnet' | 'devnet';
+  network: string;
   moduleName?: string;
   sourceCode?: string;
 }
@@ -238,7 +232,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Valid packageId is required' }, { status: 400 });
     }
 
-    const client = new SuiJsonRpcClient({ url: NETWORK_URLS[network], network });
+    if (!isValidNetwork(network)) {
+      return NextResponse.json({ error: 'Invalid network' }, { status: 400 });
+    }
+
+    const client = createSuiClient(network);
 
     // Get module name if not provided
     let moduleName = inputModuleName;
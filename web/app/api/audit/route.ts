@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { parseMoveFile, isTestOnly, typeToString, type TypeNode } from '@move-whisperer/parser';
 
 export const runtime = 'edge';
 
@@ -49,17 +50,20 @@ function analyzeSourceCode(sourceCode: string, packageId: string, version: numbe
   const capabilities: string[] = [];
   const coinHandlers: string[] = [];
 
-  // Extract struct definitions for capabilities
-  const structPattern = /struct\s+(\w+)\s*(?:<[^>]*>)?\s*has\s+([^{]+)\{/g;
-  let match;
-  while ((match = structPattern.exec(sourceCode)) !== null) {
-    const name = match[1];
-    const abilities = match[2];
+  const file = parseMoveFile(sourceCode);
+  const structs = file.modules.flatMap((module) => module.structs).filter((s) => !isTestOnly(s));
+  const declared = file.modules
+    .flatMap((module) => module.functions)
+    .filter((fn) => !isTestOnly(fn) && !fn.isMacro);
+
+  // Struct definitions: capabilities and shared objects
+  for (const struct of structs) {
+    const name = struct.name;
     if (/Cap$|Capability|Admin|Owner|Auth/.test(name)) {
       capabilities.push(name);
     }
     // Check for shared objects without proper access control
-    if (abilities.includes('key') && abilities.includes('store')) {
+    if (struct.abilities.includes('key') && struct.abilities.includes('store')) {
       if (!/Cap|Admin|Owner/.test(name)) {
         vulnerabilities.push({
           type: 'shared-object-exposure',
@@ -72,29 +76,30 @@ function analyzeSourceCode(sourceCode: string, packageId: string, version: numbe
     }
   }
 
-  // Extract functions
-  const funcPattern = /(public\s+)?(entry\s+)?fun\s+(\w+)\s*(?:<[^>]*>)?\s*\(([^)]*)\)/g;
-  while ((match = funcPattern.exec(sourceCode)) !== null) {
-    const isPublic = !!match[1];
-    const isEntry = !!match[2];
-    const name = match[3];
-    const params = match[4];
+  // Externally callable functions
+  for (const fn of declared) {
+    const isPublic = fn.visibility === 'public';
+    const isEntry = fn.isEntry;
+    const name = fn.name;
 
     if (!isPublic && !isEntry) continue;
 
+    const paramTypes = fn.params.map((p) => typeToString(p.type));
+    const calls = fn.body?.calls ?? [];
+
     // Detect risk level
     let risk = 'low';
     const requiredCapabilities: string[] = [];
 
     // Check for capability requirements
     for (const cap of capabilities) {
-      if (params.includes(cap) || params.includes(`&${cap}`) || params.includes(`&mut ${cap}`)) {
+      if (fn.params.some((p) => referencesType(p.type, cap))) {
         requiredCapabilities.push(cap);
       }
     }
 
     // Check for coin handling
-    if (/Coin<|Balance<|coin::|balance::/.test(params)) {
+    if (paramTypes.some((t) => /Coin<|Balance<|coin::|balance::/.test(t))) {
       coinHandlers.push(name);
       risk = 'medium';
     }
@@ -114,7 +119,7 @@ function analyzeSourceCode(sourceCode: string, packageId: string, version: numbe
     }
 
     // Check for transfer operations without proper checks
-    if (/transfer::public_transfer|transfer::share_object/.test(sourceCode.slice(match.index, match.index + 500))) {
+    if (calls.some((c) => isCallTo(c.path, 'public_transfer') || isCallTo(c.path, 'share_object'))) {
       if (requiredCapabilities.length === 0 && risk !== 'high') {
         risk = 'medium';
       }
@@ -130,9 +135,11 @@ function analyzeSourceCode(sourceCode: string, packageId: string, version: numbe
   }
 
   // Check for common vulnerabilities
+  const bodies = declared.map((fn) => fn.body?.text ?? '').join('\n');
+  const allCalls = declared.flatMap((fn) => fn.body?.calls ?? []);
 
   // Integer overflow (pre-Move 2024)
-  if (/\+\s*\d+|\*\s*\d+|-\s*\d+/.test(sourceCode) && !/checked_/.test(sourceCode)) {
+  if (/\+\s*\d+|\*\s*\d+|-\s*\d+/.test(bodies) && !allCalls.some((c) => c.path[c.path.length - 1].startsWith('checked_'))) {
     vulnerabilities.push({
       type: 'potential-overflow',
       severity: 'medium',
@@ -142,17 +149,22 @@ function analyzeSourceCode(sourceCode: string, packageId: string, version: numbe
   }
 
   // Reentrancy via public_transfer
-  if (/public_transfer.*\n.*public_transfer|transfer::public_transfer[^;]*;[^}]*transfer::public_transfer/.test(sourceCode)) {
+  const sequentialTransfers = declared.find(
+    (fn) => (fn.body?.calls ?? []).filter((c) => isCallTo(c.path, 'public_transfer')).length > 1
+  );
+  if (sequentialTransfers) {
     vulnerabilities.push({
       type: 'potential-reentrancy',
       severity: 'high',
       description: 'Multiple transfer operations in sequence may be vulnerable to reentrancy',
+      location: `fun ${sequentialTransfers.name}`,
       recommendation: 'Review transfer order and consider checks-effects-interactions pattern',
     });
   }
 
   // Flash loan vulnerability
-  if (/borrow.*return|loan/.test(sourceCode.toLowerCase())) {
+  const names = [...declared.map((fn) => fn.name), ...structs.map((s) => s.name)].join(' ').toLowerCase();
+  if (/loan/.test(names) || (/borrow/.test(names) && /repay|return/.test(names))) {
     vulnerabilities.push({
       type: 'flash-loan-pattern',
       severity: 'medium',
@@ -204,6 +216,26 @@ function analyzeSourceCode(sourceCode: string, packageId: string, version: numbe
   };
 }
 
+/**
+ * Whether a type mentions a struct by name (through references and type arguments)
+ */
+function referencesType(type: TypeNode, name: string): boolean {
+  switch (type.kind) {
+    case 'ref':
+      return referencesType(type.inner, name);
+    case 'tuple':
+      return type.elements.some((t) => referencesType(t, name));
+    case 'lambda':
+      return type.params.some((t) => referencesType(t, name)) || referencesType(type.returns, name);
+    case 'path':
+      return type.path[type.path.length - 1] === name || type.typeArgs.some((t) => referencesType(t, name));
+  }
+}
+
+function isCallTo(path: string[], name: string): boolean {
+  return path[path.length - 1] === name;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body: AuditRequest = await request.json();
@@ -1,14 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import { createSuiClient, isValidNetwork } from '@/lib/networks';
 
 export const runtime = 'edge';
 
-const NETWORK_URLS: Record<string, string> = {
-  mainnet: 'https://fullnode.mainnet.sui.io',
-  testnet: 'https://fullnode.testnet.sui.io',
-  devnet: 'https://fullnode.devnet.sui.io',
-};
-
 type SkillScene = 'sdk' | 'learn' | 'audit' | 'frontend' | 'bot' | 'docs' | 'custom';
 
 interface CustomSceneConfig {
@@ -19,7 +13,7 @@ interface CustomSceneConfig {
 
 interface GenerateRequest {
   input: string;
-  network: 'mainnet' | 'testnet' | 'devnet';
+  network: string;
   scene?: SkillScene;
   customScene?: CustomSceneConfig;
 }
@@ -33,6 +27,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Input is required' }, { status: 400 });
     }
 
+    if (!isValidNetwork(network)) {
+      return NextResponse.json({ error: 'Invalid network' }, { status: 400 });
+    }
+
     // Parse input
     const parts = input.split('::');
     const packageId = parts[0];
@@ -46,52 +44,35 @@ export async function POST(request: NextRequest) {
     }
 
     // Create client
-    const client = new SuiJsonRpcClient({ url: NETWORK_URLS[network], network });
-
-    // Fetch module ABI
-    let moduleData;
-    let actualModuleName = moduleName;
-    if (moduleName) {
-      moduleData = await client.getNormalizedMoveModule({
-        package: packageId,
-        module: moduleName,
-      });
-    } else {
-      // Get package to find modules
-      const packageObj = await client.getObject({
-        id: packageId,
-        options: { showContent: true },
-      });
-
-      if (!packageObj.data || !packageObj.data.content) {
-        return NextResponse.json(
-          { error: 'Package not found' },
-          { status: 404 }
-        );
-      }
-
-      const content = packageObj.data.content;
-      if (content.dataType !== 'package' || !content.disassembled) {
-        return NextResponse.json(
-          { error: 'Invalid package' },
-          { status: 400 }
-        );
-      }
-
-      const modules = Object.keys(content.disassembled);
-      if (modules.length === 0) {
-        return NextResponse.json(
-          { error: 'No modules found in package' },
-          { status: 404 }
-        );
-      }
-
-      // Use first module
-      actualModuleName = modules[0];
-      moduleData = await client.getNormalizedMoveModule({
-        package: packageId,
-        module: actualModuleName,
-      });
+    const client = createSuiClient(network);
+
+    // Fetch every module ABI in one package-level request, as the CLI fetcher does
+    let modules: Record<string, unknown>;
+    try {
+      modules = await client.getNormalizedMoveModulesByPackage({ package: packageId });
+    } catch {
+      return NextResponse.json(
+        { error: 'Package not found' },
+        { status: 404 }
+      );
+    }
+
+    const moduleNames = Object.keys(modules);
+    if (moduleNames.length === 0) {
+      return NextResponse.json(
+        { error: 'No modules found in package' },
+        { status: 404 }
+      );
+    }
+
+    // Use the requested module, or the first one
+    const actualModuleName = moduleName || moduleNames[0];
+    const moduleData = modules[actualModuleName];
+    if (!moduleData) {
+      return NextResponse.json(
+        { error: `Module ${actualModuleName} not found in package` },
+        { status: 404 }
+      );
     }
 
     // Generate skill content based on scene
@@ -23,6 +23,22 @@ interface UserFeedback {
   businessContext?: string;
 }
 
+type FactSource = 'abi' | 'source' | 'user' | 'llm' | 'regex';
+
+interface FactProvenance {
+  source: FactSource;
+  confidence: number;
+  evidence: string[];
+}
+
+interface AnalysisConflict {
+  subject: string;
+  field: string;
+  chosen: { value: unknown; source: FactSource };
+  rejected: Array<{ value: unknown; source: FactSource }>;
+  reason: string;
+}
+
 interface ContractAnalysis {
   purpose: {
     summary: string;
@@ -47,6 +63,7 @@ interface ContractAnalysis {
     mapping: Record<string, { name: string; description: string; commonTypes: string[] }>;
     confidence: number;
     inferredFrom: string[];
+    provenance?: Record<string, FactProvenance>;
   };
   errorCodes: Array<{
     name: string;
@@ -65,8 +82,11 @@ interface ContractAnalysis {
   confidence: number;
   fallbackUsed: boolean;
   analysisSource: 'claude' | 'regex' | 'hybrid';
+  conflicts?: AnalysisConflict[];
 }
 
+const USER_FACT: FactProvenance = { source: 'user', confidence: 1, evidence: ['review correction'] };
+
 interface MergedAnalysis extends ContractAnalysis {
   userFeedback: UserFeedback;
   userCorrected: boolean;
@@ -87,12 +107,22 @@ function mergeAnalysisWithFeedback(
 ): MergedAnalysis {
   const merged: MergedAnalysis = {
     ...analysis,
+    generics: { ...analysis.generics, mapping: { ...analysis.generics.mapping } },
+    conflicts: [...(analysis.conflicts ?? [])],
     userFeedback: feedback,
     userCorrected: false,
   };
+  const inferredSource = (analysis.analysisSource === 'regex' ? 'regex' : 'llm') as FactSource;
 
   // Apply purpose correction
   if (feedback.purpose && !feedback.purpose.confirmed && feedback.purpose.correction) {
+    merged.conflicts!.push({
+      subject: 'purpose',
+      field: 'summary',
+      chosen: { value: feedback.purpose.correction, source: 'user' },
+      rejected: [{ value: analysis.purpose.summary, source: inferredSource }],
+      reason: 'corrected during review',
+    });
     merged.purpose = {
       ...merged.purpose,
       summary: feedback.purpose.correction,
@@ -105,7 +135,16 @@ function mergeAnalysisWithFeedback(
   if (feedback.generics && !feedback.generics.confirmed && feedback.generics.corrections) {
     for (const [key, value] of Object.entries(feedback.generics.corrections)) {
       if (merged.generics.mapping[key]) {
+        const previous = merged.generics.provenance?.[key];
+        merged.conflicts!.push({
+          subject: `generic:${key}`,
+          field: 'name',
+          chosen: { value: value.name, source: 'user' },
+          rejected: [{ value: merged.generics.mapping[key].name, source: previous?.source ?? inferredSource }],
+          reason: 'corrected during review',
+        });
         merged.generics.mapping[key] = value;
+        merged.generics.provenance = { ...merged.generics.provenance, [key]: USER_FACT };
         merged.userCorrected = true;
       }
     }
@@ -1,16 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import { createSuiClient, isValidNetwork } from '@/lib/networks';
 
 export const runtime = 'edge';
 
-type Network = 'mainnet' | 'testnet' | 'devnet';
-
-const NETWORK_URLS: Record<Network, string> = {
-  mainnet: 'https://fullnode.mainnet.sui.io',
-  testnet: 'https://fullnode.testnet.sui.io',
-  devnet: 'https://fullnode.devnet.sui.io',
-};
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json() as { input?: string; network?: string };
@@ -24,7 +16,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate network
-    if (!NETWORK_URLS[network as Network]) {
+    if (!isValidNetwork(network)) {
       return NextResponse.json(
         { error: 'Invalid network' },
         { status: 400 }
@@ -43,7 +35,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create Sui client
-    const client = new SuiJsonRpcClient({ url: NETWORK_URLS[network as Network], network: network as Network });
+    const client = createSuiClient(network);
 
     // Fetch package object
     const packageObject = await client.getObject({
@@ -5,12 +5,13 @@
  */
 
 import { NextResponse } from 'next/server';
+import { isValidNetwork, listNetworkNames, rpcFetch } from '@/lib/networks';
 
 export const runtime = 'edge';
 
 interface TransactionSkillRequest {
   digest: string;
-  network: 'mainnet' | 'testnet' | 'devnet';
+  network: string;
   options?: {
     language?: 'en' | 'zh';
     includeScripts?: boolean;
@@ -18,12 +19,6 @@ interface TransactionSkillRequest {
   };
 }
 
-const RPC_URLS: Record<string, string> = {
-  mainnet: 'https://fullnode.mainnet.sui.io:443',
-  testnet: 'https://fullnode.testnet.sui.io:443',
-  devnet: 'https://fullnode.devnet.sui.io:443',
-};
-
 export async function POST(request: Request) {
   try {
     const body = await request.json() as TransactionSkillRequest;
@@ -36,33 +31,28 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!network || !RPC_URLS[network]) {
+    if (!isValidNetwork(network)) {
       return NextResponse.json(
-        { error: 'Valid network (mainnet/testnet/devnet) is required' },
+        { error: `Valid network (${listNetworkNames().join('/')}) is required` },
         { status: 400 }
       );
     }
 
     // Fetch transaction from Sui RPC
-    const rpcUrl = RPC_URLS[network];
-    const response = await fetch(rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'sui_getTransactionBlock',
-        params: [
-          digest,
-          {
-            showInput: true,
-            showEffects: true,
-            showEvents: true,
-            showObjectChanges: true,
-            showBalanceChanges: true,
-          },
-        ],
-      }),
+    const response = await rpcFetch(network, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'sui_getTransactionBlock',
+      params: [
+        digest,
+        {
+          showInput: true,
+          showEffects: true,
+          showEvents: true,
+          showObjectChanges: true,
+          showBalanceChanges: true,
+        },
+      ],
     });
 
     if (!response.ok) {
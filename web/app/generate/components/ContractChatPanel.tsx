@@ -301,7 +301,7 @@ export default function PlaygroundPanel({
           </span>
           {backendMode !== 'none' && (
             <span className="text-[10px] font-mono-cyber text-muted-foreground px-2 py-0.5 rounded border border-[rgba(255,255,255,0.1)] bg-[rgba(255,255,255,0.03)]">
-              {backendMode === 'anthropic-api' ? 'API' : 'CLI'}
+              {backendMode === 'anthropic-api' ? 'API' : 'Local'}
             </span>
           )}
         </div>
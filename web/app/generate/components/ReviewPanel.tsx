@@ -20,6 +20,16 @@ interface ErrorCode {
   category: 'permission' | 'validation' | 'state' | 'math' | 'other';
 }
 
+type FactSource = 'abi' | 'source' | 'user' | 'llm' | 'regex';
+
+interface AnalysisConflict {
+  subject: string;
+  field: string;
+  chosen: { value: unknown; source: FactSource };
+  rejected: Array<{ value: unknown; source: FactSource }>;
+  reason: string;
+}
+
 interface ContractAnalysis {
   purpose: {
     summary: string;
@@ -46,8 +56,12 @@ interface ContractAnalysis {
   confidence: number;
   fallbackUsed: boolean;
   analysisSource: 'claude' | 'regex' | 'hybrid';
+  conflicts?: AnalysisConflict[];
 }
 
+const formatFactValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
 interface UserFeedback {
   purpose: {
     confirmed: boolean;
@@ -141,6 +155,7 @@ export default function ReviewPanel({ analysis, onConfirm, onCancel }: ReviewPan
   const adminFuncCount = analysis.security.adminFunctions.length;
   const errorCodeCount = analysis.errorCodes.length;
   const genericCount = Object.keys(analysis.generics.mapping).length;
+  const conflicts = analysis.conflicts ?? [];
 
   return (
     <div className="glass-panel rounded p-6 space-y-6 hud-corners">
@@ -405,6 +420,40 @@ export default function ReviewPanel({ analysis, onConfirm, onCancel }: ReviewPan
         </div>
       )}
 
+      {/* Disagreements between analysis sources */}
+      {conflicts.length > 0 && (
+        <div className="border border-[rgba(var(--neon-amber-rgb),0.2)] rounded p-4 space-y-3">
+          <h3 className="font-medium font-mono-cyber flex items-center gap-2">
+            <svg className="w-4 h-4 text-[var(--neon-amber)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86a2 2 0 001.73-3L13.73 4a2 2 0 00-3.46 0L3.34 16a2 2 0 001.73 3z" />
+            </svg>
+            {t('review.conflicts.title')} ({t('review.conflicts.count', { count: conflicts.length })})
+          </h3>
+          <p className="text-xs text-muted-foreground font-mono-cyber">{t('review.conflicts.description')}</p>
+
+          <div className="max-h-48 overflow-y-auto space-y-2">
+            {conflicts.map((conflict, i) => (
+              <div key={`${conflict.subject}.${conflict.field}.${i}`} className="text-xs font-mono-cyber space-y-0.5">
+                <div>
+                  <code className="px-1.5 py-0.5 rounded bg-[rgba(var(--neon-amber-rgb),0.08)] border border-[rgba(var(--neon-amber-rgb),0.15)] text-[var(--neon-amber)]">
+                    {conflict.subject}.{conflict.field}
+                  </code>
+                </div>
+                <div className="text-[var(--neon-green)]">
+                  {t('review.conflicts.kept')}: {formatFactValue(conflict.chosen.value)} ({conflict.chosen.source})
+                </div>
+                {conflict.rejected.map((rejected, j) => (
+                  <div key={j} className="text-muted-foreground line-through">
+                    {formatFactValue(rejected.value)} ({rejected.source})
+                  </div>
+                ))}
+                <div className="text-muted-foreground">{conflict.reason}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Business Context */}
       <div className="border border-[rgba(var(--neon-cyan-rgb),0.1)] rounded p-4 space-y-3">
         <h3 className="font-medium font-mono-cyber flex items-center gap-2">
@@ -160,12 +160,13 @@ export function usePlayground(options: UsePlaygroundOptions): UsePlaygroundRetur
 
   // Detect available backend on mount / when connection changes
   useEffect(() => {
-    const hasClaudeCli = localServerHealth?.tools?.some(
+    // Older servers only report the Claude CLI tool
+    const hasLocalLLM = localServerHealth?.llm?.available ?? localServerHealth?.tools?.some(
       (t) => t.name === 'claude' && t.available
     );
 
-    if (isLocalServerConnected && hasClaudeCli) {
-      setBackendMode('local-claude');
+    if (isLocalServerConnected && hasLocalLLM) {
+      setBackendMode('local-server');
     } else {
       setBackendMode('anthropic-api');
     }
@@ -192,8 +193,8 @@ export function usePlayground(options: UsePlaygroundOptions): UsePlaygroundRetur
 
       try {
         if (isLocalServerConnected) {
-          // Local server available — use Claude CLI directly
-          setBackendMode('local-claude');
+          // Local server available — use its configured LLM provider
+          setBackendMode('local-server');
           await sendViaLocalServer(
             apiMessages,
             context,
@@ -213,7 +214,7 @@ export function usePlayground(options: UsePlaygroundOptions): UsePlaygroundRetur
             setBackendMode('none');
             removeLastMessage();
             setError(
-              'No AI backend available. Start the local server (pnpm run serve) to use Claude CLI.'
+              'No AI backend available. Start the local server (pnpm run serve) to use a local LLM provider.'
             );
             setStreaming(false);
             return;
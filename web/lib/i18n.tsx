@@ -70,6 +70,12 @@ const translations: Record<string, { en: string; zh: string }> = {
   'review.errors.generateGuide': { en: 'Generate troubleshooting guide (errors.md)', zh: '生成故障排除指南 (errors.md)' },
   'review.errors.includeInSkill': { en: 'Include common error handling in SKILL.md', zh: '在 SKILL.md 中包含常见错误处理' },
 
+  // ReviewPanel: Disagreements
+  'review.conflicts.title': { en: 'Disagreements', zh: '分析分歧' },
+  'review.conflicts.count': { en: '{count} total', zh: '{count} 个' },
+  'review.conflicts.description': { en: 'Where AI, pattern matching and the declared ABI disagreed. Declared facts always win.', zh: 'AI、模式匹配与声明的 ABI 之间的分歧。以声明的事实为准。' },
+  'review.conflicts.kept': { en: 'Kept', zh: '采用' },
+
   // ReviewPanel: Business Context
   'review.context.title': { en: 'Business Context (Optional)', zh: '补充业务上下文 (可选)' },
   'review.context.placeholder': { en: 'Add any business information AI could not infer, e.g.: protocol name, business logic, special notes...', zh: '添加任何 AI 未能推断的业务信息，如：协议名称、业务逻辑、特殊说明等...' },
@@ -21,6 +21,12 @@ export interface ServerHealth {
     available: boolean;
     version: string | null;
   }[];
+  /** LLM provider behind /api/chat and the analysis endpoints */
+  llm?: {
+    provider: 'anthropic' | 'claude-cli' | 'openai' | 'mock';
+    model: string;
+    available: boolean;
+  };
 }
 
 export interface DecompileResult {
@@ -0,0 +1,172 @@
+/**
+ * Network profiles for the API routes
+ *
+ * Built-in networks plus custom profiles from the MOVE_WHISPERER_NETWORKS
+ * environment variable, using the same shape as the CLI config file:
+ *   {"private-mainnet": {"rpc": ["https://rpc-1.example.com", "https://fullnode.mainnet.sui.io"], "chain": "mainnet"}}
+ */
+
+import { SuiJsonRpcClient, JsonRpcHTTPTransport } from '@mysten/sui/jsonRpc';
+
+export type BuiltinNetwork = 'mainnet' | 'testnet' | 'devnet' | 'localnet';
+
+export interface NetworkProfile {
+  name: string;
+  rpc: string[];
+  graphql: string[];
+  chain?: BuiltinNetwork;
+}
+
+const BUILTIN_PROFILES: Record<BuiltinNetwork, NetworkProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    rpc: ['https://fullnode.mainnet.sui.io'],
+    graphql: ['https://sui-mainnet.mystenlabs.com/graphql'],
+    chain: 'mainnet',
+  },
+  testnet: {
+    name: 'testnet',
+    rpc: ['https://fullnode.testnet.sui.io'],
+    graphql: ['https://sui-testnet.mystenlabs.com/graphql'],
+    chain: 'testnet',
+  },
+  devnet: {
+    name: 'devnet',
+    rpc: ['https://fullnode.devnet.sui.io'],
+    graphql: ['https://sui-devnet.mystenlabs.com/graphql'],
+    chain: 'devnet',
+  },
+  localnet: {
+    name: 'localnet',
+    rpc: ['http://127.0.0.1:9000'],
+    graphql: ['http://127.0.0.1:9125/graphql'],
+    chain: 'localnet',
+  },
+};
+
+// HTTP statuses that indicate the endpoint (not the request) is the problem
+const FAILOVER_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const ENDPOINT_TIMEOUT_MS = 15000;
+
+let profiles: Record<string, NetworkProfile> | null = null;
+
+function toList(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  return [];
+}
+
+function loadProfiles(): Record<string, NetworkProfile> {
+  const result: Record<string, NetworkProfile> = { ...BUILTIN_PROFILES };
+  const raw = process.env.MOVE_WHISPERER_NETWORKS;
+  if (!raw) return result;
+
+  try {
+    const custom = JSON.parse(raw) as Record<string, { rpc?: unknown; graphql?: unknown; chain?: BuiltinNetwork }>;
+    for (const [name, profile] of Object.entries(custom)) {
+      const rpc = toList(profile.rpc);
+      if (rpc.length === 0) {
+        console.warn(`[networks] Skipping "${name}": no RPC endpoints`);
+        continue;
+      }
+      const builtin = result[name];
+      result[name] = {
+        name,
+        rpc,
+        graphql: profile.graphql !== undefined ? toList(profile.graphql) : builtin?.graphql ?? [],
+        chain: profile.chain ?? builtin?.chain,
+      };
+    }
+  } catch (error) {
+    console.warn('[networks] Invalid MOVE_WHISPERER_NETWORKS:', error);
+  }
+
+  return result;
+}
+
+function getProfiles(): Record<string, NetworkProfile> {
+  if (!profiles) {
+    profiles = loadProfiles();
+  }
+  return profiles;
+}
+
+/**
+ * List all known network names
+ */
+export function listNetworkNames(): string[] {
+  return Object.keys(getProfiles());
+}
+
+/**
+ * Check whether a network name refers to a known profile
+ */
+export function isValidNetwork(network: unknown): network is string {
+  return typeof network === 'string' && network in getProfiles();
+}
+
+/**
+ * Get the profile for a network
+ */
+export function getNetworkProfile(network: string): NetworkProfile | undefined {
+  return getProfiles()[network];
+}
+
+/**
+ * Fetch that tries each RPC endpoint of a network in order, moving on after
+ * connection errors, timeouts and 5xx/429 responses
+ */
+export function createFailoverFetch(network: string): typeof fetch {
+  const endpoints = getNetworkProfile(network)?.rpc ?? BUILTIN_PROFILES.mainnet.rpc;
+
+  return async (_input, init) => {
+    let lastError: unknown;
+    let lastResponse: Response | undefined;
+
+    for (const url of endpoints) {
+      try {
+        const response = await fetch(url, {
+          ...init,
+          signal: init?.signal ?? AbortSignal.timeout(ENDPOINT_TIMEOUT_MS),
+        });
+        if (FAILOVER_STATUSES.has(response.status)) {
+          lastResponse = response;
+          continue;
+        }
+        return response;
+      } catch (error) {
+        if (init?.signal?.aborted) throw error;
+        lastError = error;
+      }
+    }
+
+    if (lastResponse) return lastResponse;
+    throw lastError;
+  };
+}
+
+/**
+ * Send a raw JSON-RPC request to a network with endpoint failover
+ */
+export function rpcFetch(network: string, body: unknown): Promise<Response> {
+  const endpoints = getNetworkProfile(network)?.rpc ?? BUILTIN_PROFILES.mainnet.rpc;
+  return createFailoverFetch(network)(endpoints[0], {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Create a JSON-RPC client for a network with endpoint failover
+ */
+export function createSuiClient(network: string): SuiJsonRpcClient {
+  const profile = getNetworkProfile(network) ?? BUILTIN_PROFILES.mainnet;
+  return new SuiJsonRpcClient({
+    network: profile.chain ?? 'mainnet',
+    transport: new JsonRpcHTTPTransport({
+      url: profile.rpc[0],
+      fetch: createFailoverFetch(profile.name),
+    }),
+  });
+}
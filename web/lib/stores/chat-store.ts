@@ -13,7 +13,7 @@ export interface ChatMessage {
   isStreaming?: boolean;
 }
 
-export type BackendMode = 'anthropic-api' | 'local-claude' | 'none';
+export type BackendMode = 'anthropic-api' | 'local-server' | 'none';
 
 interface ChatState {
   messages: ChatMessage[];
@@ -7,6 +7,18 @@ if (process.env.NODE_ENV === 'development') {
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // The Move parser lives in ../src and is shared with the CLI
+    externalDir: true,
+  },
+  webpack: (config) => {
+    // Shared sources use NodeNext-style `.js` import specifiers for `.ts` files
+    config.resolve.extensionAlias = {
+      ...config.resolve.extensionAlias,
+      '.js': ['.ts', '.js'],
+    };
+    return config;
+  },
 };
 
 export default nextConfig;